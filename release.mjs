@@ -1,163 +1,182 @@
-import { readFileSync, writeFileSync, existsSync } from "fs";
+/**
+ * Bumps the version, updates the changelog, then commits, tags and pushes the release.
+ *
+ * Usage: node release.mjs [patch|minor|major|prepatch|preminor|premajor|prerelease|beta] [--dry-run]
+ *
+ * Before changing anything, checks that the working tree is clean, the current branch is main,
+ * the tag doesn't exist yet, main.js and styles.css are built from the current sources and the
+ * tests pass. With --dry-run, prints the diff of every file and the commands instead of running them.
+ * If a step fails before the push, the release commit is undone and the files are restored.
+ */
+
+import { existsSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
 import { execSync } from "child_process";
 import debug from "debug";
 import process from "process";
+import { importTs } from "./scripts/lib/importTs.mjs";
 
 const log = debug("dot-navigator:release");
+debug.enable(process.env.DEBUG || "dot-navigator:*");
+
+const RELEASE_BRANCH = "main";
+const RELEASE_FILES = ["package.json", "package-lock.json", "manifest.json", "versions.json", "beta-manifest.json"];
+const BUILD_ARTIFACTS = ["main.js", "styles.css"];
+// What the build artifacts are built from
+const BUILD_SOURCES = ["src", "esbuild.config.mjs"];
+
+const { VERSION_TYPES, bumpVersion, findStaleArtifacts, formatDiff, getReleaseChanges } = await importTs("scripts/lib/release.ts");
+
+function parseArgs(args) {
+	const options = { versionType: "patch", dryRun: false };
+	for (const arg of args) {
+		if (arg === "--dry-run") {
+			options.dryRun = true;
+		} else if (VERSION_TYPES.includes(arg)) {
+			options.versionType = arg;
+		} else {
+			log(`Error: Invalid argument "${arg}". Valid version types are: ${VERSION_TYPES.join(", ")}`);
+			process.exit(1);
+		}
+	}
+	return options;
+}
 
-// Get version type from command line arguments (patch, minor, major)
-// Default to patch if not specified
-const args = process.argv.slice(2);
-const versionType = args[0] || "patch";
-const validTypes = [
-	"patch",
-	"minor",
-	"major",
-	"prepatch",
-	"preminor",
-	"premajor",
-	"prerelease",
-	"beta",
-];
-
-if (!validTypes.includes(versionType)) {
-	log(
-		`Error: Invalid version type "${versionType}". Valid types are: ${validTypes.join(
-			", "
-		)}`
-	);
-	process.exit(1);
+function git(args) {
+	return execSync(`git ${args}`, { encoding: "utf8" }).trim();
 }
 
-// Get current version from package.json
-const packageJson = JSON.parse(readFileSync("package.json", "utf8"));
-const currentVersion = packageJson.version;
+function listFiles(path) {
+	if (!existsSync(path)) return [];
+	if (!statSync(path).isDirectory()) return [path];
+	return readdirSync(path).flatMap((name) => listFiles(join(path, name)));
+}
 
-// Calculate new version
-// Extract base version (major.minor.patch) and handle beta separately
-const baseVersionMatch = currentVersion.match(/^(\d+)\.(\d+)\.(\d+)/);
-if (!baseVersionMatch) {
-	log(`Error: Invalid version format "${currentVersion}"`);
-	process.exit(1);
+function withMtime(path) {
+	return { path, mtime: statSync(path).mtimeMs };
 }
-let [major, minor, patch] = baseVersionMatch.slice(1, 4).map(Number);
-let betaNumber = 0;
-
-// Handle beta versions
-if (versionType === "beta") {
-	// If current version is already a beta, increment beta number
-	if (currentVersion.includes("-beta.")) {
-		const betaMatch = currentVersion.match(/-beta\.(\d+)$/);
-		if (betaMatch) {
-			betaNumber = parseInt(betaMatch[1]) + 1;
-		}
-	} else {
-		// If not a beta, increment patch and start beta at 0
-		patch++;
-		betaNumber = 0;
+
+/**
+ * Reasons not to release, the tests only run when everything else is fine
+ */
+function runPreflightChecks(targetVersion) {
+	const failures = [];
+	if (git("status --porcelain")) {
+		failures.push("The working tree has uncommitted changes");
 	}
-} else {
-	switch (versionType) {
-		case "major":
-			major++;
-			minor = 0;
-			patch = 0;
-			break;
-		case "minor":
-			minor++;
-			patch = 0;
-			break;
-		case "patch":
-		default:
-			patch++;
-			break;
+	const branch = git("rev-parse --abbrev-ref HEAD");
+	if (branch !== RELEASE_BRANCH) {
+		failures.push(`Releases are made from ${RELEASE_BRANCH}, the current branch is ${branch}`);
 	}
-}
-
-const targetVersion =
-	versionType === "beta"
-		? `${major}.${minor}.${patch}-beta.${betaNumber}`
-		: `${major}.${minor}.${patch}`;
-
-log(`Bumping version from ${currentVersion} to ${targetVersion}...`);
-
-// Update package.json
-packageJson.version = targetVersion;
-writeFileSync("package.json", JSON.stringify(packageJson, null, "\t") + "\n");
-
-// Update package-lock.json
-const packageLockJson = JSON.parse(readFileSync("package-lock.json", "utf8"));
-packageLockJson.version = targetVersion;
-packageLockJson.packages[""].version = targetVersion;
-writeFileSync("package-lock.json", JSON.stringify(packageLockJson, null, "\t") + "\n");
-
-// Read minAppVersion from manifest.json
-const manifest = JSON.parse(readFileSync("manifest.json", "utf8"));
-const { minAppVersion } = manifest;
-
-if (versionType === "beta") {
-	// For beta releases, update both beta-manifest.json and manifest.json
-	let betaManifest = {
-		version: targetVersion,
-		minAppVersion: minAppVersion,
-		isBeta: true,
-	};
-
-	// If beta-manifest.json exists, read it and update
-	if (existsSync("beta-manifest.json")) {
-		betaManifest = JSON.parse(readFileSync("beta-manifest.json", "utf8"));
-		betaManifest.version = targetVersion;
-		betaManifest.minAppVersion = minAppVersion;
+	if (git(`tag --list "${targetVersion}"`)) {
+		failures.push(`Tag ${targetVersion} already exists`);
 	}
-
-	writeFileSync(
-		"beta-manifest.json",
-		JSON.stringify(betaManifest, null, "\t") + "\n"
+	const stale = findStaleArtifacts(
+		BUILD_ARTIFACTS,
+		BUILD_ARTIFACTS.filter((path) => existsSync(path)).map(withMtime),
+		BUILD_SOURCES.flatMap(listFiles).map(withMtime)
 	);
-	log(`Updated beta-manifest.json with version ${targetVersion}`);
-
-	// Also update manifest.json for beta releases
-	manifest.version = targetVersion;
-	writeFileSync("manifest.json", JSON.stringify(manifest));
-	log(`Updated manifest.json with version ${targetVersion}`);
-} else {
-	// For regular releases, update manifest.json
-	manifest.version = targetVersion;
-	writeFileSync("manifest.json", JSON.stringify(manifest));
-	log(`Updated manifest.json with version ${targetVersion}`);
+	if (stale.length > 0) {
+		failures.push(`Build artifacts missing or older than the sources: ${stale.join(", ")} (run npm run build)`);
+	}
+	if (failures.length === 0) {
+		log("Running the tests...");
+		try {
+			execSync("npm test", { stdio: "inherit" });
+		} catch {
+			failures.push("The tests failed");
+		}
+	}
+	return failures;
 }
 
-// Update versions.json with target version and minAppVersion
-let versions = JSON.parse(readFileSync("versions.json", "utf8"));
-versions[targetVersion] = minAppVersion;
-writeFileSync("versions.json", JSON.stringify(versions, null, "\t") + "\n");
+const { versionType, dryRun } = parseArgs(process.argv.slice(2));
+const isBeta = versionType === "beta";
+const currentVersion = JSON.parse(readFileSync("package.json", "utf8")).version;
+let targetVersion;
+try {
+	targetVersion = bumpVersion(currentVersion, versionType);
+} catch (err) {
+	log(`Error: ${err.message}`);
+	process.exit(1);
+}
+log(`${dryRun ? "[dry run] " : ""}Bumping version from ${currentVersion} to ${targetVersion}...`);
 
-log(
-	`Updated version to ${targetVersion} in package.json, package-lock.json and versions.json`
-);
-log(`Min app version is set to ${minAppVersion}`);
+const failures = runPreflightChecks(targetVersion);
+failures.forEach((failure) => console.error(`error: ${failure}`));
+if (failures.length > 0 && !dryRun) {
+	log("Release aborted, nothing was changed");
+	process.exit(1);
+}
 
-// Run post-version-bump steps
-log("Running post-version-bump steps...");
+// Content of the files before the release, null for the ones it creates
+const originals = new Map();
 
-// Generate changelog
-log("Generating changelog...");
-execSync("npm run changelog", { stdio: "inherit" });
+function remember(path) {
+	if (!originals.has(path)) originals.set(path, existsSync(path) ? readFileSync(path, "utf8") : null);
+}
 
-// Git operations
-log("Committing changes...");
-if (versionType === "beta") {
-	execSync("git add CHANGELOG.md beta-manifest.json manifest.json", { stdio: "inherit" });
-} else {
-	execSync("git add CHANGELOG.md", { stdio: "inherit" });
+function restoreFiles() {
+	originals.forEach((content, path) => {
+		if (content === null) {
+			rmSync(path, { force: true });
+		} else {
+			writeFileSync(path, content);
+		}
+	});
 }
-execSync("git add .", { stdio: "inherit" });
-execSync(`git commit -m "chore(release): ${targetVersion}"`, { stdio: "inherit" });
 
-log("Creating git tag...");
-execSync(`git tag "${targetVersion}"`, { stdio: "inherit" });
+function run(command) {
+	if (dryRun) {
+		console.log(`$ ${command}`);
+		return;
+	}
+	log(`$ ${command}`);
+	execSync(command, { stdio: "inherit" });
+}
 
-log("Pushing to remote...");
-execSync("git push origin HEAD --tags", { stdio: "inherit" });
+const files = Object.fromEntries(RELEASE_FILES.map((path) => [path, existsSync(path) ? readFileSync(path, "utf8") : null]));
+const changes = getReleaseChanges(files, targetVersion, isBeta);
+const { minAppVersion } = JSON.parse(files["manifest.json"]);
+log(`Min app version is set to ${minAppVersion}`);
 
+let committed = false;
+try {
+	for (const change of changes) {
+		if (dryRun) {
+			console.log(`${formatDiff(change)}\n`);
+		} else {
+			remember(change.path);
+			writeFileSync(change.path, change.after);
+			log(`Updated ${change.path}`);
+		}
+	}
+
+	remember("CHANGELOG.md");
+	run("npm run changelog");
+	run(`git add CHANGELOG.md ${changes.map((change) => change.path).join(" ")}`);
+	run(`git commit -m "chore(release): ${targetVersion}"`);
+	committed = !dryRun;
+	run(`git tag "${targetVersion}"`);
+} catch (err) {
+	log(`Release failed: ${err.message}`);
+	log("Rolling back...");
+	// The working tree was clean: resetting the index only drops what the release staged
+	execSync(`git reset --quiet ${committed ? "HEAD~1" : "HEAD"}`, { stdio: "inherit" });
+	restoreFiles();
+	log("Files restored, nothing was released");
+	process.exit(1);
+}
+
+try {
+	run("git push origin HEAD --tags");
+} catch {
+	log(`Push failed: the release commit and tag ${targetVersion} are only local, push them with "git push origin HEAD --tags"`);
+	process.exit(1);
+}
+
+if (dryRun) {
+	log(`[dry run] Nothing was changed${failures.length > 0 ? `, ${failures.length} pre-flight check(s) failed` : ""}`);
+	process.exit(failures.length > 0 ? 1 : 0);
+}
 log(`Successfully released version ${targetVersion}!`);
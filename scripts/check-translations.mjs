@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * Checks that every locale in src/i18n matches the English translations and the keys used in src/.
+ *
+ * Usage: node scripts/check-translations.mjs [--min-coverage=<percent>] [--fail-on-unused]
+ *
+ * Exits with code 1 when a locale is below the minimum coverage (100% by default), has extra keys
+ * or placeholder mismatches, or when src/ calls t() with a key missing from en.ts.
+ */
+
+import { readdirSync, readFileSync, statSync } from "fs";
+import { join, relative } from "path";
+import process from "process";
+import debug from "debug";
+import { importTs } from "./lib/importTs.mjs";
+
+const log = debug("dot-navigator:check-translations");
+debug.enable(process.env.DEBUG || "dot-navigator:*");
+
+const I18N_DIR = "src/i18n";
+const LOCALE_FILE = /^[a-z]{2,3}(-[A-Za-z]{2,4})?\.ts$/;
+// Keys only used by tests/i18n.test.ts
+const IGNORED_UNUSED_KEYS = ["testKey"];
+
+function listFiles(dir) {
+	return readdirSync(dir).flatMap((name) => {
+		const path = join(dir, name);
+		return statSync(path).isDirectory() ? listFiles(path) : [path];
+	});
+}
+
+function parseArgs(args) {
+	const options = { failOnUnused: false, ignoredUnusedKeys: IGNORED_UNUSED_KEYS };
+	for (const arg of args) {
+		if (arg === "--fail-on-unused") {
+			options.failOnUnused = true;
+		} else if (arg.startsWith("--min-coverage=")) {
+			options.minCoverage = Number(arg.split("=")[1]);
+		} else {
+			log(`Unknown argument "${arg}"`);
+			process.exit(2);
+		}
+	}
+	return options;
+}
+
+const options = parseArgs(process.argv.slice(2));
+const { checkTranslations, evaluateReport } = await importTs("scripts/lib/translationCoverage.ts");
+
+const translations = {};
+for (const file of readdirSync(I18N_DIR).filter((name) => LOCALE_FILE.test(name))) {
+	translations[file.replace(/\.ts$/, "")] = (await importTs(join(I18N_DIR, file))).default;
+}
+
+const sources = listFiles("src")
+	.filter((path) => /\.tsx?$/.test(path) && !LOCALE_FILE.test(relative(I18N_DIR, path)))
+	.map((path) => ({ path, content: readFileSync(path, "utf8") }));
+
+const report = checkTranslations(translations, sources, "en");
+const { errors, warnings } = evaluateReport(report, options);
+
+report.locales.forEach((locale) => log(`${locale.locale}: ${locale.coverage}% translated`));
+warnings.forEach((warning) => console.warn(`warning: ${warning}`));
+errors.forEach((error) => console.error(`error: ${error}`));
+
+if (errors.length > 0) {
+	console.error(`Translation check failed with ${errors.length} error(s)`);
+	process.exit(1);
+}
+log("Translation check passed");
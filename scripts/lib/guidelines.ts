@@ -0,0 +1,262 @@
+/**
+ * Rules of the Obsidian community plugin review guidelines, checked by PluginValidator on the
+ * sources of src/, manifest.json and versions.json.
+ *
+ * Like translationCoverage.ts, this module is free of any file system access: PluginValidator
+ * reads the files, the tests pass them directly.
+ */
+
+import type { IssueSeverity, Manifest } from './pluginValidator';
+import type { SourceFile } from './translationCoverage';
+
+export type GuidelineRuleId =
+    | 'no-inner-html'
+    | 'no-hardcoded-config-dir'
+    | 'no-console-log'
+    | 'no-plugin-id-in-command-id'
+    | 'no-default-hotkeys'
+    | 'no-inline-styles'
+    | 'valid-urls'
+    | 'min-app-version'
+    | 'versions-json';
+
+export interface GuidelineProject {
+    manifest: Manifest;
+    manifestContent: string;
+    /** Sources of src/, with paths relative to the project root */
+    sources: SourceFile[];
+    /** Content of versions.json, null when the file is missing */
+    versions: string | null;
+}
+
+export interface GuidelineIssue {
+    rule: GuidelineRuleId;
+    severity: IssueSeverity;
+    message: string;
+    file?: string;
+    line?: number;
+}
+
+type Finding = Omit<GuidelineIssue, 'rule' | 'severity'>;
+
+export interface GuidelineRule {
+    id: GuidelineRuleId;
+    description: string;
+    severity: IssueSeverity;
+    check(project: GuidelineProject): Finding[];
+}
+
+/** Rules to run: every rule is enabled unless set to false */
+export type GuidelineRuleToggles = Partial<Record<GuidelineRuleId, boolean>>;
+
+/**
+ * APIs more recent than the oldest supported app, with the version that added them
+ * (from the CHANGELOG of the `obsidian` package)
+ */
+export const API_VERSIONS: { api: string; pattern: RegExp; since: string }[] = [
+    { api: 'Workspace#activeEditor', pattern: /\.activeEditor\b/, since: '1.1.1' },
+    { api: 'Plugin#registerHoverLinkSource', pattern: /\.registerHoverLinkSource\(/, since: '1.1.0' },
+    { api: 'FileManager#processFrontMatter', pattern: /\.processFrontMatter\(/, since: '1.1.0' },
+    { api: 'CachedMetadata#frontmatterLinks', pattern: /\.frontmatterLinks\b/, since: '1.4.0' },
+    { api: 'setTooltip', pattern: /(?<![.\w])setTooltip\(/, since: '1.4.4' },
+    { api: 'ProgressBarComponent', pattern: /\bProgressBarComponent\b/, since: '1.4.4' },
+    { api: 'AbstractInputSuggest', pattern: /\bAbstractInputSuggest\b/, since: '1.4.10' },
+    { api: 'Plugin#onExternalSettingsChange', pattern: /\bonExternalSettingsChange\b/, since: '1.5.7' },
+    { api: 'Vault#getFileByPath', pattern: /\.getFileByPath\(/, since: '1.5.7' },
+    { api: 'Vault#getFolderByPath', pattern: /\.getFolderByPath\(/, since: '1.5.7' },
+    { api: 'getFrontMatterInfo', pattern: /\bgetFrontMatterInfo\(/, since: '1.5.7' },
+    { api: 'FileManager#getAvailablePathForAttachment', pattern: /\.getAvailablePathForAttachment\(/, since: '1.5.7' },
+    { api: 'Workspace#ensureSideLeaf', pattern: /\.ensureSideLeaf\(/, since: '1.7.2' },
+    { api: 'WorkspaceLeaf#isDeferred', pattern: /\.isDeferred\b/, since: '1.7.2' },
+    { api: 'WorkspaceLeaf#loadIfDeferred', pattern: /\.loadIfDeferred\(/, since: '1.7.2' },
+    { api: 'Plugin#removeCommand', pattern: /\.removeCommand\(/, since: '1.7.2' },
+];
+
+/**
+ * Compare two `x.y.z` versions, negative when `a` is older than `b`
+ */
+export function compareVersions(a: string, b: string): number {
+    const partsA = a.split('.').map(Number);
+    const partsB = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+}
+
+/**
+ * Line of the `"field":` key in a JSON file, if any
+ */
+export function findFieldLine(content: string, field: string): number | undefined {
+    const index = content.split('\n').findIndex(line => line.includes(`"${field}"`) && /"\s*:/.test(line));
+    return index >= 0 ? index + 1 : undefined;
+}
+
+/**
+ * Matches of a pattern in the sources, ignoring the ones in comments
+ */
+function findInSources(sources: SourceFile[], pattern: RegExp, message: (match: RegExpMatchArray) => string): Finding[] {
+    const findings: Finding[] = [];
+    const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+    for (const source of sources) {
+        const lines = source.content.split('\n');
+        for (const match of source.content.matchAll(global)) {
+            const line = source.content.slice(0, match.index ?? 0).split('\n').length;
+            if (/^\s*(\/\/|\/?\*)/.test(lines[line - 1])) continue;
+            findings.push({ message: message(match), file: source.path, line });
+        }
+    }
+    return findings;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function checkUrls({ manifest, manifestContent }: GuidelineProject): Finding[] {
+    const fields = ['authorUrl', 'fundingUrl'] as const;
+    return fields
+        .filter(field => manifest[field])
+        .filter(field => {
+            try {
+                return !['http:', 'https:'].includes(new URL(manifest[field] ?? '').protocol);
+            } catch {
+                return true;
+            }
+        })
+        .map(field => ({
+            message: `${field} is not a valid http(s) URL: "${manifest[field]}"`,
+            file: 'manifest.json',
+            line: findFieldLine(manifestContent, field),
+        }));
+}
+
+/**
+ * Whether a source checks that an API exists before using it, with `typeof x.api === 'function'`
+ * or `'api' in x`: older apps then skip the call instead of failing
+ */
+function isFeatureDetected(source: SourceFile, api: string): boolean {
+    const member = escapeRegExp(api.split('#').pop() ?? api);
+    return new RegExp(`\\btypeof\\s+[\\w.]+\\.${member}\\s*[!=]==?\\s*['"]function['"]|['"]${member}['"]\\s+in\\b`).test(source.content);
+}
+
+function checkMinAppVersion({ manifest, manifestContent, sources }: GuidelineProject): Finding[] {
+    const { minAppVersion } = manifest;
+    if (!minAppVersion) return [];
+    return API_VERSIONS
+        .filter(({ since }) => compareVersions(since, minAppVersion) > 0)
+        .map(({ api, pattern, since }) => findInSources(sources.filter(source => !isFeatureDetected(source, api)), pattern,
+            () => `${api} requires Obsidian ${since} but minAppVersion is ${minAppVersion} (manifest.json:${findFieldLine(manifestContent, 'minAppVersion') ?? 1})`)[0])
+        .filter((finding): finding is Finding => finding !== undefined);
+}
+
+function checkVersionsJson({ manifest, versions }: GuidelineProject): Finding[] {
+    const file = 'versions.json';
+    if (versions === null) {
+        return [{ message: 'versions.json not found: Obsidian needs it to install the right version on older apps', file }];
+    }
+    let entries: Record<string, string>;
+    try {
+        entries = JSON.parse(versions);
+    } catch (e) {
+        return [{ message: `Could not parse versions.json: ${e instanceof Error ? e.message : String(e)}`, file }];
+    }
+    if (!manifest.version || !manifest.minAppVersion) return [];
+    if (!(manifest.version in entries)) {
+        return [{ message: `versions.json has no entry for version ${manifest.version} of manifest.json`, file }];
+    }
+    if (entries[manifest.version] !== manifest.minAppVersion) {
+        return [{
+            message: `versions.json maps ${manifest.version} to ${entries[manifest.version]} but the minAppVersion of manifest.json is ${manifest.minAppVersion}`,
+            file,
+            line: findFieldLine(versions, manifest.version),
+        }];
+    }
+    return [];
+}
+
+export const GUIDELINE_RULES: GuidelineRule[] = [
+    {
+        id: 'no-inner-html',
+        description: 'No innerHTML/outerHTML assignments',
+        severity: 'error',
+        check: ({ sources }) => findInSources(sources, /\.(innerHTML|outerHTML)\s*\+?=(?!=)/,
+            match => `${match[1]} assignment: build the elements with createEl() or setText() instead`),
+    },
+    {
+        id: 'no-hardcoded-config-dir',
+        description: 'No hardcoded .obsidian config folder',
+        severity: 'error',
+        check: ({ sources }) => findInSources(sources, /(['"`])\.obsidian(\/|\1)/,
+            () => 'Hardcoded ".obsidian" folder: users can rename it, use vault.configDir instead'),
+    },
+    {
+        id: 'no-console-log',
+        description: 'No console.log in the production bundle',
+        severity: 'warning',
+        check: ({ sources }) => findInSources(sources, /\bconsole\.log\(/,
+            () => 'console.log() ends up in the production bundle: use the plugin logger (src/logger) instead'),
+    },
+    {
+        id: 'no-plugin-id-in-command-id',
+        description: 'Command IDs without the plugin ID',
+        severity: 'error',
+        check: ({ sources, manifest }) => {
+            // The manifest imported by the sources, or the id written literally
+            const idSources = ['\\b(?:pluginInfos|manifest)\\.id\\b'];
+            if (manifest.id) idSources.push(`['"\`][^'"\`\\n]*${escapeRegExp(manifest.id)}`);
+            return findInSources(sources, new RegExp(`\\bid\\s*:[^,;\\n]*(?:${idSources.join('|')})`),
+                () => `Command ID containing the plugin ID: Obsidian already prefixes command IDs with "${manifest.id ?? '<plugin-id>'}:"`);
+        },
+    },
+    {
+        id: 'no-default-hotkeys',
+        description: 'No default hotkeys for commands',
+        severity: 'error',
+        check: ({ sources }) => findInSources(sources, /\bhotkeys\s*:\s*\[\s*[^\]\s]/,
+            () => 'Default hotkey: it may conflict with the hotkeys of the user or of other plugins, let users set it'),
+    },
+    {
+        id: 'no-inline-styles',
+        description: 'No inline styles (except CSS custom properties)',
+        severity: 'error',
+        check: ({ sources }) => [
+            /\.style\.(?!setProperty\b|removeProperty\b)(\w+)\s*=(?!=)/,
+            /\.style\.setProperty\(\s*['"`](?!--)/,
+            /\.setAttribute\(\s*['"`]style['"`]/,
+        ].flatMap(pattern => findInSources(sources, pattern,
+            () => 'Inline style: themes and snippets cannot override it, use a CSS class in styles.scss, or a CSS custom property read by it, instead')),
+    },
+    {
+        id: 'valid-urls',
+        description: 'authorUrl and fundingUrl are http(s) URLs',
+        severity: 'error',
+        check: checkUrls,
+    },
+    {
+        id: 'min-app-version',
+        description: 'minAppVersion supports the Obsidian APIs used',
+        severity: 'error',
+        check: checkMinAppVersion,
+    },
+    {
+        id: 'versions-json',
+        description: 'versions.json has the version and minAppVersion of manifest.json',
+        severity: 'error',
+        check: checkVersionsJson,
+    },
+];
+
+export function isGuidelineRule(id: string): id is GuidelineRuleId {
+    return GUIDELINE_RULES.some(rule => rule.id === id);
+}
+
+/**
+ * Run the enabled rules
+ */
+export function checkGuidelines(project: GuidelineProject, toggles: GuidelineRuleToggles = {}): GuidelineIssue[] {
+    return GUIDELINE_RULES
+        .filter(rule => toggles[rule.id] !== false)
+        .flatMap(rule => rule.check(project).map(finding => ({ rule: rule.id, severity: rule.severity, ...finding })));
+}
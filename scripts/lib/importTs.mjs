@@ -0,0 +1,17 @@
+import esbuild from "esbuild";
+
+/**
+ * Import a TypeScript module by bundling it with esbuild, so the scripts run on plain Node
+ */
+export async function importTs(path) {
+	const result = await esbuild.build({
+		entryPoints: [path],
+		bundle: true,
+		write: false,
+		format: "esm",
+		platform: "node",
+		logLevel: "silent",
+	});
+	const code = Buffer.from(result.outputFiles[0].text).toString("base64");
+	return import(`data:text/javascript;base64,${code}`);
+}
@@ -0,0 +1,331 @@
+/**
+ * Checks a plugin repository against the requirements of the Obsidian community plugin list:
+ * manifest.json, required files, naming, license, build artifacts and the review guidelines
+ * (see guidelines.ts).
+ *
+ * Used by scripts/validate-plugin.mjs before a release, and by the tests under tests/validation/
+ * (which mock `fs` and `path`).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { checkGuidelines, findFieldLine, GuidelineRuleId, GuidelineRuleToggles } from './guidelines';
+import type { SourceFile } from './translationCoverage';
+
+export interface Manifest {
+    id?: string;
+    name?: string;
+    description?: string;
+    author?: string;
+    version?: string;
+    minAppVersion?: string;
+    isDesktopOnly?: boolean;
+    authorUrl?: string;
+    fundingUrl?: string;
+    helpUrl?: string;
+}
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface IssueLocation {
+    /** Path relative to the project root */
+    file: string;
+    /** 1-based line, when the issue is about a given line of the file */
+    line?: number;
+}
+
+export interface ValidationIssue extends Partial<IssueLocation> {
+    severity: IssueSeverity;
+    message: string;
+    /** Guideline rule that reported the issue */
+    rule?: GuidelineRuleId;
+}
+
+export interface ValidatorOptions {
+    /** Guideline rules to run, all of them by default */
+    rules?: GuidelineRuleToggles;
+}
+
+const MANIFEST_FILE = 'manifest.json';
+const REQUIRED_FIELDS = ['id', 'name', 'description', 'author', 'version', 'minAppVersion', 'isDesktopOnly'];
+const ALLOWED_FIELDS = [...REQUIRED_FIELDS, 'authorUrl', 'fundingUrl', 'helpUrl'];
+const REQUIRED_FILES = ['package.json'];
+const RECOMMENDED_FILES = ['README.md', 'styles.css'];
+// Files that should never be committed
+const BUILD_ARTIFACTS = ['node_modules', '.DS_Store', 'Thumbs.db'];
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+export class PluginValidator {
+    errors: string[] = [];
+    warnings: string[] = [];
+    /** Errors and warnings in the order they were found, with their location */
+    issues: ValidationIssue[] = [];
+    projectRoot: string;
+
+    constructor(projectRoot = process.cwd(), private options: ValidatorOptions = {}) {
+        this.projectRoot = projectRoot;
+    }
+
+    addIssue(issue: ValidationIssue) {
+        (issue.severity === 'error' ? this.errors : this.warnings).push(issue.message);
+        this.issues.push(issue);
+    }
+
+    addError(message: string, location?: IssueLocation) {
+        this.addIssue({ severity: 'error', message, ...location });
+    }
+
+    addWarning(message: string, location?: IssueLocation) {
+        this.addIssue({ severity: 'warning', message, ...location });
+    }
+
+    /**
+     * Run every check, returns whether no error was found
+     */
+    async validate(): Promise<boolean> {
+        try {
+            await this.validateManifest();
+            await this.validateStructure();
+            await this.validateNaming();
+            await this.validateLicense();
+            await this.validateBuildArtifacts();
+            await this.validateGuidelines();
+
+            return this.errors.length === 0;
+        } catch (err) {
+            this.addError(`Validation failed with error: ${errorMessage(err)}`);
+            return false;
+        }
+    }
+
+    async validateManifest() {
+        const manifestPath = path.join(this.projectRoot, MANIFEST_FILE);
+
+        if (!fs.existsSync(manifestPath)) {
+            this.addError('manifest.json not found at project root', { file: MANIFEST_FILE });
+            return;
+        }
+
+        let content: string;
+        let manifest: Manifest;
+        try {
+            content = fs.readFileSync(manifestPath, 'utf8');
+            manifest = JSON.parse(content);
+        } catch (e) {
+            this.addError(`Could not parse manifest.json: ${errorMessage(e)}`, { file: MANIFEST_FILE });
+            return;
+        }
+
+        const at = (field: string): IssueLocation => ({ file: MANIFEST_FILE, line: findFieldLine(content, field) });
+        this.validateManifestFields(manifest, at);
+        this.validateManifestNames(manifest, at);
+        this.validateManifestDescription(manifest, at);
+
+        // URL validations
+        if (manifest.authorUrl === 'https://obsidian.md') {
+            this.addError('authorUrl should not point to the Obsidian website', at('authorUrl'));
+        }
+        if (Object.prototype.hasOwnProperty.call(manifest, 'fundingUrl')) {
+            if (manifest.fundingUrl === 'https://obsidian.md/pricing') {
+                this.addError('fundingUrl should not point to the Obsidian pricing page', at('fundingUrl'));
+            }
+            if (manifest.fundingUrl === '') {
+                this.addError('fundingUrl should be removed if empty, or contain a valid funding link', at('fundingUrl'));
+            }
+        }
+
+        if (manifest.version && !/^[0-9.]+$/.test(manifest.version)) {
+            this.addError('Version must contain only numbers and dots', at('version'));
+        }
+    }
+
+    private validateManifestFields(manifest: Manifest, at: (field: string) => IssueLocation) {
+        for (const field of REQUIRED_FIELDS) {
+            if (!Object.prototype.hasOwnProperty.call(manifest, field)) {
+                this.addError(`manifest.json is missing required field: ${field}`, { file: MANIFEST_FILE });
+            }
+        }
+        for (const field of Object.keys(manifest)) {
+            if (!ALLOWED_FIELDS.includes(field)) {
+                this.addError(`manifest.json has invalid field: ${field}`, at(field));
+            }
+        }
+    }
+
+    private validateManifestNames(manifest: Manifest, at: (field: string) => IssueLocation) {
+        if (manifest.id) {
+            if (manifest.id.toLowerCase().includes('obsidian')) {
+                this.addError('Plugin ID should not contain "obsidian"', at('id'));
+            }
+            if (manifest.id.toLowerCase().endsWith('plugin')) {
+                this.addError('Plugin ID should not end with "plugin"', at('id'));
+            }
+            if (!/^[a-z0-9-_]+$/.test(manifest.id)) {
+                this.addError('Plugin ID must contain only lowercase alphanumeric characters, dashes, and underscores', at('id'));
+            }
+        }
+
+        if (manifest.name) {
+            const name = manifest.name.toLowerCase();
+            if (name.includes('obsidian')) {
+                this.addError('Plugin name should not contain "Obsidian"', at('name'));
+            }
+            if (name.endsWith('plugin')) {
+                this.addError('Plugin name should not end with "Plugin"', at('name'));
+            }
+            if (name.startsWith('obsi') || name.endsWith('dian')) {
+                this.addError('Plugin name should not contain parts of "Obsidian"', at('name'));
+            }
+        }
+
+        if (manifest.author && /^[a-zA-Z0-9_.+-]+@[a-zA-Z0-9-]+\.[a-zA-Z0-9-.]+$/.test(manifest.author)) {
+            this.addWarning('Consider not including email addresses in the author field', at('author'));
+        }
+    }
+
+    private validateManifestDescription(manifest: Manifest, at: (field: string) => IssueLocation) {
+        if (!manifest.description) return;
+        const description = manifest.description.toLowerCase();
+        if (description.includes('obsidian')) {
+            this.addError('Plugin description should not contain "Obsidian"', at('description'));
+        }
+        if (description.includes('this plugin') || description.includes('this is a plugin')) {
+            this.addWarning('Avoid phrases like "This is a plugin that does" in description', at('description'));
+        }
+        if (manifest.description.length > 250) {
+            this.addError('Plugin description is too long (max 250 characters)', at('description'));
+        }
+    }
+
+    async validateStructure() {
+        // The entry point of the sources, main.js is built from it
+        if (!fs.existsSync(path.join(this.projectRoot, 'src', 'main.ts'))) {
+            this.addError('Required file missing: src/main.ts (source entry point)', { file: 'src/main.ts' });
+        }
+
+        for (const file of REQUIRED_FILES) {
+            if (!fs.existsSync(path.join(this.projectRoot, file))) {
+                this.addError(`Required file missing: ${file}`, { file });
+            }
+        }
+
+        for (const file of RECOMMENDED_FILES) {
+            if (!fs.existsSync(path.join(this.projectRoot, file))) {
+                this.addWarning(`Recommended file missing: ${file}`, { file });
+            }
+        }
+
+        if (!fs.existsSync(path.join(this.projectRoot, 'main.js'))) {
+            this.addWarning('main.js not found - make sure to build the plugin first', { file: 'main.js' });
+        }
+    }
+
+    async validateNaming() {
+        const manifestPath = path.join(this.projectRoot, MANIFEST_FILE);
+        if (!fs.existsSync(manifestPath)) return;
+
+        try {
+            const content = fs.readFileSync(manifestPath, 'utf8');
+            const manifest: Manifest = JSON.parse(content);
+
+            const folderName = path.basename(this.projectRoot);
+            if (manifest.id && folderName !== manifest.id) {
+                this.addWarning(`Plugin folder name "${folderName}" does not match plugin ID "${manifest.id}"`,
+                    { file: MANIFEST_FILE, line: findFieldLine(content, 'id') });
+            }
+        } catch {
+            // validateManifest() reports parsing errors
+        }
+    }
+
+    async validateLicense() {
+        const licensePath = path.join(this.projectRoot, 'LICENSE');
+        if (!fs.existsSync(licensePath)) {
+            this.addError('LICENSE file not found', { file: 'LICENSE' });
+            return;
+        }
+
+        if (!fs.readFileSync(licensePath, 'utf8').trim()) {
+            this.addError('LICENSE file is empty', { file: 'LICENSE' });
+        }
+    }
+
+    async validateBuildArtifacts() {
+        const gitignorePath = path.join(this.projectRoot, '.gitignore');
+        let gitignorePatterns: string[] = [];
+        if (fs.existsSync(gitignorePath)) {
+            try {
+                gitignorePatterns = this.parseGitignore(fs.readFileSync(gitignorePath, 'utf8'));
+            } catch {
+                this.addWarning('Could not read .gitignore file', { file: '.gitignore' });
+            }
+        } else {
+            this.addWarning('.gitignore file not found', { file: '.gitignore' });
+        }
+
+        for (const artifact of BUILD_ARTIFACTS) {
+            if (fs.existsSync(path.join(this.projectRoot, artifact)) && !this.isIgnoredByGitignore(artifact, gitignorePatterns)) {
+                this.addWarning(`Build artifact found but not in .gitignore: ${artifact}`, { file: '.gitignore' });
+            }
+        }
+    }
+
+    /**
+     * Run the rules of the review guidelines on src/, manifest.json and versions.json
+     */
+    async validateGuidelines() {
+        const manifestPath = path.join(this.projectRoot, MANIFEST_FILE);
+        if (!fs.existsSync(manifestPath)) return;
+
+        let manifestContent: string;
+        let manifest: Manifest;
+        try {
+            manifestContent = fs.readFileSync(manifestPath, 'utf8');
+            manifest = JSON.parse(manifestContent);
+        } catch {
+            // validateManifest() reports parsing errors
+            return;
+        }
+
+        const versionsPath = path.join(this.projectRoot, 'versions.json');
+        const versions = fs.existsSync(versionsPath) ? fs.readFileSync(versionsPath, 'utf8') : null;
+        const sources = fs.existsSync(path.join(this.projectRoot, 'src')) ? this.readSources('src') : [];
+        checkGuidelines({ manifest, manifestContent, sources, versions }, this.options.rules)
+            .forEach(issue => this.addIssue(issue));
+    }
+
+    /**
+     * TypeScript files of a folder of the project, recursively
+     */
+    private readSources(folder: string): SourceFile[] {
+        return fs.readdirSync(path.join(this.projectRoot, folder)).flatMap(name => {
+            const file = `${folder}/${name}`;
+            const filePath = path.join(this.projectRoot, file);
+            if (fs.statSync(filePath).isDirectory()) return this.readSources(file);
+            return /\.tsx?$/.test(name) ? [{ path: file, content: fs.readFileSync(filePath, 'utf8') }] : [];
+        });
+    }
+
+    /**
+     * Patterns of a .gitignore file, without comments and empty lines
+     */
+    parseGitignore(content: string): string[] {
+        return content.split('\n')
+            .map(line => line.trim())
+            .filter(line => line && !line.startsWith('#'));
+    }
+
+    /**
+     * Whether a file at the project root is ignored. Only handles exact names, directories
+     * and `*` wildcards, which is enough for build artifacts.
+     */
+    isIgnoredByGitignore(artifact: string, patterns: string[]): boolean {
+        return patterns.some(pattern => {
+            if (pattern === artifact || pattern === `${artifact}/` || pattern === `/${artifact}`) return true;
+            return pattern.includes('*') && new RegExp(pattern.replace(/\*/g, '.*').replace(/\//g, '\\/')).test(artifact);
+        });
+    }
+}
@@ -0,0 +1,163 @@
+/**
+ * Version bump, file updates and pre-flight helpers of release.mjs.
+ *
+ * Like translationCoverage.ts, this module is free of any file system access: release.mjs
+ * reads and writes the files, so the release can be previewed with --dry-run.
+ */
+
+export const VERSION_TYPES = ['patch', 'minor', 'major', 'prepatch', 'preminor', 'premajor', 'prerelease', 'beta'];
+
+export interface FileChange {
+    path: string;
+    /** Current content, null when the file doesn't exist yet */
+    before: string | null;
+    after: string;
+}
+
+export interface TimedFile {
+    path: string;
+    /** Last modification time, in milliseconds */
+    mtime: number;
+}
+
+/**
+ * Next version for a release type. Pre-release types other than beta bump the patch version.
+ */
+export function bumpVersion(currentVersion: string, versionType: string): string {
+    const baseVersionMatch = currentVersion.match(/^(\d+)\.(\d+)\.(\d+)/);
+    if (!baseVersionMatch) {
+        throw new Error(`Invalid version format "${currentVersion}"`);
+    }
+    let [major, minor, patch] = baseVersionMatch.slice(1, 4).map(Number);
+
+    if (versionType === 'beta') {
+        // A beta of a beta increments the beta number, otherwise starts the betas of the next patch
+        const betaMatch = currentVersion.match(/-beta\.(\d+)$/);
+        if (betaMatch) return `${major}.${minor}.${patch}-beta.${parseInt(betaMatch[1]) + 1}`;
+        if (currentVersion.includes('-beta.')) return `${major}.${minor}.${patch}-beta.0`;
+        return `${major}.${minor}.${patch + 1}-beta.0`;
+    }
+
+    switch (versionType) {
+        case 'major':
+            major++;
+            minor = 0;
+            patch = 0;
+            break;
+        case 'minor':
+            minor++;
+            patch = 0;
+            break;
+        default:
+            patch++;
+            break;
+    }
+    return `${major}.${minor}.${patch}`;
+}
+
+/**
+ * Serialize JSON like an existing file: same indentation, and final newline if it had one
+ */
+function toJson(value: unknown, like: string | null): string {
+    const indent = like?.match(/^[ \t]+(?=")/m)?.[0] ?? '\t';
+    return JSON.stringify(value, null, indent) + (like === null || like.endsWith('\n') ? '\n' : '');
+}
+
+/**
+ * New content of the files updated by a release: package.json, package-lock.json (if any),
+ * manifest.json, versions.json and, for betas, beta-manifest.json
+ *
+ * @param files Current content of these files, null when missing
+ */
+export function getReleaseChanges(files: Record<string, string | null>, targetVersion: string, isBeta: boolean): FileChange[] {
+    const read = (path: string) => {
+        const content = files[path];
+        if (content == null) throw new Error(`${path} not found`);
+        return JSON.parse(content);
+    };
+    const packageJson = read('package.json');
+    const manifest = read('manifest.json');
+    const versions = read('versions.json');
+    const { minAppVersion } = manifest;
+
+    packageJson.version = targetVersion;
+    manifest.version = targetVersion;
+    versions[targetVersion] = minAppVersion;
+
+    const contents: Record<string, string> = { 'package.json': toJson(packageJson, files['package.json']) };
+    if (files['package-lock.json'] != null) {
+        const packageLockJson = read('package-lock.json');
+        packageLockJson.version = targetVersion;
+        packageLockJson.packages[''].version = targetVersion;
+        contents['package-lock.json'] = toJson(packageLockJson, files['package-lock.json']);
+    }
+    if (isBeta) {
+        const betaManifest = files['beta-manifest.json'] != null
+            ? read('beta-manifest.json')
+            : { version: targetVersion, minAppVersion, isBeta: true };
+        betaManifest.version = targetVersion;
+        betaManifest.minAppVersion = minAppVersion;
+        contents['beta-manifest.json'] = toJson(betaManifest, files['beta-manifest.json'] ?? null);
+    }
+    contents['manifest.json'] = toJson(manifest, files['manifest.json']);
+    contents['versions.json'] = toJson(versions, files['versions.json']);
+
+    return Object.entries(contents).map(([path, after]) => ({ path, before: files[path] ?? null, after }));
+}
+
+/**
+ * Line diff of a change, as in `diff -u` without context lines
+ */
+export function formatDiff({ path, before, after }: FileChange): string {
+    const allOldLines = before === null ? [] : before.replace(/\n$/, '').split('\n');
+    const allNewLines = after.replace(/\n$/, '').split('\n');
+
+    // Only diff what is between the common first and last lines, package-lock.json is long
+    let start = 0;
+    while (start < allOldLines.length && start < allNewLines.length && allOldLines[start] === allNewLines[start]) start++;
+    let end = 0;
+    while (end < allOldLines.length - start && end < allNewLines.length - start
+        && allOldLines[allOldLines.length - 1 - end] === allNewLines[allNewLines.length - 1 - end]) end++;
+    const oldLines = allOldLines.slice(start, allOldLines.length - end);
+    const newLines = allNewLines.slice(start, allNewLines.length - end);
+
+    // Longest common subsequence of the lines, from the end
+    const lengths = Array.from({ length: oldLines.length + 1 }, () => new Array<number>(newLines.length + 1).fill(0));
+    for (let i = oldLines.length - 1; i >= 0; i--) {
+        for (let j = newLines.length - 1; j >= 0; j--) {
+            lengths[i][j] = oldLines[i] === newLines[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const output = [`--- ${before === null ? '/dev/null' : path}`, `+++ ${path}`];
+    let i = 0;
+    let j = 0;
+    let inHunk = false;
+    while (i < oldLines.length || j < newLines.length) {
+        if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+            i++;
+            j++;
+            inHunk = false;
+            continue;
+        }
+        if (!inHunk) output.push(`@@ -${start + i + 1} +${start + j + 1} @@`);
+        inHunk = true;
+        if (j >= newLines.length || (i < oldLines.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+            output.push(`-${oldLines[i++]}`);
+        } else {
+            output.push(`+${newLines[j++]}`);
+        }
+    }
+    return output.join('\n');
+}
+
+/**
+ * Build artifacts missing, or older than one of the sources they are built from
+ */
+export function findStaleArtifacts(artifacts: string[], existing: TimedFile[], sources: TimedFile[]): string[] {
+    const newestSource = Math.max(0, ...sources.map(source => source.mtime));
+    return artifacts.filter(path => {
+        const artifact = existing.find(file => file.path === path);
+        return !artifact || artifact.mtime < newestSource;
+    });
+}
@@ -0,0 +1,223 @@
+/**
+ * Translation coverage checks: compares every locale against the reference (English) locale
+ * and the keys actually used in the source code.
+ *
+ * This module is free of any file system access so it can be used both from Jest
+ * and from scripts/check-translations.mjs.
+ */
+
+export interface TranslationTree {
+    [key: string]: string | TranslationTree | undefined;
+}
+
+export interface SourceFile {
+    path: string;
+    content: string;
+}
+
+export interface KeyLocation {
+    path: string;
+    line: number;
+}
+
+export interface PlaceholderMismatch {
+    key: string;
+    /** Placeholders of the reference message missing from the translation */
+    missing: string[];
+    /** Placeholders of the translation that don't exist in the reference message */
+    extra: string[];
+}
+
+export interface LocaleReport {
+    locale: string;
+    missing: string[];
+    extra: string[];
+    placeholderMismatches: PlaceholderMismatch[];
+    /** Percentage of reference keys translated in this locale */
+    coverage: number;
+}
+
+export interface TranslationReport {
+    reference: string;
+    locales: LocaleReport[];
+    /** Keys of the reference locale never used in the sources */
+    unused: string[];
+    /** Keys passed to t() that don't exist in the reference locale */
+    undefinedKeys: { key: string; locations: KeyLocation[] }[];
+}
+
+export interface CoverageOptions {
+    /** Minimum coverage (in percent) required for every locale */
+    minCoverage: number;
+    /** Treat unused keys as errors instead of warnings */
+    failOnUnused: boolean;
+    /** Keys that are allowed to be unused (e.g. only used by tests) */
+    ignoredUnusedKeys: string[];
+}
+
+export const DEFAULT_COVERAGE_OPTIONS: CoverageOptions = {
+    minCoverage: 100,
+    failOnUnused: false,
+    ignoredUnusedKeys: [],
+};
+
+/**
+ * Flatten a translation tree into `dot.separated.key → message`
+ */
+export function flattenMessages(tree: TranslationTree, prefix = ''): Map<string, string> {
+    const messages = new Map<string, string>();
+    for (const [key, value] of Object.entries(tree)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (typeof value === 'string') {
+            messages.set(path, value);
+        } else if (value) {
+            flattenMessages(value, path).forEach((message, nestedKey) => messages.set(nestedKey, message));
+        }
+    }
+    return messages;
+}
+
+/**
+ * Names of the variables used by a message: `{{name}}`, `{{count, number}}` and ICU `{count, plural, …}`
+ */
+export function extractPlaceholders(message: string): string[] {
+    const names = new Set<string>();
+    for (const match of message.matchAll(/\{\{\s*(\w+)\s*(?:,\s*\w+\s*)?\}\}/g)) {
+        names.add(match[1]);
+    }
+    for (const match of message.matchAll(/\{\s*(\w+)\s*,\s*(?:plural|selectordinal|select)\s*,/g)) {
+        names.add(match[1]);
+    }
+    return [...names].sort();
+}
+
+function lineOf(content: string, index: number): number {
+    return content.slice(0, index).split('\n').length;
+}
+
+/**
+ * Keys passed as a string literal to t(), with their locations
+ */
+export function findTranslationCalls(sources: SourceFile[]): Map<string, KeyLocation[]> {
+    const calls = new Map<string, KeyLocation[]>();
+    for (const source of sources) {
+        for (const match of source.content.matchAll(/\bt\(\s*(['"`])([\w.-]+)\1/g)) {
+            const locations = calls.get(match[2]) ?? [];
+            locations.push({ path: source.path, line: lineOf(source.content, match.index ?? 0) });
+            calls.set(match[2], locations);
+        }
+    }
+    return calls;
+}
+
+/**
+ * Keys referenced anywhere in the sources: t() calls, but also string literals equal to a
+ * known key, as used by declarative descriptions (`nameKey: 'settings.mySetting.name'`).
+ */
+export function findUsedKeys(sources: SourceFile[], knownKeys: Iterable<string>): Set<string> {
+    const used = new Set(findTranslationCalls(sources).keys());
+    const literals = new Set<string>();
+    for (const source of sources) {
+        for (const match of source.content.matchAll(/(['"`])([\w.-]+)\1/g)) {
+            literals.add(match[2]);
+        }
+    }
+    for (const key of knownKeys) {
+        if (literals.has(key)) used.add(key);
+    }
+    return used;
+}
+
+function sameItems(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((item, index) => item === b[index]);
+}
+
+export function checkLocale(locale: string, reference: Map<string, string>, messages: Map<string, string>): LocaleReport {
+    const missing = [...reference.keys()].filter(key => !messages.has(key));
+    const extra = [...messages.keys()].filter(key => !reference.has(key));
+    const placeholderMismatches: PlaceholderMismatch[] = [];
+
+    messages.forEach((message, key) => {
+        const referenceMessage = reference.get(key);
+        if (referenceMessage === undefined) return;
+        const expected = extractPlaceholders(referenceMessage);
+        const actual = extractPlaceholders(message);
+        if (!sameItems(expected, actual)) {
+            placeholderMismatches.push({
+                key,
+                missing: expected.filter(name => !actual.includes(name)),
+                extra: actual.filter(name => !expected.includes(name)),
+            });
+        }
+    });
+
+    const translated = reference.size - missing.length;
+    const coverage = reference.size === 0 ? 100 : Math.floor((translated / reference.size) * 1000) / 10;
+    return { locale, missing, extra, placeholderMismatches, coverage };
+}
+
+/**
+ * Compare every locale against the reference locale and the sources
+ */
+export function checkTranslations(
+    translations: Record<string, TranslationTree>,
+    sources: SourceFile[],
+    reference = 'en',
+): TranslationReport {
+    const referenceMessages = flattenMessages(translations[reference] ?? {});
+    const locales = Object.keys(translations)
+        .filter(locale => locale !== reference)
+        .sort()
+        .map(locale => checkLocale(locale, referenceMessages, flattenMessages(translations[locale])));
+
+    const used = findUsedKeys(sources, referenceMessages.keys());
+    const unused = [...referenceMessages.keys()].filter(key => !used.has(key));
+    const undefinedKeys = [...findTranslationCalls(sources)]
+        .filter(([key]) => !referenceMessages.has(key))
+        .map(([key, locations]) => ({ key, locations }));
+
+    return { reference, locales, unused, undefinedKeys };
+}
+
+export interface CoverageResult {
+    errors: string[];
+    warnings: string[];
+}
+
+/**
+ * Turn a report into errors (which should fail CI) and warnings
+ */
+export function evaluateReport(report: TranslationReport, options: Partial<CoverageOptions> = {}): CoverageResult {
+    const { minCoverage, failOnUnused, ignoredUnusedKeys } = { ...DEFAULT_COVERAGE_OPTIONS, ...options };
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    for (const locale of report.locales) {
+        const missingMessage = `${locale.locale}: ${locale.missing.length} missing key(s), coverage ${locale.coverage}% (minimum ${minCoverage}%)`;
+        if (locale.coverage < minCoverage) {
+            errors.push(missingMessage);
+        } else if (locale.missing.length > 0) {
+            warnings.push(missingMessage);
+        }
+        locale.missing.forEach(key => warnings.push(`${locale.locale}: missing "${key}"`));
+        locale.extra.forEach(key => errors.push(`${locale.locale}: extra key "${key}" does not exist in ${report.reference}`));
+        locale.placeholderMismatches.forEach(mismatch => {
+            const details = [
+                mismatch.missing.length ? `missing ${mismatch.missing.join(', ')}` : '',
+                mismatch.extra.length ? `unexpected ${mismatch.extra.join(', ')}` : '',
+            ].filter(Boolean).join('; ');
+            errors.push(`${locale.locale}: placeholder mismatch in "${mismatch.key}" (${details})`);
+        });
+    }
+
+    report.undefinedKeys.forEach(({ key, locations }) => {
+        const where = locations.map(location => `${location.path}:${location.line}`).join(', ');
+        errors.push(`t("${key}") does not exist in ${report.reference} (${where})`);
+    });
+
+    report.unused
+        .filter(key => !ignoredUnusedKeys.includes(key))
+        .forEach(key => (failOnUnused ? errors : warnings).push(`unused key "${key}"`));
+
+    return { errors, warnings };
+}
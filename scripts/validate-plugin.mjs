@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+/**
+ * Checks that the repository meets the requirements of the Obsidian community plugin list
+ * (manifest.json, required files, naming, license, build artifacts and the review guidelines)
+ * before a release.
+ *
+ * Usage: node scripts/validate-plugin.mjs [--json] [--disable=<rule>[,<rule>…]] [--list-rules] [<project-dir>]
+ *
+ * Prints the errors and warnings with their location, or a JSON report with --json.
+ * --disable turns off guideline rules, listed by --list-rules.
+ * Exits with code 1 when an error is found.
+ */
+
+import { resolve } from "path";
+import process from "process";
+import debug from "debug";
+import { importTs } from "./lib/importTs.mjs";
+
+const log = debug("dot-navigator:validate-plugin");
+debug.enable(process.env.DEBUG || "dot-navigator:*");
+
+function parseArgs(args, isGuidelineRule) {
+	const options = { json: false, listRules: false, rules: {}, projectRoot: process.cwd() };
+	for (const arg of args) {
+		if (arg === "--json") {
+			options.json = true;
+		} else if (arg === "--list-rules") {
+			options.listRules = true;
+		} else if (arg.startsWith("--disable=")) {
+			for (const rule of arg.split("=")[1].split(",")) {
+				if (!isGuidelineRule(rule)) {
+					log(`Unknown rule "${rule}", see --list-rules`);
+					process.exit(2);
+				}
+				options.rules[rule] = false;
+			}
+		} else if (!arg.startsWith("--")) {
+			options.projectRoot = resolve(arg);
+		} else {
+			log(`Unknown argument "${arg}"`);
+			process.exit(2);
+		}
+	}
+	return options;
+}
+
+function formatIssue({ severity, message, file, line, rule }) {
+	const location = file ? `${file}${line ? `:${line}` : ""}: ` : "";
+	return `${severity}: ${location}${message}${rule ? ` (${rule})` : ""}`;
+}
+
+const { PluginValidator } = await importTs(new URL("./lib/pluginValidator.ts", import.meta.url).pathname);
+const { GUIDELINE_RULES, isGuidelineRule } = await importTs(new URL("./lib/guidelines.ts", import.meta.url).pathname);
+const options = parseArgs(process.argv.slice(2), isGuidelineRule);
+
+if (options.listRules) {
+	GUIDELINE_RULES.forEach((rule) => console.log(`${rule.id} (${rule.severity}): ${rule.description}`));
+	process.exit(0);
+}
+
+const validator = new PluginValidator(options.projectRoot, { rules: options.rules });
+const valid = await validator.validate();
+
+if (options.json) {
+	console.log(JSON.stringify({ valid, projectRoot: options.projectRoot, issues: validator.issues }, null, 2));
+} else {
+	validator.issues
+		.filter((issue) => issue.severity === "warning")
+		.forEach((issue) => console.warn(formatIssue(issue)));
+	validator.issues
+		.filter((issue) => issue.severity === "error")
+		.forEach((issue) => console.error(formatIssue(issue)));
+}
+
+if (!valid) {
+	if (!options.json) console.error(`Plugin validation failed with ${validator.errors.length} error(s)`);
+	process.exit(1);
+}
+log("Plugin validation passed");
@@ -0,0 +1,37 @@
+/**
+ * Conditions a command declares instead of writing its own checkCallback.
+ * Every condition given must hold for the command to be available.
+ */
+export interface CommandConditions {
+	/** Type of the active view, e.g. `markdown` */
+	viewType?: string | string[];
+	/** Extensions of the active file, without dot */
+	extensions?: string[];
+	/** Frontmatter property the active file must have */
+	frontmatter?: string;
+	/** Whether the active editor must have (true) or must not have (false) selected text */
+	selection?: boolean;
+	platform?: 'mobile' | 'desktop';
+}
+
+/** Conditions of commands editing the active markdown note */
+export const MARKDOWN_EDITOR: CommandConditions = { viewType: 'markdown' };
+
+/** What conditions are checked against, read from the workspace when the command palette opens */
+export interface CommandState {
+	viewType: string | null;
+	extension: string | null;
+	frontmatter: Record<string, unknown> | null;
+	hasSelection: boolean;
+	isMobile: boolean;
+}
+
+export function checkConditions(conditions: CommandConditions, state: CommandState): boolean {
+	const { viewType, extensions, frontmatter, selection, platform } = conditions;
+	if (viewType !== undefined && !(Array.isArray(viewType) ? viewType : [viewType]).some(type => type === state.viewType)) return false;
+	if (extensions !== undefined && !extensions.some(extension => extension.toLowerCase() === state.extension?.toLowerCase())) return false;
+	if (frontmatter !== undefined && state.frontmatter?.[frontmatter] === undefined) return false;
+	if (selection !== undefined && selection !== state.hasSelection) return false;
+	if (platform !== undefined && (platform === 'mobile') !== state.isMobile) return false;
+	return true;
+}
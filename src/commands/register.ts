@@ -0,0 +1,111 @@
+import { App, Editor, MarkdownFileInfo, MarkdownView, Platform, TFile, View } from 'obsidian';
+import { t } from '../i18n';
+import { addTranslatedCommand, removeTranslatedCommand } from '../i18n/commands';
+import { TranslationKey, TranslationVariables } from '../i18n/types';
+import { createLogger } from '../logger';
+import ObsidianSamplePlugin from '../main';
+import { checkConditions, CommandConditions, CommandState } from './conditions';
+
+const log = createLogger('commands');
+
+/** Active view, file and editor a command runs on */
+export interface CommandContext {
+	view: View | null;
+	file: TFile | null;
+	editor: Editor | null;
+}
+
+export interface ConditionalCommand {
+	id: string;
+	nameKey: TranslationKey;
+	nameVariables?: TranslationVariables;
+	icon?: string;
+	conditions?: CommandConditions;
+	/** Additional check, for what conditions can't express */
+	check?(context: CommandContext): boolean;
+	run(context: CommandContext): void | Promise<void>;
+}
+
+/** Commands added with addConditionalCommand(), by plugin */
+const conditionalCommands = new WeakMap<ObsidianSamplePlugin, ConditionalCommand[]>();
+
+function getActiveContext(app: App): CommandContext {
+	return {
+		view: app.workspace.getActiveViewOfType(View),
+		file: app.workspace.getActiveFile(),
+		editor: app.workspace.activeEditor?.editor ?? null,
+	};
+}
+
+function getState(app: App, { view, file, editor }: CommandContext): CommandState {
+	return {
+		viewType: view?.getViewType() ?? null,
+		extension: file?.extension ?? null,
+		frontmatter: file ? app.metadataCache.getFileCache(file)?.frontmatter ?? null : null,
+		hasSelection: editor?.somethingSelected() ?? false,
+		isMobile: Platform.isMobile,
+	};
+}
+
+function isAvailable(app: App, command: ConditionalCommand, context: CommandContext): boolean {
+	return checkConditions(command.conditions ?? {}, getState(app, context)) && (command.check?.(context) ?? true);
+}
+
+function run(command: ConditionalCommand, context: CommandContext): void {
+	Promise.resolve(command.run(context)).catch(error => log.error(`Command ${command.id} failed`, error));
+}
+
+/**
+ * Add a command whose checkCallback is generated from its conditions. It's also hidden from the
+ * command palette when the user chose so in the settings: the palette lists the commands whose
+ * checkCallback accepts `checking`, while hotkeys and the ribbon menu run them right away.
+ */
+export function addConditionalCommand(plugin: ObsidianSamplePlugin, command: ConditionalCommand): void {
+	const { id, nameKey, nameVariables, icon } = command;
+	addTranslatedCommand(plugin, {
+		id,
+		nameKey,
+		nameVariables,
+		icon,
+		checkCallback: (checking: boolean) => {
+			if (checking && plugin.settings.commands.hidden.includes(id)) return false;
+			const context = getActiveContext(plugin.app);
+			if (!isAvailable(plugin.app, command, context)) return false;
+			if (!checking) run(command, context);
+			return true;
+		}
+	});
+	conditionalCommands.set(plugin, [...conditionalCommands.get(plugin) ?? [], command]);
+}
+
+/**
+ * Remove a command added with addConditionalCommand()
+ */
+export function removeConditionalCommand(plugin: ObsidianSamplePlugin, id: string): void {
+	removeTranslatedCommand(plugin, id);
+	conditionalCommands.set(plugin, (conditionalCommands.get(plugin) ?? []).filter(command => command.id !== id));
+}
+
+export function getConditionalCommands(plugin: ObsidianSamplePlugin): ConditionalCommand[] {
+	return conditionalCommands.get(plugin) ?? [];
+}
+
+/**
+ * Add the commands the user chose to the editor context menu, when their conditions hold
+ */
+export function registerCommandMenus(plugin: ObsidianSamplePlugin): void {
+	plugin.registerEvent(plugin.app.workspace.on('editor-menu', (menu, editor, info: MarkdownView | MarkdownFileInfo) => {
+		const context: CommandContext = {
+			view: info instanceof MarkdownView ? info : plugin.app.workspace.getActiveViewOfType(View),
+			file: info.file,
+			editor,
+		};
+		const { editorMenu } = plugin.settings.commands;
+		getConditionalCommands(plugin)
+			.filter(command => editorMenu.includes(command.id) && isAvailable(plugin.app, command, context))
+			.forEach(command => menu.addItem(item => item
+				.setTitle(t(command.nameKey, command.nameVariables))
+				.setIcon(command.icon ?? null)
+				.onClick(() => run(command, context))));
+	}));
+}
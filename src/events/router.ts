@@ -0,0 +1,110 @@
+import { createLogger } from '../logger';
+import { EventRoute, ModifierCondition, RoutedEvent, RoutedEventType } from './types';
+
+const log = createLogger('events');
+
+interface ModifierState {
+	altKey: boolean;
+	shiftKey: boolean;
+	ctrlKey: boolean;
+	metaKey: boolean;
+}
+
+/**
+ * Whether the modifier keys pressed during an event satisfy `condition`
+ */
+export function matchesModifiers(evt: ModifierState, condition: ModifierCondition = {}, isMacOS = false): boolean {
+	const pressed = { mod: isMacOS ? evt.metaKey : evt.ctrlKey, alt: evt.altKey, shift: evt.shiftKey };
+	return (['mod', 'alt', 'shift'] as const).every(key => condition[key] === undefined || condition[key] === pressed[key]);
+}
+
+/** Element-like event target, so events from text nodes or the window are ignored */
+function isElementTarget(target: unknown): target is HTMLElement {
+	return typeof target === 'object' && target !== null && typeof Reflect.get(target, 'closest') === 'function';
+}
+
+/**
+ * Dispatches DOM events of the whole app to the routes whose selector and modifiers match,
+ * with a single listener per event type, added on the first route and removed with the last one.
+ * Listeners use the capture phase, so routes can stop events before the handlers of the app.
+ */
+export class EventRouter {
+	private routes = new Map<RoutedEventType, EventRoute<RoutedEventType>[]>();
+	private listeners = new Map<RoutedEventType, (evt: Event) => void>();
+
+	constructor(private root: EventTarget, private isMacOS = false) {}
+
+	/**
+	 * Add a route, returning a function removing it, e.g. for `plugin.register()`
+	 */
+	on<K extends RoutedEventType>(route: EventRoute<K>): () => void {
+		// Routes of every event type share a list, so the handler checks the type of the event it gets
+		const registered = this.widen(route);
+		const routes = this.routes.get(route.event) ?? [];
+		routes.push(registered);
+		// The sort is stable: routes of same priority stay in the order they were added
+		routes.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+		this.routes.set(route.event, routes);
+		this.listen(route.event);
+		return () => this.off(route.event, registered);
+	}
+
+	/**
+	 * Remove every route and listener
+	 */
+	destroy(): void {
+		this.listeners.forEach((listener, type) => this.root.removeEventListener(type, listener, true));
+		this.listeners.clear();
+		this.routes.clear();
+	}
+
+	private widen<K extends RoutedEventType>(route: EventRoute<K>): EventRoute<RoutedEventType> {
+		return {
+			...route,
+			handler: (evt, target) => this.isEventOf(route.event, evt) ? route.handler(evt, target) : false,
+		};
+	}
+
+	private isEventOf<K extends RoutedEventType>(type: K, evt: RoutedEvent<RoutedEventType>): evt is RoutedEvent<K> {
+		return evt.type === type;
+	}
+
+	private listen(type: RoutedEventType) {
+		if (this.listeners.has(type)) return;
+		const listener = (evt: Event) => this.dispatch(type, evt);
+		this.listeners.set(type, listener);
+		this.root.addEventListener(type, listener, true);
+	}
+
+	private off(type: RoutedEventType, registered: EventRoute<RoutedEventType>) {
+		const routes = (this.routes.get(type) ?? []).filter(route => route !== registered);
+		if (routes.length > 0) {
+			this.routes.set(type, routes);
+			return;
+		}
+		this.routes.delete(type);
+		const listener = this.listeners.get(type);
+		if (listener) this.root.removeEventListener(type, listener, true);
+		this.listeners.delete(type);
+	}
+
+	private dispatch(type: RoutedEventType, evt: Event) {
+		const { target } = evt;
+		if (!isElementTarget(target) || !this.hasModifiers(evt)) return;
+		// Copy, so routes removed by a handler don't change the iteration
+		for (const route of [...this.routes.get(type) ?? []]) {
+			if (!matchesModifiers(evt, route.modifiers, this.isMacOS)) continue;
+			const matched = target.closest<HTMLElement>(route.selector);
+			if (!matched) continue;
+			try {
+				if (route.handler(evt, matched) !== false) return;
+			} catch (error) {
+				log.error(`Handler of ${type} on "${route.selector}" failed`, error);
+			}
+		}
+	}
+
+	private hasModifiers(evt: Event): evt is RoutedEvent<RoutedEventType> {
+		return typeof Reflect.get(evt, 'altKey') === 'boolean';
+	}
+}
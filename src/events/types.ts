@@ -0,0 +1,35 @@
+/**
+ * Modifier keys a route requires (true) or forbids (false). Keys left undefined can be in either state.
+ * `mod` is Cmd on macOS and Ctrl elsewhere, like Obsidian hotkeys.
+ */
+export interface ModifierCondition {
+	mod?: boolean;
+	alt?: boolean;
+	shift?: boolean;
+}
+
+/** DOM events that can be routed: the ones carrying modifier keys */
+export type RoutedEventType = 'click' | 'auxclick' | 'dblclick' | 'contextmenu' | 'mousedown' | 'mouseover' | 'keydown';
+
+export type RoutedEvent<K extends RoutedEventType> = DocumentEventMap[K];
+
+export interface EventRoute<K extends RoutedEventType> {
+	event: K;
+	/** CSS selector of the elements handled by the route, matched on the event target and its ancestors */
+	selector: string;
+	modifiers?: ModifierCondition;
+	/** Routes with a higher priority run first, routes of same priority in the order they were added. 0 by default. */
+	priority?: number;
+	/**
+	 * Called with the element matching the selector. Return false to let lower priority routes handle
+	 * the event too, anything else stops there.
+	 */
+	handler(evt: RoutedEvent<K>, target: HTMLElement): boolean | void;
+}
+
+/** Selectors of commonly routed parts of the app */
+export const APP_SELECTORS = {
+	internalLink: 'a.internal-link[data-href]',
+	fileExplorerItem: '.nav-file-title[data-path]',
+	tag: 'a.tag, .cm-hashtag',
+};
@@ -0,0 +1,208 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import { t } from '../i18n';
+import { createLogger } from '../logger';
+import { PathSuggest } from '../settings/tab/PathSuggest';
+import { createLatestValidator, FormField, FormValue, FormValues, validateField } from './fields';
+
+const log = createLogger('forms');
+
+export interface FormOptions<R extends FormValues> {
+	title: string;
+	fields: FormField<R>[];
+	/** Initial value of every field, also giving the type of the result */
+	values: R;
+	submitText?: string;
+	/** Called with the valid values before the modal closes. Throwing keeps the modal open with the error. */
+	onSubmit?: (values: R) => Promise<void>;
+}
+
+interface FieldState {
+	errorEl: HTMLElement;
+	settingEl: HTMLElement;
+	validate: (value: FormValue) => Promise<string | null | undefined>;
+	pending: boolean;
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Modal form built from field descriptions. Fields are validated while editing and again on submit;
+ * submit is disabled while a validation or the submit callback is pending.
+ * Resolves to the submitted values, or null when cancelled.
+ */
+export class FormModal<R extends FormValues> extends Modal {
+	private resolve: (values: R | null) => void = () => undefined;
+	private values: R;
+	private result: R | null = null;
+	private fields = new Map<string, FieldState>();
+	private submitting = false;
+	private submitButton: ButtonComponent | null = null;
+	private formErrorEl: HTMLElement | null = null;
+
+	constructor(app: App, private options: FormOptions<R>) {
+		super(app);
+		this.values = { ...options.values };
+	}
+
+	openAndWait(): Promise<R | null> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		this.titleEl.setText(this.options.title);
+		this.modalEl.addClass('plugin-modal', 'form-modal');
+
+		this.options.fields.forEach(field => this.renderField(field));
+		this.formErrorEl = contentEl.createDiv('setting-error-message display-none');
+
+		new Setting(contentEl)
+			.setClass('form-modal-buttons')
+			.addButton(button => button
+				.setButtonText(t('common.cancel'))
+				.onClick(() => this.close()))
+			.addButton(button => {
+				this.submitButton = button
+					.setButtonText(this.options.submitText ?? t('forms.submit'))
+					.setCta()
+					.onClick(() => this.submit());
+			});
+
+		contentEl.addEventListener('keydown', evt => {
+			// Enter submits from single-line inputs. Textareas keep it for new lines, path inputs to pick a suggestion.
+			if (evt.key !== 'Enter' || evt.isComposing || !(evt.target instanceof HTMLInputElement) || evt.target.type === 'search') return;
+			evt.preventDefault();
+			void this.submit();
+		});
+		contentEl.querySelector<HTMLElement>('input, textarea, select')?.focus();
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+		this.fields.clear();
+		this.resolve(this.result);
+	}
+
+	private renderField(field: FormField<R>) {
+		const setting = new Setting(this.contentEl).setName(field.label);
+		if (field.desc) setting.setDesc(field.desc);
+		const state: FieldState = {
+			errorEl: setting.infoEl.createDiv('setting-error-message display-none'),
+			settingEl: setting.settingEl,
+			validate: createLatestValidator((value: FormValue) => validateField(field, value, this.values)),
+			pending: false,
+		};
+		this.fields.set(field.key, state);
+		const onChange = (value: FormValue) => {
+			this.values = { ...this.values, [field.key]: value };
+			void this.validate(field.key, state);
+		};
+		const value = this.values[field.key];
+		const text = typeof value === 'string' ? value : '';
+
+		switch (field.type) {
+			case 'text':
+			case 'date':
+				if (field.type === 'text' && field.prefix) {
+					setting.controlEl.createSpan({ text: field.prefix, cls: 'form-modal-prefix text-muted' });
+				}
+				setting.addText(input => {
+					if (field.type === 'date') {
+						input.inputEl.type = 'date';
+						if (field.min) input.inputEl.min = field.min;
+						if (field.max) input.inputEl.max = field.max;
+					} else if (field.placeholder) {
+						input.setPlaceholder(field.placeholder);
+					}
+					input.setValue(text).onChange(onChange);
+				});
+				break;
+			case 'textarea':
+				setting.settingEl.addClass('form-modal-textarea');
+				setting.addTextArea(input => {
+					if (field.placeholder) input.setPlaceholder(field.placeholder);
+					input.setValue(text).onChange(onChange);
+				});
+				break;
+			case 'dropdown':
+				setting.addDropdown(dropdown => {
+					field.options.forEach(option => dropdown.addOption(option.value, option.label));
+					dropdown.setValue(text).onChange(onChange);
+				});
+				break;
+			case 'toggle':
+				setting.addToggle(toggle => toggle.setValue(value === true).onChange(onChange));
+				break;
+			case 'file':
+			case 'folder':
+				setting.addSearch(search => {
+					new PathSuggest(this.app, search.inputEl, field.type, field.extensions);
+					if (field.placeholder) search.setPlaceholder(field.placeholder);
+					search.setValue(text).onChange(onChange);
+				});
+				break;
+		}
+	}
+
+	/**
+	 * Validate one field and show its error. Resolves to false when the field is invalid,
+	 * or when a newer validation of the field superseded this one.
+	 */
+	private async validate(key: string, state: FieldState): Promise<boolean> {
+		state.pending = true;
+		this.updateSubmit();
+		let error: string | null | undefined;
+		try {
+			error = await state.validate(this.values[key]);
+		} catch (validationError) {
+			log.warn(`Could not validate ${key}`, validationError);
+			error = errorMessage(validationError);
+		}
+		if (error === undefined || !this.fields.has(key)) return false;
+		state.pending = false;
+		state.errorEl.setText(error ?? '');
+		state.errorEl.toggleClass('display-none', error === null);
+		state.settingEl.toggleClass('has-error', error !== null);
+		this.updateSubmit();
+		return error === null;
+	}
+
+	private updateSubmit() {
+		const pending = this.submitting || [...this.fields.values()].some(state => state.pending);
+		this.submitButton?.setDisabled(pending);
+	}
+
+	private async submit() {
+		if (this.submitting) return;
+		this.submitting = true;
+		this.updateSubmit();
+		this.formErrorEl?.addClass('display-none');
+		try {
+			const results = await Promise.all([...this.fields].map(([key, state]) => this.validate(key, state)));
+			if (!results.every(Boolean)) return;
+			await this.options.onSubmit?.(this.values);
+			this.result = this.values;
+			this.close();
+		} catch (error) {
+			log.error('Form submit failed', error);
+			this.formErrorEl?.setText(errorMessage(error));
+			this.formErrorEl?.removeClass('display-none');
+		} finally {
+			this.submitting = false;
+			this.updateSubmit();
+		}
+	}
+}
+
+/**
+ * Open a form and wait for the submitted values, null when cancelled
+ */
+export function openForm<R extends FormValues>(app: App, options: FormOptions<R>): Promise<R | null> {
+	return new FormModal(app, options).openAndWait();
+}
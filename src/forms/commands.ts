@@ -0,0 +1,73 @@
+import { App, normalizePath, TFile } from 'obsidian';
+import { addConditionalCommand } from '../commands/register';
+import { t } from '../i18n';
+import { validateNoteName } from '../hierarchy/notes';
+import ObsidianSamplePlugin from '../main';
+import { openForm } from './FormModal';
+
+type NoteFromTemplateValues = {
+	name: string;
+	folder: string;
+	template: string;
+	open: boolean;
+};
+
+function getNotePath(folder: string, name: string): string {
+	return normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+}
+
+/**
+ * Create a note with the content of a template note, asking for its name, folder and template
+ */
+export async function createNoteFromTemplate(app: App): Promise<void> {
+	const values = await openForm<NoteFromTemplateValues>(app, {
+		title: t('forms.noteFromTemplate.title'),
+		submitText: t('hierarchy.create'),
+		values: { name: '', folder: app.fileManager.getNewFileParent('').path, template: '', open: true },
+		fields: [
+			{
+				key: 'name',
+				type: 'text',
+				label: t('forms.noteFromTemplate.name'),
+				required: true,
+				// Checks the disk too, where a note may differ only by case from the new one
+				validate: async (name, current) => {
+					if (typeof name !== 'string') return null;
+					const path = getNotePath(current.folder, name);
+					return validateNoteName(name) ?? (await app.vault.adapter.exists(path, false) ? t('hierarchy.exists', { path }) : null);
+				},
+			},
+			{ key: 'folder', type: 'folder', label: t('forms.noteFromTemplate.folder') },
+			{
+				key: 'template',
+				type: 'file',
+				label: t('forms.noteFromTemplate.template'),
+				desc: t('forms.noteFromTemplate.templateDesc'),
+				extensions: ['md'],
+				validate: path => typeof path === 'string' && path !== '' && !(app.vault.getAbstractFileByPath(path) instanceof TFile)
+					? t('forms.noteFromTemplate.templateMissing')
+					: null,
+			},
+			{ key: 'open', type: 'toggle', label: t('forms.noteFromTemplate.open') },
+		],
+		onSubmit: async ({ name, folder, template }) => {
+			const file = template ? app.vault.getAbstractFileByPath(template) : null;
+			const content = file instanceof TFile ? await app.vault.cachedRead(file) : '';
+			await app.vault.create(getNotePath(folder, name), content);
+		},
+	});
+	if (!values?.open) return;
+	const note = app.vault.getAbstractFileByPath(getNotePath(values.folder, values.name));
+	if (note instanceof TFile) await app.workspace.getLeaf(false).openFile(note);
+}
+
+/**
+ * Register the commands opening forms
+ */
+export function registerFormCommands(plugin: ObsidianSamplePlugin): void {
+	addConditionalCommand(plugin, {
+		id: 'note-from-template',
+		nameKey: 'commands.noteFromTemplate',
+		run: () => createNoteFromTemplate(plugin.app)
+	});
+}
@@ -0,0 +1,99 @@
+import { t } from '../i18n';
+
+/**
+ * Declarative description of form fields.
+ *
+ * Unlike setting definitions, labels are already translated: forms are built when opened,
+ * and may show runtime values (e.g. a note name) in their labels.
+ */
+
+export type FormValue = string | boolean;
+
+export type FormValues = Record<string, FormValue>;
+
+/** Returns an error message when the value is invalid, null otherwise. May check asynchronously (e.g. the vault). */
+export type FormValidator<R extends FormValues> = (value: FormValue, values: R) => string | null | Promise<string | null>;
+
+interface BaseFormField<R extends FormValues> {
+	key: keyof R & string;
+	label: string;
+	desc?: string;
+	/** Empty text values are rejected */
+	required?: boolean;
+	validate?: FormValidator<R>;
+}
+
+export interface TextFormField<R extends FormValues> extends BaseFormField<R> {
+	type: 'text' | 'textarea';
+	placeholder?: string;
+	/** Shown before a single-line input, e.g. the parent name `project.api.` */
+	prefix?: string;
+}
+
+export interface DropdownFormField<R extends FormValues> extends BaseFormField<R> {
+	type: 'dropdown';
+	options: { value: string; label: string }[];
+}
+
+export interface ToggleFormField<R extends FormValues> extends BaseFormField<R> {
+	type: 'toggle';
+}
+
+export interface DateFormField<R extends FormValues> extends BaseFormField<R> {
+	type: 'date';
+	/** Earliest and latest dates, as YYYY-MM-DD */
+	min?: string;
+	max?: string;
+}
+
+export interface PathFormField<R extends FormValues> extends BaseFormField<R> {
+	type: 'file' | 'folder';
+	placeholder?: string;
+	/** Only suggest files with one of these extensions (file picker only) */
+	extensions?: string[];
+}
+
+export type FormField<R extends FormValues> =
+	| TextFormField<R>
+	| DropdownFormField<R>
+	| ToggleFormField<R>
+	| DateFormField<R>
+	| PathFormField<R>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Built-in checks of a field (required, date format and range), without the custom validator
+ */
+export function checkField<R extends FormValues>(field: FormField<R>, value: FormValue): string | null {
+	if (typeof value !== 'string') return null;
+	if (field.required && value.trim() === '') return t('settings.errors.required');
+	if (field.type === 'date' && value !== '') {
+		if (!DATE_PATTERN.test(value) || isNaN(Date.parse(value))) return t('forms.errors.date');
+		if (field.min && value < field.min) return t('forms.errors.minDate', { min: field.min });
+		if (field.max && value > field.max) return t('forms.errors.maxDate', { max: field.max });
+	}
+	return null;
+}
+
+/**
+ * Built-in checks followed by the custom validator
+ */
+export function validateField<R extends FormValues>(field: FormField<R>, value: FormValue, values: R): string | null | Promise<string | null> {
+	return checkField(field, value) ?? field.validate?.(value, values) ?? null;
+}
+
+/**
+ * Wrap a validator so only the result of the latest call counts: results of calls made
+ * before it resolve to undefined. Keeps a slow check from overwriting a newer one.
+ */
+export function createLatestValidator<A extends unknown[]>(
+	validate: (...args: A) => string | null | Promise<string | null>
+): (...args: A) => Promise<string | null | undefined> {
+	let latest = 0;
+	return async (...args) => {
+		const call = ++latest;
+		const error = await validate(...args);
+		return call === latest ? error : undefined;
+	};
+}
@@ -0,0 +1,37 @@
+import { App } from 'obsidian';
+import { openForm } from '../forms/FormModal';
+import { t } from '../i18n';
+
+export interface NoteNameOptions {
+	title: string;
+	/** Shown before the input, e.g. the parent name `project.api.` */
+	prefix?: string;
+	value?: string;
+	placeholder?: string;
+	/** Returns an error message for invalid names, null otherwise */
+	validate?: (value: string) => string | null;
+	/** Text of the submit button, "Create" by default */
+	submitText?: string;
+}
+
+/**
+ * Ask for a note name in a form modal. Enter submits, invalid names keep the modal open with the error.
+ * Resolves with the trimmed name, or null when cancelled.
+ */
+export async function promptNoteName(app: App, { title, prefix, value = '', placeholder, validate, submitText }: NoteNameOptions): Promise<string | null> {
+	const values = await openForm<{ name: string }>(app, {
+		title,
+		submitText: submitText ?? t('hierarchy.create'),
+		values: { name: value },
+		fields: [{
+			key: 'name',
+			type: 'text',
+			label: t('hierarchy.noteName'),
+			prefix,
+			placeholder,
+			required: true,
+			validate: name => typeof name === 'string' ? validate?.(name.trim()) ?? null : null,
+		}],
+	});
+	return values ? values.name.trim() : null;
+}
@@ -0,0 +1,69 @@
+import { App, Modal, Setting } from 'obsidian';
+import { t } from '../i18n';
+import { RenamePlan } from './rename';
+
+export interface RenamePreviewModalOptions {
+	source: string;
+	target: string;
+	plan: RenamePlan;
+}
+
+/**
+ * Preview of the notes renamed with a hierarchy. Renaming is disabled while there are conflicts.
+ * Resolves to true when the user confirms, false otherwise.
+ */
+export class RenamePreviewModal extends Modal {
+	private resolve: (confirmed: boolean) => void = () => undefined;
+	private confirmed = false;
+
+	constructor(app: App, private options: RenamePreviewModalOptions) {
+		super(app);
+	}
+
+	openAndWait(): Promise<boolean> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		const { source, target, plan } = this.options;
+		this.titleEl.setText(t('hierarchy.rename.previewTitle', { source, target }));
+		this.modalEl.addClass('plugin-modal');
+
+		if (plan.conflicts.length > 0) {
+			contentEl.createEl('p', { text: t('hierarchy.rename.conflicts'), cls: 'setting-error-message' });
+			const list = contentEl.createEl('ul', { cls: 'hierarchy-rename-conflicts' });
+			plan.conflicts.forEach(conflict => list.createEl('li', { text: t('hierarchy.rename.conflictExists', { from: conflict.from, to: conflict.to }) }));
+		} else {
+			contentEl.createEl('p', { text: t('hierarchy.rename.summary', { count: plan.operations.length }) });
+			const table = contentEl.createEl('table', { cls: 'hierarchy-rename-table' });
+			plan.operations.forEach(operation => {
+				const row = table.createEl('tr');
+				row.createEl('td', { text: operation.from, cls: 'hierarchy-rename-from' });
+				row.createEl('td', { text: operation.to, cls: 'hierarchy-rename-to' });
+			});
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(t('common.cancel'))
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(t('hierarchy.rename.confirm'))
+				.setCta()
+				.setDisabled(plan.conflicts.length > 0)
+				.onClick(() => {
+					this.confirmed = true;
+					this.close();
+				}));
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+		this.resolve(this.confirmed);
+	}
+}
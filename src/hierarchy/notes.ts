@@ -0,0 +1,121 @@
+import { App, normalizePath, Notice, TFile } from 'obsidian';
+import { t } from '../i18n';
+import { createLogger } from '../logger';
+import { promptNoteName } from './NoteNameModal';
+import { planHierarchyRename, RenameOperation } from './rename';
+import { RenamePreviewModal } from './RenamePreviewModal';
+import { HierarchyNode } from './tree';
+
+const log = createLogger('hierarchy');
+
+// Characters Obsidian doesn't allow in file names, or that break links
+const INVALID_NAME_CHARACTERS = /[\\/:*?"<>|#^[\]]/;
+
+/**
+ * Returns an error message when `name` can't be used in a note name, null otherwise
+ */
+export function validateNoteName(name: string): string | null {
+	if (INVALID_NAME_CHARACTERS.test(name)) return t('hierarchy.invalidName');
+	if (name.startsWith('.') || name.endsWith('.')) return t('hierarchy.invalidDots');
+	return null;
+}
+
+function getFolder(path: string): string {
+	return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+}
+
+/**
+ * Folder for new notes under `node`: the folder of the node's note or of its closest ancestor with a note,
+ * the default folder for new notes otherwise
+ */
+export function getHierarchyFolder(app: App, node: HierarchyNode): string {
+	for (let current: HierarchyNode | null = node; current; current = current.parent) {
+		if (current.paths.length > 0) return getFolder(current.paths[0]);
+	}
+	return app.fileManager.getNewFileParent('').path;
+}
+
+/**
+ * Create the note `name` in `folder` and open it. Shows a notice if it already exists.
+ */
+export async function createHierarchyNote(app: App, name: string, folder: string): Promise<TFile | null> {
+	const path = normalizePath(folder && folder !== '/' ? `${folder}/${name}.md` : `${name}.md`);
+	if (app.vault.getAbstractFileByPath(path)) {
+		new Notice(t('hierarchy.exists', { path }));
+		return null;
+	}
+	try {
+		const file = await app.vault.create(path, '');
+		await app.workspace.getLeaf(false).openFile(file);
+		return file;
+	} catch (error) {
+		log.error(`Could not create ${path}`, error);
+		new Notice(t('hierarchy.createFailed', { path }));
+		return null;
+	}
+}
+
+/**
+ * Rename notes through the file manager so links are updated. If a rename fails, the notes already
+ * renamed get their previous name back, so the hierarchy is renamed as a whole or not at all.
+ */
+export async function applyHierarchyRename(app: App, operations: RenameOperation[]): Promise<boolean> {
+	const done: RenameOperation[] = [];
+	try {
+		for (const operation of operations) {
+			const file = app.vault.getAbstractFileByPath(operation.from);
+			if (!(file instanceof TFile)) throw new Error(`${operation.from} no longer exists`);
+			await app.fileManager.renameFile(file, operation.to);
+			done.push(operation);
+		}
+		return true;
+	} catch (error) {
+		log.error(`Could not rename ${operations.length} notes, restoring ${done.length}`, error);
+		for (const operation of done.reverse()) {
+			const file = app.vault.getAbstractFileByPath(operation.to);
+			try {
+				if (file instanceof TFile) await app.fileManager.renameFile(file, operation.from);
+			} catch (restoreError) {
+				log.error(`Could not restore ${operation.from}`, restoreError);
+			}
+		}
+		return false;
+	}
+}
+
+/**
+ * Rename the hierarchy `source` and every note below it, after a preview of the renamed notes
+ */
+export async function renameHierarchy(app: App, source: string, target: string): Promise<void> {
+	const plan = planHierarchyRename(app.vault.getFiles().map(file => file.path), source, target);
+	if (plan.operations.length === 0 && plan.conflicts.length === 0) {
+		new Notice(t('hierarchy.rename.nothing', { name: source }));
+		return;
+	}
+	if (!await new RenamePreviewModal(app, { source, target, plan }).openAndWait()) return;
+
+	// The vault may have changed while the preview was open
+	const current = planHierarchyRename(app.vault.getFiles().map(file => file.path), source, target);
+	if (current.conflicts.length > 0) {
+		new Notice(t('hierarchy.rename.conflicts'));
+		return;
+	}
+	if (await applyHierarchyRename(app, current.operations)) {
+		new Notice(t('hierarchy.rename.done', { count: current.operations.length }));
+	} else {
+		new Notice(t('hierarchy.rename.failed', { name: source }));
+	}
+}
+
+/**
+ * Ask for the new name of the hierarchy `source`, then rename it
+ */
+export async function promptHierarchyRename(app: App, source: string): Promise<void> {
+	const target = await promptNoteName(app, {
+		title: t('hierarchy.rename.title', { name: source }),
+		value: source,
+		validate: validateNoteName,
+		submitText: t('hierarchy.rename.submit'),
+	});
+	if (target) await renameHierarchy(app, source, target);
+}
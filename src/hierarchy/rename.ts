@@ -0,0 +1,51 @@
+import { getHierarchyName, splitHierarchyName } from './tree';
+
+/**
+ * Planning of hierarchy renames: `project.api` → `project.backend` also renames
+ * `project.api.auth.md` and every other descendant. Files stay in their folder.
+ */
+
+export interface RenameOperation {
+	from: string;
+	to: string;
+}
+
+export interface RenamePlan {
+	/** Renames in an order where no target is still the path of a note renamed later */
+	operations: RenameOperation[];
+	/** Renames whose target is already taken by a note that is not renamed */
+	conflicts: RenameOperation[];
+}
+
+function replacePrefix(name: string, source: string, target: string): string {
+	return target + name.slice(source.length);
+}
+
+/**
+ * Notes of the vault renamed when renaming the hierarchy `source` to `target`, and the conflicts preventing it
+ * @param paths Paths of every file of the vault
+ */
+export function planHierarchyRename(paths: string[], source: string, target: string): RenamePlan {
+	if (source === target) return { operations: [], conflicts: [] };
+	const renames: RenameOperation[] = [];
+	for (const path of paths) {
+		const name = getHierarchyName(path);
+		if (!name || (name !== source && !name.startsWith(`${source}.`))) continue;
+		const fileName = path.split('/').pop() ?? path;
+		const folder = path.slice(0, path.length - fileName.length);
+		renames.push({ from: path, to: `${folder}${replacePrefix(name, source, target)}${fileName.slice(-3)}` });
+	}
+
+	// Targets taken by notes that are not renamed, compared ignoring case like most file systems
+	const sources = new Set(renames.map(rename => rename.from.toLowerCase()));
+	const taken = new Set(paths.map(path => path.toLowerCase()).filter(path => !sources.has(path)));
+	const conflicts = renames.filter(rename => taken.has(rename.to.toLowerCase()));
+	if (conflicts.length > 0) return { operations: [], conflicts };
+
+	// Renaming `a` to `a.b` moves `a.b` to `a.b.b`, which must happen before `a` takes its place:
+	// notes are renamed deepest first when names get longer, shallowest first when they get shorter
+	const depth = (name: string | null) => splitHierarchyName(name ?? '').length;
+	const direction = depth(target) > depth(source) ? -1 : 1;
+	const operations = [...renames].sort((a, b) => direction * (depth(getHierarchyName(a.from)) - depth(getHierarchyName(b.from))));
+	return { operations, conflicts: [] };
+}
@@ -0,0 +1,144 @@
+/**
+ * Tree of dot-separated note names: `project.api.auth.md` → project › api › auth.
+ *
+ * Intermediate names without a note (e.g. `project.api` when only `project.api.auth.md` exists)
+ * are kept as virtual nodes. The tree is updated one note at a time, so vault events
+ * don't require rebuilding it.
+ */
+
+export interface HierarchyNode {
+	/** Full dotted name, e.g. `project.api`. Empty for the root. */
+	name: string;
+	/** Last segment of the name, e.g. `api` */
+	segment: string;
+	/** Paths of the notes with this name, sorted. Empty for virtual nodes. */
+	paths: string[];
+	parent: HierarchyNode | null;
+	children: Map<string, HierarchyNode>;
+}
+
+export interface HierarchyTree {
+	root: HierarchyNode;
+	/** Every node by full name, root excluded */
+	nodes: Map<string, HierarchyNode>;
+}
+
+export function createHierarchy(): HierarchyTree {
+	return { root: createNode('', '', null), nodes: new Map() };
+}
+
+function createNode(name: string, segment: string, parent: HierarchyNode | null): HierarchyNode {
+	return { name, segment, paths: [], parent, children: new Map() };
+}
+
+/**
+ * Name of a markdown note in the hierarchy (`folder/project.api.md` → `project.api`), or null for other files
+ */
+export function getHierarchyName(path: string): string | null {
+	const fileName = path.split('/').pop() ?? '';
+	if (!fileName.toLowerCase().endsWith('.md')) return null;
+	const name = splitHierarchyName(fileName.slice(0, -3)).join('.');
+	return name || null;
+}
+
+/**
+ * Segments of a dotted name, ignoring empty ones (`a..b.` → a, b)
+ */
+export function splitHierarchyName(name: string): string[] {
+	return name.split('.').filter(segment => segment.length > 0);
+}
+
+export function isVirtualNode(node: HierarchyNode): boolean {
+	return node.paths.length === 0;
+}
+
+export function getNodeDepth(node: HierarchyNode): number {
+	return node.name ? splitHierarchyName(node.name).length - 1 : -1;
+}
+
+/**
+ * Add a note, creating the missing intermediate nodes.
+ * @returns Nodes that changed: the note node and every node created for it, with their parents
+ */
+export function addNote(tree: HierarchyTree, path: string): HierarchyNode[] {
+	const name = getHierarchyName(path);
+	if (!name) return [];
+	const changed = new Set<HierarchyNode>();
+	let node = tree.root;
+	for (const segment of splitHierarchyName(name)) {
+		let child = node.children.get(segment);
+		if (!child) {
+			child = createNode(node.name ? `${node.name}.${segment}` : segment, segment, node);
+			node.children.set(segment, child);
+			tree.nodes.set(child.name, child);
+			changed.add(node);
+			changed.add(child);
+		}
+		node = child;
+	}
+	if (!node.paths.includes(path)) {
+		node.paths = [...node.paths, path].sort();
+		changed.add(node);
+	}
+	return [...changed];
+}
+
+/**
+ * Remove a note, and the virtual nodes left without children.
+ * @returns Nodes that changed, removed ones included
+ */
+export function removeNote(tree: HierarchyTree, path: string): HierarchyNode[] {
+	const name = getHierarchyName(path);
+	const node = name ? tree.nodes.get(name) : undefined;
+	if (!node || !node.paths.includes(path)) return [];
+	const changed = new Set<HierarchyNode>([node]);
+	node.paths = node.paths.filter(notePath => notePath !== path);
+
+	let current: HierarchyNode = node;
+	while (current.parent && isVirtualNode(current) && current.children.size === 0) {
+		current.parent.children.delete(current.segment);
+		tree.nodes.delete(current.name);
+		changed.add(current.parent);
+		current = current.parent;
+	}
+	return [...changed];
+}
+
+export function renameNote(tree: HierarchyTree, oldPath: string, newPath: string): HierarchyNode[] {
+	return [...new Set([...removeNote(tree, oldPath), ...addNote(tree, newPath)])];
+}
+
+export function buildHierarchy(paths: string[]): HierarchyTree {
+	const tree = createHierarchy();
+	paths.forEach(path => addNote(tree, path));
+	return tree;
+}
+
+/**
+ * Children sorted by segment, numbers in natural order
+ */
+export function getSortedChildren(node: HierarchyNode): HierarchyNode[] {
+	return [...node.children.values()].sort((a, b) => a.segment.localeCompare(b.segment, undefined, { numeric: true }));
+}
+
+/**
+ * Nodes shown when only the `expanded` nodes are open, in display order
+ */
+export function flattenHierarchy(tree: HierarchyTree, expanded: Set<string>): HierarchyNode[] {
+	const rows: HierarchyNode[] = [];
+	const visit = (node: HierarchyNode) => {
+		for (const child of getSortedChildren(node)) {
+			rows.push(child);
+			if (expanded.has(child.name)) visit(child);
+		}
+	};
+	visit(tree.root);
+	return rows;
+}
+
+/**
+ * Every node below `node`, depth first
+ */
+export function getDescendants(node: HierarchyNode): HierarchyNode[] {
+	return getSortedChildren(node).flatMap(child => [child, ...getDescendants(child)]);
+}
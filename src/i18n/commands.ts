@@ -0,0 +1,74 @@
+import { Command, Plugin } from 'obsidian';
+import { t } from './index';
+import { TranslationKey, TranslationVariables } from './types';
+
+export interface TranslatedCommand extends Omit<Command, 'name'> {
+	nameKey: TranslationKey;
+	nameVariables?: TranslationVariables;
+}
+
+interface RegisteredCommand {
+	/** Id given to addTranslatedCommand(), without the plugin prefix */
+	id: string;
+	command: Command;
+	/** Prefix added by Obsidian to the command name (`Plugin name: `) */
+	prefix: string;
+	nameKey: TranslationKey;
+	nameVariables?: TranslationVariables;
+}
+
+const registeredCommands = new WeakMap<Plugin, RegisteredCommand[]>();
+
+/**
+ * Add a command whose name is a translation key, so it can be renamed by refreshCommandNames()
+ * when the locale changes
+ */
+export function addTranslatedCommand(plugin: Plugin, { nameKey, nameVariables, ...definition }: TranslatedCommand): Command {
+	const name = t(nameKey, nameVariables);
+	const command = plugin.addCommand({ ...definition, name });
+	const prefix = command.name.endsWith(name) ? command.name.slice(0, command.name.length - name.length) : '';
+	const commands = registeredCommands.get(plugin) ?? [];
+	commands.push({ id: definition.id, command, prefix, nameKey, nameVariables });
+	registeredCommands.set(plugin, commands);
+	return command;
+}
+
+/**
+ * Translate again the names of the commands added with addTranslatedCommand()
+ */
+export function refreshCommandNames(plugin: Plugin): void {
+	registeredCommands.get(plugin)?.forEach(({ command, prefix, nameKey, nameVariables }) => {
+		command.name = prefix + t(nameKey, nameVariables);
+	});
+}
+
+/**
+ * Make a command unavailable: hidden from the command palette, and ignored by hotkeys
+ */
+function disableCommand(command: Command): void {
+	command.callback = undefined;
+	command.editorCallback = undefined;
+	command.editorCheckCallback = undefined;
+	command.checkCallback = () => false;
+}
+
+/**
+ * Remove a command added with addTranslatedCommand(), e.g. one generated from the settings.
+ * Plugin#removeCommand() only exists since Obsidian 1.7.2: on older versions the command is disabled.
+ */
+export function removeTranslatedCommand(plugin: Plugin, id: string): void {
+	const commands = registeredCommands.get(plugin) ?? [];
+	if (typeof plugin.removeCommand === 'function') {
+		plugin.removeCommand(id);
+	} else {
+		commands.filter(registered => registered.id === id).forEach(({ command }) => disableCommand(command));
+	}
+	registeredCommands.set(plugin, commands.filter(command => command.id !== id));
+}
+
+/**
+ * Commands added with addTranslatedCommand(), with the id they were added with
+ */
+export function getTranslatedCommands(plugin: Plugin): { id: string; command: Command; name: string }[] {
+	return (registeredCommands.get(plugin) ?? []).map(({ id, command, nameKey, nameVariables }) => ({ id, command, name: t(nameKey, nameVariables) }));
+}
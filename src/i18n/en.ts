@@ -1,4 +1,276 @@
 // English localization
 export default {
-    testKey: 'Hello {{name}}, welcome to {{place}}!',
+	testKey: 'Hello {{name}}, welcome to {{place}}!',
+	meta: {
+		languageName: 'English',
+	},
+	settings: {
+		macros: {
+			add: 'Add macro',
+			name: 'Macro name',
+			namePlaceholder: 'My macro',
+			remove: 'Delete macro',
+			addStep: 'Add a transform',
+			removeStep: 'Remove this transform',
+			empty: 'No transform yet',
+		},
+		sections: {
+			general: 'General',
+			statusBar: 'Status bar',
+			advanced: 'Advanced',
+			profiles: 'Profiles',
+			profilesDesc: 'Changes made while a profile is active only apply to that profile.',
+			macros: 'Text macros',
+			macrosDesc: 'Transforms applied one after the other to the selection. Each macro is available as a command.',
+			ribbon: 'Ribbon menu',
+			ribbonDesc: 'Actions of the ribbon icon menu, opened by right-clicking it. Clicking the icon runs the first action.',
+			commands: 'Commands',
+			commandsDesc: 'For each command: whether it\'s shown in the command palette, and whether it\'s added to the editor context menu. Commands only show up where they can run.',
+		},
+		commands: {
+			palette: 'Show in the command palette',
+			editorMenu: 'Add to the editor menu',
+		},
+		ribbon: {
+			add: 'Add action',
+			addPlaceholder: 'Choose an action',
+			remove: 'Remove action',
+			moveUp: 'Move up',
+			moveDown: 'Move down',
+			drag: 'Drag to reorder',
+			missing: 'Unavailable action ({{target}})',
+			empty: 'No action yet. Clicking the icon shows the menu.',
+		},
+		mySetting: {
+			name: 'Setting #1',
+			desc: 'It\'s a secret',
+			placeholder: 'Enter your secret',
+		},
+		locale: {
+			name: 'Language',
+			desc: 'Language of this plugin. Changes apply immediately.',
+			auto: 'Same as Obsidian',
+		},
+		statusBarMetrics: {
+			name: 'Note statistics',
+			desc: 'Statistics of the active note shown in the status bar',
+		},
+		verboseLogging: {
+			name: 'Verbose logging',
+			desc: 'Record debug messages in the logs and print them to the developer console. Useful when reporting a bug.',
+		},
+		resetDefault: 'Restore default value',
+		list: {
+			add: 'Add item',
+			remove: 'Remove item',
+		},
+		errors: {
+			required: 'This value is required',
+			notANumber: 'Enter a valid number',
+			min: 'Must be at least {{min}}',
+			max: 'Must be at most {{max}}',
+		},
+		export: {
+			noteTitle: '{{name}} settings',
+			done: 'Settings exported to {{path}}',
+			failed: 'Could not export settings: {{error}}',
+		},
+		import: {
+			title: 'Import settings from {{file}}',
+			failed: 'Could not import settings: {{error}}',
+			invalidJson: 'the file does not contain valid JSON settings',
+			wrongPlugin: 'these settings belong to another plugin ({{plugin}})',
+			newerVersion: 'these settings come from a newer version of the plugin, update it first',
+		},
+		reset: {
+			title: 'Reset all settings to defaults',
+			sectionTitle: 'Reset "{{section}}" settings to defaults',
+			sectionPlaceholder: 'Choose the section to reset',
+		},
+		diff: {
+			empty: 'No setting would change.',
+			path: 'Setting',
+			before: 'Current value',
+			after: 'New value',
+			warnings: 'Some imported values were invalid and have been repaired:',
+		},
+		applied: '{count, plural, one {# setting updated} other {# settings updated}}',
+		newerVersion: 'Your {{name}} settings were saved by a newer version of the plugin. Update it: changes made with this version won\'t be saved.',
+		saveFailed: 'Could not save the settings: {{error}}',
+	},
+	ribbon: {
+		openView: 'Open {{name}}',
+		openSettings: 'Open settings',
+		editActions: 'Edit actions',
+		unavailable: '"{{name}}" can\'t run here',
+	},
+	forms: {
+		submit: 'Submit',
+		errors: {
+			date: 'Enter a valid date',
+			minDate: 'The date must be on or after {{min}}',
+			maxDate: 'The date must be on or before {{max}}',
+		},
+		noteFromTemplate: {
+			title: 'New note from a template',
+			name: 'Name',
+			folder: 'Folder',
+			template: 'Template',
+			templateDesc: 'Note whose content is copied into the new note. Leave empty for an empty note.',
+			templateMissing: 'This note doesn\'t exist',
+			open: 'Open the note',
+		},
+	},
+	transforms: {
+		uppercase: 'Convert selection to uppercase',
+		lowercase: 'Convert selection to lowercase',
+		titleCase: 'Convert selection to title case',
+		sortLines: 'Sort selected lines',
+		dedupeLines: 'Remove duplicate selected lines',
+		callout: 'Wrap selection in a callout',
+		listToTable: 'Convert selected list to a table',
+		slugify: 'Slugify selection',
+		pick: 'Transform or macro to apply…',
+		macro: 'Macro: {{name}}',
+	},
+	stats: {
+		words: '{count, plural, one {# word} other {# words}}',
+		characters: '{count, plural, one {# character} other {# characters}}',
+		readingTime: '{{count}} min read',
+		selection: '{{words}}, {{characters}} selected',
+		breakdown: 'Statistics by heading',
+		beforeFirstHeading: 'Before the first heading',
+		total: 'Total',
+		metrics: {
+			words: 'Word count',
+			characters: 'Character count',
+			readingTime: 'Reading time',
+			selection: 'Selection',
+		},
+	},
+	picker: {
+		empty: 'No match',
+		toggle: 'to select',
+		confirm: 'to confirm',
+		confirmButton: 'Confirm',
+		dismiss: 'to dismiss',
+		notes: {
+			placeholder: 'Find a note…',
+			placeholderMultiple: 'Select notes to link…',
+			empty: 'No note found',
+			inserted: '{count, plural, one {# link inserted} other {# links inserted}}',
+		},
+	},
+	common: {
+		cancel: 'Cancel',
+		apply: 'Apply',
+	},
+	commands: {
+		openNote: 'Open a note',
+		insertNoteLinks: 'Insert links to notes',
+		noteFromTemplate: 'Create a note from a template',
+		runMacro: 'Run macro {{name}}',
+		editorCommand: 'Transform selection',
+		renameHierarchy: 'Rename note with its descendants',
+		exportSettingsNote: 'Export settings to a note',
+		exportSettingsFile: 'Export settings to a file',
+		importSettings: 'Import settings from a file',
+		resetSettings: 'Reset all settings to defaults',
+		resetSettingsSection: 'Reset a settings section to defaults',
+		switchProfile: 'Switch settings profile',
+		showLogs: 'Show logs',
+		showJobs: 'Show background jobs',
+		copyLogs: 'Copy logs to the clipboard',
+		saveLogs: 'Save logs to a note',
+		openVaultList: 'Open vault file list',
+		openHierarchy: 'Open hierarchy navigator',
+	},
+	jobs: {
+		title: 'Background jobs',
+		runNow: 'Run now',
+		never: 'Never',
+		columns: {
+			name: 'Job',
+			state: 'Status',
+			lastRun: 'Last run',
+			nextRun: 'Next run',
+		},
+		states: {
+			pending: 'Not run yet',
+			running: 'Running…',
+			succeeded: 'Succeeded',
+			failed: 'Failed',
+		},
+		forgetMissingNotes: 'Forget deleted notes in recently picked notes',
+	},
+	logs: {
+		title: 'Logs',
+		allNamespaces: 'All modules',
+		search: 'Filter logs',
+		empty: 'No log entries',
+		count: '{count, plural, one {# entry} other {# entries}}',
+		verboseHint: 'Enable verbose logging in the settings to also record debug messages.',
+		copy: 'Copy',
+		save: 'Save to a note',
+		clear: 'Clear',
+		copied: 'Logs copied to the clipboard, with vault details redacted',
+		saved: 'Logs saved to {{path}}',
+		noteTitle: '{{name}} logs',
+		levels: {
+			debug: 'Debug',
+			info: 'Info',
+			warn: 'Warning',
+			error: 'Error',
+		},
+	},
+	vaultList: {
+		title: 'Vault files',
+		filter: 'Filter by path',
+		count: '{count, plural, one {# file} other {# files}}',
+		empty: 'No files',
+		open: 'Open in new tab',
+	},
+	hierarchy: {
+		title: 'Hierarchy',
+		empty: 'No notes',
+		newChild: 'New child note',
+		newChildTitle: 'New note under {{name}}',
+		childPlaceholder: 'Child name',
+		noteName: 'Note name',
+		createNote: 'Create this note',
+		create: 'Create',
+		exists: 'A note already exists at {{path}}',
+		createFailed: 'Could not create {{path}}',
+		invalidName: 'Note names can\'t contain \\ / : * ? " < > | # ^ [ ]',
+		invalidDots: 'Note names can\'t start or end with a dot',
+		rename: {
+			menu: 'Rename with descendants',
+			title: 'Rename {{name}}',
+			submit: 'Rename',
+			previewTitle: 'Rename {{source}} to {{target}}',
+			summary: '{count, plural, one {# note will be renamed} other {# notes will be renamed}}. Links are updated.',
+			confirm: 'Rename',
+			conflicts: 'Some notes can\'t be renamed:',
+			conflictExists: '{{from}} → {{to}}: a note already exists',
+			nothing: 'No note to rename under {{name}}',
+			done: '{count, plural, one {# note renamed} other {# notes renamed}}',
+			failed: 'Could not rename {{name}}, the renamed notes were restored',
+		},
+	},
+	profiles: {
+		statusBar: 'Profile: {{profile}}',
+		base: 'Default',
+		active: 'active',
+		switched: 'Settings profile switched to {{profile}}',
+		switchPlaceholder: 'Choose the settings profile to use',
+		activeName: 'Active profile',
+		delete: 'Delete the active profile',
+		newName: 'New profile',
+		newPlaceholder: 'Profile name',
+		create: 'Create',
+		autoSelectName: 'Select profile automatically',
+		autoSelectDesc: 'Use a different profile on desktop and on mobile.',
+		desktopName: 'Desktop profile',
+		mobileName: 'Mobile profile',
+	},
 };
@@ -0,0 +1,154 @@
+import { TranslationValue, TranslationVariables } from './types';
+
+/**
+ * Message formatting: `{{var}}` interpolation with locale-aware numbers and dates,
+ * and a subset of ICU MessageFormat for plural and select forms:
+ *
+ *   '{count, plural, =0 {No file} one {# file} other {# files}}'
+ *   '{kind, select, folder {Folder} other {File}}'
+ *   'Saved {{when, datetime}}'
+ */
+
+const ICU_HEADER = /^\{\s*(\w+)\s*,\s*(plural|selectordinal|select)\s*,/;
+const INTERPOLATION = /\{\{\s*(\w+)\s*(?:,\s*(\w+)\s*)?\}\}/g;
+
+export function formatNumber(value: number, locale: string, options?: Intl.NumberFormatOptions): string {
+	try {
+		return new Intl.NumberFormat(locale, options).format(value);
+	} catch {
+		return String(value);
+	}
+}
+
+export function formatDate(value: Date | number, locale: string, options?: Intl.DateTimeFormatOptions): string {
+	try {
+		return new Intl.DateTimeFormat(locale, options).format(value);
+	} catch {
+		return new Date(value).toString();
+	}
+}
+
+function pluralCategory(value: number, locale: string, type: 'cardinal' | 'ordinal'): string {
+	try {
+		return new Intl.PluralRules(locale, { type }).select(value);
+	} catch {
+		return value === 1 ? 'one' : 'other';
+	}
+}
+
+/**
+ * Format a single `{{var, format}}` value
+ */
+function formatValue(value: TranslationValue, format: string | undefined, locale: string): string {
+	if (value instanceof Date || (typeof value === 'number' && (format === 'date' || format === 'time' || format === 'datetime'))) {
+		switch (format) {
+			case 'time':
+				return formatDate(value, locale, { timeStyle: 'short' });
+			case 'datetime':
+				return formatDate(value, locale, { dateStyle: 'medium', timeStyle: 'short' });
+			default:
+				return formatDate(value, locale, { dateStyle: 'medium' });
+		}
+	}
+	if (typeof value === 'number') {
+		if (format === 'percent') return formatNumber(value, locale, { style: 'percent' });
+		if (format === 'integer') return formatNumber(Math.round(value), locale);
+		return formatNumber(value, locale);
+	}
+	return value;
+}
+
+/** Index of the brace closing the one opened at `start`, or -1 */
+function findClosingBrace(text: string, start: number): number {
+	let depth = 0;
+	for (let i = start; i < text.length; i++) {
+		if (text[i] === '{') depth++;
+		else if (text[i] === '}' && --depth === 0) return i;
+	}
+	return -1;
+}
+
+/** Parse `key {message} key {message}…` into a map */
+function parseOptions(body: string): Map<string, string> | null {
+	const options = new Map<string, string>();
+	let i = 0;
+	while (i < body.length) {
+		while (i < body.length && /\s/.test(body[i])) i++;
+		if (i >= body.length) break;
+		const selectorStart = i;
+		while (i < body.length && !/[\s{]/.test(body[i])) i++;
+		const selector = body.slice(selectorStart, i);
+		while (i < body.length && /\s/.test(body[i])) i++;
+		if (!selector || body[i] !== '{') return null;
+		const end = findClosingBrace(body, i);
+		if (end === -1) return null;
+		options.set(selector, body.slice(i + 1, end));
+		i = end + 1;
+	}
+	return options;
+}
+
+/** Replace `#` with the formatted count, leaving nested ICU blocks alone */
+function replaceHash(message: string, count: string): string {
+	let depth = 0;
+	let result = '';
+	for (const char of message) {
+		if (char === '{') depth++;
+		if (char === '}') depth--;
+		result += char === '#' && depth === 0 ? count : char;
+	}
+	return result;
+}
+
+function selectMessage(type: string, options: Map<string, string>, value: TranslationValue, locale: string): string | undefined {
+	if (type === 'select') {
+		return options.get(String(value)) ?? options.get('other');
+	}
+	const count = typeof value === 'number' ? value : Number(value);
+	const exact = options.get(`=${count}`);
+	if (exact !== undefined) return exact;
+	const category = pluralCategory(count, locale, type === 'selectordinal' ? 'ordinal' : 'cardinal');
+	const message = options.get(category) ?? options.get('other');
+	return message === undefined ? undefined : replaceHash(message, formatNumber(count, locale));
+}
+
+/**
+ * Resolve every ICU plural/select block. Blocks whose variable is missing are kept as is.
+ */
+function formatIcu(template: string, variables: TranslationVariables, locale: string): string {
+	let result = '';
+	let i = 0;
+	while (i < template.length) {
+		const open = template.indexOf('{', i);
+		if (open === -1) break;
+		const header = template[open + 1] === '{' ? null : ICU_HEADER.exec(template.slice(open));
+		const end = header ? findClosingBrace(template, open) : -1;
+		if (!header || end === -1) {
+			// Not an ICU block: skip `{{var}}` as a whole
+			const skip = template[open + 1] === '{' ? 2 : 1;
+			result += template.slice(i, open + skip);
+			i = open + skip;
+			continue;
+		}
+		const [, name, type] = header;
+		const options = parseOptions(template.slice(open + header[0].length, end));
+		const value = variables[name];
+		const message = options && value !== undefined ? selectMessage(type, options, value, locale) : undefined;
+		result += template.slice(i, open);
+		result += message === undefined ? template.slice(open, end + 1) : formatIcu(message, variables, locale);
+		i = end + 1;
+	}
+	return result + template.slice(i);
+}
+
+/**
+ * Format a message template with the given variables for `locale`
+ */
+export function formatMessage(template: string, variables: TranslationVariables | undefined, locale: string): string {
+	if (!variables) return template;
+	const withForms = formatIcu(template, variables, locale);
+	return withForms.replace(INTERPOLATION, (match: string, name: string, format?: string) => {
+		const value = variables[name];
+		return value === undefined ? match : formatValue(value, format, locale);
+	});
+}
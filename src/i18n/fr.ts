@@ -1,4 +1,280 @@
-// English localization
-export default {
-    testKey: 'Bonjour {{name}}, bienvenue à {{place}}!',
+// French localization
+import { LocaleTranslations } from './types';
+
+const fr: LocaleTranslations = {
+	testKey: 'Bonjour {{name}}, bienvenue à {{place}}!',
+	meta: {
+		languageName: 'Français',
+	},
+	settings: {
+		macros: {
+			add: 'Ajouter une macro',
+			name: 'Nom de la macro',
+			namePlaceholder: 'Ma macro',
+			remove: 'Supprimer la macro',
+			addStep: 'Ajouter une transformation',
+			removeStep: 'Retirer cette transformation',
+			empty: 'Aucune transformation',
+		},
+		sections: {
+			general: 'Général',
+			statusBar: 'Barre d\'état',
+			advanced: 'Avancé',
+			profiles: 'Profils',
+			profilesDesc: 'Les modifications faites lorsqu\'un profil est actif ne s\'appliquent qu\'à ce profil.',
+			macros: 'Macros de texte',
+			macrosDesc: 'Transformations appliquées l\'une après l\'autre à la sélection. Chaque macro est disponible comme commande.',
+			ribbon: 'Menu du ruban',
+			ribbonDesc: 'Actions du menu de l\'icône du ruban, ouvert par un clic droit. Un clic sur l\'icône exécute la première action.',
+			commands: 'Commandes',
+			commandsDesc: 'Pour chaque commande : si elle est affichée dans la palette de commandes, et si elle est ajoutée au menu contextuel de l\'éditeur. Les commandes n\'apparaissent que là où elles peuvent s\'exécuter.',
+		},
+		commands: {
+			palette: 'Afficher dans la palette de commandes',
+			editorMenu: 'Ajouter au menu de l\'éditeur',
+		},
+		ribbon: {
+			add: 'Ajouter une action',
+			addPlaceholder: 'Choisissez une action',
+			remove: 'Supprimer l\'action',
+			moveUp: 'Monter',
+			moveDown: 'Descendre',
+			drag: 'Glisser pour réordonner',
+			missing: 'Action indisponible ({{target}})',
+			empty: 'Aucune action. Un clic sur l\'icône affiche le menu.',
+		},
+		mySetting: {
+			name: 'Paramètre n°1',
+			desc: 'C\'est un secret',
+			placeholder: 'Saisissez votre secret',
+		},
+		locale: {
+			name: 'Langue',
+			desc: 'Langue de ce plugin. Les changements s\'appliquent immédiatement.',
+			auto: 'Comme Obsidian',
+		},
+		statusBarMetrics: {
+			name: 'Statistiques de la note',
+			desc: 'Statistiques de la note active affichées dans la barre d\'état',
+		},
+		verboseLogging: {
+			name: 'Journalisation détaillée',
+			desc: 'Enregistre les messages de débogage dans les journaux et les affiche dans la console de développement. Utile pour signaler un bug.',
+		},
+		resetDefault: 'Restaurer la valeur par défaut',
+		list: {
+			add: 'Ajouter un élément',
+			remove: 'Supprimer l\'élément',
+		},
+		errors: {
+			required: 'Cette valeur est obligatoire',
+			notANumber: 'Saisissez un nombre valide',
+			min: 'Doit être supérieur ou égal à {{min}}',
+			max: 'Doit être inférieur ou égal à {{max}}',
+		},
+		export: {
+			noteTitle: 'Paramètres de {{name}}',
+			done: 'Paramètres exportés dans {{path}}',
+			failed: 'Impossible d\'exporter les paramètres : {{error}}',
+		},
+		import: {
+			title: 'Importer les paramètres depuis {{file}}',
+			failed: 'Impossible d\'importer les paramètres : {{error}}',
+			invalidJson: 'le fichier ne contient pas de paramètres JSON valides',
+			wrongPlugin: 'ces paramètres appartiennent à un autre plugin ({{plugin}})',
+			newerVersion: 'ces paramètres viennent d\'une version plus récente du plugin, mettez-le d\'abord à jour',
+		},
+		reset: {
+			title: 'Réinitialiser tous les paramètres',
+			sectionTitle: 'Réinitialiser les paramètres « {{section}} »',
+			sectionPlaceholder: 'Choisissez la section à réinitialiser',
+		},
+		diff: {
+			empty: 'Aucun paramètre ne serait modifié.',
+			path: 'Paramètre',
+			before: 'Valeur actuelle',
+			after: 'Nouvelle valeur',
+			warnings: 'Certaines valeurs importées étaient invalides et ont été corrigées :',
+		},
+		applied: '{count, plural, one {# paramètre modifié} other {# paramètres modifiés}}',
+		newerVersion: 'Vos paramètres de {{name}} ont été enregistrés par une version plus récente du plugin. Mettez-le à jour : les modifications faites avec cette version ne seront pas enregistrées.',
+		saveFailed: 'Impossible d\'enregistrer les paramètres : {{error}}',
+	},
+	ribbon: {
+		openView: 'Ouvrir {{name}}',
+		openSettings: 'Ouvrir les paramètres',
+		editActions: 'Modifier les actions',
+		unavailable: '« {{name}} » ne peut pas être exécutée ici',
+	},
+	forms: {
+		submit: 'Valider',
+		errors: {
+			date: 'Saisissez une date valide',
+			minDate: 'La date doit être le {{min}} ou après',
+			maxDate: 'La date doit être le {{max}} ou avant',
+		},
+		noteFromTemplate: {
+			title: 'Nouvelle note depuis un modèle',
+			name: 'Nom',
+			folder: 'Dossier',
+			template: 'Modèle',
+			templateDesc: 'Note dont le contenu est copié dans la nouvelle note. Laissez vide pour une note vide.',
+			templateMissing: 'Cette note n\'existe pas',
+			open: 'Ouvrir la note',
+		},
+	},
+	transforms: {
+		uppercase: 'Mettre la sélection en majuscules',
+		lowercase: 'Mettre la sélection en minuscules',
+		titleCase: 'Mettre une majuscule à chaque mot de la sélection',
+		sortLines: 'Trier les lignes sélectionnées',
+		dedupeLines: 'Supprimer les lignes sélectionnées en double',
+		callout: 'Placer la sélection dans un encadré',
+		listToTable: 'Convertir la liste sélectionnée en tableau',
+		slugify: 'Convertir la sélection en slug',
+		pick: 'Transformation ou macro à appliquer…',
+		macro: 'Macro : {{name}}',
+	},
+	stats: {
+		words: '{count, plural, one {# mot} other {# mots}}',
+		characters: '{count, plural, one {# caractère} other {# caractères}}',
+		readingTime: '{{count}} min de lecture',
+		selection: '{{words}}, {{characters}} sélectionnés',
+		breakdown: 'Statistiques par titre',
+		beforeFirstHeading: 'Avant le premier titre',
+		total: 'Total',
+		metrics: {
+			words: 'Nombre de mots',
+			characters: 'Nombre de caractères',
+			readingTime: 'Temps de lecture',
+			selection: 'Sélection',
+		},
+	},
+	picker: {
+		empty: 'Aucun résultat',
+		toggle: 'pour sélectionner',
+		confirm: 'pour valider',
+		confirmButton: 'Valider',
+		dismiss: 'pour fermer',
+		notes: {
+			placeholder: 'Chercher une note…',
+			placeholderMultiple: 'Choisir les notes à lier…',
+			empty: 'Aucune note trouvée',
+			inserted: '{count, plural, one {# lien inséré} other {# liens insérés}}',
+		},
+	},
+	common: {
+		cancel: 'Annuler',
+		apply: 'Appliquer',
+	},
+	commands: {
+		openNote: 'Ouvrir une note',
+		insertNoteLinks: 'Insérer des liens vers des notes',
+		noteFromTemplate: 'Créer une note depuis un modèle',
+		runMacro: 'Lancer la macro {{name}}',
+		editorCommand: 'Transformer la sélection',
+		renameHierarchy: 'Renommer la note et ses descendantes',
+		exportSettingsNote: 'Exporter les paramètres dans une note',
+		exportSettingsFile: 'Exporter les paramètres dans un fichier',
+		importSettings: 'Importer les paramètres depuis un fichier',
+		resetSettings: 'Réinitialiser tous les paramètres',
+		resetSettingsSection: 'Réinitialiser une section des paramètres',
+		switchProfile: 'Changer de profil de paramètres',
+		showLogs: 'Afficher les journaux',
+		showJobs: 'Afficher les tâches de fond',
+		copyLogs: 'Copier les journaux dans le presse-papiers',
+		saveLogs: 'Enregistrer les journaux dans une note',
+		openVaultList: 'Ouvrir la liste des fichiers du coffre',
+		openHierarchy: 'Ouvrir le navigateur de hiérarchie',
+	},
+	jobs: {
+		title: 'Tâches de fond',
+		runNow: 'Exécuter',
+		never: 'Jamais',
+		columns: {
+			name: 'Tâche',
+			state: 'État',
+			lastRun: 'Dernière exécution',
+			nextRun: 'Prochaine exécution',
+		},
+		states: {
+			pending: 'Pas encore exécutée',
+			running: 'En cours…',
+			succeeded: 'Réussie',
+			failed: 'Échouée',
+		},
+		forgetMissingNotes: 'Oublier les notes supprimées parmi les notes récentes',
+	},
+	logs: {
+		title: 'Journaux',
+		allNamespaces: 'Tous les modules',
+		search: 'Filtrer les journaux',
+		empty: 'Aucune entrée',
+		count: '{count, plural, one {# entrée} other {# entrées}}',
+		verboseHint: 'Activez la journalisation détaillée dans les paramètres pour enregistrer aussi les messages de débogage.',
+		copy: 'Copier',
+		save: 'Enregistrer dans une note',
+		clear: 'Effacer',
+		copied: 'Journaux copiés dans le presse-papiers, sans les informations du coffre',
+		saved: 'Journaux enregistrés dans {{path}}',
+		noteTitle: 'Journaux de {{name}}',
+		levels: {
+			debug: 'Débogage',
+			info: 'Information',
+			warn: 'Avertissement',
+			error: 'Erreur',
+		},
+	},
+	vaultList: {
+		title: 'Fichiers du coffre',
+		filter: 'Filtrer par chemin',
+		count: '{count, plural, one {# fichier} other {# fichiers}}',
+		empty: 'Aucun fichier',
+		open: 'Ouvrir dans un nouvel onglet',
+	},
+	hierarchy: {
+		title: 'Hiérarchie',
+		empty: 'Aucune note',
+		newChild: 'Nouvelle note enfant',
+		newChildTitle: 'Nouvelle note sous {{name}}',
+		childPlaceholder: 'Nom de l\'enfant',
+		noteName: 'Nom de la note',
+		createNote: 'Créer cette note',
+		create: 'Créer',
+		exists: 'Une note existe déjà : {{path}}',
+		createFailed: 'Impossible de créer {{path}}',
+		invalidName: 'Les noms de notes ne peuvent pas contenir \\ / : * ? " < > | # ^ [ ]',
+		invalidDots: 'Les noms de notes ne peuvent pas commencer ou finir par un point',
+		rename: {
+			menu: 'Renommer avec les descendantes',
+			title: 'Renommer {{name}}',
+			submit: 'Renommer',
+			previewTitle: 'Renommer {{source}} en {{target}}',
+			summary: '{count, plural, one {# note sera renommée} other {# notes seront renommées}}. Les liens sont mis à jour.',
+			confirm: 'Renommer',
+			conflicts: 'Certaines notes ne peuvent pas être renommées :',
+			conflictExists: '{{from}} → {{to}} : une note existe déjà',
+			nothing: 'Aucune note à renommer sous {{name}}',
+			done: '{count, plural, one {# note renommée} other {# notes renommées}}',
+			failed: 'Impossible de renommer {{name}}, les notes renommées ont été restaurées',
+		},
+	},
+	profiles: {
+		statusBar: 'Profil : {{profile}}',
+		base: 'Par défaut',
+		active: 'actif',
+		switched: 'Profil de paramètres changé pour {{profile}}',
+		switchPlaceholder: 'Choisissez le profil de paramètres à utiliser',
+		activeName: 'Profil actif',
+		delete: 'Supprimer le profil actif',
+		newName: 'Nouveau profil',
+		newPlaceholder: 'Nom du profil',
+		create: 'Créer',
+		autoSelectName: 'Sélectionner le profil automatiquement',
+		autoSelectDesc: 'Utiliser un profil différent sur ordinateur et sur mobile.',
+		desktopName: 'Profil ordinateur',
+		mobileName: 'Profil mobile',
+	},
 };
+
+export default fr;
@@ -1,53 +1,208 @@
 import { moment } from 'obsidian';
+import { createLogger } from '../logger';
 import en from './en';
-import fr from './fr';
+import { formatDate, formatMessage, formatNumber } from './format';
+import { TranslationKey, TranslationTree, TranslationVariables } from './types';
 
-// Define the structure of our translations
-export interface Translations {
-    [key: string]: string;
-}
+const log = createLogger('i18n');
 
-// Available translations
-const translations: Record<string, Translations> = {
-    en,
-    fr
+// Loaded translations. English is bundled so t() always has a synchronous fallback,
+// other locales are added by the locale loader or addTranslation()
+const translations: Record<string, TranslationTree> = {
+    en
 };
 
+/** Reads the translation of a locale, e.g. from a JSON file. Resolves with null if there is none. */
+export type LocaleLoader = (locale: string) => Promise<TranslationTree | null>;
+
+let localeLoader: LocaleLoader | null = null;
+// Locales the loader can provide, loaded or not
+const loadableLocales = new Set<string>();
+// One load per locale: later requests reuse the same promise
+const localeLoads = new Map<string, Promise<void>>();
+
+let localeOverride: string | null = null;
+let lastLocale: string | null = null;
+const localeChangeListeners = new Set<(locale: string) => void>();
+
+function normalizeLocale(locale: string): string {
+    return locale.trim().toLowerCase().replace(/_/g, '-');
+}
+
 /**
- * Get the current locale from Obsidian
+ * Locales of `locales` matching the requested one, most specific first: `fr-CA` then `fr`
  */
-export function getCurrentLocale(): string {
+function matchLocales(requested: string, locales: string[]): string[] {
+    const normalized = normalizeLocale(requested);
+    return [normalized, normalized.split('-')[0]]
+        .map(candidate => locales.find(locale => normalizeLocale(locale) === candidate))
+        .filter((locale): locale is string => locale !== undefined);
+}
+
+/**
+ * Locales to look messages up in, most specific first: `fr-CA` → `fr` → `en`.
+ * Only locales with loaded translations are returned.
+ */
+export function getLocaleChain(requested: string): string[] {
+    return [...new Set([...matchLocales(requested, Object.keys(translations)), 'en'])];
+}
+
+/**
+ * Locale requested by the user: the plugin setting if set, otherwise Obsidian's language
+ */
+export function getRequestedLocale(): string {
     // Get the locale from moment.js which is used by Obsidian
-    const locale = moment.locale();
-    
-    // Check if we have a translation for this locale
-    if (translations[locale]) {
-        return locale;
+    return localeOverride || moment.locale();
+}
+
+/**
+ * Get the current locale: the best available translation for the requested locale,
+ * falling back to English if the locale is not supported
+ */
+export function getCurrentLocale(): string {
+    return getLocaleChain(getRequestedLocale())[0];
+}
+
+/**
+ * Notify listeners if the current locale differs from the one seen last time
+ */
+function checkLocaleChange(): void {
+    const locale = getCurrentLocale();
+    if (lastLocale !== null && locale !== lastLocale) {
+        log.info(`Locale changed from ${lastLocale} to ${locale}`);
+        localeChangeListeners.forEach(listener => listener(locale));
     }
-    
-    // Fall back to English if the locale is not supported
-    return 'en';
+    lastLocale = locale;
 }
 
 /**
- * Translate a key with optional variable replacements
- * @param key The translation key
+ * Force the plugin locale, or follow Obsidian's language again with null or an empty string
+ */
+export function setLocaleOverride(locale: string | null): void {
+    lastLocale = getCurrentLocale();
+    localeOverride = locale || null;
+    checkLocaleChange();
+    void loadRequestedLocale();
+}
+
+/**
+ * Load locales on demand with `loader`. `locales` are the locales it can provide,
+ * listed in the language setting before being loaded.
+ */
+export function setLocaleLoader(loader: LocaleLoader | null, locales: string[] = []): void {
+    localeLoader = loader;
+    loadableLocales.clear();
+    localeLoads.clear();
+    locales.forEach(locale => loadableLocales.add(locale));
+}
+
+function loadLocale(loader: LocaleLoader, locale: string): Promise<void> {
+    let load = localeLoads.get(locale);
+    if (!load) {
+        load = loader(locale)
+            .then(tree => {
+                if (!tree) {
+                    log.warn(`No translation found for ${locale}`);
+                    return;
+                }
+                // Skip it if the loader was replaced while reading
+                if (localeLoads.get(locale) === load) addTranslation(locale, tree);
+            })
+            .catch(error => log.error(`Could not load the ${locale} translation`, error));
+        localeLoads.set(locale, load);
+    }
+    return load;
+}
+
+/**
+ * Load the translations of the requested locale that are not loaded yet.
+ * Until they are, t() falls back to the loaded locales, English at least.
+ */
+export async function loadRequestedLocale(): Promise<void> {
+    const loader = localeLoader;
+    if (!loader) return;
+    const missing = matchLocales(getRequestedLocale(), [...loadableLocales])
+        .filter(locale => translations[locale] === undefined);
+    await Promise.all(missing.map(locale => loadLocale(loader, locale)));
+}
+
+/**
+ * Listen to changes of the current locale. Returns a function removing the listener,
+ * which can be passed to `plugin.register()`.
+ */
+export function onLocaleChange(listener: (locale: string) => void): () => void {
+    localeChangeListeners.add(listener);
+    return () => {
+        localeChangeListeners.delete(listener);
+    };
+}
+
+/**
+ * Locales with translations, loaded or not, English first
+ */
+export function getAvailableLocales(): string[] {
+    const locales = new Set([...Object.keys(translations), ...loadableLocales]);
+    locales.delete('en');
+    return ['en', ...[...locales].sort()];
+}
+
+/**
+ * Name of a language in that language, e.g. `Français` for `fr`.
+ * Falls back to the locale code until its translation is loaded.
+ */
+export function getLanguageName(locale: string): string {
+    return getMessage(translations[locale], 'meta.languageName') ?? locale;
+}
+
+/**
+ * Look up a dot-separated key (`settings.general.title`) in a translation tree
+ */
+export function getMessage(tree: TranslationTree | undefined, key: string): string | undefined {
+    let node: string | TranslationTree | undefined = tree;
+    for (const segment of key.split('.')) {
+        if (node === undefined || typeof node === 'string') return undefined;
+        node = node[segment];
+    }
+    return typeof node === 'string' ? node : undefined;
+}
+
+/**
+ * Translate a key with optional variables.
+ * Supports `{{var}}` interpolation (numbers and dates are formatted for the current locale)
+ * and ICU plural/select forms, e.g. `{count, plural, one {# file} other {# files}}`.
+ * @param key The translation key, checked at compile time against en.ts
  * @param variables Optional variables to replace in the translation
  */
-export function t(key: string, variables?: Record<string, string>): string {
-    const locale = getCurrentLocale();
-    const translation = translations[locale] || translations.en;
-    
-    let text = translation[key] || translations.en[key] || key;
-    
-    // Replace variables if provided
-    if (variables) {
-        Object.entries(variables).forEach(([varName, value]) => {
-            text = text.replace(new RegExp(`{{${varName}}}`, 'g'), value);
-        });
+export function t(key: TranslationKey, variables?: TranslationVariables): string {
+    const chain = getLocaleChain(getRequestedLocale());
+    const locale = chain[0];
+    let text: string | undefined;
+    for (const candidate of chain) {
+        text = getMessage(translations[candidate], key);
+        if (text !== undefined) break;
+    }
+
+    if (text === undefined) {
+        // Only reachable with keys built at runtime or removed from en.ts
+        log.warn(`Missing translation for "${key}"`);
+        return key;
     }
-    
-    return text;
+
+    return formatMessage(text, variables, locale);
+}
+
+/**
+ * Format a number for the current locale
+ */
+export function n(value: number, options?: Intl.NumberFormatOptions): string {
+    return formatNumber(value, getCurrentLocale(), options);
+}
+
+/**
+ * Format a date for the current locale
+ */
+export function d(value: Date | number, options?: Intl.DateTimeFormatOptions): string {
+    return formatDate(value, getCurrentLocale(), options);
 }
 
 /**
@@ -55,9 +210,12 @@ export function t(key: string, variables?: Record<string, string>): string {
  * @param locale The locale code
  * @param translationData The translation data
  */
-export function addTranslation(locale: string, translationData: Translations): void {
+export function addTranslation(locale: string, translationData: TranslationTree): void {
     translations[locale] = translationData;
+    // The new translation may be a better match for the requested locale
+    if (lastLocale !== null) checkLocaleChange();
 }
 
 // Export all translations for reference
-export { translations }; 
\ No newline at end of file
+export { translations };
+export type { TranslationKey, TranslationTree, TranslationVariables };
@@ -0,0 +1,72 @@
+import { normalizePath, Plugin } from 'obsidian';
+import { createLogger } from '../logger';
+import { LocaleLoader } from './index';
+import { TranslationTree } from './types';
+
+const log = createLogger('i18n');
+
+/** Folder of the plugin where translators can add one `<locale>.json` file per translation */
+export const LOCALES_FOLDER = 'locales';
+
+const LOCALE_FILE = /^([a-z]{2,3}(?:[-_][A-Za-z]{2,4})?)\.json$/;
+
+export function isTranslationTree(value: unknown): value is TranslationTree {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+	return Object.values(value).every(child => typeof child === 'string' || isTranslationTree(child));
+}
+
+/**
+ * Parse the content of a locale file. Returns null if it is not a valid translation tree.
+ */
+export function parseLocaleFile(content: string): TranslationTree | null {
+	try {
+		const data: unknown = JSON.parse(content);
+		return isTranslationTree(data) ? data : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Locale of a file name like `pt-BR.json`, or null for other files
+ */
+export function getFileLocale(fileName: string): string | null {
+	return LOCALE_FILE.exec(fileName)?.[1] ?? null;
+}
+
+/**
+ * Locales bundled in main.js besides English, as the store only installs main.js, manifest.json
+ * and styles.css. Each one is a dynamic import: esbuild keeps it inside main.js but only
+ * evaluates it once that locale is selected.
+ */
+export const BUNDLED_LOCALES: Record<string, () => Promise<TranslationTree>> = {
+	fr: () => import('./fr').then(module => module.default),
+};
+
+/**
+ * Loader of the bundled locales and of the `locales/<locale>.json` files translators drop in
+ * the plugin folder, which take precedence over the bundled ones.
+ * Resolves with the loader and the locales found.
+ */
+export async function createLocaleLoader(plugin: Plugin): Promise<{ loader: LocaleLoader; locales: string[] }> {
+	const { adapter } = plugin.app.vault;
+	const folder = normalizePath(`${plugin.manifest.dir ?? ''}/${LOCALES_FOLDER}`);
+	const files = new Map<string, string>();
+
+	if (await adapter.exists(folder)) {
+		for (const path of (await adapter.list(folder)).files) {
+			const locale = getFileLocale(path.split('/').pop() ?? '');
+			if (locale) files.set(locale, path);
+		}
+	}
+	log.debug(`Found ${files.size} locale file(s) in ${folder}`);
+
+	const loader: LocaleLoader = async locale => {
+		const path = files.get(locale);
+		if (!path) return BUNDLED_LOCALES[locale]?.() ?? null;
+		const tree = parseLocaleFile(await adapter.read(path));
+		if (!tree) log.warn(`Ignoring ${path}: not a valid translation file`);
+		return tree;
+	};
+	return { loader, locales: [...new Set([...Object.keys(BUNDLED_LOCALES), ...files.keys()])] };
+}
@@ -0,0 +1,29 @@
+import en from './en';
+
+/**
+ * Nested translation tree. Leaves are ICU-like message templates.
+ */
+export interface TranslationTree {
+	[key: string]: string | TranslationTree | undefined;
+}
+
+/** Dot-separated paths to every message of a translation tree */
+export type TranslationPath<T> = {
+	[K in keyof T & string]: T[K] extends string ? K : `${K}.${TranslationPath<T[K]>}`
+}[keyof T & string];
+
+/** Every key that can be passed to t(), derived from the English translations */
+export type TranslationKey = TranslationPath<typeof en>;
+
+type DeepPartialTranslations<T> = {
+	[K in keyof T]?: T[K] extends string ? string : DeepPartialTranslations<T[K]>;
+};
+
+/**
+ * Shape of a locale other than English: the same keys as en.ts, all optional
+ * (missing messages fall back to English), and no extra keys.
+ */
+export type LocaleTranslations = DeepPartialTranslations<typeof en>;
+
+export type TranslationValue = string | number | Date;
+export type TranslationVariables = Record<string, TranslationValue>;
@@ -0,0 +1,64 @@
+import { App, ButtonComponent, Modal } from 'obsidian';
+import { d, t } from '../i18n';
+import { JobScheduler } from './scheduler';
+import { JobStatus } from './types';
+
+function formatTime(time: number | null): string {
+	return time === null ? t('jobs.never') : d(time, { dateStyle: 'short', timeStyle: 'short' });
+}
+
+function getStateText(status: JobStatus): string {
+	if (status.running) return t('jobs.states.running');
+	if (status.lastError !== null) return t('jobs.states.failed');
+	return status.lastRun === null ? t('jobs.states.pending') : t('jobs.states.succeeded');
+}
+
+/**
+ * Status of the background jobs, updated while they run, with a button to run each one now
+ */
+export class JobsModal extends Modal {
+	private tableEl: HTMLElement | null = null;
+	private offChange: (() => void) | null = null;
+
+	constructor(app: App, private scheduler: JobScheduler) {
+		super(app);
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		this.titleEl.setText(t('jobs.title'));
+		this.modalEl.addClass('plugin-modal', 'jobs-modal');
+		this.tableEl = contentEl.createEl('table', { cls: 'jobs-table' });
+		this.render();
+		this.offChange = this.scheduler.onChange(() => this.render());
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		this.offChange?.();
+		contentEl.empty();
+	}
+
+	private render() {
+		const { tableEl } = this;
+		if (!tableEl) return;
+		tableEl.empty();
+		const header = tableEl.createEl('tr');
+		[t('jobs.columns.name'), t('jobs.columns.state'), t('jobs.columns.lastRun'), t('jobs.columns.nextRun'), '']
+			.forEach(text => header.createEl('th', { text }));
+
+		this.scheduler.getStatuses().forEach(status => {
+			const row = tableEl.createEl('tr', { cls: 'jobs-row' });
+			row.toggleClass('has-error', status.lastError !== null);
+			row.createEl('td', { text: t(status.nameKey) });
+			const stateCell = row.createEl('td', { text: getStateText(status), cls: 'jobs-state' });
+			if (status.lastError !== null) stateCell.createDiv({ text: status.lastError, cls: 'jobs-error' });
+			row.createEl('td', { text: formatTime(status.lastRun) });
+			row.createEl('td', { text: status.nextRun === null ? t('jobs.never') : formatTime(Math.max(status.nextRun, Date.now())) });
+			new ButtonComponent(row.createEl('td'))
+				.setButtonText(t('jobs.runNow'))
+				.setDisabled(status.running)
+				.onClick(() => void this.scheduler.runNow(status.id));
+		});
+	}
+}
@@ -0,0 +1,43 @@
+import { addConditionalCommand } from '../commands/register';
+import ObsidianSamplePlugin from '../main';
+import { JobsModal } from './JobsModal';
+import { JobScheduler } from './scheduler';
+
+/** How often due jobs are looked for. Jobs can't run more precisely than this. */
+const CHECK_INTERVAL = 60 * 1000;
+
+/**
+ * Scheduler of the plugin background jobs, with last run times kept in the settings.
+ * Jobs start running once the workspace is ready, so the vault is fully indexed,
+ * and are checked again when the app becomes visible to catch up runs skipped while hidden.
+ */
+export function startJobScheduler(plugin: ObsidianSamplePlugin): JobScheduler {
+	const scheduler = new JobScheduler({
+		now: () => Date.now(),
+		isHidden: () => document.hidden,
+		getLastRun: id => plugin.settings.jobRuns[id] ?? null,
+		setLastRun: (id, time) => {
+			plugin.settings.jobRuns = { ...plugin.settings.jobRuns, [id]: time };
+			plugin.requestSave();
+		},
+	});
+
+	// The plugin may be disabled before the layout is ready
+	let unloaded = false;
+	plugin.register(() => {
+		unloaded = true;
+	});
+	plugin.app.workspace.onLayoutReady(() => {
+		if (unloaded) return;
+		void scheduler.tick();
+		plugin.registerInterval(window.setInterval(() => void scheduler.tick(), CHECK_INTERVAL));
+		plugin.registerDomEvent(document, 'visibilitychange', () => void scheduler.tick());
+	});
+
+	addConditionalCommand(plugin, {
+		id: 'show-jobs',
+		nameKey: 'commands.showJobs',
+		run: () => new JobsModal(plugin.app, scheduler).open()
+	});
+	return scheduler;
+}
@@ -0,0 +1,104 @@
+/**
+ * Subset of the cron syntax: `minute hour day-of-month month day-of-week`, each field being `*`,
+ * a number, a range `1-5`, a range with a step `0-59/15`, or a comma separated list of those.
+ * Like cron, `*` and a single number accept a step too, meaning every value from that number.
+ * Times are local. Like cron, when both the day of month and the day of week are restricted,
+ * a day matching either of them matches.
+ */
+
+export interface CronSchedule {
+	minutes: Set<number>;
+	hours: Set<number>;
+	days: Set<number>;
+	months: Set<number>;
+	weekdays: Set<number>;
+	anyDay: boolean;
+	anyWeekday: boolean;
+}
+
+const FIELDS = [
+	{ name: 'minute', min: 0, max: 59 },
+	{ name: 'hour', min: 0, max: 23 },
+	{ name: 'day of month', min: 1, max: 31 },
+	{ name: 'month', min: 1, max: 12 },
+	// 7 is Sunday too
+	{ name: 'day of week', min: 0, max: 7 },
+];
+
+/** Give up looking for the next run after this many years, e.g. for `0 0 31 2 *` */
+const MAX_SEARCH_YEARS = 5;
+
+function parseNumber(text: string, field: typeof FIELDS[number]): number {
+	const value = Number(text);
+	if (!/^\d+$/.test(text) || value < field.min || value > field.max) {
+		throw new Error(`Invalid ${field.name} "${text}", expected a number from ${field.min} to ${field.max}`);
+	}
+	return value;
+}
+
+function parseField(text: string, field: typeof FIELDS[number]): Set<number> {
+	const values = new Set<number>();
+	for (const part of text.split(',')) {
+		const [range, stepText] = part.split('/');
+		const step = stepText === undefined ? 1 : parseNumber(stepText, { ...field, min: 1 });
+		let from = field.min;
+		let to = field.max;
+		if (range !== '*') {
+			const [start, end] = range.split('-');
+			from = parseNumber(start, field);
+			to = end === undefined ? (stepText === undefined ? from : field.max) : parseNumber(end, field);
+			if (to < from) throw new Error(`Invalid ${field.name} range "${range}"`);
+		}
+		for (let value = from; value <= to; value += step) values.add(value);
+	}
+	return values;
+}
+
+/**
+ * Parse a cron expression, throwing an error describing the invalid field
+ */
+export function parseCron(expression: string): CronSchedule {
+	const parts = expression.trim().split(/\s+/);
+	if (parts.length !== FIELDS.length) {
+		throw new Error(`Invalid cron expression "${expression}", expected ${FIELDS.length} fields`);
+	}
+	const [minutes, hours, days, months, weekdays] = parts.map((part, index) => parseField(part, FIELDS[index]));
+	if (weekdays.delete(7)) weekdays.add(0);
+	return { minutes, hours, days, months, weekdays, anyDay: parts[2] === '*', anyWeekday: parts[4] === '*' };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+	const day = schedule.days.has(date.getDate());
+	const weekday = schedule.weekdays.has(date.getDay());
+	if (schedule.anyDay) return weekday;
+	if (schedule.anyWeekday) return day;
+	return day || weekday;
+}
+
+/**
+ * First time strictly after `after` matching the schedule, or null when there is none in the next years
+ */
+export function getNextCronRun(schedule: CronSchedule, after: number): number | null {
+	const date = new Date(after);
+	date.setSeconds(0, 0);
+	date.setMinutes(date.getMinutes() + 1);
+	const limit = new Date(date).setFullYear(date.getFullYear() + MAX_SEARCH_YEARS);
+
+	// Skip whole months, days and hours that don't match instead of testing every minute
+	while (date.getTime() <= limit) {
+		if (!schedule.months.has(date.getMonth() + 1)) {
+			date.setMonth(date.getMonth() + 1, 1);
+			date.setHours(0, 0);
+		} else if (!matchesDay(schedule, date)) {
+			date.setDate(date.getDate() + 1);
+			date.setHours(0, 0);
+		} else if (!schedule.hours.has(date.getHours())) {
+			date.setHours(date.getHours() + 1, 0);
+		} else if (!schedule.minutes.has(date.getMinutes())) {
+			date.setMinutes(date.getMinutes() + 1);
+		} else {
+			return date.getTime();
+		}
+	}
+	return null;
+}
@@ -0,0 +1,122 @@
+import { createLogger } from '../logger';
+import { getNextCronRun, parseCron } from './cron';
+import { JobDefinition, JobHost, JobStatus } from './types';
+
+const log = createLogger('jobs');
+
+const MINUTE = 60 * 1000;
+
+interface JobState {
+	job: JobDefinition;
+	/** Time of the first check of a job that never ran, so it doesn't run all at once on first start */
+	registeredAt: number;
+	running: Promise<void> | null;
+	lastError: string | null;
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Next scheduled run of a job: the first time after its last run, so runs missed
+ * while Obsidian was closed happen (once) as soon as possible.
+ * Interval jobs that never ran are due right away, cron jobs at their next time.
+ */
+export function getNextRun(job: JobDefinition, lastRun: number | null, registeredAt: number): number | null {
+	switch (job.schedule.type) {
+		case 'interval':
+			return lastRun === null ? registeredAt : lastRun + job.schedule.minutes * MINUTE;
+		case 'cron':
+			return getNextCronRun(parseCron(job.schedule.expression), lastRun ?? registeredAt);
+	}
+}
+
+/**
+ * Runs the registered jobs when they are due, checked with tick(). A job never runs twice at the same time.
+ */
+export class JobScheduler {
+	private jobs = new Map<string, JobState>();
+	private listeners = new Set<() => void>();
+
+	constructor(private host: JobHost) {}
+
+	/**
+	 * Add a job, throwing when its schedule is invalid. Returns a function removing it.
+	 */
+	register(job: JobDefinition): () => void {
+		if (this.jobs.has(job.id)) throw new Error(`Job "${job.id}" is already registered`);
+		if (job.schedule.type === 'cron') parseCron(job.schedule.expression);
+		else if (!(job.schedule.minutes > 0)) throw new Error(`Invalid interval for job "${job.id}"`);
+		this.jobs.set(job.id, { job, registeredAt: this.host.now(), running: null, lastError: null });
+		this.notify();
+		return () => {
+			this.jobs.delete(job.id);
+			this.notify();
+		};
+	}
+
+	/**
+	 * Run the jobs that are due, unless the app is hidden
+	 */
+	async tick(): Promise<void> {
+		if (this.host.isHidden()) return;
+		const now = this.host.now();
+		const due = [...this.jobs.values()].filter(state => {
+			if (state.running) return false;
+			const nextRun = getNextRun(state.job, this.host.getLastRun(state.job.id), state.registeredAt);
+			return nextRun !== null && nextRun <= now;
+		});
+		await Promise.all(due.map(state => this.start(state)));
+	}
+
+	/**
+	 * Run a job now, whether it's due or not. Waits for the current run when the job is already running.
+	 */
+	async runNow(id: string): Promise<void> {
+		const state = this.jobs.get(id);
+		if (!state) throw new Error(`Unknown job "${id}"`);
+		await (state.running ?? this.start(state));
+	}
+
+	getStatuses(): JobStatus[] {
+		return [...this.jobs.values()].map(({ job, registeredAt, running, lastError }) => {
+			const lastRun = this.host.getLastRun(job.id);
+			return { id: job.id, nameKey: job.nameKey, running: running !== null, lastRun, nextRun: getNextRun(job, lastRun, registeredAt), lastError };
+		});
+	}
+
+	/**
+	 * Listen to jobs being added, removed, started or finished. Returns a function removing the listener.
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	private start(state: JobState): Promise<void> {
+		const run = async () => {
+			const { id } = state.job;
+			log.debug(`Running job ${id}`);
+			try {
+				await state.job.run();
+				state.lastError = null;
+			} catch (error) {
+				log.error(`Job ${id} failed`, error);
+				state.lastError = errorMessage(error);
+			} finally {
+				// A failed run counts as a run too, so a failing job doesn't run again on every tick
+				this.host.setLastRun(id, this.host.now());
+				state.running = null;
+				this.notify();
+			}
+		};
+		state.running = run();
+		this.notify();
+		return state.running;
+	}
+
+	private notify() {
+		this.listeners.forEach(listener => listener());
+	}
+}
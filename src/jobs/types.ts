@@ -0,0 +1,34 @@
+import { TranslationKey } from '../i18n/types';
+
+/** Run every `minutes`, or at the times matching a cron expression (`minute hour day month weekday`) */
+export type JobSchedule =
+	| { type: 'interval'; minutes: number }
+	| { type: 'cron'; expression: string };
+
+export interface JobDefinition {
+	/** Identifies the job in the persisted last run times, keep it stable */
+	id: string;
+	nameKey: TranslationKey;
+	schedule: JobSchedule;
+	run(): void | Promise<void>;
+}
+
+/** Where the scheduler reads the time and persists when jobs last ran */
+export interface JobHost {
+	now(): number;
+	/** Scheduled runs are skipped while the app is hidden, and caught up once it's visible again */
+	isHidden(): boolean;
+	getLastRun(id: string): number | null;
+	setLastRun(id: string, time: number): void;
+}
+
+export interface JobStatus {
+	id: string;
+	nameKey: TranslationKey;
+	running: boolean;
+	/** Timestamps in milliseconds */
+	lastRun: number | null;
+	nextRun: number | null;
+	/** Error of the last run, null when it succeeded */
+	lastError: string | null;
+}
@@ -0,0 +1,112 @@
+import { App, debounce, Modal, Setting } from 'obsidian';
+import { t, TranslationKey } from '../i18n';
+import { copyLogs, saveLogsToNote } from './commands';
+import { filterLogs, formatLogEntry, getLogNamespaces, LogFilter } from './format';
+import { clearLogs, getLogEntries, isVerboseLogging, onLogEntry } from './index';
+import { LOG_LEVELS, LogLevel } from './types';
+
+const LEVEL_LABELS: Record<LogLevel, TranslationKey> = {
+	debug: 'logs.levels.debug',
+	info: 'logs.levels.info',
+	warn: 'logs.levels.warn',
+	error: 'logs.levels.error',
+};
+
+function isLogLevel(value: string): value is LogLevel {
+	return LOG_LEVELS.some(level => level === value);
+}
+
+/**
+ * Logs kept in memory, filtered by level, module and text. New entries show up while the modal is open.
+ */
+export class LogViewerModal extends Modal {
+	private filter: Required<LogFilter> = { minLevel: 'debug', namespace: '', query: '' };
+	private countEl: HTMLElement | null = null;
+	private listEl: HTMLElement | null = null;
+	private offLogEntry: (() => void) | null = null;
+	private requestRender = debounce(() => this.renderEntries(), 200, true);
+
+	constructor(app: App) {
+		super(app);
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		this.titleEl.setText(t('logs.title'));
+		this.modalEl.addClass('plugin-modal', 'log-viewer-modal');
+
+		if (!isVerboseLogging()) {
+			contentEl.createEl('p', { text: t('logs.verboseHint'), cls: 'text-muted' });
+		}
+
+		new Setting(contentEl)
+			.addDropdown(dropdown => {
+				LOG_LEVELS.forEach(level => dropdown.addOption(level, t(LEVEL_LABELS[level])));
+				dropdown.setValue(this.filter.minLevel).onChange(value => {
+					if (isLogLevel(value)) this.filter.minLevel = value;
+					this.renderEntries();
+				});
+			})
+			.addDropdown(dropdown => {
+				dropdown.addOption('', t('logs.allNamespaces'));
+				getLogNamespaces(getLogEntries()).forEach(namespace => dropdown.addOption(namespace, namespace));
+				dropdown.setValue(this.filter.namespace).onChange(value => {
+					this.filter.namespace = value;
+					this.renderEntries();
+				});
+			})
+			.addSearch(search => search
+				.setPlaceholder(t('logs.search'))
+				.onChange(value => {
+					this.filter.query = value;
+					this.requestRender();
+				}));
+
+		this.countEl = contentEl.createDiv('log-viewer-count text-muted');
+		this.listEl = contentEl.createDiv('log-viewer-entries');
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(t('logs.clear'))
+				.onClick(() => {
+					clearLogs();
+					this.renderEntries();
+				}))
+			.addButton(button => button
+				.setButtonText(t('logs.copy'))
+				.onClick(() => copyLogs(this.app, this.getVisibleEntries())))
+			.addButton(button => button
+				.setButtonText(t('logs.save'))
+				.setCta()
+				.onClick(() => {
+					void saveLogsToNote(this.app, this.getVisibleEntries());
+					this.close();
+				}));
+
+		this.renderEntries();
+		this.offLogEntry = onLogEntry(() => this.requestRender());
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		this.offLogEntry?.();
+		this.requestRender.cancel();
+		contentEl.empty();
+	}
+
+	private getVisibleEntries() {
+		return filterLogs(getLogEntries(), this.filter);
+	}
+
+	private renderEntries() {
+		if (!this.listEl || !this.countEl) return;
+		const entries = this.getVisibleEntries();
+		this.countEl.setText(t('logs.count', { count: entries.length }));
+		this.listEl.empty();
+		if (entries.length === 0) {
+			this.listEl.createDiv({ text: t('logs.empty'), cls: 'text-muted' });
+			return;
+		}
+		entries.forEach(entry => this.listEl?.createDiv({ text: formatLogEntry(entry), cls: `log-entry log-entry-${entry.level}` }));
+	}
+}
@@ -0,0 +1,36 @@
+export interface RingBuffer<T> {
+	push(item: T): void;
+	/** Items from the oldest to the newest */
+	toArray(): T[];
+	clear(): void;
+	readonly size: number;
+}
+
+/**
+ * Fixed-size buffer: once full, every new item replaces the oldest one
+ */
+export function createRingBuffer<T>(capacity: number): RingBuffer<T> {
+	const items: T[] = [];
+	let start = 0;
+
+	return {
+		push(item: T) {
+			if (items.length < capacity) {
+				items.push(item);
+			} else {
+				items[start] = item;
+				start = (start + 1) % capacity;
+			}
+		},
+		toArray() {
+			return [...items.slice(start), ...items.slice(0, start)];
+		},
+		clear() {
+			items.length = 0;
+			start = 0;
+		},
+		get size() {
+			return items.length;
+		},
+	};
+}
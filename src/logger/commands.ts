@@ -0,0 +1,73 @@
+import { apiVersion, App, FileSystemAdapter, Notice, Platform } from 'obsidian';
+import pluginInfos from '../../manifest.json';
+import { addConditionalCommand } from '../commands/register';
+import { t } from '../i18n';
+import ObsidianSamplePlugin from '../main';
+import { createNote } from '../vault/notes';
+import { formatLogReport, RedactionContext } from './format';
+import { createLogger, getLogEntries } from './index';
+import { LogViewerModal } from './LogViewerModal';
+import { LogEntry } from './types';
+
+const log = createLogger('logger');
+
+function getRedactionContext(app: App): RedactionContext {
+	const { adapter } = app.vault;
+	return {
+		vaultName: app.vault.getName(),
+		vaultPath: adapter instanceof FileSystemAdapter ? adapter.getBasePath() : null,
+		filePaths: app.vault.getFiles().map(file => file.path),
+	};
+}
+
+/**
+ * Logs as plain text, with the details identifying the vault redacted
+ */
+export function createLogReport(app: App, entries: LogEntry[] = getLogEntries()): string {
+	return formatLogReport(entries, {
+		pluginId: pluginInfos.id,
+		pluginVersion: pluginInfos.version,
+		obsidianVersion: apiVersion,
+		platform: Platform.isMobile ? 'mobile' : 'desktop',
+	}, getRedactionContext(app));
+}
+
+export async function copyLogs(app: App, entries?: LogEntry[]): Promise<void> {
+	try {
+		await navigator.clipboard.writeText(createLogReport(app, entries));
+		new Notice(t('logs.copied'));
+	} catch (error) {
+		log.error('Could not copy the logs', error);
+	}
+}
+
+export async function saveLogsToNote(app: App, entries?: LogEntry[]): Promise<void> {
+	const content = `# ${t('logs.noteTitle', { name: pluginInfos.name })}\n\n\`\`\`\`text\n${createLogReport(app, entries)}\n\`\`\`\`\n`;
+	try {
+		const file = await createNote(app, `${pluginInfos.id}-logs`, content);
+		new Notice(t('logs.saved', { path: file.path }));
+	} catch (error) {
+		log.error('Could not save the logs', error);
+	}
+}
+
+/**
+ * Commands to show, copy and save the plugin logs
+ */
+export function registerLogCommands(plugin: ObsidianSamplePlugin): void {
+	addConditionalCommand(plugin, {
+		id: 'show-logs',
+		nameKey: 'commands.showLogs',
+		run: () => new LogViewerModal(plugin.app).open()
+	});
+	addConditionalCommand(plugin, {
+		id: 'copy-logs',
+		nameKey: 'commands.copyLogs',
+		run: () => copyLogs(plugin.app)
+	});
+	addConditionalCommand(plugin, {
+		id: 'save-logs',
+		nameKey: 'commands.saveLogs',
+		run: () => saveLogsToNote(plugin.app)
+	});
+}
@@ -0,0 +1,133 @@
+import { LOG_LEVELS, LogEntry, LogLevel } from './types';
+
+/**
+ * Pure helpers to turn log entries into text: argument formatting, filtering,
+ * and redaction of the details identifying the user's vault before sharing logs.
+ */
+
+/**
+ * Format a logged value as text, at logging time so later mutations don't change the log
+ */
+export function formatLogArg(arg: unknown): string {
+	if (typeof arg === 'string') return arg;
+	if (arg instanceof Error) return arg.stack ?? `${arg.name}: ${arg.message}`;
+	if (typeof Event !== 'undefined' && arg instanceof Event) return `${arg.constructor.name}(${arg.type})`;
+	try {
+		return JSON.stringify(arg) ?? String(arg);
+	} catch {
+		return String(arg);
+	}
+}
+
+export function formatLogEntry(entry: LogEntry): string {
+	const time = new Date(entry.time).toISOString();
+	return `${time} ${entry.level.toUpperCase().padEnd(5)} [${entry.namespace}] ${entry.message}`;
+}
+
+export function isLogLevelEnabled(level: LogLevel, minLevel: LogLevel): boolean {
+	return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel);
+}
+
+export interface LogFilter {
+	/** Only keep entries at this level or above */
+	minLevel?: LogLevel;
+	/** Only keep entries of this namespace, all of them when empty */
+	namespace?: string;
+	/** Case-insensitive text searched in the message and the namespace */
+	query?: string;
+}
+
+export function filterLogs(entries: LogEntry[], { minLevel = 'debug', namespace = '', query = '' }: LogFilter): LogEntry[] {
+	const search = query.trim().toLowerCase();
+	return entries.filter(entry =>
+		isLogLevelEnabled(entry.level, minLevel)
+		&& (!namespace || entry.namespace === namespace)
+		&& (!search || `${entry.namespace} ${entry.message}`.toLowerCase().includes(search)));
+}
+
+export function getLogNamespaces(entries: LogEntry[]): string[] {
+	return [...new Set(entries.map(entry => entry.namespace))].sort();
+}
+
+export interface RedactionContext {
+	vaultName: string;
+	/** Absolute path of the vault, desktop only */
+	vaultPath?: string | null;
+	/** Paths of the files of the vault */
+	filePaths?: string[];
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Home folders reveal the name of the user's account
+const HOME_PATHS = /(\/Users\/|\/home\/|[A-Za-z]:\\+Users\\+)[^/\\\s"']+/g;
+
+// Notes that are not in the vault anymore, e.g. the old path of a renamed note. Unquoted paths
+// end at the first space.
+const QUOTED_NOTE_PATHS = /(["'`])[^"'`\n]*\.(?:md|canvas)\1/g;
+const NOTE_PATHS = /(^|[^\w<])(?:[^\s"'`<>|/\\]+[/\\])*[^\s"'`<>|/\\]+\.(?:md|canvas)(?![\w-])/g;
+
+/**
+ * Paths and names of the files of the vault, longest first so a path is replaced before
+ * the name of its file. Files without extension are left out: their name can be any word.
+ */
+function getFileCandidates(filePaths: string[]): string[] {
+	const candidates = new Set<string>();
+	filePaths.forEach(path => {
+		const name = path.split('/').pop() ?? '';
+		if (!name.includes('.')) return;
+		candidates.add(path);
+		candidates.add(name);
+	});
+	return [...candidates].sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Replace the vault path, home folders, file paths and names, and the vault name with placeholders.
+ * The vault name is only replaced where it can't be a common word: in quotes or as a path segment.
+ */
+export function redact(text: string, { vaultName, vaultPath, filePaths = [] }: RedactionContext): string {
+	let result = text;
+	if (vaultPath) {
+		const variants = new Set([vaultPath, vaultPath.replace(/\\/g, '/'), vaultPath.replace(/\\/g, '\\\\')]);
+		variants.forEach(variant => {
+			result = result.replace(new RegExp(escapeRegExp(variant), 'gi'), '<vault-path>');
+		});
+	}
+	result = result.replace(HOME_PATHS, (_match, prefix: string) => `${prefix}<user>`);
+	getFileCandidates(filePaths)
+		.filter(candidate => result.includes(candidate))
+		.forEach(candidate => {
+			result = result.replace(new RegExp(`(^|[^\\w.-])${escapeRegExp(candidate)}(?![\\w-]|\\.\\w)`, 'g'), '$1<file>');
+		});
+	result = result.replace(QUOTED_NOTE_PATHS, '$1<file>$1').replace(NOTE_PATHS, '$1<file>');
+	if (vaultName) {
+		const name = escapeRegExp(vaultName);
+		result = result
+			.replace(new RegExp(`(["'\`])${name}\\1`, 'g'), '$1<vault>$1')
+			.replace(new RegExp(`([/\\\\])${name}(?=[/\\\\"'\`\\s]|$)`, 'gm'), '$1<vault>');
+	}
+	return result;
+}
+
+export interface LogReportInfo {
+	pluginId: string;
+	pluginVersion: string;
+	obsidianVersion: string;
+	platform: string;
+}
+
+/**
+ * Plain text report of the logs, ready to be pasted in a bug report
+ */
+export function formatLogReport(entries: LogEntry[], info: LogReportInfo, redaction: RedactionContext, now = new Date()): string {
+	const header = [
+		`${info.pluginId} ${info.pluginVersion}`,
+		`Obsidian ${info.obsidianVersion} (${info.platform})`,
+		`Exported ${now.toISOString()}, ${entries.length} entries`,
+		'',
+	];
+	return redact([...header, ...entries.map(formatLogEntry)].join('\n'), redaction);
+}
@@ -0,0 +1,97 @@
+import createDebug from 'debug';
+import pluginInfos from '../../manifest.json';
+import { createRingBuffer } from './buffer';
+import { formatLogArg } from './format';
+import { LogEntry, Logger, LogLevel } from './types';
+
+/**
+ * Plugin logger. Entries are kept in memory so users can export them for a bug report,
+ * and printed to the console:
+ * - debug and info entries through the `debug` package, only when verbose logging is enabled
+ * - warnings and errors always, with console.warn/console.error
+ */
+
+/** Number of entries kept in memory, older ones are dropped */
+export const MAX_LOG_ENTRIES = 1000;
+
+const entries = createRingBuffer<LogEntry>(MAX_LOG_ENTRIES);
+const listeners = new Set<(entry: LogEntry) => void>();
+let verbose = false;
+
+/**
+ * Record debug entries and print debug and info entries to the console
+ */
+export function setVerboseLogging(enabled: boolean): void {
+	verbose = enabled;
+	if (enabled) {
+		createDebug.enable(pluginInfos.id + ':*');
+	} else {
+		createDebug.disable();
+	}
+}
+
+export function isVerboseLogging(): boolean {
+	return verbose;
+}
+
+function record(level: LogLevel, namespace: string, message: string): void {
+	const entry: LogEntry = { time: Date.now(), level, namespace, message };
+	entries.push(entry);
+	listeners.forEach(listener => listener(entry));
+}
+
+function formatArgs(args: unknown[]): string {
+	return args.map(formatLogArg).join(' ');
+}
+
+/**
+ * Logger for one module of the plugin, e.g. `createLogger('settings')`
+ */
+export function createLogger(namespace: string): Logger {
+	const print = createDebug(`${pluginInfos.id}:${namespace}`);
+	const prefix = `[${pluginInfos.id}:${namespace}]`;
+	return {
+		debug(...args) {
+			if (!verbose) return;
+			const message = formatArgs(args);
+			record('debug', namespace, message);
+			print('%s', message);
+		},
+		info(...args) {
+			const message = formatArgs(args);
+			record('info', namespace, message);
+			print('%s', message);
+		},
+		warn(...args) {
+			record('warn', namespace, formatArgs(args));
+			console.warn(prefix, ...args);
+		},
+		error(...args) {
+			record('error', namespace, formatArgs(args));
+			console.error(prefix, ...args);
+		},
+	};
+}
+
+/**
+ * Entries in memory, from the oldest to the newest
+ */
+export function getLogEntries(): LogEntry[] {
+	return entries.toArray();
+}
+
+export function clearLogs(): void {
+	entries.clear();
+}
+
+/**
+ * Listen to new entries. Returns a function removing the listener.
+ */
+export function onLogEntry(listener: (entry: LogEntry) => void): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+export type { LogEntry, Logger, LogLevel };
@@ -0,0 +1,20 @@
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogEntry {
+	/** Timestamp in milliseconds */
+	time: number;
+	level: LogLevel;
+	/** Module that logged the entry, e.g. `settings` */
+	namespace: string;
+	message: string;
+}
+
+export interface Logger {
+	/** Only recorded when verbose logging is enabled */
+	debug(...args: unknown[]): void;
+	info(...args: unknown[]): void;
+	warn(...args: unknown[]): void;
+	error(...args: unknown[]): void;
+}
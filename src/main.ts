@@ -1,153 +1,269 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting } from 'obsidian';
-import createDebug from 'debug';
+import { debounce, Editor, Notice, Platform, Plugin, TFile } from 'obsidian';
 import pluginInfos from '../manifest.json';
+import { MARKDOWN_EDITOR } from './commands/conditions';
+import { addConditionalCommand, registerCommandMenus } from './commands/register';
+import { onLocaleChange, setLocaleLoader, setLocaleOverride, t } from './i18n';
+import { refreshCommandNames } from './i18n/commands';
+import { createLocaleLoader } from './i18n/loader';
+import { EventRouter } from './events/router';
+import { registerFormCommands } from './forms/commands';
+import { promptHierarchyRename } from './hierarchy/notes';
+import { getHierarchyName } from './hierarchy/tree';
+import { startJobScheduler } from './jobs/commands';
+import { JobScheduler } from './jobs/scheduler';
+import { createLogger, setVerboseLogging } from './logger';
+import { registerLogCommands } from './logger/commands';
+import { forgetMissingNotes, NOTE_PICKER_IDS, pickNotes } from './picker/notes';
+import { addRecentKeys } from './picker/ranking';
+import { RecentItemsStore } from './picker/types';
+import { runDefaultRibbonAction, showRibbonMenu } from './ribbon/actions';
+import { pickTransform, registerTransformCommands, syncMacroCommands } from './transforms/commands';
+import { loadPluginSettings, needsSave, ObsidianSamplePluginSettings, resolveProfileSettings } from './settings';
+import { registerSettingsCommands } from './settings/commands';
+import { openProfileSwitcher, registerProfileCommands, updateProfileStatusBar } from './settings/profileCommands';
+import { resolveActiveProfile, selectProfile, storeProfileSettings } from './settings/profiles';
+import { ObsidianSamplePluginSettingTab } from './settings/tab/SettingsTab';
+import { NoteStatsWidget } from './stats/NoteStatsWidget';
+import { registerViewRoutes, registerViews } from './views/commands';
 
-const log = createDebug(pluginInfos.id + ':main');
+const log = createLogger('main');
+const DEV_BUILD = process.env.NODE_ENV !== 'production';
 
 // Remember to rename these classes and interfaces!
 
-interface ObsidianSamplePluginSettings {
-	mySetting: string;
-}
-
-const DEFAULT_SETTINGS: ObsidianSamplePluginSettings = {
-	mySetting: 'default'
-}
-
-export default class ObsidianSamplePlugin extends Plugin {
+export default class ObsidianSamplePlugin extends Plugin implements RecentItemsStore {
+	/** Effective settings: base settings with the overrides of the active profile */
 	settings: ObsidianSamplePluginSettings;
+	/** Settings as saved in data.json: base settings and every profile */
+	storedSettings: ObsidianSamplePluginSettings;
+	/** Name of the active settings profile, empty for the base settings */
+	activeProfile = '';
+	/** data.json was written by a newer version of the plugin, and is left untouched */
+	private settingsReadOnly = false;
+	private statusBarItemEl: HTMLElement | null = null;
+	private settingTab: ObsidianSamplePluginSettingTab | null = null;
+	private statsWidget: NoteStatsWidget | null = null;
+	/** Background jobs, registered by the features of the plugin */
+	jobs: JobScheduler;
+	/** Routes DOM events of the app to the features of the plugin */
+	events: EventRouter;
+	/** Debounced saveSettings, so typing in the settings tab doesn't write data.json on every keystroke */
+	requestSave = debounce(() => {
+		this.saveSettings().catch(error => {
+			log.error('Could not save the settings', error);
+			new Notice(t('settings.saveFailed', { error: error instanceof Error ? error.message : String(error) }));
+		});
+	}, 500, true);
 
 	async onload() {
-		// Toggle debug output dynamically using debug.enable/disable
-        // Dev: enable our namespaces; Prod: disable all
-        try {
-            const isProd = process.env.NODE_ENV === 'production';
-            if (isProd) {
-                createDebug.disable();
-            } else {
-                createDebug.enable(pluginInfos.id + ':*');
-            }
-        } catch {
-            log("Debug toggling failed");
-        }
-
-        log("Plugin loading");
+		// Verbose logging is always on in development builds, and follows the setting in production
+		setVerboseLogging(DEV_BUILD);
+		log.info("Plugin loading");
+
+		// Translations other than English are only evaluated, or read from the plugin folder, once selected
+		const { loader, locales } = await createLocaleLoader(this);
+		setLocaleLoader(loader, locales);
 
 		await this.loadSettings();
 
-		// This creates an icon in the left ribbon.
-		const ribbonIconEl = this.addRibbonIcon('dice', pluginInfos.name, (_evt: MouseEvent) => {
-			// Called when the user clicks the icon.
-			new Notice('This is a notice!');
+		// This creates an icon in the left ribbon. Clicking it runs the first configured action,
+		// right-clicking it shows the menu of every action.
+		const ribbonIconEl = this.addRibbonIcon('dice', pluginInfos.name, (evt: MouseEvent) => runDefaultRibbonAction(this, evt));
+		this.registerDomEvent(ribbonIconEl, 'contextmenu', evt => {
+			evt.preventDefault();
+			showRibbonMenu(this, evt);
 		});
-		// Perform additional things with the ribbon
-		ribbonIconEl.addClass('obsidian-sample-plugin-ribbon-class');
+		ribbonIconEl.addClass(pluginInfos.id + '-ribbon-class');
 
 		// This adds a status bar item to the bottom of the app. Does not work on mobile apps.
-		const statusBarItemEl = this.addStatusBarItem();
-		statusBarItemEl.setText('Status Bar Text');
-
-		// This adds a simple command that can be triggered anywhere
-		this.addCommand({
-			id: 'open-' + pluginInfos.id + '-modal-simple',
-			name: 'Open ' + pluginInfos.name + ' modal (simple)',
-			callback: () => {
-				new ObsidianSamplePluginModal(this.app).open();
+		// It shows the active settings profile and opens the profile switcher when clicked.
+		this.statusBarItemEl = this.addStatusBarItem();
+		this.statusBarItemEl.addClass('mod-clickable');
+		this.registerDomEvent(this.statusBarItemEl, 'click', () => openProfileSwitcher(this));
+		updateProfileStatusBar(this.statusBarItemEl, this.activeProfile);
+		// This adds a second status bar item with live statistics of the active note
+		this.statsWidget = this.addChild(new NoteStatsWidget(this, this.addStatusBarItem()));
+
+		// Commands declare when they are available with conditions, from which their checkCallback is generated.
+		// Users can hide them from the command palette or add them to the editor menu in the settings.
+		registerCommandMenus(this);
+		// This adds a simple command that can be triggered anywhere: it picks a note and opens it
+		addConditionalCommand(this, {
+			id: 'open-note',
+			nameKey: 'commands.openNote',
+			icon: 'file-search',
+			run: async () => {
+				const [file] = await pickNotes(this.app, this, NOTE_PICKER_IDS.open);
+				if (file) await this.app.workspace.getLeaf(false).openFile(file);
 			}
 		});
-		// This adds an editor command that can perform some operation on the current editor instance
-		this.addCommand({
-			id: pluginInfos.id + '-editor-command',
-			name: pluginInfos.name + ' editor command',
-			editorCallback: (editor: Editor, _view: MarkdownView) => {
-				log(editor.getSelection());
-				editor.replaceSelection(pluginInfos.name + ' Editor Command');
-			}
+		// This adds an editor command that transforms the selections with a transform or macro picked from a list
+		addConditionalCommand(this, {
+			id: 'editor-command',
+			nameKey: 'commands.editorCommand',
+			icon: 'wand',
+			conditions: MARKDOWN_EDITOR,
+			run: ({ editor }) => editor ? pickTransform(this, editor) : undefined
 		});
-		// This adds a complex command that can check whether the current state of the app allows execution of the command
-		this.addCommand({
-			id: 'open-' + pluginInfos.id + '-modal-complex',
-			name: 'Open ' + pluginInfos.name + ' modal (complex)',
-			checkCallback: (checking: boolean) => {
-				// Conditions to check
-				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (markdownView) {
-					// If checking is true, we're simply "checking" if the command can be run.
-					// If checking is false, then we want to actually perform the operation.
-					if (!checking) {
-						new ObsidianSamplePluginModal(this.app).open();
-					}
-
-					// This command will only show up in Command Palette when the check function returns true
-					return true;
-				}
+		// This adds a command per text transform. Commands running the macros follow the settings, see applySettings().
+		registerTransformCommands(this);
+		// This adds a command renaming the active note with its dot-notation descendants, e.g. project.api.auth along project.api
+		addConditionalCommand(this, {
+			id: 'rename-hierarchy',
+			nameKey: 'commands.renameHierarchy',
+			icon: 'pencil',
+			conditions: { extensions: ['md'] },
+			check: ({ file }) => file !== null && getHierarchyName(file.path) !== null,
+			run: async ({ file }) => {
+				const name = file ? getHierarchyName(file.path) : null;
+				if (name) await promptHierarchyRename(this.app, name);
 			}
 		});
+		// This adds a command only available in markdown editors: it picks notes and inserts links to them
+		addConditionalCommand(this, {
+			id: 'insert-note-links',
+			nameKey: 'commands.insertNoteLinks',
+			icon: 'link',
+			conditions: MARKDOWN_EDITOR,
+			run: ({ editor, file }) => editor && file ? this.insertNoteLinks(editor, file) : undefined
+		});
+		// These add commands to export, import and reset the settings
+		registerSettingsCommands(this);
+		registerProfileCommands(this);
+		registerLogCommands(this);
+		registerFormCommands(this);
+
+		// This registers the vault list and hierarchy views, and the commands opening them
+		registerViews(this);
 
 		// This adds a settings tab so the user can configure various aspects of the plugin
-		this.addSettingTab(new ObsidianSamplePluginSettingTab(this.app, this));
+		this.settingTab = new ObsidianSamplePluginSettingTab(this.app, this);
+		this.addSettingTab(this.settingTab);
 
-		// If the plugin hooks up any global DOM events (on parts of the app that doesn't belong to this plugin)
-		// Using this function will automatically remove the event listener when this plugin is disabled.
-		this.registerDomEvent(document, 'click', (evt: MouseEvent) => {
-			log('click', evt);
-		});
+		// Translate the interface again when the language setting changes, without reloading the plugin
+		this.register(onLocaleChange(() => this.refreshTranslations()));
 
-		// When registering intervals, this function will automatically clear the interval when the plugin is disabled.
-		this.registerInterval(window.setInterval(() => log('setInterval'), 5 * 60 * 1000));
+		// Features handle events on parts of the app that don't belong to this plugin (links, file explorer, tags…)
+		// through routes of this router, which shares one document listener per event type.
+		// Routes are removed when the plugin is disabled with `this.register(this.events.on(…))`.
+		this.events = new EventRouter(document, Platform.isMacOS);
+		this.register(() => this.events.destroy());
+		registerViewRoutes(this, this.events);
+
+		// This runs the background jobs when they are due, and adds a command showing their status
+		this.jobs = startJobScheduler(this);
+		this.jobs.register({
+			id: 'forget-missing-notes',
+			nameKey: 'jobs.forgetMissingNotes',
+			schedule: { type: 'interval', minutes: 24 * 60 },
+			run: () => forgetMissingNotes(this.app, this)
+		});
 	}
 
 	onunload() {
-		log("Plugin unloading");
+		log.info("Plugin unloading");
+		this.requestSave.run();
+		setLocaleLoader(null);
+		setLocaleOverride(null);
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const { settings, report } = loadPluginSettings(await this.loadData());
+		this.useStoredSettings(settings);
+		this.settingsReadOnly = report.readOnly;
+		if (report.readOnly) {
+			new Notice(t('settings.newerVersion', { name: pluginInfos.name }));
+		}
+		// Persist migrated or repaired values so data.json stays in sync with the schema
+		if (needsSave(report)) {
+			await this.saveSettings();
+		}
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		// Edits made while a profile is active are stored as overrides of that profile
+		const stored = storeProfileSettings(this.storedSettings, this.settings, this.activeProfile);
+		if (resolveActiveProfile(stored.profiles, Platform.isMobile) !== this.activeProfile) {
+			this.useStoredSettings(stored);
+		} else {
+			this.storedSettings = stored;
+		}
+		if (this.settingsReadOnly) {
+			log.warn("Settings not saved: data.json was written by a newer version of the plugin");
+			return;
+		}
+		await this.saveData(this.storedSettings);
 	}
-}
 
-class ObsidianSamplePluginModal extends Modal {
-	constructor(app: App) {
-		super(app);
+	/**
+	 * Replace the stored settings (base and profiles) as a whole, e.g. on import or reset
+	 */
+	async replaceSettings(stored: ObsidianSamplePluginSettings) {
+		this.requestSave.cancel();
+		this.useStoredSettings(stored);
+		// Replacing the settings is explicit, whatever version wrote the previous ones
+		this.settingsReadOnly = false;
+		await this.saveData(this.storedSettings);
 	}
 
-	onOpen() {
-		const {contentEl} = this;
-		contentEl.setText('Woah!');
+	async switchProfile(name: string) {
+		this.requestSave.cancel();
+		this.settings.profiles = selectProfile(this.settings.profiles, name, Platform.isMobile);
+		await this.saveSettings();
 	}
 
-	onClose() {
-		const {contentEl} = this;
-		contentEl.empty();
+	private useStoredSettings(stored: ObsidianSamplePluginSettings) {
+		const { name, settings } = resolveProfileSettings(stored, Platform.isMobile);
+		this.storedSettings = stored;
+		this.activeProfile = name;
+		this.settings = settings;
+		this.applySettings();
+	}
+
+	/**
+	 * Apply the effective settings that take effect immediately, e.g. after an edit in the settings tab
+	 */
+	applySettings() {
+		setLocaleOverride(this.settings.locale);
+		setVerboseLogging(this.settings.verboseLogging || DEV_BUILD);
+		syncMacroCommands(this, this.settings.macros);
+		if (this.statusBarItemEl) {
+			updateProfileStatusBar(this.statusBarItemEl, this.activeProfile);
+		}
+		this.statsWidget?.update();
 	}
-}
 
-class ObsidianSamplePluginSettingTab extends PluginSettingTab {
-	plugin: ObsidianSamplePlugin;
+	getRecentItems(id: string): string[] {
+		return this.settings.recentItems[id] ?? [];
+	}
+
+	addRecentItems(id: string, keys: string[]) {
+		this.setRecentItems(id, addRecentKeys(this.getRecentItems(id), keys));
+	}
+
+	setRecentItems(id: string, keys: string[]) {
+		this.settings.recentItems = { ...this.settings.recentItems, [id]: keys };
+		this.requestSave();
+	}
 
-	constructor(app: App, plugin: ObsidianSamplePlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
+	/**
+	 * Pick notes and insert links to them at the cursor, one per line
+	 */
+	private async insertNoteLinks(editor: Editor, source: TFile) {
+		const files = await pickNotes(this.app, this, NOTE_PICKER_IDS.insertLinks, true);
+		if (files.length === 0) return;
+		editor.replaceSelection(files.map(file => this.app.fileManager.generateMarkdownLink(file, source.path)).join('\n'));
+		new Notice(t('picker.notes.inserted', { count: files.length }));
 	}
 
-	display(): void {
-		const {containerEl} = this;
-
-		containerEl.empty();
-
-		new Setting(containerEl)
-			.setName('Setting #1')
-			.setDesc('It\'s a secret')
-			.addText(text => text
-				.setPlaceholder('Enter your secret')
-				.setValue(this.plugin.settings.mySetting)
-				.onChange(async (value) => {
-					this.plugin.settings.mySetting = value;
-					await this.plugin.saveSettings();
-				}));
+	private refreshTranslations() {
+		refreshCommandNames(this);
+		if (this.statusBarItemEl) {
+			updateProfileStatusBar(this.statusBarItemEl, this.activeProfile);
+		}
+		this.statsWidget?.update();
+		if (this.settingTab?.containerEl.isShown()) {
+			this.settingTab.display();
+		}
 	}
 }
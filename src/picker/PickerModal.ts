@@ -0,0 +1,146 @@
+import { App, ButtonComponent, Platform, prepareFuzzySearch, renderResults, setIcon, SuggestModal } from 'obsidian';
+import { t } from '../i18n';
+import { createLogger } from '../logger';
+import { rankItems } from './ranking';
+import { PickerOptions, RankedItem, RecentItemsStore } from './types';
+
+const log = createLogger('picker');
+
+/**
+ * Fuzzy-search picker over a typed item source. Resolves to the picked items, empty when cancelled.
+ *
+ * Async sources are queried again on every query change. The previous request is aborted, and its
+ * results are shown until the new ones arrive, so the list doesn't flash empty while typing.
+ */
+export class PickerModal<T> extends SuggestModal<RankedItem<T>> {
+	private resolve: (items: T[]) => void = () => undefined;
+	private picked: T[] = [];
+	private selected = new Map<string, T>();
+	/** Rows currently rendered, by item key, to update their checkbox in place */
+	private rows = new Map<string, HTMLElement>();
+	private loaded: { query: string; items: T[] } | null = null;
+	private controller: AbortController | null = null;
+
+	constructor(app: App, private options: PickerOptions<T>, private recent: RecentItemsStore | null = null) {
+		super(app);
+		if (options.placeholder) this.setPlaceholder(options.placeholder);
+		this.emptyStateText = options.emptyText ?? t('picker.empty');
+		if (options.limit) this.limit = options.limit;
+		this.modalEl.addClass('picker-modal');
+		if (options.multiple) {
+			this.setInstructions([
+				{ command: '↵', purpose: t('picker.toggle') },
+				{ command: Platform.isMacOS ? '⌘ ↵' : 'ctrl ↵', purpose: t('picker.confirm') },
+				{ command: 'esc', purpose: t('picker.dismiss') },
+			]);
+			this.scope.register(['Mod'], 'Enter', evt => {
+				evt.preventDefault();
+				this.confirm(evt);
+				return false;
+			});
+			// Touch devices have no Mod+Enter
+			new ButtonComponent(this.modalEl.createDiv('modal-button-container picker-footer'))
+				.setButtonText(t('picker.confirmButton'))
+				.setCta()
+				.onClick(evt => this.confirm(evt));
+		}
+	}
+
+	openAndWait(): Promise<T[]> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	getSuggestions(query: string): RankedItem<T>[] {
+		const items = this.getItems(query);
+		const recent = this.options.id ? this.recent?.getRecentItems(this.options.id) ?? [] : [];
+		const match = query.trim() ? prepareFuzzySearch(query.trim()) : null;
+		this.rows.clear();
+		return rankItems(items, this.options.getKey, this.options.getText, match, recent);
+	}
+
+	renderSuggestion({ item, match }: RankedItem<T>, el: HTMLElement) {
+		const key = this.options.getKey(item);
+		el.addClass('picker-item');
+		if (this.options.multiple) {
+			this.rows.set(key, el);
+			setIcon(el.createSpan('picker-check'), 'check');
+			el.toggleClass('is-checked', this.selected.has(key));
+		}
+		const contentEl = el.createDiv('picker-item-content');
+		if (this.options.renderItem) {
+			this.options.renderItem(item, contentEl, match);
+		} else if (match) {
+			renderResults(contentEl, this.options.getText(item), match);
+		} else {
+			contentEl.setText(this.options.getText(item));
+		}
+	}
+
+	selectSuggestion(value: RankedItem<T>, evt: MouseEvent | KeyboardEvent) {
+		// Single pick closes the modal, multiple selection toggles the item and waits for Mod+Enter or the confirm button
+		if (!this.options.multiple) {
+			// The modal is closed before onChooseSuggestion is called
+			this.picked = [value.item];
+			super.selectSuggestion(value, evt);
+			return;
+		}
+		const key = this.options.getKey(value.item);
+		if (this.selected.has(key)) this.selected.delete(key);
+		else this.selected.set(key, value.item);
+		this.rows.get(key)?.toggleClass('is-checked', this.selected.has(key));
+	}
+
+	onChooseSuggestion() {
+		// Picked items are recorded in selectSuggestion, before the modal closes
+	}
+
+	onClose() {
+		super.onClose();
+		this.controller?.abort();
+		this.controller = null;
+		const keys = this.picked.map(this.options.getKey);
+		if (this.options.id && keys.length > 0) this.recent?.addRecentItems(this.options.id, keys);
+		this.resolve(this.picked);
+	}
+
+	private confirm(evt: MouseEvent | KeyboardEvent) {
+		// Without checked items, confirming picks the highlighted one
+		if (this.selected.size === 0) this.selectActiveSuggestion(evt);
+		this.picked = [...this.selected.values()];
+		this.close();
+	}
+
+	/**
+	 * Items for `query`: the fixed list, or the last loaded items while the provider is queried
+	 */
+	private getItems(query: string): T[] {
+		const { items } = this.options;
+		if (Array.isArray(items)) return items;
+		if (this.loaded?.query === query) return this.loaded.items;
+
+		this.controller?.abort();
+		const controller = new AbortController();
+		this.controller = controller;
+		items(query, controller.signal)
+			.then(result => {
+				if (controller.signal.aborted) return;
+				this.loaded = { query, items: result };
+				// Query the suggestions again, now answered from the loaded items
+				this.inputEl.dispatchEvent(new Event('input'));
+			})
+			.catch(error => {
+				if (!controller.signal.aborted) log.error('Could not load the picker items', error);
+			});
+		return this.loaded?.items ?? [];
+	}
+}
+
+/**
+ * Open a picker and wait for the picked items, empty when cancelled
+ */
+export function openPicker<T>(app: App, options: PickerOptions<T>, recent: RecentItemsStore | null = null): Promise<T[]> {
+	return new PickerModal(app, options, recent).openAndWait();
+}
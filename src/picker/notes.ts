@@ -0,0 +1,43 @@
+import { App, renderResults, TFile } from 'obsidian';
+import { d, t } from '../i18n';
+import { openPicker } from './PickerModal';
+import { RecentItemsStore } from './types';
+
+/** Ids of the pickers of notes, under which the picked notes are remembered */
+export const NOTE_PICKER_IDS = {
+	open: 'open-note',
+	insertLinks: 'insert-links',
+};
+
+/**
+ * Pick markdown notes of the vault, recently picked notes first
+ * @param id Picker id under which the picked notes are remembered
+ */
+export function pickNotes(app: App, recent: RecentItemsStore, id: string, multiple = false): Promise<TFile[]> {
+	return openPicker<TFile>(app, {
+		id,
+		placeholder: t(multiple ? 'picker.notes.placeholderMultiple' : 'picker.notes.placeholder'),
+		emptyText: t('picker.notes.empty'),
+		items: app.vault.getMarkdownFiles(),
+		getKey: file => file.path,
+		getText: file => file.path,
+		renderItem: (file, el, match) => {
+			const pathEl = el.createDiv('picker-note-path');
+			if (match) renderResults(pathEl, file.path, match);
+			else pathEl.setText(file.path);
+			el.createDiv({ text: d(file.stat.mtime, { dateStyle: 'medium' }), cls: 'picker-note-date text-muted' });
+		},
+		multiple,
+	}, recent);
+}
+
+/**
+ * Forget the recently picked notes that were deleted or renamed since
+ */
+export function forgetMissingNotes(app: App, recent: RecentItemsStore): void {
+	Object.values(NOTE_PICKER_IDS).forEach(id => {
+		const keys = recent.getRecentItems(id);
+		const existing = keys.filter(path => app.vault.getAbstractFileByPath(path) instanceof TFile);
+		if (existing.length !== keys.length) recent.setRecentItems(id, existing);
+	});
+}
@@ -0,0 +1,42 @@
+import { SearchResult } from 'obsidian';
+import { RankedItem } from './types';
+
+/** Number of recently used items remembered by each picker */
+export const MAX_RECENT_ITEMS = 20;
+
+/**
+ * Items matching the query, best match first. Without query, recently used items come first
+ * in the order they were used and the others keep the order of the source.
+ * @param match Fuzzy search of the query, or null when the query is empty
+ */
+export function rankItems<T>(
+	items: T[],
+	getKey: (item: T) => string,
+	getText: (item: T) => string,
+	match: ((text: string) => SearchResult | null) | null,
+	recent: string[]
+): RankedItem<T>[] {
+	const recency = new Map(recent.map((key, index) => [key, index]));
+	const recentRank = (item: T) => recency.get(getKey(item)) ?? recent.length;
+
+	if (!match) {
+		return items
+			.map(item => ({ item, match: null }))
+			.sort((a, b) => recentRank(a.item) - recentRank(b.item));
+	}
+	const ranked: { item: T; match: SearchResult }[] = [];
+	for (const item of items) {
+		const result = match(getText(item));
+		if (result) ranked.push({ item, match: result });
+	}
+	// Scores are negative, closer to 0 is better. Recently used items win ties.
+	return ranked.sort((a, b) => b.match.score - a.match.score || recentRank(a.item) - recentRank(b.item));
+}
+
+/**
+ * Recently used keys after picking `keys`: they move to the front, the oldest keys are forgotten
+ */
+export function addRecentKeys(recent: string[], keys: string[], limit = MAX_RECENT_ITEMS): string[] {
+	const picked = [...new Set(keys)];
+	return [...picked, ...recent.filter(key => !picked.includes(key))].slice(0, limit);
+}
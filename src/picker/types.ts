@@ -0,0 +1,39 @@
+import { SearchResult } from 'obsidian';
+
+/**
+ * Items of a picker: a fixed list, or a provider called again when the query changes.
+ * Providers receive a signal aborted as soon as their result is not needed anymore.
+ */
+export type PickerItemSource<T> = T[] | ((query: string, signal: AbortSignal) => Promise<T[]>);
+
+export interface PickerOptions<T> {
+	/** Identifies the picker in the recently used items. Pickers without id don't remember picks. */
+	id?: string;
+	placeholder?: string;
+	emptyText?: string;
+	items: PickerItemSource<T>;
+	/** Stable identifier of an item, used for the selection and the recently used items */
+	getKey(item: T): string;
+	/** Text searched with the query */
+	getText(item: T): string;
+	/** Render an item, the matched text of the default rendering is highlighted */
+	renderItem?(item: T, el: HTMLElement, match: SearchResult | null): void;
+	/** Enter and click toggle items, Mod+Enter confirms the selection */
+	multiple?: boolean;
+	/** Maximum number of items shown */
+	limit?: number;
+}
+
+/**
+ * Keys of the last picked items, most recent first, by picker id
+ */
+export interface RecentItemsStore {
+	getRecentItems(id: string): string[];
+	addRecentItems(id: string, keys: string[]): void;
+	setRecentItems(id: string, keys: string[]): void;
+}
+
+export interface RankedItem<T> {
+	item: T;
+	match: SearchResult | null;
+}
@@ -0,0 +1,129 @@
+import { App, Command, MarkdownView, Menu, Notice } from 'obsidian';
+import pluginInfos from '../../manifest.json';
+import { t } from '../i18n';
+import { getTranslatedCommands } from '../i18n/commands';
+import { createLogger } from '../logger';
+import ObsidianSamplePlugin from '../main';
+import { RibbonAction } from '../settings/types';
+import { activateView, PLUGIN_VIEWS } from '../views/commands';
+import { getActionKey } from './list';
+
+const log = createLogger('ribbon');
+
+export interface RibbonActionChoice {
+	action: RibbonAction;
+	name: string;
+	icon: string;
+	run: () => void | Promise<void>;
+}
+
+interface SettingModal {
+	open(): void;
+	openTabById(id: string): unknown;
+}
+
+// The settings modal is not part of the public API
+function isSettingModal(value: unknown): value is SettingModal {
+	return typeof value === 'object' && value !== null
+		&& typeof Reflect.get(value, 'open') === 'function'
+		&& typeof Reflect.get(value, 'openTabById') === 'function';
+}
+
+/**
+ * Open the settings at the tab of this plugin
+ */
+export function openPluginSettings(app: App): void {
+	const setting: unknown = Reflect.get(app, 'setting');
+	if (!isSettingModal(setting)) {
+		log.warn('Could not open the settings');
+		return;
+	}
+	setting.open();
+	setting.openTabById(pluginInfos.id);
+}
+
+/**
+ * Run a command the way the command palette would, including editor commands
+ */
+function runCommand(app: App, command: Command): void {
+	const view = app.workspace.getActiveViewOfType(MarkdownView);
+	let ran = true;
+	if (command.callback) {
+		void command.callback();
+	} else if (command.checkCallback) {
+		ran = command.checkCallback(false) !== false;
+	} else if (view && command.editorCallback) {
+		void command.editorCallback(view.editor, view);
+	} else if (view && command.editorCheckCallback) {
+		ran = command.editorCheckCallback(false, view.editor, view) !== false;
+	} else {
+		ran = false;
+	}
+	if (!ran) new Notice(t('ribbon.unavailable', { name: command.name }));
+}
+
+/**
+ * Every action that can be added to the ribbon menu: the plugin commands, views and settings
+ */
+export function getRibbonActionChoices(plugin: ObsidianSamplePlugin): RibbonActionChoice[] {
+	return [
+		...PLUGIN_VIEWS.map(view => ({
+			action: { type: 'view' as const, target: view.type },
+			name: t('ribbon.openView', { name: t(view.nameKey) }),
+			icon: view.icon,
+			run: () => activateView(plugin, view.type),
+		})),
+		{
+			action: { type: 'settings', target: '' },
+			name: t('ribbon.openSettings'),
+			icon: 'settings',
+			run: () => openPluginSettings(plugin.app),
+		},
+		...getTranslatedCommands(plugin).map(({ id, command, name }) => ({
+			action: { type: 'command' as const, target: id },
+			name,
+			icon: command.icon ?? 'terminal-square',
+			run: () => runCommand(plugin.app, command),
+		})),
+	];
+}
+
+/**
+ * The configured action, or null when it's not available anymore (e.g. a deleted macro)
+ */
+export function resolveRibbonAction(plugin: ObsidianSamplePlugin, action: RibbonAction): RibbonActionChoice | null {
+	const key = getActionKey(action);
+	return getRibbonActionChoices(plugin).find(choice => getActionKey(choice.action) === key) ?? null;
+}
+
+/**
+ * Menu of the configured actions, followed by an item to edit them
+ */
+export function showRibbonMenu(plugin: ObsidianSamplePlugin, evt: MouseEvent): void {
+	const menu = new Menu();
+	plugin.settings.ribbon.actions.forEach(action => {
+		const choice = resolveRibbonAction(plugin, action);
+		if (!choice) return;
+		menu.addItem(item => item
+			.setTitle(choice.name)
+			.setIcon(choice.icon)
+			.onClick(() => choice.run()));
+	});
+	menu.addSeparator();
+	menu.addItem(item => item
+		.setTitle(t('ribbon.editActions'))
+		.setIcon('pencil')
+		.onClick(() => openPluginSettings(plugin.app)));
+	menu.showAtMouseEvent(evt);
+}
+
+/**
+ * Run the first available action, or show the menu when there is none
+ */
+export function runDefaultRibbonAction(plugin: ObsidianSamplePlugin, evt: MouseEvent): void {
+	const choice = plugin.settings.ribbon.actions
+		.map(action => resolveRibbonAction(plugin, action))
+		.find((resolved): resolved is RibbonActionChoice => resolved !== null);
+	if (choice) void choice.run();
+	else showRibbonMenu(plugin, evt);
+}
@@ -0,0 +1,19 @@
+import { RibbonAction } from '../settings/types';
+
+/**
+ * Identifies an action, e.g. to tell whether it's already in the menu
+ */
+export function getActionKey(action: RibbonAction): string {
+	return action.type === 'settings' ? 'settings' : `${action.type}:${action.target}`;
+}
+
+/**
+ * Copy of `items` with the item at `from` moved to `to`. Out of range indexes leave the list unchanged.
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+	if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+	const result = [...items];
+	const [item] = result.splice(from, 1);
+	result.splice(to, 0, item);
+	return result;
+}
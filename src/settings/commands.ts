@@ -0,0 +1,119 @@
+import { Notice } from 'obsidian';
+import pluginInfos from '../../manifest.json';
+import { addConditionalCommand } from '../commands/register';
+import { t } from '../i18n';
+import { createLogger } from '../logger';
+import ObsidianSamplePlugin from '../main';
+import { createNote } from '../vault/notes';
+import { DEFAULT_SETTINGS, SETTING_DEFINITIONS, SETTING_SECTIONS } from './defaults';
+import { loadPluginSettings } from './index';
+import { SectionSuggestModal } from './modals/SectionSuggestModal';
+import { SettingsDiffModal } from './modals/SettingsDiffModal';
+import { SettingsChange } from './schema';
+import { clone, diffSettings, parseSettingsImport, resetSection, serializeSettings, serializeSettingsNote } from './transfer';
+import { ObsidianSamplePluginSettings } from './types';
+
+const log = createLogger('settings-commands');
+
+/**
+ * Open the native file picker and resolve with the chosen file, or null if cancelled
+ */
+function pickFile(accept: string): Promise<File | null> {
+	return new Promise(resolve => {
+		const input = createEl('input', { type: 'file', attr: { accept } });
+		input.addEventListener('change', () => resolve(input.files?.item(0) ?? null));
+		input.addEventListener('cancel', () => resolve(null));
+		input.click();
+	});
+}
+
+/**
+ * Save a file through the browser download, which only exists on desktop
+ */
+function downloadFile(filename: string, content: string): void {
+	const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+	const link = createEl('a', { href: url, attr: { download: filename } });
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+/**
+ * Show the diff between `current` and `next`, and run `apply` once confirmed
+ */
+async function confirmAndApply<S extends object>(plugin: ObsidianSamplePlugin, title: string, current: S, next: S, apply: (next: S) => Promise<void>, warnings: SettingsChange[] = []): Promise<void> {
+	const diff = diffSettings(current, next);
+	const confirmed = await new SettingsDiffModal(plugin.app, { title, diff, warnings, confirmText: t('common.apply') }).openAndWait();
+	if (!confirmed) return;
+	await apply(next);
+	new Notice(t('settings.applied', { count: diff.length }));
+}
+
+/**
+ * Edit the effective settings: changes go to the active profile if there is one
+ */
+async function applyToActiveProfile(plugin: ObsidianSamplePlugin, next: ObsidianSamplePluginSettings): Promise<void> {
+	plugin.settings = next;
+	await plugin.saveSettings();
+}
+
+async function exportToNote(plugin: ObsidianSamplePlugin): Promise<void> {
+	const content = serializeSettingsNote(plugin.storedSettings, pluginInfos);
+	try {
+		const file = await createNote(plugin.app, `${pluginInfos.id}-settings`, content);
+		new Notice(t('settings.export.done', { path: file.path }));
+	} catch (error) {
+		log.warn('Settings export failed', error);
+		new Notice(t('settings.export.failed', { error: error instanceof Error ? error.message : String(error) }));
+	}
+}
+
+async function importFromFile(plugin: ObsidianSamplePlugin): Promise<void> {
+	const file = await pickFile('.json,.md');
+	if (!file) return;
+	try {
+		const raw = parseSettingsImport(await file.text(), pluginInfos.id);
+		const { settings, report } = loadPluginSettings(raw);
+		// Saved as is, the newer schemaVersion would make the settings read-only from then on
+		if (report.readOnly) throw new Error(t('settings.import.newerVersion'));
+		// Imports replace the stored settings as a whole, profiles included
+		await confirmAndApply(plugin, t('settings.import.title', { file: file.name }), plugin.storedSettings, settings, next => plugin.replaceSettings(next), report.changes);
+	} catch (error) {
+		log.warn('Settings import failed', error);
+		new Notice(t('settings.import.failed', { error: error instanceof Error ? error.message : String(error) }));
+	}
+}
+
+/**
+ * Commands to export, import and reset the plugin settings
+ */
+export function registerSettingsCommands(plugin: ObsidianSamplePlugin): void {
+	addConditionalCommand(plugin, {
+		id: 'export-settings-note',
+		nameKey: 'commands.exportSettingsNote',
+		run: () => exportToNote(plugin)
+	});
+	addConditionalCommand(plugin, {
+		id: 'export-settings-file',
+		nameKey: 'commands.exportSettingsFile',
+		conditions: { platform: 'desktop' },
+		run: () => downloadFile(`${pluginInfos.id}-settings.json`, serializeSettings(plugin.storedSettings, pluginInfos))
+	});
+	addConditionalCommand(plugin, {
+		id: 'import-settings',
+		nameKey: 'commands.importSettings',
+		run: () => importFromFile(plugin)
+	});
+	addConditionalCommand(plugin, {
+		id: 'reset-settings',
+		nameKey: 'commands.resetSettings',
+		run: () => confirmAndApply(plugin, t('settings.reset.title'), plugin.storedSettings, clone(DEFAULT_SETTINGS), next => plugin.replaceSettings(next))
+	});
+	addConditionalCommand(plugin, {
+		id: 'reset-settings-section',
+		nameKey: 'commands.resetSettingsSection',
+		run: () => new SectionSuggestModal(plugin.app, SETTING_SECTIONS, section => {
+			const next = resetSection(plugin.settings, DEFAULT_SETTINGS, SETTING_DEFINITIONS, section.id);
+			void confirmAndApply(plugin, t('settings.reset.sectionTitle', { section: t(section.nameKey) }), plugin.settings, next, next => applyToActiveProfile(plugin, next));
+		}).open()
+	});
+}
@@ -0,0 +1,150 @@
+import { getAvailableLocales, getLanguageName } from '../i18n';
+import { VIEW_TYPE_HIERARCHY, VIEW_TYPE_VAULT_LIST } from '../views/types';
+import { SettingDefinition, SettingSection } from './definitions';
+import { getLatestSchemaVersion } from './migrations';
+import { arrayField, booleanField, enumField, isPlainObject, isString, jsonField, numberField, objectField, recordField, stringField } from './schema';
+import {
+	CommandSettings,
+	ObsidianSamplePluginSettings,
+	ProfilesSettings,
+	RIBBON_ACTION_TYPES,
+	RibbonAction,
+	RibbonSettings,
+	SettingsProfile,
+	STATUS_BAR_METRICS,
+	StatusBarMetric,
+	StatusBarSettings,
+	TransformMacro
+} from './types';
+
+function isTransformMacro(value: unknown): value is TransformMacro {
+	return isPlainObject(value) && typeof value.name === 'string' && Array.isArray(value.transforms);
+}
+
+function isStatusBarMetric(value: unknown): value is StatusBarMetric {
+	return STATUS_BAR_METRICS.some(metric => metric === value);
+}
+
+function isRibbonAction(value: unknown): value is RibbonAction {
+	return isPlainObject(value) && RIBBON_ACTION_TYPES.some(type => type === value.type) && typeof value.target === 'string';
+}
+
+export const DEFAULT_SETTINGS: ObsidianSamplePluginSettings = {
+	schemaVersion: getLatestSchemaVersion(),
+	mySetting: 'default',
+	locale: '',
+	verboseLogging: false,
+	recentItems: {},
+	jobRuns: {},
+	macros: [],
+	statusBar: {
+		metrics: ['words', 'characters', 'readingTime', 'selection']
+	},
+	commands: {
+		hidden: [],
+		editorMenu: []
+	},
+	ribbon: {
+		actions: [
+			{ type: 'view', target: VIEW_TYPE_HIERARCHY },
+			{ type: 'view', target: VIEW_TYPE_VAULT_LIST },
+			{ type: 'settings', target: '' },
+		]
+	},
+	profiles: {
+		active: '',
+		autoSelect: false,
+		mobileProfile: '',
+		desktopProfile: '',
+		list: {}
+	}
+};
+
+/**
+ * Schema of the whole settings object. Every key of ObsidianSamplePluginSettings must be declared here.
+ */
+export const SETTINGS_SCHEMA = objectField<ObsidianSamplePluginSettings>({
+	schemaVersion: numberField({ min: 0, integer: true }),
+	mySetting: stringField(),
+	locale: stringField(),
+	verboseLogging: booleanField(),
+	recentItems: recordField(arrayField(stringField(), isString), []),
+	jobRuns: recordField(numberField({ min: 0 }), 0),
+	macros: arrayField(objectField<TransformMacro>({
+		name: stringField(),
+		transforms: arrayField(stringField(), isString)
+	}), isTransformMacro),
+	statusBar: objectField<StatusBarSettings>({
+		metrics: arrayField(enumField(STATUS_BAR_METRICS), isStatusBarMetric)
+	}),
+	commands: objectField<CommandSettings>({
+		hidden: arrayField(stringField(), isString),
+		editorMenu: arrayField(stringField(), isString)
+	}),
+	ribbon: objectField<RibbonSettings>({
+		actions: arrayField(objectField<RibbonAction>({
+			type: enumField(RIBBON_ACTION_TYPES),
+			target: stringField()
+		}), isRibbonAction)
+	}),
+	profiles: objectField<ProfilesSettings>({
+		active: stringField(),
+		autoSelect: booleanField(),
+		mobileProfile: stringField(),
+		desktopProfile: stringField(),
+		list: recordField(objectField<SettingsProfile>({
+			overrides: recordField(jsonField(), null)
+		}), { overrides: {} })
+	})
+});
+
+export const SETTING_SECTIONS: SettingSection[] = [
+	{ id: 'general', nameKey: 'settings.sections.general' },
+	{ id: 'statusBar', nameKey: 'settings.sections.statusBar' },
+	{ id: 'advanced', nameKey: 'settings.sections.advanced' },
+];
+
+/**
+ * Settings rendered in the settings tab, in display order
+ */
+export const SETTING_DEFINITIONS: SettingDefinition<ObsidianSamplePluginSettings>[] = [
+	{
+		type: 'text',
+		path: 'mySetting',
+		section: 'general',
+		nameKey: 'settings.mySetting.name',
+		descKey: 'settings.mySetting.desc',
+		placeholderKey: 'settings.mySetting.placeholder'
+	},
+	{
+		type: 'dropdown',
+		path: 'locale',
+		section: 'general',
+		nameKey: 'settings.locale.name',
+		descKey: 'settings.locale.desc',
+		options: () => [
+			{ value: '', labelKey: 'settings.locale.auto' },
+			...getAvailableLocales().map(locale => ({ value: locale, label: getLanguageName(locale) })),
+		]
+	},
+	{
+		type: 'multiselect',
+		path: 'statusBar.metrics',
+		section: 'statusBar',
+		nameKey: 'settings.statusBarMetrics.name',
+		descKey: 'settings.statusBarMetrics.desc',
+		options: [
+			{ value: 'words', labelKey: 'stats.metrics.words' },
+			{ value: 'characters', labelKey: 'stats.metrics.characters' },
+			{ value: 'readingTime', labelKey: 'stats.metrics.readingTime' },
+			{ value: 'selection', labelKey: 'stats.metrics.selection' },
+		]
+	},
+	{
+		type: 'toggle',
+		path: 'verboseLogging',
+		section: 'advanced',
+		nameKey: 'settings.verboseLogging.name',
+		descKey: 'settings.verboseLogging.desc'
+	},
+];
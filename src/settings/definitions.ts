@@ -0,0 +1,149 @@
+import { t, TranslationKey } from '../i18n';
+import { SettingPath } from './paths';
+
+/**
+ * Declarative description of the settings tab.
+ *
+ * Labels and descriptions are i18n keys, translated when the tab is rendered.
+ * Default values are not repeated here: they come from DEFAULT_SETTINGS.
+ */
+
+/** Returns an error message when the value is invalid, null otherwise */
+export type SettingValidator<V, S> = (value: V, settings: S) => string | null;
+
+export interface SettingSection {
+	id: string;
+	nameKey: TranslationKey;
+	descKey?: TranslationKey;
+}
+
+interface BaseSettingDefinition<S> {
+	path: SettingPath<S>;
+	/** Id of the SettingSection this setting is rendered in */
+	section: string;
+	nameKey: TranslationKey;
+	descKey?: TranslationKey;
+	/** Hide the setting when this returns false. Re-evaluated after every change. */
+	visible?: (settings: S) => boolean;
+}
+
+export interface TextSettingDefinition<S> extends BaseSettingDefinition<S> {
+	type: 'text';
+	placeholderKey?: TranslationKey;
+	required?: boolean;
+	validate?: SettingValidator<string, S>;
+}
+
+export interface NumberSettingDefinition<S> extends BaseSettingDefinition<S> {
+	type: 'number';
+	min?: number;
+	max?: number;
+	step?: number;
+	validate?: SettingValidator<number, S>;
+}
+
+export interface ToggleSettingDefinition<S> extends BaseSettingDefinition<S> {
+	type: 'toggle';
+}
+
+/** Dropdown option: `labelKey` is translated, `label` is shown as is (e.g. a language name) */
+export type DropdownOption =
+	| { value: string; labelKey: TranslationKey }
+	| { value: string; label: string };
+
+export interface DropdownSettingDefinition<S> extends BaseSettingDefinition<S> {
+	type: 'dropdown';
+	/** Options, or a function returning them when they are only known at runtime */
+	options: DropdownOption[] | (() => DropdownOption[]);
+}
+
+/** Several values picked among the options, stored as an array in option order */
+export interface MultiSelectSettingDefinition<S> extends BaseSettingDefinition<S> {
+	type: 'multiselect';
+	options: DropdownOption[] | (() => DropdownOption[]);
+}
+
+export interface SliderSettingDefinition<S> extends BaseSettingDefinition<S> {
+	type: 'slider';
+	min: number;
+	max: number;
+	step: number;
+}
+
+export interface ColorSettingDefinition<S> extends BaseSettingDefinition<S> {
+	type: 'color';
+}
+
+export interface PathSettingDefinition<S> extends BaseSettingDefinition<S> {
+	type: 'folder' | 'file';
+	placeholderKey?: TranslationKey;
+	/** Only suggest files with one of these extensions (file picker only) */
+	extensions?: string[];
+	validate?: SettingValidator<string, S>;
+}
+
+export interface ListSettingDefinition<S> extends BaseSettingDefinition<S> {
+	type: 'list';
+	placeholderKey?: TranslationKey;
+	validate?: SettingValidator<string[], S>;
+}
+
+export type SettingDefinition<S> =
+	| TextSettingDefinition<S>
+	| NumberSettingDefinition<S>
+	| ToggleSettingDefinition<S>
+	| DropdownSettingDefinition<S>
+	| MultiSelectSettingDefinition<S>
+	| SliderSettingDefinition<S>
+	| ColorSettingDefinition<S>
+	| PathSettingDefinition<S>
+	| ListSettingDefinition<S>;
+
+/**
+ * Built-in checks for text settings, followed by the custom validator
+ */
+export function validateText<S>(definition: TextSettingDefinition<S> | PathSettingDefinition<S>, value: string, settings: S): string | null {
+	if (definition.type === 'text' && definition.required && value.trim() === '') {
+		return t('settings.errors.required');
+	}
+	return definition.validate ? definition.validate(value, settings) : null;
+}
+
+/**
+ * Parse a raw number input and run the built-in range checks, followed by the custom validator
+ */
+export function validateNumber<S>(definition: NumberSettingDefinition<S>, raw: string, settings: S): { value: number; error: string | null } {
+	const value = Number(raw);
+	if (raw.trim() === '' || !isFinite(value)) {
+		return { value, error: t('settings.errors.notANumber') };
+	}
+	if (definition.min !== undefined && value < definition.min) {
+		return { value, error: t('settings.errors.min', { min: String(definition.min) }) };
+	}
+	if (definition.max !== undefined && value > definition.max) {
+		return { value, error: t('settings.errors.max', { max: String(definition.max) }) };
+	}
+	return { value, error: definition.validate ? definition.validate(value, settings) : null };
+}
+
+/**
+ * Options of a dropdown or multiple selection with their display label
+ */
+export function getDropdownOptions<S>(definition: DropdownSettingDefinition<S> | MultiSelectSettingDefinition<S>): { value: string; label: string }[] {
+	const options = typeof definition.options === 'function' ? definition.options() : definition.options;
+	return options.map(option => ({ value: option.value, label: 'labelKey' in option ? t(option.labelKey) : option.label }));
+}
+
+export function isSettingVisible<S>(definition: SettingDefinition<S>, settings: S): boolean {
+	return definition.visible ? definition.visible(settings) : true;
+}
+
+/**
+ * Group definitions by section, keeping the order of `sections`.
+ * Definitions pointing to an unknown section are ignored.
+ */
+export function groupBySection<S>(sections: SettingSection[], definitions: SettingDefinition<S>[]): { section: SettingSection; definitions: SettingDefinition<S>[] }[] {
+	return sections
+		.map(section => ({ section, definitions: definitions.filter(definition => definition.section === section.id) }))
+		.filter(group => group.definitions.length > 0);
+}
@@ -0,0 +1,102 @@
+import { createLogger } from '../logger';
+import { DEFAULT_SETTINGS, SETTINGS_SCHEMA } from './defaults';
+import { deepMerge } from './merge';
+import { applyProfile, resolveActiveProfile } from './profiles';
+import { getLatestSchemaVersion, runMigrations, SETTINGS_MIGRATIONS, SettingsMigration } from './migrations';
+import { FieldSchema, isPlainObject, SettingsChange } from './schema';
+import { ObsidianSamplePluginSettings } from './types';
+
+const log = createLogger('settings');
+
+export interface SettingsLoadReport {
+	fromVersion: number;
+	toVersion: number;
+	/** Descriptions of the migrations that were applied */
+	migrations: string[];
+	/** Values that were dropped, repaired or replaced by their default */
+	changes: SettingsChange[];
+	/**
+	 * The settings were saved by a newer version of the plugin: saving them back would drop
+	 * the values this version doesn't know, so they must not be saved.
+	 */
+	readOnly: boolean;
+}
+
+export interface SettingsLoadResult<T> {
+	settings: T;
+	report: SettingsLoadReport;
+}
+
+/**
+ * Whether the loaded settings differ from what is stored and should be saved back
+ */
+export function needsSave(report: SettingsLoadReport): boolean {
+	return !report.readOnly && (report.migrations.length > 0 || report.changes.length > 0);
+}
+
+/**
+ * Turn the raw content of data.json into valid settings:
+ * migrate → deep merge with defaults → validate against the schema.
+ */
+export function normalizeSettings<T extends object>(
+	raw: unknown,
+	defaults: T,
+	schema: FieldSchema<T>,
+	migrations: SettingsMigration[]
+): SettingsLoadResult<T> {
+	const changes: SettingsChange[] = [];
+	let data: Record<string, unknown> = {};
+	if (isPlainObject(raw)) {
+		data = raw;
+	} else if (raw !== null && raw !== undefined) {
+		changes.push({ path: '', kind: 'dropped', message: 'stored settings are not an object, using defaults' });
+	}
+
+	const migrated = runMigrations(data, migrations);
+	const latest = getLatestSchemaVersion(migrations);
+	const readOnly = migrated.fromVersion > latest;
+	if (readOnly) {
+		log.warn(`Settings were saved by a newer version of the plugin (schema v${migrated.fromVersion} > v${latest}), they won't be saved`);
+	}
+
+	const merged = deepMerge(defaults, migrated.data);
+	const settings = schema.validate(merged, defaults, '', changes);
+
+	const report: SettingsLoadReport = {
+		fromVersion: migrated.fromVersion,
+		toVersion: migrated.toVersion,
+		migrations: migrated.applied,
+		changes,
+		readOnly
+	};
+	logReport(report);
+	return { settings, report };
+}
+
+function logReport(report: SettingsLoadReport): void {
+	report.migrations.forEach(migration => log.info(`Applied settings migration ${migration}`));
+	// Missing keys are expected after an update, invalid values are worth a warning
+	report.changes.forEach(change => log[change.kind === 'defaulted' ? 'info' : 'warn'](`Settings ${change.kind} "${change.path}": ${change.message}`));
+}
+
+/**
+ * Normalize the plugin's own settings
+ */
+export function loadPluginSettings(raw: unknown): SettingsLoadResult<ObsidianSamplePluginSettings> {
+	return normalizeSettings(raw, DEFAULT_SETTINGS, SETTINGS_SCHEMA, SETTINGS_MIGRATIONS);
+}
+
+/**
+ * Effective settings of the profile to use on this device, validated so that
+ * stale or hand-edited overrides can't produce invalid values.
+ */
+export function resolveProfileSettings(stored: ObsidianSamplePluginSettings, isMobile: boolean): { name: string; settings: ObsidianSamplePluginSettings } {
+	const name = resolveActiveProfile(stored.profiles, isMobile);
+	const changes: SettingsChange[] = [];
+	const settings = SETTINGS_SCHEMA.validate(applyProfile(stored, name), stored, '', changes);
+	changes.forEach(change => log.warn(`Profile "${name}" override ${change.kind} "${change.path}": ${change.message}`));
+	return { name, settings };
+}
+
+export { DEFAULT_SETTINGS, SETTINGS_SCHEMA };
+export type { ObsidianSamplePluginSettings };
@@ -0,0 +1,18 @@
+import { isPlainObject } from './schema';
+
+/**
+ * Deep merge `source` on top of `base`: nested plain objects are merged key by key,
+ * everything else (arrays included) is replaced by the value from `source`.
+ * Neither input is mutated.
+ */
+export function deepMerge(base: object, source: Record<string, unknown>): Record<string, unknown> {
+	const result: Record<string, unknown> = { ...base };
+	for (const [key, value] of Object.entries(source)) {
+		if (value === undefined) continue;
+		const current = result[key];
+		result[key] = isPlainObject(current) && isPlainObject(value)
+			? deepMerge(current, value)
+			: value;
+	}
+	return result;
+}
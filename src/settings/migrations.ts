@@ -0,0 +1,121 @@
+/**
+ * Ordered list of migrations applied to the raw content of data.json.
+ *
+ * A migration upgrades data from `version - 1` to `version`. Never edit or reorder a
+ * migration that has been released: add a new one with the next version number and
+ * bump `schemaVersion` in the defaults accordingly.
+ */
+
+import { isPlainObject } from './schema';
+
+export type RawSettings = Record<string, unknown>;
+
+export interface SettingsMigration {
+	version: number;
+	description: string;
+	migrate(data: RawSettings): RawSettings;
+}
+
+export const SETTINGS_MIGRATIONS: SettingsMigration[] = [
+	{
+		version: 1,
+		description: 'Introduce schemaVersion',
+		migrate: (data) => ({ ...data })
+	},
+	{
+		version: 2,
+		description: 'Drop the plugin id from command ids',
+		migrate: (data) => renameCommandIds(data, id => LEGACY_COMMAND_IDS[id] ?? id.replace(/^obsidian-sample-plugin-/, ''))
+	},
+];
+
+/** Command ids of v1 that weren't just prefixed with the plugin id */
+const LEGACY_COMMAND_IDS: Record<string, string> = {
+	'open-obsidian-sample-plugin-modal-simple': 'open-note',
+	'open-obsidian-sample-plugin-modal-complex': 'insert-note-links',
+};
+
+/** Settings paths holding command ids, in the base settings and in the profile overrides */
+const COMMAND_ID_PATHS = ['commands.hidden', 'commands.editorMenu', 'ribbon.actions'];
+
+function renameInList(value: unknown, rename: (id: string) => string): unknown {
+	if (!Array.isArray(value)) return value;
+	return value.map(item => {
+		if (typeof item === 'string') return rename(item);
+		// Ribbon actions running a command
+		if (isPlainObject(item) && item.type === 'command' && typeof item.target === 'string') {
+			return { ...item, target: rename(item.target) };
+		}
+		return item;
+	});
+}
+
+function renameCommandIds(data: RawSettings, rename: (id: string) => string): RawSettings {
+	const result: RawSettings = { ...data };
+	for (const path of COMMAND_ID_PATHS) {
+		const [section, key] = path.split('.');
+		const value = result[section];
+		if (isPlainObject(value)) result[section] = { ...value, [key]: renameInList(value[key], rename) };
+	}
+
+	const profiles = result.profiles;
+	if (isPlainObject(profiles) && isPlainObject(profiles.list)) {
+		const list: RawSettings = {};
+		for (const [name, profile] of Object.entries(profiles.list)) {
+			if (!isPlainObject(profile) || !isPlainObject(profile.overrides)) {
+				list[name] = profile;
+				continue;
+			}
+			const overrides: RawSettings = { ...profile.overrides };
+			COMMAND_ID_PATHS.filter(path => path in overrides).forEach(path => {
+				overrides[path] = renameInList(overrides[path], rename);
+			});
+			list[name] = { ...profile, overrides };
+		}
+		result.profiles = { ...profiles, list };
+	}
+	return result;
+}
+
+export interface MigrationResult {
+	data: RawSettings;
+	fromVersion: number;
+	toVersion: number;
+	applied: string[];
+}
+
+/**
+ * Read the schema version stored in raw data. Data saved before schemaVersion
+ * existed is considered to be version 0.
+ */
+export function getSchemaVersion(data: RawSettings): number {
+	const version = data.schemaVersion;
+	return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+}
+
+/**
+ * Apply, in order, every migration newer than the version stored in `data`.
+ * Data coming from a newer version of the plugin is left untouched.
+ */
+export function runMigrations(data: RawSettings, migrations: SettingsMigration[] = SETTINGS_MIGRATIONS): MigrationResult {
+	const fromVersion = getSchemaVersion(data);
+	const pending = migrations
+		.filter(migration => migration.version > fromVersion)
+		.sort((a, b) => a.version - b.version);
+
+	let current = data;
+	const applied: string[] = [];
+	for (const migration of pending) {
+		current = { ...migration.migrate(current), schemaVersion: migration.version };
+		applied.push(`v${migration.version}: ${migration.description}`);
+	}
+
+	return { data: current, fromVersion, toVersion: getSchemaVersion(current), applied };
+}
+
+/**
+ * Latest schema version known by this build of the plugin
+ */
+export function getLatestSchemaVersion(migrations: SettingsMigration[] = SETTINGS_MIGRATIONS): number {
+	return migrations.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+}
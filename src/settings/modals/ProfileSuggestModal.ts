@@ -0,0 +1,32 @@
+import { App, SuggestModal } from 'obsidian';
+import { t } from '../../i18n';
+
+export function getProfileLabel(name: string): string {
+	return name || t('profiles.base');
+}
+
+/**
+ * Pick a settings profile. The empty name stands for the base settings.
+ */
+export class ProfileSuggestModal extends SuggestModal<string> {
+	constructor(app: App, private names: string[], private activeName: string, private onChoose: (name: string) => void) {
+		super(app);
+		this.setPlaceholder(t('profiles.switchPlaceholder'));
+	}
+
+	getSuggestions(query: string): string[] {
+		const lowerQuery = query.toLowerCase();
+		return ['', ...this.names].filter(name => getProfileLabel(name).toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(name: string, el: HTMLElement): void {
+		el.setText(getProfileLabel(name));
+		if (name === this.activeName) {
+			el.createSpan({ cls: 'text-muted', text: ` (${t('profiles.active')})` });
+		}
+	}
+
+	onChooseSuggestion(name: string): void {
+		this.onChoose(name);
+	}
+}
@@ -0,0 +1,26 @@
+import { App, SuggestModal } from 'obsidian';
+import { t } from '../../i18n';
+import { SettingSection } from '../definitions';
+
+/**
+ * Pick one of the settings tab sections
+ */
+export class SectionSuggestModal extends SuggestModal<SettingSection> {
+	constructor(app: App, private sections: SettingSection[], private onChoose: (section: SettingSection) => void) {
+		super(app);
+		this.setPlaceholder(t('settings.reset.sectionPlaceholder'));
+	}
+
+	getSuggestions(query: string): SettingSection[] {
+		const lowerQuery = query.toLowerCase();
+		return this.sections.filter(section => t(section.nameKey).toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(section: SettingSection, el: HTMLElement): void {
+		el.setText(t(section.nameKey));
+	}
+
+	onChooseSuggestion(section: SettingSection): void {
+		this.onChoose(section);
+	}
+}
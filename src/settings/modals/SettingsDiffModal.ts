@@ -0,0 +1,84 @@
+import { App, Modal, Setting } from 'obsidian';
+import { t } from '../../i18n';
+import { SettingsChange } from '../schema';
+import { SettingsDiffEntry } from '../transfer';
+
+export interface SettingsDiffModalOptions {
+	title: string;
+	diff: SettingsDiffEntry[];
+	/** Values repaired while validating the incoming settings */
+	warnings?: SettingsChange[];
+	confirmText: string;
+}
+
+function formatValue(value: unknown): string {
+	return value === undefined ? '—' : JSON.stringify(value);
+}
+
+/**
+ * Preview of the changes about to be applied to the settings.
+ * Resolves to true when the user confirms, false otherwise.
+ */
+export class SettingsDiffModal extends Modal {
+	private resolve: (confirmed: boolean) => void = () => undefined;
+	private confirmed = false;
+
+	constructor(app: App, private options: SettingsDiffModalOptions) {
+		super(app);
+	}
+
+	openAndWait(): Promise<boolean> {
+		return new Promise(resolve => {
+			this.resolve = resolve;
+			this.open();
+		});
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		const { diff, warnings = [] } = this.options;
+		this.titleEl.setText(this.options.title);
+		this.modalEl.addClass('plugin-modal');
+
+		if (diff.length === 0) {
+			contentEl.createEl('p', { text: t('settings.diff.empty') });
+		} else {
+			const table = contentEl.createEl('table', { cls: 'settings-diff-table' });
+			const header = table.createEl('tr');
+			header.createEl('th', { text: t('settings.diff.path') });
+			header.createEl('th', { text: t('settings.diff.before') });
+			header.createEl('th', { text: t('settings.diff.after') });
+			diff.forEach(entry => {
+				const row = table.createEl('tr');
+				row.createEl('td', { text: entry.path });
+				row.createEl('td', { text: formatValue(entry.before), cls: 'settings-diff-before' });
+				row.createEl('td', { text: formatValue(entry.after), cls: 'settings-diff-after' });
+			});
+		}
+
+		if (warnings.length > 0) {
+			contentEl.createEl('p', { text: t('settings.diff.warnings'), cls: 'text-muted' });
+			const list = contentEl.createEl('ul', { cls: 'settings-diff-warnings' });
+			warnings.forEach(warning => list.createEl('li', { text: `${warning.path}: ${warning.message}` }));
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(t('common.cancel'))
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(this.options.confirmText)
+				.setCta()
+				.setDisabled(diff.length === 0)
+				.onClick(() => {
+					this.confirmed = true;
+					this.close();
+				}));
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+		this.resolve(this.confirmed);
+	}
+}
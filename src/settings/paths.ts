@@ -0,0 +1,45 @@
+import { isPlainObject } from './schema';
+
+/**
+ * Dot-separated paths to every value of a settings object, e.g. `mySetting` or `statusBar.metrics`.
+ * Arrays are treated as leaf values.
+ */
+export type SettingPath<T> = {
+	[K in keyof T & string]: T[K] extends readonly unknown[]
+		? K
+		: T[K] extends object
+			? K | `${K}.${SettingPath<T[K]>}`
+			: K
+}[keyof T & string];
+
+/**
+ * Read the value at `path`, or undefined when any segment is missing
+ */
+export function getSettingValue(settings: object, path: string): unknown {
+	let current: unknown = settings;
+	for (const segment of path.split('.')) {
+		if (typeof current !== 'object' || current === null) return undefined;
+		current = Reflect.get(current, segment);
+	}
+	return current;
+}
+
+/**
+ * Write `value` at `path`, creating intermediate objects when they are missing
+ */
+export function setSettingValue(settings: object, path: string, value: unknown): void {
+	const segments = path.split('.');
+	const last = segments.pop();
+	if (last === undefined) return;
+	let current: object = settings;
+	for (const segment of segments) {
+		let next: unknown = Reflect.get(current, segment);
+		if (!isPlainObject(next)) {
+			next = {};
+			Reflect.set(current, segment, next);
+		}
+		if (typeof next !== 'object' || next === null) return;
+		current = next;
+	}
+	Reflect.set(current, last, value);
+}
@@ -0,0 +1,25 @@
+import { Notice } from 'obsidian';
+import { addConditionalCommand } from '../commands/register';
+import { t } from '../i18n';
+import ObsidianSamplePlugin from '../main';
+import { getProfileLabel, ProfileSuggestModal } from './modals/ProfileSuggestModal';
+
+export function updateProfileStatusBar(el: HTMLElement, activeProfile: string): void {
+	el.setText(t('profiles.statusBar', { profile: getProfileLabel(activeProfile) }));
+}
+
+export function openProfileSwitcher(plugin: ObsidianSamplePlugin): void {
+	const names = Object.keys(plugin.settings.profiles.list).sort();
+	new ProfileSuggestModal(plugin.app, names, plugin.activeProfile, async name => {
+		await plugin.switchProfile(name);
+		new Notice(t('profiles.switched', { profile: getProfileLabel(plugin.activeProfile) }));
+	}).open();
+}
+
+export function registerProfileCommands(plugin: ObsidianSamplePlugin): void {
+	addConditionalCommand(plugin, {
+		id: 'switch-profile',
+		nameKey: 'commands.switchProfile',
+		run: () => openProfileSwitcher(plugin)
+	});
+}
@@ -0,0 +1,115 @@
+import { getSettingValue, setSettingValue } from './paths';
+import { clone, diffSettings } from './transfer';
+import { ProfilesSettings } from './types';
+
+/**
+ * Settings profiles: named sets of per-key overrides applied on top of the base settings.
+ *
+ * The plugin works with the *effective* settings (base + overrides of the active profile)
+ * and stores the *base* settings, where each profile only keeps the values that differ.
+ */
+
+/** Keys that always belong to the base settings and can't be overridden by a profile */
+const NON_OVERRIDABLE_KEYS = ['schemaVersion', 'profiles', 'recentItems', 'jobRuns'];
+
+export interface SettingsWithProfiles {
+	profiles: ProfilesSettings;
+}
+
+function isOverridable(path: string): boolean {
+	return !NON_OVERRIDABLE_KEYS.some(key => path === key || path.startsWith(key + '.'));
+}
+
+/**
+ * Name of the profile to use on this device. An empty string means the base settings.
+ * Profiles that don't exist (anymore) resolve to the base settings.
+ */
+export function resolveActiveProfile(profiles: ProfilesSettings, isMobile: boolean): string {
+	let name = profiles.active;
+	if (profiles.autoSelect) {
+		const platformProfile = isMobile ? profiles.mobileProfile : profiles.desktopProfile;
+		if (platformProfile) name = platformProfile;
+	}
+	return name && profiles.list[name] ? name : '';
+}
+
+/**
+ * Effective settings for `profileName`: the base settings with the profile overrides applied
+ */
+export function applyProfile<S extends SettingsWithProfiles>(base: S, profileName: string): S {
+	const result = clone(base);
+	const profile = profileName ? base.profiles.list[profileName] : undefined;
+	if (!profile) return result;
+	for (const [path, value] of Object.entries(profile.overrides)) {
+		if (isOverridable(path)) setSettingValue(result, path, clone(value));
+	}
+	return result;
+}
+
+/**
+ * Values of `effective` that differ from `base`, keyed by setting path
+ */
+export function extractOverrides(base: object, effective: object): Record<string, unknown> {
+	const overrides: Record<string, unknown> = {};
+	diffSettings(base, effective)
+		.filter(entry => entry.after !== undefined && isOverridable(entry.path))
+		.forEach(entry => {
+			overrides[entry.path] = entry.after;
+		});
+	return overrides;
+}
+
+/**
+ * New base settings after the effective settings of `profileName` were edited.
+ * Without an active profile the edits go to the base, otherwise they become the profile overrides.
+ * Keys that can't be overridden, like the profile metadata, are always taken from the effective settings.
+ */
+export function storeProfileSettings<S extends SettingsWithProfiles>(base: S, effective: S, profileName: string): S {
+	if (!profileName) {
+		return clone(effective);
+	}
+	const result = clone(base);
+	NON_OVERRIDABLE_KEYS.forEach(key => setSettingValue(result, key, clone(getSettingValue(effective, key))));
+	// The profile may have been deleted while it was active: its values are then discarded
+	if (result.profiles.list[profileName]) {
+		result.profiles.list[profileName] = { overrides: extractOverrides(base, effective) };
+	}
+	return result;
+}
+
+/**
+ * Make `name` the active profile. With automatic selection on, the choice is remembered
+ * for the current platform so it survives the next automatic selection.
+ */
+export function selectProfile(profiles: ProfilesSettings, name: string, isMobile: boolean): ProfilesSettings {
+	const next = { ...profiles, active: name };
+	if (profiles.autoSelect) {
+		if (isMobile) next.mobileProfile = name;
+		else next.desktopProfile = name;
+	}
+	return next;
+}
+
+/**
+ * Add an empty profile. Returns the profiles unchanged when the name is empty or already taken.
+ */
+export function createProfile(profiles: ProfilesSettings, name: string): ProfilesSettings {
+	const trimmed = name.trim();
+	if (!trimmed || profiles.list[trimmed]) return profiles;
+	return { ...profiles, list: { ...profiles.list, [trimmed]: { overrides: {} } } };
+}
+
+/**
+ * Remove a profile and every reference to it
+ */
+export function deleteProfile(profiles: ProfilesSettings, name: string): ProfilesSettings {
+	const list = { ...profiles.list };
+	delete list[name];
+	return {
+		...profiles,
+		list,
+		active: profiles.active === name ? '' : profiles.active,
+		mobileProfile: profiles.mobileProfile === name ? '' : profiles.mobileProfile,
+		desktopProfile: profiles.desktopProfile === name ? '' : profiles.desktopProfile
+	};
+}
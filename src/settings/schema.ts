@@ -0,0 +1,223 @@
+/**
+ * Declarative schema used to validate and repair settings loaded from data.json.
+ *
+ * Each field knows how to check a raw value and, when it is not usable,
+ * either repair it (coercion, clamping, filtering) or fall back to the default.
+ */
+
+export type SettingsChangeKind = 'dropped' | 'repaired' | 'defaulted';
+
+export interface SettingsChange {
+	/** Dot-separated path of the affected value, e.g. `profiles.mobile.mySetting` */
+	path: string;
+	kind: SettingsChangeKind;
+	message: string;
+}
+
+export interface FieldSchema<T> {
+	kind: 'string' | 'number' | 'boolean' | 'enum' | 'array' | 'object' | 'record' | 'json';
+	/**
+	 * Validate a raw value. Returns a usable value (the raw one, a repaired one or the fallback)
+	 * and records every modification in `changes`.
+	 */
+	validate(value: unknown, fallback: T, path: string, changes: SettingsChange[]): T;
+}
+
+export type ObjectShape<T> = { [K in keyof T]-?: FieldSchema<T[K]> };
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isString(value: unknown): value is string {
+	return typeof value === 'string';
+}
+
+function isKeyOf<T extends object>(obj: T, key: PropertyKey): key is keyof T {
+	return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+function describe(value: unknown): string {
+	if (value === undefined) return 'undefined';
+	try {
+		return JSON.stringify(value);
+	} catch {
+		return String(value);
+	}
+}
+
+function defaulted<T>(fallback: T, path: string, changes: SettingsChange[], reason: string): T {
+	changes.push({ path, kind: 'defaulted', message: `${reason}, using default ${describe(fallback)}` });
+	return fallback;
+}
+
+export function stringField(): FieldSchema<string> {
+	return {
+		kind: 'string',
+		validate(value, fallback, path, changes) {
+			if (typeof value === 'string') return value;
+			if (typeof value === 'number' || typeof value === 'boolean') {
+				changes.push({ path, kind: 'repaired', message: `converted ${describe(value)} to a string` });
+				return String(value);
+			}
+			return defaulted(fallback, path, changes, `expected a string but got ${describe(value)}`);
+		}
+	};
+}
+
+export interface NumberFieldOptions {
+	min?: number;
+	max?: number;
+	integer?: boolean;
+}
+
+export function numberField(options: NumberFieldOptions = {}): FieldSchema<number> {
+	return {
+		kind: 'number',
+		validate(value, fallback, path, changes) {
+			let num: number;
+			if (typeof value === 'number') {
+				num = value;
+			} else if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+				num = Number(value);
+				changes.push({ path, kind: 'repaired', message: `converted ${describe(value)} to a number` });
+			} else {
+				return defaulted(fallback, path, changes, `expected a number but got ${describe(value)}`);
+			}
+			if (!isFinite(num)) {
+				return defaulted(fallback, path, changes, `expected a finite number but got ${describe(value)}`);
+			}
+			if (options.integer && !Number.isInteger(num)) {
+				changes.push({ path, kind: 'repaired', message: `rounded ${num} to an integer` });
+				num = Math.round(num);
+			}
+			if (options.min !== undefined && num < options.min) {
+				changes.push({ path, kind: 'repaired', message: `clamped ${num} to minimum ${options.min}` });
+				num = options.min;
+			}
+			if (options.max !== undefined && num > options.max) {
+				changes.push({ path, kind: 'repaired', message: `clamped ${num} to maximum ${options.max}` });
+				num = options.max;
+			}
+			return num;
+		}
+	};
+}
+
+export function booleanField(): FieldSchema<boolean> {
+	return {
+		kind: 'boolean',
+		validate(value, fallback, path, changes) {
+			if (typeof value === 'boolean') return value;
+			if (value === 'true' || value === 'false') {
+				changes.push({ path, kind: 'repaired', message: `converted ${describe(value)} to a boolean` });
+				return value === 'true';
+			}
+			return defaulted(fallback, path, changes, `expected a boolean but got ${describe(value)}`);
+		}
+	};
+}
+
+export function enumField<T extends string>(values: readonly T[]): FieldSchema<T> {
+	const isAllowed = (value: unknown): value is T => values.some(allowed => allowed === value);
+	return {
+		kind: 'enum',
+		validate(value, fallback, path, changes) {
+			if (isAllowed(value)) return value;
+			return defaulted(fallback, path, changes, `expected one of ${values.join(', ')} but got ${describe(value)}`);
+		}
+	};
+}
+
+/**
+ * Arrays keep every valid item and drop the invalid ones.
+ * Items are validated without fallback: an item that cannot be used as is gets removed.
+ */
+export function arrayField<T>(item: FieldSchema<T>, isItem: (value: unknown) => value is T): FieldSchema<T[]> {
+	return {
+		kind: 'array',
+		validate(value, fallback, path, changes) {
+			if (!Array.isArray(value)) {
+				return defaulted(fallback, path, changes, `expected an array but got ${describe(value)}`);
+			}
+			const result: T[] = [];
+			value.forEach((entry, index) => {
+				if (isItem(entry)) {
+					const itemChanges: SettingsChange[] = [];
+					result.push(item.validate(entry, entry, `${path}.${index}`, itemChanges));
+					changes.push(...itemChanges);
+				} else {
+					changes.push({ path: `${path}.${index}`, kind: 'dropped', message: `dropped invalid item ${describe(entry)}` });
+				}
+			});
+			return result;
+		}
+	};
+}
+
+/**
+ * Objects are validated key by key against their shape. Missing keys take the value from
+ * the fallback, unknown keys are dropped.
+ */
+export function objectField<T extends object>(shape: ObjectShape<T>): FieldSchema<T> {
+	return {
+		kind: 'object',
+		validate(value, fallback, path, changes) {
+			if (!isPlainObject(value)) {
+				return defaulted(fallback, path, changes, `expected an object but got ${describe(value)}`);
+			}
+			const result: T = { ...fallback };
+			for (const key of Object.keys(shape)) {
+				if (!isKeyOf(shape, key)) continue;
+				const keyPath = path ? `${path}.${key}` : key;
+				if (!(key in value)) {
+					changes.push({ path: keyPath, kind: 'defaulted', message: 'missing value, using default' });
+					continue;
+				}
+				result[key] = shape[key].validate(value[key], fallback[key], keyPath, changes);
+			}
+			for (const key of Object.keys(value)) {
+				if (!isKeyOf(shape, key)) {
+					changes.push({ path: path ? `${path}.${key}` : key, kind: 'dropped', message: 'dropped unknown key' });
+				}
+			}
+			return result;
+		}
+	};
+}
+
+/**
+ * Records are string-keyed maps whose values all share the same schema.
+ * Invalid entries are validated against `entryFallback`.
+ */
+export function recordField<T>(entry: FieldSchema<T>, entryFallback: T): FieldSchema<Record<string, T>> {
+	return {
+		kind: 'record',
+		validate(value, fallback, path, changes) {
+			if (!isPlainObject(value)) {
+				return defaulted(fallback, path, changes, `expected an object but got ${describe(value)}`);
+			}
+			const result: Record<string, T> = {};
+			for (const [key, raw] of Object.entries(value)) {
+				const base = key in fallback ? fallback[key] : entryFallback;
+				result[key] = entry.validate(raw, base, path ? `${path}.${key}` : key, changes);
+			}
+			return result;
+		}
+	};
+}
+
+/**
+ * Any JSON-compatible value, for data whose shape is checked elsewhere (e.g. profile overrides)
+ */
+export function jsonField(): FieldSchema<unknown> {
+	return {
+		kind: 'json',
+		validate(value, fallback, path, changes) {
+			if (value === undefined || typeof value === 'function' || typeof value === 'symbol' || typeof value === 'bigint') {
+				return defaulted(fallback, path, changes, `expected a JSON value but got ${typeof value}`);
+			}
+			return value;
+		}
+	};
+}
@@ -0,0 +1,38 @@
+import { AbstractInputSuggest, App, TAbstractFile, TFile, TFolder } from 'obsidian';
+
+/**
+ * Suggests vault folders or files while typing in a text input
+ */
+export class PathSuggest extends AbstractInputSuggest<TAbstractFile> {
+	constructor(
+		app: App,
+		private inputEl: HTMLInputElement,
+		private kind: 'folder' | 'file',
+		private extensions: string[] = [],
+	) {
+		super(app, inputEl);
+	}
+
+	protected getSuggestions(query: string): TAbstractFile[] {
+		const lowerQuery = query.toLowerCase();
+		return this.app.vault.getAllLoadedFiles()
+			.filter(file => this.matchesKind(file) && file.path.toLowerCase().includes(lowerQuery))
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	renderSuggestion(file: TAbstractFile, el: HTMLElement): void {
+		el.setText(file.path);
+	}
+
+	selectSuggestion(file: TAbstractFile): void {
+		this.setValue(file.path);
+		// Let the text component's onChange handler pick up the new value
+		this.inputEl.dispatchEvent(new Event('input'));
+		this.close();
+	}
+
+	private matchesKind(file: TAbstractFile): boolean {
+		if (this.kind === 'folder') return file instanceof TFolder;
+		return file instanceof TFile && (this.extensions.length === 0 || this.extensions.includes(file.extension));
+	}
+}
@@ -0,0 +1,96 @@
+import { App, PluginSettingTab, Setting } from 'obsidian';
+import { t } from '../../i18n';
+import ObsidianSamplePlugin from '../../main';
+import { DEFAULT_SETTINGS, SETTING_DEFINITIONS, SETTING_SECTIONS } from '../defaults';
+import { groupBySection, isSettingVisible, SettingDefinition } from '../definitions';
+import { getSettingValue, setSettingValue } from '../paths';
+import { ObsidianSamplePluginSettings } from '../types';
+import { renderCommandsSection } from './commandsSection';
+import { renderControl } from './controls';
+import { renderMacrosSection } from './macrosSection';
+import { renderProfilesSection } from './profilesSection';
+import { renderRibbonSection } from './ribbonSection';
+
+/**
+ * Settings tab generated from SETTING_SECTIONS and SETTING_DEFINITIONS
+ */
+export class ObsidianSamplePluginSettingTab extends PluginSettingTab {
+	plugin: ObsidianSamplePlugin;
+	private visibilityUpdaters: (() => void)[] = [];
+
+	constructor(app: App, plugin: ObsidianSamplePlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const {containerEl} = this;
+
+		containerEl.empty();
+		this.visibilityUpdaters = [];
+
+		renderProfilesSection(containerEl, this.plugin, () => this.display());
+
+		for (const group of groupBySection(SETTING_SECTIONS, SETTING_DEFINITIONS)) {
+			const sectionEl = containerEl.createDiv('settings-section');
+			const heading = new Setting(sectionEl).setName(t(group.section.nameKey)).setHeading();
+			if (group.section.descKey) heading.setDesc(t(group.section.descKey));
+			group.definitions.forEach(definition => this.renderDefinition(sectionEl, definition));
+		}
+
+		renderMacrosSection(containerEl, this.plugin, () => this.display());
+		renderRibbonSection(containerEl, this.plugin, () => this.display());
+		renderCommandsSection(containerEl, this.plugin);
+
+		this.refreshVisibility();
+	}
+
+	hide(): void {
+		// Don't wait for the debounce when the user leaves the tab
+		this.plugin.requestSave.run();
+	}
+
+	private renderDefinition(parentEl: HTMLElement, definition: SettingDefinition<ObsidianSamplePluginSettings>): void {
+		const wrapperEl = parentEl.createDiv('setting-definition');
+		const setting = new Setting(wrapperEl).setName(t(definition.nameKey));
+		if (definition.descKey) setting.setDesc(t(definition.descKey));
+		const errorEl = setting.infoEl.createDiv('setting-error-message display-none');
+
+		renderControl(definition, {
+			app: this.app,
+			settings: this.plugin.settings,
+			setting,
+			containerEl: wrapperEl,
+			value: getSettingValue(this.plugin.settings, definition.path),
+			commit: (value, error) => {
+				errorEl.setText(error ?? '');
+				errorEl.toggleClass('display-none', error === null);
+				setting.settingEl.toggleClass('has-error', error !== null);
+				if (error !== null) return;
+				setSettingValue(this.plugin.settings, definition.path, value);
+				this.plugin.applySettings();
+				this.plugin.requestSave();
+				this.refreshVisibility();
+			}
+		});
+
+		setting.addExtraButton(button => button
+			.setIcon('rotate-ccw')
+			.setTooltip(t('settings.resetDefault'))
+			.onClick(() => {
+				const defaultValue: unknown = JSON.parse(JSON.stringify(getSettingValue(DEFAULT_SETTINGS, definition.path) ?? null));
+				setSettingValue(this.plugin.settings, definition.path, defaultValue);
+				this.plugin.applySettings();
+				this.plugin.requestSave();
+				this.display();
+			}));
+
+		this.visibilityUpdaters.push(() => {
+			wrapperEl.toggleClass('display-none', !isSettingVisible(definition, this.plugin.settings));
+		});
+	}
+
+	private refreshVisibility(): void {
+		this.visibilityUpdaters.forEach(update => update());
+	}
+}
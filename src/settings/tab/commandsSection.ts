@@ -0,0 +1,43 @@
+import { Setting } from 'obsidian';
+import { getConditionalCommands } from '../../commands/register';
+import { t } from '../../i18n';
+import ObsidianSamplePlugin from '../../main';
+import { CommandSettings } from '../types';
+
+function toggleId(ids: string[], id: string, included: boolean): string[] {
+	return included ? [...ids.filter(current => current !== id), id] : ids.filter(current => current !== id);
+}
+
+/**
+ * Commands of the plugin, each with a toggle to show it in the command palette
+ * and one to add it to the editor context menu
+ */
+export function renderCommandsSection(containerEl: HTMLElement, plugin: ObsidianSamplePlugin): void {
+	const sectionEl = containerEl.createDiv('settings-section');
+	const update = (change: Partial<CommandSettings>) => {
+		plugin.settings.commands = { ...plugin.settings.commands, ...change };
+		plugin.applySettings();
+		plugin.requestSave();
+	};
+
+	new Setting(sectionEl)
+		.setName(t('settings.sections.commands'))
+		.setDesc(t('settings.sections.commandsDesc'))
+		.setHeading();
+
+	const listEl = sectionEl.createDiv('setting-list-editor');
+	getConditionalCommands(plugin).forEach(command => {
+		const { hidden, editorMenu } = plugin.settings.commands;
+		new Setting(listEl)
+			.setClass('setting-list-item')
+			.setName(t(command.nameKey, command.nameVariables))
+			.addToggle(toggle => toggle
+				.setTooltip(t('settings.commands.palette'))
+				.setValue(!hidden.includes(command.id))
+				.onChange(value => update({ hidden: toggleId(plugin.settings.commands.hidden, command.id, !value) })))
+			.addToggle(toggle => toggle
+				.setTooltip(t('settings.commands.editorMenu'))
+				.setValue(editorMenu.includes(command.id))
+				.onChange(value => update({ editorMenu: toggleId(plugin.settings.commands.editorMenu, command.id, value) })));
+	});
+}
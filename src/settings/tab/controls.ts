@@ -0,0 +1,190 @@
+import { App, Setting } from 'obsidian';
+import { t } from '../../i18n';
+import {
+	DropdownSettingDefinition,
+	getDropdownOptions,
+	ListSettingDefinition,
+	MultiSelectSettingDefinition,
+	NumberSettingDefinition,
+	PathSettingDefinition,
+	SettingDefinition,
+	SliderSettingDefinition,
+	TextSettingDefinition,
+	validateNumber,
+	validateText
+} from '../definitions';
+import { PathSuggest } from './PathSuggest';
+
+export interface ControlContext<S> {
+	app: App;
+	settings: S;
+	setting: Setting;
+	/** Wrapper of the whole setting, used by controls that need extra rows */
+	containerEl: HTMLElement;
+	/** Current value stored at the definition path */
+	value: unknown;
+	/** Store the value when `error` is null, otherwise show the error and keep the stored value */
+	commit(value: unknown, error: string | null): void;
+}
+
+function asString(value: unknown): string {
+	return typeof value === 'string' ? value : '';
+}
+
+function asNumber(value: unknown): number {
+	return typeof value === 'number' ? value : 0;
+}
+
+function asStringArray(value: unknown): string[] {
+	return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function renderText<S>(definition: TextSettingDefinition<S>, ctx: ControlContext<S>): void {
+	ctx.setting.addText(text => {
+		if (definition.placeholderKey) text.setPlaceholder(t(definition.placeholderKey));
+		text.setValue(asString(ctx.value))
+			.onChange(value => ctx.commit(value, validateText(definition, value, ctx.settings)));
+	});
+}
+
+function renderNumber<S>(definition: NumberSettingDefinition<S>, ctx: ControlContext<S>): void {
+	ctx.setting.addText(text => {
+		text.inputEl.type = 'number';
+		if (definition.min !== undefined) text.inputEl.min = String(definition.min);
+		if (definition.max !== undefined) text.inputEl.max = String(definition.max);
+		if (definition.step !== undefined) text.inputEl.step = String(definition.step);
+		text.setValue(String(asNumber(ctx.value)))
+			.onChange(raw => {
+				const { value, error } = validateNumber(definition, raw, ctx.settings);
+				ctx.commit(value, error);
+			});
+	});
+}
+
+function renderDropdown<S>(definition: DropdownSettingDefinition<S>, ctx: ControlContext<S>): void {
+	ctx.setting.addDropdown(dropdown => {
+		getDropdownOptions(definition).forEach(option => dropdown.addOption(option.value, option.label));
+		dropdown.setValue(asString(ctx.value))
+			.onChange(value => ctx.commit(value, null));
+	});
+}
+
+/**
+ * Renders one toggle per option below the setting
+ */
+function renderMultiSelect<S>(definition: MultiSelectSettingDefinition<S>, ctx: ControlContext<S>): void {
+	const options = getDropdownOptions(definition);
+	let selected = asStringArray(ctx.value);
+	const listEl = ctx.containerEl.createDiv('setting-list-editor');
+	options.forEach(option => {
+		new Setting(listEl)
+			.setClass('setting-list-item')
+			.setName(option.label)
+			.addToggle(toggle => toggle
+				.setValue(selected.includes(option.value))
+				.onChange(enabled => {
+					const values = enabled ? [...selected, option.value] : selected.filter(value => value !== option.value);
+					selected = options.map(({ value }) => value).filter(value => values.includes(value));
+					ctx.commit(selected, null);
+				}));
+	});
+}
+
+function renderSlider<S>(definition: SliderSettingDefinition<S>, ctx: ControlContext<S>): void {
+	ctx.setting.addSlider(slider => slider
+		.setLimits(definition.min, definition.max, definition.step)
+		.setValue(asNumber(ctx.value))
+		.setDynamicTooltip()
+		.onChange(value => ctx.commit(value, null)));
+}
+
+function renderPath<S>(definition: PathSettingDefinition<S>, ctx: ControlContext<S>): void {
+	ctx.setting.addSearch(search => {
+		new PathSuggest(ctx.app, search.inputEl, definition.type, definition.extensions);
+		if (definition.placeholderKey) search.setPlaceholder(t(definition.placeholderKey));
+		search.setValue(asString(ctx.value))
+			.onChange(value => ctx.commit(value, validateText(definition, value, ctx.settings)));
+	});
+}
+
+/**
+ * Renders one row per item below the setting, plus a button to append an empty item
+ */
+function renderList<S>(definition: ListSettingDefinition<S>, ctx: ControlContext<S>): void {
+	let items = asStringArray(ctx.value);
+	const listEl = ctx.containerEl.createDiv('setting-list-editor');
+
+	const update = (next: string[]) => {
+		items = next;
+		ctx.commit(next, definition.validate ? definition.validate(next, ctx.settings) : null);
+	};
+
+	const renderItems = () => {
+		listEl.empty();
+		items.forEach((item, index) => {
+			new Setting(listEl)
+				.setClass('setting-list-item')
+				.addText(text => {
+					if (definition.placeholderKey) text.setPlaceholder(t(definition.placeholderKey));
+					text.setValue(item)
+						.onChange(value => update(items.map((current, i) => i === index ? value : current)));
+				})
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip(t('settings.list.remove'))
+					.onClick(() => {
+						update(items.filter((_, i) => i !== index));
+						renderItems();
+					}));
+		});
+	};
+
+	ctx.setting.addExtraButton(button => button
+		.setIcon('plus')
+		.setTooltip(t('settings.list.add'))
+		.onClick(() => {
+			update([...items, '']);
+			renderItems();
+		}));
+	renderItems();
+}
+
+/**
+ * Add the control matching the definition type to `ctx.setting`
+ */
+export function renderControl<S>(definition: SettingDefinition<S>, ctx: ControlContext<S>): void {
+	switch (definition.type) {
+		case 'text':
+			renderText(definition, ctx);
+			break;
+		case 'number':
+			renderNumber(definition, ctx);
+			break;
+		case 'toggle':
+			ctx.setting.addToggle(toggle => toggle
+				.setValue(ctx.value === true)
+				.onChange(value => ctx.commit(value, null)));
+			break;
+		case 'dropdown':
+			renderDropdown(definition, ctx);
+			break;
+		case 'multiselect':
+			renderMultiSelect(definition, ctx);
+			break;
+		case 'slider':
+			renderSlider(definition, ctx);
+			break;
+		case 'color':
+			ctx.setting.addColorPicker(color => color
+				.setValue(asString(ctx.value))
+				.onChange(value => ctx.commit(value, null)));
+			break;
+		case 'folder':
+		case 'file':
+			renderPath(definition, ctx);
+			break;
+		case 'list':
+			renderList(definition, ctx);
+			break;
+	}
+}
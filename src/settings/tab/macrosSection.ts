@@ -0,0 +1,71 @@
+import { Setting } from 'obsidian';
+import { t } from '../../i18n';
+import ObsidianSamplePlugin from '../../main';
+import { getTransforms } from '../../transforms/registry';
+import { TransformMacro } from '../types';
+
+/**
+ * Transform macros: a name and a list of transforms each. Rendered by hand because
+ * every macro is a list of its own. `refresh` re-renders the tab once macros or steps were added or removed.
+ */
+export function renderMacrosSection(containerEl: HTMLElement, plugin: ObsidianSamplePlugin, refresh: () => void): void {
+	const sectionEl = containerEl.createDiv('settings-section');
+	const transforms = getTransforms();
+
+	const update = (macros: TransformMacro[], rerender = false) => {
+		plugin.settings.macros = macros;
+		plugin.applySettings();
+		plugin.requestSave();
+		if (rerender) refresh();
+	};
+	const updateMacro = (index: number, change: Partial<TransformMacro>, rerender = false) => {
+		update(plugin.settings.macros.map((macro, i) => i === index ? { ...macro, ...change } : macro), rerender);
+	};
+
+	new Setting(sectionEl)
+		.setName(t('settings.sections.macros'))
+		.setDesc(t('settings.sections.macrosDesc'))
+		.setHeading()
+		.addExtraButton(button => button
+			.setIcon('plus')
+			.setTooltip(t('settings.macros.add'))
+			.onClick(() => update([...plugin.settings.macros, { name: '', transforms: [] }], true)));
+
+	plugin.settings.macros.forEach((macro, index) => {
+		const macroEl = sectionEl.createDiv('setting-macro');
+		new Setting(macroEl)
+			.setName(t('settings.macros.name'))
+			.setDesc(macro.transforms.length === 0 ? t('settings.macros.empty') : '')
+			.addText(text => text
+				.setPlaceholder(t('settings.macros.namePlaceholder'))
+				.setValue(macro.name)
+				.onChange(name => updateMacro(index, { name })))
+			.addExtraButton(button => button
+				.setIcon('plus')
+				.setTooltip(t('settings.macros.addStep'))
+				.onClick(() => updateMacro(index, { transforms: [...plugin.settings.macros[index].transforms, transforms[0].id] }, true)))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip(t('settings.macros.remove'))
+				.onClick(() => update(plugin.settings.macros.filter((_, i) => i !== index), true)));
+
+		const listEl = macroEl.createDiv('setting-list-editor');
+		macro.transforms.forEach((id, step) => {
+			const setSteps = (map: (steps: string[]) => string[], rerender = false) =>
+				updateMacro(index, { transforms: map(plugin.settings.macros[index].transforms) }, rerender);
+			new Setting(listEl)
+				.setClass('setting-list-item')
+				.addDropdown(dropdown => {
+					transforms.forEach(transform => dropdown.addOption(transform.id, t(transform.nameKey)));
+					// Keep transforms that aren't registered anymore selectable, instead of silently replacing them
+					if (!transforms.some(transform => transform.id === id)) dropdown.addOption(id, id);
+					dropdown.setValue(id)
+						.onChange(value => setSteps(steps => steps.map((current, i) => i === step ? value : current)));
+				})
+				.addExtraButton(button => button
+					.setIcon('x')
+					.setTooltip(t('settings.macros.removeStep'))
+					.onClick(() => setSteps(steps => steps.filter((_, i) => i !== step), true)));
+		});
+	});
+}
@@ -0,0 +1,84 @@
+import { DropdownComponent, Setting } from 'obsidian';
+import { t } from '../../i18n';
+import ObsidianSamplePlugin from '../../main';
+import { getProfileLabel } from '../modals/ProfileSuggestModal';
+import { createProfile, deleteProfile } from '../profiles';
+import { ProfilesSettings } from '../types';
+
+function addProfileOptions(dropdown: DropdownComponent, names: string[]): DropdownComponent {
+	dropdown.addOption('', getProfileLabel(''));
+	names.forEach(name => dropdown.addOption(name, name));
+	return dropdown;
+}
+
+/**
+ * Profile management, rendered by hand because it changes which settings are being edited.
+ * `refresh` re-renders the whole tab once the active profile changed.
+ */
+export function renderProfilesSection(containerEl: HTMLElement, plugin: ObsidianSamplePlugin, refresh: () => void): void {
+	const profiles = plugin.settings.profiles;
+	const names = Object.keys(profiles.list).sort();
+	const sectionEl = containerEl.createDiv('settings-section');
+
+	const updateProfiles = async (next: ProfilesSettings) => {
+		plugin.settings.profiles = next;
+		await plugin.saveSettings();
+		refresh();
+	};
+
+	new Setting(sectionEl)
+		.setName(t('settings.sections.profiles'))
+		.setDesc(t('settings.sections.profilesDesc'))
+		.setHeading();
+
+	new Setting(sectionEl)
+		.setName(t('profiles.activeName'))
+		.addDropdown(dropdown => addProfileOptions(dropdown, names)
+			.setValue(plugin.activeProfile)
+			.onChange(async name => {
+				await plugin.switchProfile(name);
+				refresh();
+			}))
+		.addExtraButton(button => button
+			.setIcon('trash')
+			.setTooltip(t('profiles.delete'))
+			.setDisabled(plugin.activeProfile === '')
+			.onClick(() => updateProfiles(deleteProfile(profiles, plugin.activeProfile))));
+
+	let newName = '';
+	new Setting(sectionEl)
+		.setName(t('profiles.newName'))
+		.addText(text => text
+			.setPlaceholder(t('profiles.newPlaceholder'))
+			.onChange(value => {
+				newName = value;
+			}))
+		.addButton(button => button
+			.setButtonText(t('profiles.create'))
+			.onClick(() => {
+				if (newName.trim() && !profiles.list[newName.trim()]) {
+					void updateProfiles(createProfile(profiles, newName));
+				}
+			}));
+
+	new Setting(sectionEl)
+		.setName(t('profiles.autoSelectName'))
+		.setDesc(t('profiles.autoSelectDesc'))
+		.addToggle(toggle => toggle
+			.setValue(profiles.autoSelect)
+			.onChange(autoSelect => updateProfiles({ ...profiles, autoSelect })));
+
+	if (!profiles.autoSelect) return;
+
+	new Setting(sectionEl)
+		.setName(t('profiles.desktopName'))
+		.addDropdown(dropdown => addProfileOptions(dropdown, names)
+			.setValue(profiles.desktopProfile)
+			.onChange(desktopProfile => updateProfiles({ ...profiles, desktopProfile })));
+
+	new Setting(sectionEl)
+		.setName(t('profiles.mobileName'))
+		.addDropdown(dropdown => addProfileOptions(dropdown, names)
+			.setValue(profiles.mobileProfile)
+			.onChange(mobileProfile => updateProfiles({ ...profiles, mobileProfile })));
+}
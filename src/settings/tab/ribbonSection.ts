@@ -0,0 +1,100 @@
+import { Platform, setIcon, Setting } from 'obsidian';
+import { t } from '../../i18n';
+import ObsidianSamplePlugin from '../../main';
+import { getRibbonActionChoices } from '../../ribbon/actions';
+import { getActionKey, moveItem } from '../../ribbon/list';
+import { RibbonAction } from '../types';
+
+/**
+ * Actions of the ribbon menu, reordered by dragging them (or with buttons on mobile, where dragging
+ * isn't available). `refresh` re-renders the tab once actions were added, removed or moved.
+ */
+export function renderRibbonSection(containerEl: HTMLElement, plugin: ObsidianSamplePlugin, refresh: () => void): void {
+	const sectionEl = containerEl.createDiv('settings-section');
+	const choices = getRibbonActionChoices(plugin);
+	const { actions } = plugin.settings.ribbon;
+	const used = new Set(actions.map(getActionKey));
+
+	const update = (actions: RibbonAction[]) => {
+		plugin.settings.ribbon = { ...plugin.settings.ribbon, actions };
+		plugin.applySettings();
+		plugin.requestSave();
+		refresh();
+	};
+
+	new Setting(sectionEl)
+		.setName(t('settings.sections.ribbon'))
+		.setDesc(t('settings.sections.ribbonDesc'))
+		.setHeading()
+		.addDropdown(dropdown => {
+			dropdown.addOption('', t('settings.ribbon.addPlaceholder'));
+			choices
+				.filter(choice => !used.has(getActionKey(choice.action)))
+				.forEach(choice => dropdown.addOption(getActionKey(choice.action), choice.name));
+			dropdown.selectEl.setAttribute('aria-label', t('settings.ribbon.add'));
+			dropdown.onChange(key => {
+				const choice = choices.find(choice => getActionKey(choice.action) === key);
+				if (choice) update([...plugin.settings.ribbon.actions, choice.action]);
+			});
+		});
+
+	const listEl = sectionEl.createDiv('setting-list-editor');
+	if (actions.length === 0) listEl.createDiv({ text: t('settings.ribbon.empty'), cls: 'setting-item-description' });
+	let dragged: number | null = null;
+
+	actions.forEach((action, index) => {
+		const choice = choices.find(choice => getActionKey(choice.action) === getActionKey(action));
+		const setting = new Setting(listEl)
+			.setClass('setting-list-item')
+			.setClass('setting-ribbon-action')
+			.setName(choice?.name ?? t('settings.ribbon.missing', { target: action.target || action.type }));
+		setting.settingEl.toggleClass('is-missing', !choice);
+
+		if (Platform.isMobile) {
+			setting
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip(t('settings.ribbon.moveUp'))
+					.setDisabled(index === 0)
+					.onClick(() => update(moveItem(plugin.settings.ribbon.actions, index, index - 1))))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip(t('settings.ribbon.moveDown'))
+					.setDisabled(index === actions.length - 1)
+					.onClick(() => update(moveItem(plugin.settings.ribbon.actions, index, index + 1))));
+		} else {
+			const handleEl = setting.infoEl.createDiv({ cls: 'setting-ribbon-handle', attr: { 'aria-label': t('settings.ribbon.drag') } });
+			setIcon(handleEl, 'grip-vertical');
+			setting.infoEl.prepend(handleEl);
+
+			const { settingEl } = setting;
+			settingEl.draggable = true;
+			settingEl.addEventListener('dragstart', evt => {
+				dragged = index;
+				evt.dataTransfer?.setData('text/plain', String(index));
+				settingEl.addClass('is-dragging');
+			});
+			settingEl.addEventListener('dragend', () => {
+				dragged = null;
+				settingEl.removeClass('is-dragging');
+			});
+			settingEl.addEventListener('dragover', evt => {
+				if (dragged === null) return;
+				// Allows dropping on this item
+				evt.preventDefault();
+				settingEl.addClass('is-drop-target');
+			});
+			settingEl.addEventListener('dragleave', () => settingEl.removeClass('is-drop-target'));
+			settingEl.addEventListener('drop', evt => {
+				evt.preventDefault();
+				settingEl.removeClass('is-drop-target');
+				if (dragged !== null) update(moveItem(plugin.settings.ribbon.actions, dragged, index));
+			});
+		}
+
+		setting.addExtraButton(button => button
+			.setIcon('trash')
+			.setTooltip(t('settings.ribbon.remove'))
+			.onClick(() => update(plugin.settings.ribbon.actions.filter((_, i) => i !== index))));
+	});
+}
@@ -0,0 +1,117 @@
+import { t } from '../i18n';
+import { SettingDefinition } from './definitions';
+import { getSettingValue, setSettingValue } from './paths';
+import { isPlainObject } from './schema';
+
+/**
+ * Helpers to move settings between vaults and back to their defaults
+ */
+
+export interface SettingsExport {
+	plugin: string;
+	pluginVersion: string;
+	exportedAt: string;
+	settings: unknown;
+}
+
+export interface SettingsDiffEntry {
+	path: string;
+	before: unknown;
+	after: unknown;
+}
+
+export function clone<T>(value: T): T {
+	// Settings only contain JSON-compatible values
+	const copy: T = JSON.parse(JSON.stringify(value));
+	return copy;
+}
+
+export function serializeSettings(settings: object, plugin: { id: string; version: string }, now = new Date()): string {
+	const payload: SettingsExport = {
+		plugin: plugin.id,
+		pluginVersion: plugin.version,
+		exportedAt: now.toISOString(),
+		settings
+	};
+	return JSON.stringify(payload, null, '\t');
+}
+
+/**
+ * Wrap the export in a markdown note so it can live in the vault and be read again on import
+ */
+export function serializeSettingsNote(settings: object, plugin: { id: string; version: string; name: string }, now = new Date()): string {
+	return `# ${t('settings.export.noteTitle', { name: plugin.name })}\n\n\`\`\`json\n${serializeSettings(settings, plugin, now)}\n\`\`\`\n`;
+}
+
+/**
+ * Extract raw settings from an exported file. Accepts a JSON export, a markdown note
+ * containing a json code block, or a plain copy of data.json.
+ * @throws Error with a translated message when the content cannot be used
+ */
+export function parseSettingsImport(text: string, pluginId: string): unknown {
+	const fenced = text.match(/```json\s*\n([\s\S]*?)\n```/);
+	const json = fenced ? fenced[1] : text;
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(json);
+	} catch {
+		throw new Error(t('settings.import.invalidJson'));
+	}
+	if (!isPlainObject(parsed)) {
+		throw new Error(t('settings.import.invalidJson'));
+	}
+	if ('plugin' in parsed && 'settings' in parsed) {
+		if (parsed.plugin !== pluginId) {
+			throw new Error(t('settings.import.wrongPlugin', { plugin: String(parsed.plugin) }));
+		}
+		return parsed.settings;
+	}
+	return parsed;
+}
+
+function flatten(value: unknown, path: string, out: Map<string, unknown>): void {
+	if (isPlainObject(value) && Object.keys(value).length > 0) {
+		for (const [key, child] of Object.entries(value)) {
+			flatten(child, path ? `${path}.${key}` : key, out);
+		}
+		return;
+	}
+	out.set(path, value);
+}
+
+/**
+ * List every leaf value that differs between two settings objects
+ */
+export function diffSettings(before: object, after: object): SettingsDiffEntry[] {
+	const beforeValues = new Map<string, unknown>();
+	const afterValues = new Map<string, unknown>();
+	flatten(before, '', beforeValues);
+	flatten(after, '', afterValues);
+
+	const paths = new Set([...beforeValues.keys(), ...afterValues.keys()]);
+	const diff: SettingsDiffEntry[] = [];
+	paths.forEach(path => {
+		const previous = beforeValues.get(path);
+		const next = afterValues.get(path);
+		if (JSON.stringify(previous) !== JSON.stringify(next)) {
+			diff.push({ path, before: previous, after: next });
+		}
+	});
+	return diff.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Return a copy of `settings` where every setting of the given section is back to its default
+ */
+export function resetSection<S extends object>(settings: S, defaults: S, definitions: SettingDefinition<S>[], sectionId: string): S {
+	const result = clone(settings);
+	definitions
+		.filter(definition => definition.section === sectionId)
+		.forEach(definition => {
+			const path: string = definition.path;
+			setSettingValue(result, path, clone(getSettingValue(defaults, path)));
+		});
+	return result;
+}
+
@@ -0,0 +1,73 @@
+// Remember to rename these interfaces!
+
+export interface SettingsProfile {
+	/** Values replacing the base settings while this profile is active, keyed by setting path */
+	overrides: Record<string, unknown>;
+}
+
+export interface ProfilesSettings {
+	/** Name of the active profile, empty for the base settings */
+	active: string;
+	/** Pick the profile from the platform instead of `active` */
+	autoSelect: boolean;
+	mobileProfile: string;
+	desktopProfile: string;
+	list: Record<string, SettingsProfile>;
+}
+
+export const STATUS_BAR_METRICS = ['words', 'characters', 'readingTime', 'selection'] as const;
+
+export type StatusBarMetric = typeof STATUS_BAR_METRICS[number];
+
+export interface StatusBarSettings {
+	/** Statistics of the active note shown in the status bar, in display order. None hides the widget. */
+	metrics: StatusBarMetric[];
+}
+
+export const RIBBON_ACTION_TYPES = ['command', 'view', 'settings'] as const;
+
+export type RibbonActionType = typeof RIBBON_ACTION_TYPES[number];
+
+export interface RibbonAction {
+	type: RibbonActionType;
+	/** Command id (without the plugin prefix) or view type. Unused to open the settings. */
+	target: string;
+}
+
+export interface CommandSettings {
+	/** Ids of the commands hidden from the command palette */
+	hidden: string[];
+	/** Ids of the commands added to the editor context menu */
+	editorMenu: string[];
+}
+
+export interface RibbonSettings {
+	/** Actions of the ribbon menu. Clicking the ribbon icon runs the first one. */
+	actions: RibbonAction[];
+}
+
+/** Transforms applied one after the other to the editor selections */
+export interface TransformMacro {
+	name: string;
+	/** Transform ids, in order */
+	transforms: string[];
+}
+
+export interface ObsidianSamplePluginSettings {
+	/** Version of the settings layout, used to run migrations on load */
+	schemaVersion: number;
+	mySetting: string;
+	/** Language of the plugin interface, empty to follow Obsidian's language */
+	locale: string;
+	/** Record debug messages in the logs and print them to the console */
+	verboseLogging: boolean;
+	/** Keys of the items last picked in each picker, most recent first */
+	recentItems: Record<string, string[]>;
+	/** Time each background job last ran, by job id */
+	jobRuns: Record<string, number>;
+	macros: TransformMacro[];
+	statusBar: StatusBarSettings;
+	commands: CommandSettings;
+	ribbon: RibbonSettings;
+	profiles: ProfilesSettings;
+}
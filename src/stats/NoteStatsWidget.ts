@@ -0,0 +1,132 @@
+import { Component, debounce, Editor, MarkdownView } from 'obsidian';
+import { t } from '../i18n';
+import ObsidianSamplePlugin from '../main';
+import { getHeadingBreakdown, getTextStats, stripFrontmatter, TextStats } from './stats';
+
+const UPDATE_DELAY = 300;
+
+function formatWords(stats: TextStats): string {
+	return t('stats.words', { count: stats.words });
+}
+
+function formatCharacters(stats: TextStats): string {
+	return t('stats.characters', { count: stats.characters });
+}
+
+function getSelectionText(editor: Editor): string {
+	return editor.listSelections()
+		.map(({ anchor, head }) => editor.posToOffset(anchor) <= editor.posToOffset(head) ? editor.getRange(anchor, head) : editor.getRange(head, anchor))
+		.filter(text => text !== '')
+		.join('\n');
+}
+
+/**
+ * Status bar item with statistics of the active note, updated while typing and selecting.
+ * Clicking it shows the statistics of every heading.
+ */
+export class NoteStatsWidget extends Component {
+	private popoverEl: HTMLElement | null = null;
+	private requestUpdate = debounce(() => this.update(), UPDATE_DELAY, true);
+
+	constructor(private plugin: ObsidianSamplePlugin, private el: HTMLElement) {
+		super();
+	}
+
+	onload() {
+		const { workspace } = this.plugin.app;
+		this.el.addClass('mod-clickable', 'note-stats');
+		this.registerEvent(workspace.on('active-leaf-change', () => this.requestUpdate()));
+		this.registerEvent(workspace.on('file-open', () => this.requestUpdate()));
+		this.registerEvent(workspace.on('editor-change', () => this.requestUpdate()));
+		// There is no workspace event for selection changes
+		this.registerDomEvent(document, 'selectionchange', () => this.requestUpdate());
+		this.registerDomEvent(this.el, 'click', () => this.togglePopover());
+		this.registerDomEvent(document, 'mousedown', evt => {
+			if (evt.target instanceof Node && !this.popoverEl?.contains(evt.target) && !this.el.contains(evt.target)) this.closePopover();
+		});
+		this.registerDomEvent(document, 'keydown', evt => {
+			if (evt.key === 'Escape') this.closePopover();
+		});
+		this.update();
+	}
+
+	onunload() {
+		this.requestUpdate.cancel();
+		this.closePopover();
+	}
+
+	/**
+	 * Show the statistics of the active note, or hide the item without markdown note or metric
+	 */
+	update() {
+		const { metrics } = this.plugin.settings.statusBar;
+		const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+		this.el.toggleClass('display-none', !view || metrics.length === 0);
+		if (!view) {
+			this.closePopover();
+			return;
+		}
+
+		const stats = getTextStats(stripFrontmatter(view.editor.getValue()));
+		const selection = getSelectionText(view.editor);
+		const parts = metrics.map(metric => {
+			switch (metric) {
+				case 'words':
+					return formatWords(stats);
+				case 'characters':
+					return formatCharacters(stats);
+				case 'readingTime':
+					return t('stats.readingTime', { count: stats.readingTime });
+				case 'selection': {
+					if (!selection) return '';
+					const selected = getTextStats(selection);
+					return t('stats.selection', { words: formatWords(selected), characters: formatCharacters(selected) });
+				}
+			}
+		});
+		this.el.setText(parts.filter(part => part !== '').join(' · '));
+	}
+
+	private togglePopover() {
+		if (this.popoverEl) {
+			this.closePopover();
+			return;
+		}
+		const view = this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view) return;
+
+		const text = view.editor.getValue();
+		const total = getTextStats(stripFrontmatter(text));
+		const popoverEl = document.body.createDiv('popover note-stats-popover');
+		this.popoverEl = popoverEl;
+		// Open above the status bar item, aligned on its right edge
+		const rect = this.el.getBoundingClientRect();
+		popoverEl.style.setProperty('--note-stats-right', `${Math.max(0, window.innerWidth - rect.right)}px`);
+		popoverEl.style.setProperty('--note-stats-bottom', `${window.innerHeight - rect.top + 4}px`);
+
+		popoverEl.createDiv({ text: t('stats.breakdown'), cls: 'note-stats-title' });
+		const table = popoverEl.createEl('table', { cls: 'note-stats-table' });
+		getHeadingBreakdown(text).forEach(section => {
+			const row = table.createEl('tr', { cls: 'note-stats-row' });
+			const headingCell = row.createEl('td', { text: section.heading || t('stats.beforeFirstHeading'), cls: 'note-stats-heading' });
+			headingCell.style.setProperty('--note-stats-level', String(Math.max(0, section.level - 1)));
+			row.createEl('td', { text: formatWords(section), cls: 'note-stats-value' });
+			row.createEl('td', { text: t('stats.readingTime', { count: section.readingTime }), cls: 'note-stats-value' });
+			row.addEventListener('click', () => {
+				view.editor.setCursor({ line: section.line, ch: 0 });
+				view.editor.scrollIntoView({ from: { line: section.line, ch: 0 }, to: { line: section.line, ch: 0 } }, true);
+				view.editor.focus();
+				this.closePopover();
+			});
+		});
+		const totalRow = table.createEl('tr', { cls: 'note-stats-total' });
+		totalRow.createEl('td', { text: t('stats.total') });
+		totalRow.createEl('td', { text: formatWords(total), cls: 'note-stats-value' });
+		totalRow.createEl('td', { text: t('stats.readingTime', { count: total.readingTime }), cls: 'note-stats-value' });
+	}
+
+	private closePopover() {
+		this.popoverEl?.remove();
+		this.popoverEl = null;
+	}
+}
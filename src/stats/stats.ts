@@ -0,0 +1,76 @@
+/**
+ * Note statistics, computed from the markdown source
+ */
+
+export interface TextStats {
+	words: number;
+	characters: number;
+	/** Minutes, rounded up. 0 for an empty text. */
+	readingTime: number;
+}
+
+export interface HeadingStats extends TextStats {
+	/** Heading text, empty for the content before the first heading */
+	heading: string;
+	/** Heading level, 0 for the content before the first heading */
+	level: number;
+	/** Line of the heading in the note, 0-based */
+	line: number;
+}
+
+export const WORDS_PER_MINUTE = 200;
+
+// Words of space-separated scripts, and single characters of scripts written without spaces
+const WORD = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{N}]+(?:['’\-_.][\p{L}\p{N}]+)*/gu;
+const FRONTMATTER = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+export function stripFrontmatter(text: string): string {
+	return text.replace(FRONTMATTER, '');
+}
+
+export function countWords(text: string): number {
+	return text.match(WORD)?.length ?? 0;
+}
+
+export function getTextStats(text: string): TextStats {
+	const words = countWords(text);
+	return {
+		words,
+		characters: [...text].length,
+		readingTime: Math.ceil(words / WORDS_PER_MINUTE),
+	};
+}
+
+/**
+ * Statistics of each section of a note: the content before the first heading (when not empty),
+ * then every heading with the content up to the next heading. Headings in code blocks are ignored.
+ */
+export function getHeadingBreakdown(text: string): HeadingStats[] {
+	const frontmatter = FRONTMATTER.exec(text)?.[0] ?? '';
+	const lines = text.slice(frontmatter.length).split(/\r?\n/);
+	const offset = frontmatter ? frontmatter.split(/\r?\n/).length - 1 : 0;
+
+	const sections: { heading: string; level: number; line: number; content: string[] }[] = [
+		{ heading: '', level: 0, line: offset, content: [] },
+	];
+	let fence: string | null = null;
+	lines.forEach((line, index) => {
+		const fenceMatch = FENCE.exec(line);
+		if (fenceMatch) {
+			if (fence === null) fence = fenceMatch[1];
+			else if (fenceMatch[1] === fence) fence = null;
+		}
+		const heading = fence === null && !fenceMatch ? HEADING.exec(line) : null;
+		if (heading) {
+			sections.push({ heading: heading[2], level: heading[1].length, line: offset + index, content: [] });
+		} else {
+			sections[sections.length - 1].content.push(line);
+		}
+	});
+
+	return sections
+		.filter(section => section.level > 0 || section.content.some(line => line.trim() !== ''))
+		.map(({ heading, level, line, content }) => ({ heading, level, line, ...getTextStats(content.join('\n').trim()) }));
+}
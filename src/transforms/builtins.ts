@@ -0,0 +1,69 @@
+import { TextTransform } from './types';
+
+/**
+ * Transforms available out of the box. Line-based transforms keep a trailing line break.
+ */
+
+function mapLines(text: string, map: (lines: string[]) => string[]): string {
+	const trailing = text.endsWith('\n');
+	const lines = (trailing ? text.slice(0, -1) : text).split('\n');
+	return map(lines).join('\n') + (trailing ? '\n' : '');
+}
+
+export function toTitleCase(text: string): string {
+	return text.toLowerCase().replace(/(^|[\s\-([{"'])(\p{L})/gu, (_, before: string, letter: string) => before + letter.toUpperCase());
+}
+
+export function sortLines(text: string): string {
+	return mapLines(text, lines => [...lines].sort((a, b) => a.localeCompare(b, undefined, { numeric: true })));
+}
+
+export function dedupeLines(text: string): string {
+	return mapLines(text, lines => [...new Set(lines)]);
+}
+
+export function wrapInCallout(text: string, type = 'note'): string {
+	return mapLines(text, lines => [`> [!${type}]`, ...lines.map(line => line ? `> ${line}` : '>')]);
+}
+
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?(.*)$/;
+
+/**
+ * Markdown list → table. Each item is a row and its comma-separated values are the cells;
+ * the first item is the header. Lines that aren't list items are dropped.
+ */
+export function listToTable(text: string): string {
+	const rows = text.split('\n')
+		.map(line => LIST_ITEM.exec(line)?.[1])
+		.filter((item): item is string => item !== undefined)
+		.map(item => item.split(',').map(cell => cell.trim().replace(/\|/g, '\\|')));
+	if (rows.length === 0) return text;
+	const columns = Math.max(...rows.map(row => row.length));
+	const formatRow = (row: string[]) => `| ${Array.from({ length: columns }, (_, index) => row[index] ?? '').join(' | ')} |`;
+	const [header, ...body] = rows;
+	const table = [formatRow(header), formatRow(Array<string>(columns).fill('---')), ...body.map(formatRow)].join('\n');
+	return text.endsWith('\n') ? table + '\n' : table;
+}
+
+/**
+ * Each line as a URL-friendly slug: `Café Déjà Vu!` → `cafe-deja-vu`
+ */
+export function slugify(text: string): string {
+	return mapLines(text, lines => lines.map(line => line
+		.normalize('NFD')
+		.replace(/\p{M}/gu, '')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, '-')
+		.replace(/^-+|-+$/g, '')));
+}
+
+export const BUILTIN_TRANSFORMS: TextTransform[] = [
+	{ id: 'uppercase', nameKey: 'transforms.uppercase', apply: text => text.toUpperCase() },
+	{ id: 'lowercase', nameKey: 'transforms.lowercase', apply: text => text.toLowerCase() },
+	{ id: 'title-case', nameKey: 'transforms.titleCase', apply: toTitleCase },
+	{ id: 'sort-lines', nameKey: 'transforms.sortLines', apply: sortLines },
+	{ id: 'dedupe-lines', nameKey: 'transforms.dedupeLines', apply: dedupeLines },
+	{ id: 'callout', nameKey: 'transforms.callout', apply: text => wrapInCallout(text) },
+	{ id: 'list-to-table', nameKey: 'transforms.listToTable', apply: listToTable },
+	{ id: 'slugify', nameKey: 'transforms.slugify', apply: slugify },
+];
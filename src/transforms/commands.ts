@@ -0,0 +1,86 @@
+import { Editor, EditorChange } from 'obsidian';
+import { t } from '../i18n';
+import { MARKDOWN_EDITOR } from '../commands/conditions';
+import { addConditionalCommand, removeConditionalCommand } from '../commands/register';
+import ObsidianSamplePlugin from '../main';
+import { openPicker } from '../picker/PickerModal';
+import { TransformMacro } from '../settings/types';
+import { getTransforms, runTransforms } from './registry';
+import { getTransformRanges } from './selections';
+
+interface TransformChoice {
+	key: string;
+	name: string;
+	transforms: string[];
+}
+
+/** Registered macro commands by plugin, with the macros they were created from */
+const macroCommands = new WeakMap<ObsidianSamplePlugin, { signature: string; ids: string[] }>();
+
+/**
+ * Apply the transforms `ids` to every selection of the editor, or to the line of every cursor,
+ * as a single undoable change
+ */
+export function transformSelections(editor: Editor, ids: string[]): void {
+	const changes: EditorChange[] = [];
+	for (const { from, to } of getTransformRanges(editor.listSelections(), line => editor.getLine(line).length)) {
+		const text = editor.getRange(from, to);
+		const transformed = runTransforms(text, ids);
+		if (transformed !== text) changes.push({ from, to, text: transformed });
+	}
+	if (changes.length > 0) editor.transaction({ changes });
+}
+
+/**
+ * Pick a transform or a macro and apply it to the selections
+ */
+export async function pickTransform(plugin: ObsidianSamplePlugin, editor: Editor): Promise<void> {
+	const choices: TransformChoice[] = [
+		...getTransforms().map(transform => ({ key: transform.id, name: t(transform.nameKey), transforms: [transform.id] })),
+		...plugin.settings.macros.map(macro => ({ key: `macro:${macro.name}`, name: t('transforms.macro', { name: macro.name }), transforms: macro.transforms })),
+	];
+	const [choice] = await openPicker(plugin.app, {
+		id: 'transforms',
+		placeholder: t('transforms.pick'),
+		items: choices,
+		getKey: choice => choice.key,
+		getText: choice => choice.name,
+	}, plugin);
+	if (choice) transformSelections(editor, choice.transforms);
+}
+
+/**
+ * Add a command for every registered transform
+ */
+export function registerTransformCommands(plugin: ObsidianSamplePlugin): void {
+	getTransforms().forEach(transform => addConditionalCommand(plugin, {
+		id: `transform-${transform.id}`,
+		nameKey: transform.nameKey,
+		conditions: MARKDOWN_EDITOR,
+		run: ({ editor }) => editor ? transformSelections(editor, [transform.id]) : undefined
+	}));
+}
+
+/**
+ * Replace the macro commands with one command per macro of `macros`.
+ * Commands are identified by the macro position, so hotkeys survive renaming a macro.
+ */
+export function syncMacroCommands(plugin: ObsidianSamplePlugin, macros: TransformMacro[]): void {
+	const signature = JSON.stringify(macros);
+	const previous = macroCommands.get(plugin);
+	if (previous?.signature === signature) return;
+	previous?.ids.forEach(id => removeConditionalCommand(plugin, id));
+
+	const ids = macros.map((macro, index) => {
+		const id = `macro-${index}`;
+		addConditionalCommand(plugin, {
+			id,
+			nameKey: 'commands.runMacro',
+			nameVariables: { name: macro.name },
+			conditions: MARKDOWN_EDITOR,
+			run: ({ editor }) => editor ? transformSelections(editor, macro.transforms) : undefined
+		});
+		return id;
+	});
+	macroCommands.set(plugin, { signature, ids });
+}
@@ -0,0 +1,44 @@
+import { createLogger } from '../logger';
+import { BUILTIN_TRANSFORMS } from './builtins';
+import { TextTransform } from './types';
+
+const log = createLogger('transforms');
+
+const transforms = new Map<string, TextTransform>(BUILTIN_TRANSFORMS.map(transform => [transform.id, transform]));
+
+/**
+ * Add a transform, replacing any transform with the same id
+ * @returns Function removing the transform
+ */
+export function registerTransform(transform: TextTransform): () => void {
+	transforms.set(transform.id, transform);
+	return () => {
+		if (transforms.get(transform.id) === transform) transforms.delete(transform.id);
+	};
+}
+
+export function getTransform(id: string): TextTransform | undefined {
+	return transforms.get(id);
+}
+
+/**
+ * Registered transforms, in registration order
+ */
+export function getTransforms(): TextTransform[] {
+	return [...transforms.values()];
+}
+
+/**
+ * Apply the transforms `ids` one after the other. Unknown ids (e.g. in a macro saved
+ * by a newer version) are skipped.
+ */
+export function runTransforms(text: string, ids: string[]): string {
+	return ids.reduce((current, id) => {
+		const transform = transforms.get(id);
+		if (!transform) {
+			log.warn(`Unknown transform ${id}`);
+			return current;
+		}
+		return transform.apply(current);
+	}, text);
+}
@@ -0,0 +1,29 @@
+import { EditorPosition, EditorRange, EditorSelection } from 'obsidian';
+
+function comparePositions(a: EditorPosition, b: EditorPosition): number {
+	return a.line - b.line || a.ch - b.ch;
+}
+
+/**
+ * Ranges transformed for the editor selections: each selection, or the whole line for a cursor.
+ * Ranges are sorted, and overlapping ones merged so they can be changed in a single transaction.
+ */
+export function getTransformRanges(selections: EditorSelection[], getLineLength: (line: number) => number): EditorRange[] {
+	const ranges = selections
+		.map(({ anchor, head }): EditorRange => comparePositions(anchor, head) <= 0 ? { from: anchor, to: head } : { from: head, to: anchor })
+		.map(range => comparePositions(range.from, range.to) === 0
+			? { from: { line: range.from.line, ch: 0 }, to: { line: range.from.line, ch: getLineLength(range.from.line) } }
+			: range)
+		.sort((a, b) => comparePositions(a.from, b.from));
+
+	const merged: EditorRange[] = [];
+	for (const range of ranges) {
+		const last = merged[merged.length - 1];
+		if (last && comparePositions(range.from, last.to) <= 0) {
+			if (comparePositions(range.to, last.to) > 0) last.to = range.to;
+		} else {
+			merged.push({ from: { ...range.from }, to: { ...range.to } });
+		}
+	}
+	return merged;
+}
@@ -0,0 +1,8 @@
+import { TranslationKey } from '../i18n/types';
+
+export interface TextTransform {
+	/** Stable identifier, used in command ids and saved macros */
+	id: string;
+	nameKey: TranslationKey;
+	apply(text: string): string;
+}
@@ -0,0 +1,15 @@
+import { App, TFile } from 'obsidian';
+
+/**
+ * Create a note at the root of the vault and open it in a new tab. The note is named
+ * `<name>.md`, or `<name> <n>.md` when that name is taken.
+ */
+export async function createNote(app: App, name: string, content: string): Promise<TFile> {
+	let path = `${name}.md`;
+	for (let i = 1; app.vault.getAbstractFileByPath(path); i++) {
+		path = `${name} ${i}.md`;
+	}
+	const file = await app.vault.create(path, content);
+	await app.workspace.getLeaf(true).openFile(file);
+	return file;
+}
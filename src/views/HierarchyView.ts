@@ -0,0 +1,200 @@
+import { ItemView, Keymap, Menu, TAbstractFile, TFile, ViewStateResult, WorkspaceLeaf, setIcon } from 'obsidian';
+import { t } from '../i18n';
+import { promptNoteName } from '../hierarchy/NoteNameModal';
+import { createHierarchyNote, getHierarchyFolder, promptHierarchyRename, validateNoteName } from '../hierarchy/notes';
+import { addNote, buildHierarchy, flattenHierarchy, getNodeDepth, HierarchyNode, HierarchyTree, isVirtualNode, removeNote, renameNote } from '../hierarchy/tree';
+import { isPlainObject } from '../settings/schema';
+import { VIEW_TYPE_HIERARCHY } from './types';
+import { VirtualList } from './VirtualList';
+
+const ROW_HEIGHT = 28;
+
+function parseExpanded(state: unknown): string[] | null {
+	if (!isPlainObject(state) || !Array.isArray(state.expanded)) return null;
+	return state.expanded.filter((name): name is string => typeof name === 'string');
+}
+
+/**
+ * Navigator for dot-notation note names: `project.api.auth.md` is shown under project › api.
+ * Names without a note are shown as virtual nodes. Vault events update the tree note by note.
+ */
+export class HierarchyView extends ItemView {
+	private tree: HierarchyTree = buildHierarchy([]);
+	private expanded = new Set<string>();
+	private list: VirtualList<HierarchyNode> | null = null;
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_HIERARCHY;
+	}
+
+	getDisplayText(): string {
+		return t('hierarchy.title');
+	}
+
+	getIcon(): string {
+		return 'list-tree';
+	}
+
+	async onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.addClass('hierarchy-view');
+
+		this.list = new VirtualList<HierarchyNode>(contentEl, {
+			getKey: node => node.name,
+			estimateSize: () => ROW_HEIGHT,
+			renderItem: (node, rowEl) => this.renderNode(node, rowEl),
+			onOpen: (node, evt) => this.openNode(node, evt),
+			onContextMenu: (node, evt) => this.showNodeMenu(node, evt),
+			onKeyDown: (node, evt) => this.onKeyDown(node, evt),
+			emptyText: t('hierarchy.empty'),
+		});
+
+		this.tree = buildHierarchy(this.app.vault.getMarkdownFiles().map(file => file.path));
+		this.registerEvent(this.app.vault.on('create', file => this.onFileChange(file, tree => addNote(tree, file.path))));
+		this.registerEvent(this.app.vault.on('delete', file => this.onFileChange(file, tree => removeNote(tree, file.path))));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.onFileChange(file, tree => renameNote(tree, oldPath, file.path))));
+		this.updateRows();
+	}
+
+	async onClose() {
+		this.list?.destroy();
+		this.list = null;
+	}
+
+	getState(): Record<string, unknown> {
+		return { ...super.getState(), expanded: [...this.expanded] };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const expanded = parseExpanded(state);
+		if (expanded) {
+			this.expanded = new Set(expanded);
+			this.updateRows();
+		}
+		await super.setState(state, result);
+	}
+
+	/**
+	 * Expand the parents of a node, then select it and scroll to it. Returns false when there is no such node.
+	 */
+	revealNode(name: string): boolean {
+		const node = this.tree.nodes.get(name);
+		if (!node) return false;
+		const parents: string[] = [];
+		for (let parent = node.parent; parent?.name; parent = parent.parent) parents.push(parent.name);
+		const collapsed = parents.filter(parent => !this.expanded.has(parent));
+		collapsed.forEach(parent => this.expanded.add(parent));
+		this.updateRows();
+		this.list?.refresh(collapsed);
+		this.list?.setSelectedKeys([name]);
+		this.list?.scrollToKey(name);
+		if (collapsed.length > 0) this.app.workspace.requestSaveLayout();
+		return true;
+	}
+
+	private onFileChange(file: TAbstractFile, update: (tree: HierarchyTree) => HierarchyNode[]) {
+		if (!(file instanceof TFile)) return;
+		const changed = update(this.tree);
+		if (changed.length === 0) return;
+		this.updateRows();
+		// Rows of nodes that gained or lost a note or children show a different icon or style
+		this.list?.refresh(changed.map(node => node.name));
+	}
+
+	private updateRows() {
+		this.list?.setItems(flattenHierarchy(this.tree, this.expanded));
+	}
+
+	private toggle(node: HierarchyNode, expand = !this.expanded.has(node.name)) {
+		if (node.children.size === 0 || expand === this.expanded.has(node.name)) return;
+		if (expand) this.expanded.add(node.name);
+		else this.expanded.delete(node.name);
+		this.updateRows();
+		this.list?.refresh([node.name]);
+		this.app.workspace.requestSaveLayout();
+	}
+
+	private renderNode(node: HierarchyNode, rowEl: HTMLElement) {
+		rowEl.addClass('hierarchy-row');
+		rowEl.toggleClass('is-virtual', isVirtualNode(node));
+		rowEl.style.setProperty('--hierarchy-depth', String(getNodeDepth(node)));
+
+		const chevronEl = rowEl.createSpan('hierarchy-chevron');
+		if (node.children.size > 0) {
+			setIcon(chevronEl, this.expanded.has(node.name) ? 'chevron-down' : 'chevron-right');
+			chevronEl.addEventListener('click', evt => {
+				evt.stopPropagation();
+				this.toggle(node);
+			});
+		}
+		rowEl.createSpan({ text: node.segment, cls: 'hierarchy-label' });
+
+		const addEl = rowEl.createSpan('hierarchy-add clickable-icon');
+		setIcon(addEl, 'plus');
+		addEl.addEventListener('click', evt => {
+			evt.stopPropagation();
+			void this.promptChildNote(node);
+		});
+	}
+
+	private openNode(node: HierarchyNode, evt: MouseEvent | KeyboardEvent) {
+		const file = node.paths.length > 0 ? this.app.vault.getAbstractFileByPath(node.paths[0]) : null;
+		if (file instanceof TFile) {
+			void this.app.workspace.getLeaf(Keymap.isModEvent(evt)).openFile(file);
+		} else {
+			this.toggle(node);
+		}
+	}
+
+	private onKeyDown(node: HierarchyNode | undefined, evt: KeyboardEvent): boolean {
+		if (!node) return false;
+		if (evt.key === 'ArrowRight' && node.children.size > 0 && !this.expanded.has(node.name)) {
+			this.toggle(node, true);
+			return true;
+		}
+		if (evt.key === 'ArrowLeft' && this.expanded.has(node.name)) {
+			this.toggle(node, false);
+			return true;
+		}
+		return false;
+	}
+
+	private async promptChildNote(node: HierarchyNode) {
+		const child = await promptNoteName(this.app, {
+			title: t('hierarchy.newChildTitle', { name: node.name }),
+			prefix: `${node.name}.`,
+			placeholder: t('hierarchy.childPlaceholder'),
+			validate: validateNoteName,
+		});
+		if (!child) return;
+		this.toggle(node, true);
+		await createHierarchyNote(this.app, `${node.name}.${child}`, getHierarchyFolder(this.app, node));
+	}
+
+	private showNodeMenu(node: HierarchyNode, evt: MouseEvent) {
+		const menu = new Menu();
+		menu.addItem(item => item
+			.setTitle(t('hierarchy.newChild'))
+			.setIcon('plus')
+			.onClick(() => this.promptChildNote(node)));
+		menu.addItem(item => item
+			.setTitle(t('hierarchy.rename.menu'))
+			.setIcon('pencil')
+			.onClick(() => promptHierarchyRename(this.app, node.name)));
+		if (isVirtualNode(node)) {
+			menu.addItem(item => item
+				.setTitle(t('hierarchy.createNote'))
+				.setIcon('file-plus')
+				.onClick(() => createHierarchyNote(this.app, node.name, getHierarchyFolder(this.app, node))));
+		} else {
+			const file = this.app.vault.getAbstractFileByPath(node.paths[0]);
+			if (file instanceof TFile) this.app.workspace.trigger('file-menu', menu, file, 'hierarchy-view', this.leaf);
+		}
+		menu.showAtMouseEvent(evt);
+	}
+}
@@ -0,0 +1,152 @@
+import { debounce, ItemView, Keymap, Menu, TAbstractFile, TFile, ViewStateResult, WorkspaceLeaf } from 'obsidian';
+import { t } from '../i18n';
+import { isPlainObject } from '../settings/schema';
+import { VIEW_TYPE_VAULT_LIST } from './types';
+import { VirtualList } from './VirtualList';
+
+/** Persisted with the workspace layout */
+export interface VaultListViewState {
+	query: string;
+	selected: string[];
+	scrollOffset: number;
+}
+
+const ROW_HEIGHT = 28;
+const ROW_WITH_FOLDER_HEIGHT = 44;
+
+function parseViewState(state: unknown): Partial<VaultListViewState> {
+	if (!isPlainObject(state)) return {};
+	const { query, selected, scrollOffset } = state;
+	return {
+		query: typeof query === 'string' ? query : undefined,
+		selected: Array.isArray(selected) ? selected.filter((path): path is string => typeof path === 'string') : undefined,
+		scrollOffset: typeof scrollOffset === 'number' ? scrollOffset : undefined,
+	};
+}
+
+/**
+ * Every file of the vault in a virtualized list, filtered by path.
+ * Rows of files outside the vault root show their folder on a second line.
+ */
+export class VaultListView extends ItemView {
+	private list: VirtualList<TFile> | null = null;
+	private countEl: HTMLElement | null = null;
+	private searchEl: HTMLInputElement | null = null;
+	private query = '';
+	/** Restored scroll position, applied again once the view has a size */
+	private pendingScrollOffset: number | null = null;
+	private requestRefresh = debounce(() => this.refresh(), 300, true);
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_VAULT_LIST;
+	}
+
+	getDisplayText(): string {
+		return t('vaultList.title');
+	}
+
+	getIcon(): string {
+		return 'list';
+	}
+
+	async onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.addClass('vault-list-view');
+
+		const headerEl = contentEl.createDiv('vault-list-header');
+		this.searchEl = headerEl.createEl('input', { type: 'search', cls: 'vault-list-search', attr: { placeholder: t('vaultList.filter') } });
+		this.searchEl.value = this.query;
+		this.registerDomEvent(this.searchEl, 'input', () => {
+			this.query = this.searchEl?.value ?? '';
+			this.requestRefresh();
+		});
+		this.countEl = headerEl.createDiv('vault-list-count text-muted');
+
+		this.list = new VirtualList<TFile>(contentEl, {
+			getKey: file => file.path,
+			estimateSize: file => (file.parent?.isRoot() === false ? ROW_WITH_FOLDER_HEIGHT : ROW_HEIGHT),
+			renderItem: (file, rowEl) => {
+				rowEl.addClass('vault-list-row');
+				rowEl.createDiv({ text: file.basename, cls: 'vault-list-name' });
+				if (file.parent && !file.parent.isRoot()) {
+					rowEl.createDiv({ text: file.parent.path, cls: 'vault-list-folder text-muted' });
+				}
+			},
+			onOpen: (file, evt) => this.app.workspace.getLeaf(Keymap.isModEvent(evt)).openFile(file),
+			onContextMenu: (file, evt) => this.showFileMenu(file, evt),
+			emptyText: t('vaultList.empty'),
+		});
+
+		this.registerEvent(this.app.vault.on('create', file => this.onVaultChange(file)));
+		this.registerEvent(this.app.vault.on('delete', file => this.onVaultChange(file)));
+		this.registerEvent(this.app.vault.on('rename', file => this.onVaultChange(file)));
+		this.refresh();
+	}
+
+	async onClose() {
+		this.requestRefresh.cancel();
+		this.list?.destroy();
+		this.list = null;
+	}
+
+	getState(): Record<string, unknown> {
+		const state: VaultListViewState = {
+			query: this.query,
+			selected: this.list?.getSelectedKeys() ?? [],
+			scrollOffset: this.list?.getScrollOffset() ?? 0,
+		};
+		return { ...super.getState(), ...state };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const { query, selected, scrollOffset } = parseViewState(state);
+		if (query !== undefined) {
+			this.query = query;
+			if (this.searchEl) this.searchEl.value = query;
+			this.refresh();
+		}
+		if (selected) this.list?.setSelectedKeys(selected);
+		if (scrollOffset !== undefined) {
+			this.pendingScrollOffset = scrollOffset;
+			this.list?.setScrollOffset(scrollOffset);
+		}
+		await super.setState(state, result);
+	}
+
+	onResize() {
+		// A view restored in a collapsed sidebar can't scroll until it is shown
+		if (this.pendingScrollOffset === null || !this.contentEl.isShown()) return;
+		this.list?.setScrollOffset(this.pendingScrollOffset);
+		this.pendingScrollOffset = null;
+	}
+
+	private onVaultChange(file: TAbstractFile) {
+		if (file instanceof TFile) this.requestRefresh();
+	}
+
+	private refresh() {
+		if (!this.list) return;
+		const query = this.query.trim().toLowerCase();
+		const files = this.app.vault.getFiles()
+			.filter(file => !query || file.path.toLowerCase().includes(query))
+			.sort((a, b) => a.path.localeCompare(b.path));
+		this.list.setItems(files);
+		this.countEl?.setText(t('vaultList.count', { count: files.length }));
+	}
+
+	private showFileMenu(file: TFile, evt: MouseEvent) {
+		const menu = new Menu();
+		const selection = this.list?.getSelection() ?? [file];
+		menu.addItem(item => item
+			.setTitle(t('vaultList.open'))
+			.setIcon('file')
+			.onClick(() => selection.forEach(selected => this.app.workspace.getLeaf('tab').openFile(selected))));
+		this.app.workspace.trigger('file-menu', menu, file, 'vault-list-view', this.leaf);
+		menu.showAtMouseEvent(evt);
+	}
+}
@@ -0,0 +1,257 @@
+import { Keymap } from 'obsidian';
+import { elementScroll, observeElementOffset, observeElementRect, Virtualizer } from '@tanstack/virtual-core';
+import { EMPTY_SELECTION, getNavigationTarget, ListSelection, retainSelection, selectAll, selectIndex, SelectionMode } from './listSelection';
+
+export interface VirtualListOptions<T> {
+	/** Stable identifier of an item, used to keep the selection and row measurements across updates */
+	getKey(item: T): string;
+	/** Row height before the row is rendered. Rows are measured once rendered, so heights can vary. */
+	estimateSize(item: T): number;
+	/** Fill an empty row element. Called again only when the item object changes. */
+	renderItem(item: T, rowEl: HTMLElement): void;
+	/** Double click, or Enter on the focused item */
+	onOpen?(item: T, evt: MouseEvent | KeyboardEvent): void;
+	onSelectionChange?(items: T[]): void;
+	onContextMenu?(item: T, evt: MouseEvent): void;
+	/** Handle a key before the list does, with the focused item if any. Return true when handled. */
+	onKeyDown?(item: T | undefined, evt: KeyboardEvent): boolean;
+	/** Rows rendered beyond the visible ones */
+	overscan?: number;
+	emptyText?: string;
+}
+
+interface RenderedRow<T> {
+	el: HTMLElement;
+	item: T;
+}
+
+/**
+ * List rendering only the rows in view, so it stays fast with thousands of items.
+ * Supports rows of different heights, keyboard navigation and multiple selection
+ * (Mod+click to toggle, Shift+click or Shift+arrows for ranges, Mod+A for all).
+ */
+export class VirtualList<T> {
+	private items: T[] = [];
+	private keys: string[] = [];
+	private selection: ListSelection = EMPTY_SELECTION;
+	private readonly scrollEl: HTMLElement;
+	private readonly sizerEl: HTMLElement;
+	private readonly emptyEl: HTMLElement;
+	private readonly rows = new Map<string, RenderedRow<T>>();
+	private readonly virtualizer: Virtualizer<HTMLElement, HTMLElement>;
+	private readonly unmount: () => void;
+	private rendering = false;
+	private renderPending = false;
+
+	constructor(parentEl: HTMLElement, private options: VirtualListOptions<T>) {
+		this.scrollEl = parentEl.createDiv('virtual-list');
+		this.scrollEl.tabIndex = 0;
+		this.emptyEl = this.scrollEl.createDiv({ cls: 'virtual-list-empty text-muted display-none', text: options.emptyText ?? '' });
+		this.sizerEl = this.scrollEl.createDiv('virtual-list-sizer');
+
+		this.virtualizer = new Virtualizer<HTMLElement, HTMLElement>({
+			count: 0,
+			getScrollElement: () => this.scrollEl,
+			estimateSize: index => this.options.estimateSize(this.items[index]),
+			getItemKey: index => this.keys[index] ?? index,
+			overscan: options.overscan ?? 8,
+			scrollToFn: elementScroll,
+			observeElementRect,
+			observeElementOffset,
+			onChange: () => this.render(),
+		});
+		this.unmount = this.virtualizer._didMount();
+		this.virtualizer._willUpdate();
+
+		this.scrollEl.addEventListener('click', evt => this.onClick(evt));
+		this.scrollEl.addEventListener('dblclick', evt => this.onDoubleClick(evt));
+		this.scrollEl.addEventListener('contextmenu', evt => this.onContextMenu(evt));
+		this.scrollEl.addEventListener('keydown', evt => this.onKeyDown(evt));
+	}
+
+	/**
+	 * Replace the items. The selection is kept for items that are still in the list.
+	 */
+	setItems(items: T[]): void {
+		this.items = items;
+		this.keys = items.map(item => this.options.getKey(item));
+		this.selection = retainSelection(this.selection, this.keys);
+		this.virtualizer.setOptions({ ...this.virtualizer.options, count: items.length });
+		this.virtualizer._willUpdate();
+		this.render();
+	}
+
+	/**
+	 * Render again the rows of these keys (all rows by default), e.g. after a change the item object doesn't reflect
+	 */
+	refresh(keys?: string[]): void {
+		this.rows.forEach((row, key) => {
+			if (!keys || keys.includes(key)) this.renderRow(row);
+		});
+	}
+
+	getSelection(): T[] {
+		const selected = new Set(this.selection.selected);
+		return this.items.filter((_item, index) => selected.has(this.keys[index]));
+	}
+
+	getSelectedKeys(): string[] {
+		return [...this.selection.selected];
+	}
+
+	/**
+	 * Select items by key; the last one gets the focus
+	 */
+	setSelectedKeys(keys: string[]): void {
+		const present = keys.filter(key => this.keys.includes(key));
+		const focus = present[present.length - 1] ?? null;
+		this.updateSelection({ selected: present, anchor: focus, focus }, false);
+	}
+
+	getScrollOffset(): number {
+		return this.scrollEl.scrollTop;
+	}
+
+	setScrollOffset(offset: number): void {
+		this.virtualizer.scrollToOffset(offset);
+	}
+
+	scrollToKey(key: string): void {
+		const index = this.keys.indexOf(key);
+		if (index !== -1) this.virtualizer.scrollToIndex(index, { align: 'auto' });
+	}
+
+	focus(): void {
+		this.scrollEl.focus();
+	}
+
+	destroy(): void {
+		this.unmount();
+		this.rows.clear();
+		this.scrollEl.remove();
+	}
+
+	private render(): void {
+		// Measuring a row can notify the virtualizer, which renders again: finish this pass first
+		if (this.rendering) {
+			this.renderPending = true;
+			return;
+		}
+		this.rendering = true;
+		try {
+			do {
+				this.renderPending = false;
+				this.renderRows();
+			} while (this.renderPending);
+		} finally {
+			this.rendering = false;
+		}
+	}
+
+	private renderRows(): void {
+		this.emptyEl.toggleClass('display-none', this.items.length > 0);
+		this.sizerEl.style.setProperty('--virtual-list-height', `${this.virtualizer.getTotalSize()}px`);
+
+		const selected = new Set(this.selection.selected);
+		const visible = new Set<string>();
+		for (const virtualItem of this.virtualizer.getVirtualItems()) {
+			const key = this.keys[virtualItem.index];
+			const item = this.items[virtualItem.index];
+			if (key === undefined) continue;
+			visible.add(key);
+
+			let row = this.rows.get(key);
+			const changed = !row || row.item !== item;
+			if (!row) {
+				row = { el: this.sizerEl.createDiv('virtual-list-row'), item };
+				this.rows.set(key, row);
+			}
+			row.el.dataset.index = String(virtualItem.index);
+			row.el.style.setProperty('--virtual-list-row-top', `${virtualItem.start}px`);
+			row.el.toggleClass('is-selected', selected.has(key));
+			row.el.toggleClass('has-focus', this.selection.focus === key);
+			if (changed) {
+				row.item = item;
+				this.renderRow(row);
+			}
+		}
+
+		this.rows.forEach((row, key) => {
+			if (visible.has(key)) return;
+			row.el.remove();
+			this.rows.delete(key);
+		});
+	}
+
+	private renderRow(row: RenderedRow<T>): void {
+		row.el.empty();
+		this.options.renderItem(row.item, row.el);
+		this.virtualizer.measureElement(row.el);
+	}
+
+	private updateSelection(selection: ListSelection, notify = true): void {
+		this.selection = selection;
+		this.render();
+		if (notify) this.options.onSelectionChange?.(this.getSelection());
+	}
+
+	private getRowIndex(evt: Event): number {
+		const rowEl = evt.target instanceof Element ? evt.target.closest('.virtual-list-row') : null;
+		return rowEl instanceof HTMLElement ? Number(rowEl.dataset.index ?? -1) : -1;
+	}
+
+	private onClick(evt: MouseEvent): void {
+		const index = this.getRowIndex(evt);
+		if (index === -1) return;
+		const mode: SelectionMode = evt.shiftKey ? 'range' : Keymap.isModifier(evt, 'Mod') ? 'toggle' : 'replace';
+		this.updateSelection(selectIndex(this.selection, this.keys, index, mode));
+	}
+
+	private onDoubleClick(evt: MouseEvent): void {
+		const index = this.getRowIndex(evt);
+		if (index !== -1) this.options.onOpen?.(this.items[index], evt);
+	}
+
+	private onContextMenu(evt: MouseEvent): void {
+		const index = this.getRowIndex(evt);
+		if (index === -1 || !this.options.onContextMenu) return;
+		if (!this.selection.selected.includes(this.keys[index])) {
+			this.updateSelection(selectIndex(this.selection, this.keys, index, 'replace'));
+		}
+		evt.preventDefault();
+		this.options.onContextMenu(this.items[index], evt);
+	}
+
+	private onKeyDown(evt: KeyboardEvent): void {
+		const current = this.selection.focus === null ? -1 : this.keys.indexOf(this.selection.focus);
+		if (this.options.onKeyDown?.(this.items[current], evt)) {
+			evt.preventDefault();
+			return;
+		}
+
+		if (evt.key === 'Enter' && current !== -1) {
+			evt.preventDefault();
+			this.options.onOpen?.(this.items[current], evt);
+			return;
+		}
+		if (evt.key === 'Escape' && this.selection.selected.length > 0) {
+			evt.preventDefault();
+			this.updateSelection(EMPTY_SELECTION);
+			return;
+		}
+		if (evt.key.toLowerCase() === 'a' && Keymap.isModifier(evt, 'Mod')) {
+			evt.preventDefault();
+			this.updateSelection(selectAll(this.keys, this.selection));
+			return;
+		}
+
+		const { scrollTop, clientHeight } = this.scrollEl;
+		const pageSize = this.virtualizer.getVirtualItems()
+			.filter(item => item.start >= scrollTop && item.end <= scrollTop + clientHeight).length;
+		const target = getNavigationTarget(evt.key, current, this.items.length, pageSize);
+		if (target === null) return;
+		evt.preventDefault();
+		this.updateSelection(selectIndex(this.selection, this.keys, target, evt.shiftKey ? 'range' : 'replace'));
+		this.virtualizer.scrollToIndex(target, { align: 'auto' });
+	}
+}
@@ -0,0 +1,91 @@
+import { Plugin, TFile, WorkspaceLeaf } from 'obsidian';
+import { addConditionalCommand } from '../commands/register';
+import { EventRouter } from '../events/router';
+import { APP_SELECTORS } from '../events/types';
+import { getHierarchyName } from '../hierarchy/tree';
+import { TranslationKey } from '../i18n/types';
+import ObsidianSamplePlugin from '../main';
+import { HierarchyView } from './HierarchyView';
+import { VIEW_TYPE_HIERARCHY, VIEW_TYPE_VAULT_LIST } from './types';
+import { VaultListView } from './VaultListView';
+
+/** Views of the plugin, e.g. to offer opening them from the ribbon menu */
+export const PLUGIN_VIEWS: { type: string; nameKey: TranslationKey; icon: string }[] = [
+	{ type: VIEW_TYPE_VAULT_LIST, nameKey: 'vaultList.title', icon: 'list' },
+	{ type: VIEW_TYPE_HIERARCHY, nameKey: 'hierarchy.title', icon: 'list-tree' },
+];
+
+/**
+ * Reveal a view, opening it in the right sidebar the first time
+ */
+export async function activateView(plugin: Plugin, type: string): Promise<void> {
+	const { workspace } = plugin.app;
+	let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(type)[0] ?? null;
+	if (!leaf) {
+		leaf = workspace.getRightLeaf(false);
+		await leaf?.setViewState({ type, active: true });
+	}
+	if (leaf) await workspace.revealLeaf(leaf);
+}
+
+/**
+ * Open the hierarchy view and reveal the note of `file` in it
+ */
+export async function revealInHierarchy(plugin: Plugin, file: TFile): Promise<void> {
+	const name = getHierarchyName(file.path);
+	if (!name) return;
+	await activateView(plugin, VIEW_TYPE_HIERARCHY);
+	const view = plugin.app.workspace.getLeavesOfType(VIEW_TYPE_HIERARCHY)[0]?.view;
+	if (view instanceof HierarchyView) view.revealNode(name);
+}
+
+/**
+ * Alt+click on an internal link or a file explorer item reveals the note in the hierarchy view
+ */
+export function registerViewRoutes(plugin: Plugin, router: EventRouter): void {
+	const { metadataCache, vault } = plugin.app;
+	const reveal = (evt: MouseEvent, file: TFile | null) => {
+		if (!file || !getHierarchyName(file.path)) return false;
+		// Prevent opening the link or the note
+		evt.preventDefault();
+		evt.stopPropagation();
+		void revealInHierarchy(plugin, file);
+	};
+	plugin.register(router.on({
+		event: 'click',
+		selector: APP_SELECTORS.internalLink,
+		modifiers: { alt: true, mod: false, shift: false },
+		handler: (evt, linkEl) => {
+			const href = linkEl.getAttribute('data-href') ?? '';
+			const sourcePath = plugin.app.workspace.getActiveFile()?.path ?? '';
+			return reveal(evt, metadataCache.getFirstLinkpathDest(href.split('#')[0], sourcePath));
+		},
+	}));
+	plugin.register(router.on({
+		event: 'click',
+		selector: APP_SELECTORS.fileExplorerItem,
+		modifiers: { alt: true, mod: false, shift: false },
+		handler: (evt, itemEl) => {
+			const file = vault.getAbstractFileByPath(itemEl.getAttribute('data-path') ?? '');
+			return reveal(evt, file instanceof TFile ? file : null);
+		},
+	}));
+}
+
+/**
+ * Register the plugin views and the commands opening them
+ */
+export function registerViews(plugin: ObsidianSamplePlugin): void {
+	plugin.registerView(VIEW_TYPE_VAULT_LIST, leaf => new VaultListView(leaf));
+	plugin.registerView(VIEW_TYPE_HIERARCHY, leaf => new HierarchyView(leaf));
+	addConditionalCommand(plugin, {
+		id: 'open-vault-list',
+		nameKey: 'commands.openVaultList',
+		run: () => activateView(plugin, VIEW_TYPE_VAULT_LIST)
+	});
+	addConditionalCommand(plugin, {
+		id: 'open-hierarchy',
+		nameKey: 'commands.openHierarchy',
+		run: () => activateView(plugin, VIEW_TYPE_HIERARCHY)
+	});
+}
@@ -0,0 +1,87 @@
+/**
+ * Selection and keyboard navigation of a list, kept free of DOM code.
+ * Items are identified by key so the selection survives updates of the list.
+ */
+
+export interface ListSelection {
+	selected: string[];
+	/** Item a Shift+click range starts from */
+	anchor: string | null;
+	/** Item moved by the keyboard, shown with a focus ring */
+	focus: string | null;
+}
+
+export type SelectionMode = 'replace' | 'toggle' | 'range';
+
+export const EMPTY_SELECTION: ListSelection = { selected: [], anchor: null, focus: null };
+
+/**
+ * Select the item at `index`: alone, added to / removed from the selection, or as the end of a range
+ */
+export function selectIndex(selection: ListSelection, keys: string[], index: number, mode: SelectionMode): ListSelection {
+	const key = keys[index];
+	if (key === undefined) return selection;
+
+	if (mode === 'toggle') {
+		const selected = selection.selected.includes(key)
+			? selection.selected.filter(selectedKey => selectedKey !== key)
+			: [...selection.selected, key];
+		return { selected, anchor: key, focus: key };
+	}
+
+	if (mode === 'range' && selection.anchor !== null) {
+		const anchorIndex = keys.indexOf(selection.anchor);
+		if (anchorIndex !== -1) {
+			const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+			return { selected: keys.slice(start, end + 1), anchor: selection.anchor, focus: key };
+		}
+	}
+
+	return { selected: [key], anchor: key, focus: key };
+}
+
+export function selectAll(keys: string[], selection: ListSelection): ListSelection {
+	return { selected: [...keys], anchor: selection.anchor, focus: selection.focus };
+}
+
+/**
+ * Drop the keys that are no longer in the list
+ */
+export function retainSelection(selection: ListSelection, keys: string[]): ListSelection {
+	const present = new Set(keys);
+	const keep = (key: string | null) => (key !== null && present.has(key) ? key : null);
+	return {
+		selected: selection.selected.filter(key => present.has(key)),
+		anchor: keep(selection.anchor),
+		focus: keep(selection.focus),
+	};
+}
+
+const NAVIGATION_KEYS = ['ArrowDown', 'ArrowUp', 'PageDown', 'PageUp', 'Home', 'End'];
+
+/**
+ * Index the focus moves to for a navigation key, or null if the key doesn't move it
+ * @param pageSize Number of items visible at once, for PageUp/PageDown
+ */
+export function getNavigationTarget(key: string, current: number, count: number, pageSize: number): number | null {
+	if (count === 0 || !NAVIGATION_KEYS.includes(key)) return null;
+	const last = count - 1;
+	// Without focus, the first key press starts at the top or the bottom of the list
+	if (current < 0) return key === 'ArrowUp' || key === 'End' ? last : 0;
+	switch (key) {
+		case 'ArrowDown':
+			return Math.min(current + 1, last);
+		case 'ArrowUp':
+			return Math.max(current - 1, 0);
+		case 'PageDown':
+			return Math.min(current + Math.max(pageSize, 1), last);
+		case 'PageUp':
+			return Math.max(current - Math.max(pageSize, 1), 0);
+		case 'Home':
+			return 0;
+		case 'End':
+			return last;
+		default:
+			return null;
+	}
+}
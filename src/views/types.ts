@@ -0,0 +1,4 @@
+import pluginInfos from '../../manifest.json';
+
+export const VIEW_TYPE_VAULT_LIST = pluginInfos.id + '-vault-list';
+export const VIEW_TYPE_HIERARCHY = pluginInfos.id + '-hierarchy';
@@ -0,0 +1,49 @@
+import { checkConditions, CommandState, MARKDOWN_EDITOR } from '../src/commands/conditions';
+
+const state: CommandState = {
+	viewType: 'markdown',
+	extension: 'md',
+	frontmatter: { tags: ['a'], draft: false },
+	hasSelection: true,
+	isMobile: false,
+};
+
+describe('command conditions', () => {
+	it('should accept any state without conditions', () => {
+		expect(checkConditions({}, { ...state, viewType: null, extension: null, frontmatter: null })).toBe(true);
+	});
+
+	it('should check the active view type', () => {
+		expect(checkConditions(MARKDOWN_EDITOR, state)).toBe(true);
+		expect(checkConditions({ viewType: ['canvas', 'markdown'] }, state)).toBe(true);
+		expect(checkConditions(MARKDOWN_EDITOR, { ...state, viewType: 'canvas' })).toBe(false);
+	});
+
+	it('should compare file extensions case-insensitively', () => {
+		expect(checkConditions({ extensions: ['MD'] }, state)).toBe(true);
+		expect(checkConditions({ extensions: ['pdf'] }, state)).toBe(false);
+		expect(checkConditions({ extensions: ['md'] }, { ...state, extension: null })).toBe(false);
+	});
+
+	it('should require the frontmatter property, even with a falsy value', () => {
+		expect(checkConditions({ frontmatter: 'draft' }, state)).toBe(true);
+		expect(checkConditions({ frontmatter: 'status' }, state)).toBe(false);
+		expect(checkConditions({ frontmatter: 'draft' }, { ...state, frontmatter: null })).toBe(false);
+	});
+
+	it('should require or forbid a selection', () => {
+		expect(checkConditions({ selection: true }, state)).toBe(true);
+		expect(checkConditions({ selection: false }, state)).toBe(false);
+		expect(checkConditions({ selection: false }, { ...state, hasSelection: false })).toBe(true);
+	});
+
+	it('should check the platform', () => {
+		expect(checkConditions({ platform: 'desktop' }, state)).toBe(true);
+		expect(checkConditions({ platform: 'mobile' }, state)).toBe(false);
+		expect(checkConditions({ platform: 'mobile' }, { ...state, isMobile: true })).toBe(true);
+	});
+
+	it('should require every condition', () => {
+		expect(checkConditions({ viewType: 'markdown', selection: false }, state)).toBe(false);
+	});
+});
@@ -0,0 +1,113 @@
+import { EventRouter, matchesModifiers } from '../src/events/router';
+
+type Listener = EventListenerOrEventListenerObject | null;
+
+function createRoot() {
+	const listeners = new Map<string, Listener>();
+	return {
+		listeners,
+		addEventListener: (type: string, listener: Listener) => { listeners.set(type, listener); },
+		removeEventListener: (type: string) => { listeners.delete(type); },
+		dispatchEvent: () => true,
+	};
+}
+
+/** Element matching the selectors it's given, standing for itself or one of its ancestors */
+function createElement(selectors: string[]) {
+	const el = { closest: (selector: string) => selectors.includes(selector) ? el : null };
+	return el;
+}
+
+function dispatch(root: ReturnType<typeof createRoot>, type: string, target: unknown, keys: Partial<Record<'altKey' | 'shiftKey' | 'ctrlKey' | 'metaKey', boolean>> = {}) {
+	const evt = Object.assign(new Event(type), { altKey: false, shiftKey: false, ctrlKey: false, metaKey: false, ...keys });
+	Object.defineProperty(evt, 'target', { value: target });
+	const listener = root.listeners.get(type);
+	if (typeof listener === 'function') listener(evt);
+}
+
+describe('event router', () => {
+	describe('matchesModifiers', () => {
+		const keys = { altKey: true, shiftKey: false, ctrlKey: false, metaKey: true };
+
+		it('should ignore modifiers that are not part of the condition', () => {
+			expect(matchesModifiers(keys, {})).toBe(true);
+			expect(matchesModifiers(keys, { alt: true })).toBe(true);
+		});
+
+		it('should require and forbid modifiers', () => {
+			expect(matchesModifiers(keys, { alt: true, shift: false })).toBe(true);
+			expect(matchesModifiers(keys, { shift: true })).toBe(false);
+		});
+
+		it('should map mod to Cmd on macOS and Ctrl elsewhere', () => {
+			expect(matchesModifiers(keys, { mod: true }, true)).toBe(true);
+			expect(matchesModifiers(keys, { mod: true }, false)).toBe(false);
+		});
+	});
+
+	describe('EventRouter', () => {
+		it('should call the routes whose selector and modifiers match', () => {
+			const root = createRoot();
+			const router = new EventRouter(root);
+			const onLink = jest.fn();
+			const onTag = jest.fn();
+			router.on({ event: 'click', selector: '.link', modifiers: { alt: true }, handler: onLink });
+			router.on({ event: 'click', selector: '.tag', handler: onTag });
+
+			const link = createElement(['.link']);
+			dispatch(root, 'click', link);
+			expect(onLink).not.toHaveBeenCalled();
+			dispatch(root, 'click', link, { altKey: true });
+			expect(onLink).toHaveBeenCalledWith(expect.anything(), link);
+			expect(onTag).not.toHaveBeenCalled();
+		});
+
+		it('should run routes by priority and stop at the first handling the event', () => {
+			const root = createRoot();
+			const router = new EventRouter(root);
+			const calls: string[] = [];
+			router.on({ event: 'click', selector: '.a', handler: () => { calls.push('low'); } });
+			router.on({ event: 'click', selector: '.a', priority: 10, handler: () => { calls.push('high'); return false; } });
+			router.on({ event: 'click', selector: '.a', priority: 10, handler: () => { calls.push('high 2'); return false; } });
+
+			dispatch(root, 'click', createElement(['.a']));
+			expect(calls).toEqual(['high', 'high 2', 'low']);
+		});
+
+		it('should keep routing after a failing handler', () => {
+			const root = createRoot();
+			const router = new EventRouter(root);
+			const handler = jest.fn();
+			jest.spyOn(console, 'error').mockImplementation(() => undefined);
+			router.on({ event: 'click', selector: '.a', priority: 1, handler: () => { throw new Error('boom'); } });
+			router.on({ event: 'click', selector: '.a', handler });
+			dispatch(root, 'click', createElement(['.a']));
+			expect(handler).toHaveBeenCalled();
+		});
+
+		it('should ignore targets that are not elements', () => {
+			const root = createRoot();
+			const router = new EventRouter(root);
+			const handler = jest.fn();
+			router.on({ event: 'click', selector: '.a', handler });
+			dispatch(root, 'click', {});
+			expect(handler).not.toHaveBeenCalled();
+		});
+
+		it('should listen to an event type only while it has routes', () => {
+			const root = createRoot();
+			const router = new EventRouter(root);
+			const offClick = router.on({ event: 'click', selector: '.a', handler: () => undefined });
+			const offClick2 = router.on({ event: 'click', selector: '.b', handler: () => undefined });
+			router.on({ event: 'contextmenu', selector: '.a', handler: () => undefined });
+			expect([...root.listeners.keys()]).toEqual(['click', 'contextmenu']);
+
+			offClick();
+			expect(root.listeners.has('click')).toBe(true);
+			offClick2();
+			expect(root.listeners.has('click')).toBe(false);
+			router.destroy();
+			expect(root.listeners.size).toBe(0);
+		});
+	});
+});
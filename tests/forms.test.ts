@@ -0,0 +1,57 @@
+import { checkField, createLatestValidator, FormField, validateField } from '../src/forms/fields';
+
+type Values = { name: string; due: string; done: boolean };
+
+const values: Values = { name: '', due: '', done: false };
+
+describe('forms', () => {
+	describe('checkField', () => {
+		it('should reject empty required text', () => {
+			const field: FormField<Values> = { key: 'name', type: 'text', label: 'Name', required: true };
+			expect(checkField(field, '  ')).toBe('This value is required');
+			expect(checkField(field, 'note')).toBeNull();
+		});
+
+		it('should check the format and range of dates', () => {
+			const field: FormField<Values> = { key: 'due', type: 'date', label: 'Due', min: '2024-01-01', max: '2024-12-31' };
+			expect(checkField(field, '')).toBeNull();
+			expect(checkField(field, '2024-06-15')).toBeNull();
+			expect(checkField(field, '15/06/2024')).toBe('Enter a valid date');
+			expect(checkField(field, '2023-12-31')).toBe('The date must be on or after 2024-01-01');
+			expect(checkField(field, '2025-01-01')).toBe('The date must be on or before 2024-12-31');
+		});
+
+		it('should accept any toggle value', () => {
+			expect(checkField<Values>({ key: 'done', type: 'toggle', label: 'Done', required: true }, false)).toBeNull();
+		});
+	});
+
+	describe('validateField', () => {
+		it('should run the custom validator after the built-in checks', async () => {
+			const validate = jest.fn(async (value: unknown) => value === 'taken' ? 'Already taken' : null);
+			const field: FormField<Values> = { key: 'name', type: 'text', label: 'Name', required: true, validate };
+			expect(validateField(field, '', values)).toBe('This value is required');
+			expect(validate).not.toHaveBeenCalled();
+			await expect(validateField(field, 'taken', values)).resolves.toBe('Already taken');
+			expect(validate).toHaveBeenCalledWith('taken', values);
+		});
+	});
+
+	describe('createLatestValidator', () => {
+		it('should only resolve the result of the latest call', async () => {
+			const resolvers: ((error: string | null) => void)[] = [];
+			const validate = createLatestValidator((_value: string) => new Promise<string | null>(resolve => resolvers.push(resolve)));
+			const first = validate('a');
+			const second = validate('ab');
+			await Promise.resolve();
+			resolvers[1](null);
+			resolvers[0]('Too short');
+			await expect(first).resolves.toBeUndefined();
+			await expect(second).resolves.toBeNull();
+		});
+
+		it('should pass synchronous results through', async () => {
+			await expect(createLatestValidator((value: string) => value ? null : 'Empty')('')).resolves.toBe('Empty');
+		});
+	});
+});
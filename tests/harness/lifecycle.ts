@@ -0,0 +1,226 @@
+import { App, createPlugin, Plugin, PluginClass, PluginManifest } from '../mocks/obsidian/app';
+import { Component } from '../mocks/obsidian/events';
+import { getOpenModals, Modal } from '../mocks/obsidian/modal';
+import { describeTarget, getAddedElements, ListenerTracker } from './tracking';
+
+export type RegistrationMethod = 'registerDomEvent' | 'registerInterval' | 'addCommand' | 'addRibbonIcon' | 'addStatusBarItem' | 'registerView';
+
+export interface RecordedCall {
+	method: RegistrationMethod;
+	/** Class of the component that made the call: the plugin, one of its views or child components */
+	owner: string;
+	description: string;
+	/** Whether what was registered is gone */
+	isCleanedUp: () => boolean;
+}
+
+/** Something still there after the plugin was unloaded, or registered twice */
+export interface Leak {
+	kind: RegistrationMethod | 'listener' | 'interval' | 'event' | 'element' | 'modal' | 'duplicate';
+	description: string;
+}
+
+/** What one load registered, to compare the loads of load/unload/load cycles */
+export interface LoadSummary {
+	calls: Partial<Record<RegistrationMethod, number>>;
+	commands: string[];
+	events: Record<string, number>;
+	listeners: number;
+	intervals: number;
+}
+
+interface AppSnapshot {
+	elements: Set<Element>;
+	events: Record<string, number>;
+	modals: Modal[];
+}
+
+/**
+ * Loads and unloads a plugin with the mock app, recording what it registers. A new instance is created
+ * on every load, like Obsidian does when a plugin is disabled then enabled again.
+ *
+ * After unload, getLeaks() lists what survived: registrations the plugin made but were not undone,
+ * and DOM listeners, intervals, app event handlers, elements or modals added without the `register*`
+ * helpers. Call dispose() after each test.
+ */
+export class LifecycleHarness<P> {
+	plugin: P | null = null;
+	/** Registrations of the plugin and its components since the last load */
+	calls: RecordedCall[] = [];
+	/** Summary of each load, in order */
+	summaries: LoadSummary[] = [];
+	private component: Plugin | null = null;
+	private tracker = new ListenerTracker();
+	/** Listeners, intervals and elements added with the helpers, reported as such when they leak */
+	private registered = new Set<unknown>();
+	private duplicates: Leak[] = [];
+	private before: AppSnapshot | null = null;
+	private restores: (() => void)[] = [];
+
+	constructor(private PluginClass: PluginClass<P>, readonly manifest: PluginManifest, readonly app = new App()) {}
+
+	async load(): Promise<P> {
+		if (this.component) throw new Error('The plugin is already loaded');
+		// Before tracking: the first query of the document adds listeners of the jsdom selector engine
+		this.before = this.snapshot();
+		this.install();
+		this.calls = [];
+		this.duplicates = [];
+		const { plugin, component } = createPlugin(this.PluginClass, this.app, this.manifest);
+		this.plugin = plugin;
+		this.component = component;
+		component.load();
+		await component.loading;
+		this.summaries.push(this.summarize());
+		return plugin;
+	}
+
+	/**
+	 * Unload the plugin, then list what survived. Views are closed asynchronously, so pending
+	 * callbacks run before the check.
+	 */
+	async unload(): Promise<Leak[]> {
+		this.component?.unload();
+		this.component = null;
+		this.plugin = null;
+		await new Promise(resolve => setTimeout(resolve, 0));
+		return this.getLeaks();
+	}
+
+	getLeaks(): Leak[] {
+		const before = this.before;
+		if (!before) return [];
+		const leaks: Leak[] = [...this.duplicates];
+		const leakedCalls = this.calls.filter(call => !call.isCleanedUp());
+		leakedCalls.forEach(({ method, owner, description }) => leaks.push({ kind: method, description: `${owner}: ${description}` }));
+
+		this.tracker.getReachableListeners()
+			.filter(({ listener }) => !this.registered.has(listener))
+			.forEach(({ target, type, capture }) => leaks.push({ kind: 'listener', description: `${type}${capture ? ' (capture)' : ''} on ${describeTarget(target)}` }));
+		this.tracker.getActiveIntervals()
+			.filter(id => !this.registered.has(id))
+			.forEach(id => leaks.push({ kind: 'interval', description: `interval ${id}` }));
+
+		const events = this.getEventCounts();
+		Object.entries(events)
+			.filter(([name, count]) => count > (before.events[name] ?? 0))
+			.forEach(([name, count]) => leaks.push({ kind: 'event', description: `${count - (before.events[name] ?? 0)} ${name} handler(s)` }));
+
+		getAddedElements(document.body, before.elements)
+			.filter(el => !this.registered.has(el))
+			.forEach(el => leaks.push({ kind: 'element', description: describeTarget(el) }));
+		getOpenModals()
+			.filter(modal => !before.modals.includes(modal))
+			.forEach(modal => leaks.push({ kind: 'modal', description: modal.constructor.name }));
+		return leaks;
+	}
+
+	/**
+	 * Unload the plugin if needed and stop recording
+	 */
+	dispose(): void {
+		this.component?.unload();
+		this.component = null;
+		this.plugin = null;
+		this.restores.forEach(restore => restore());
+		this.restores = [];
+		this.tracker.uninstall();
+	}
+
+	private snapshot(): AppSnapshot {
+		// Created on first use: part of the app, not of the plugin
+		void this.app.ribbonEl;
+		void this.app.statusBarEl;
+		return {
+			elements: new Set(Array.from(document.body.querySelectorAll('*'))),
+			events: this.getEventCounts(),
+			modals: getOpenModals(),
+		};
+	}
+
+	private summarize(): LoadSummary {
+		const calls: LoadSummary['calls'] = {};
+		this.calls.forEach(({ method }) => {
+			calls[method] = (calls[method] ?? 0) + 1;
+		});
+		return {
+			calls,
+			commands: Object.keys(this.app.commands.commands).filter(id => id.startsWith(`${this.manifest.id}:`)).sort(),
+			events: this.getEventCounts(),
+			listeners: this.tracker.getReachableListeners().length,
+			intervals: this.tracker.getActiveIntervals().length,
+		};
+	}
+
+	private getEventCounts(): Record<string, number> {
+		const { vault, metadataCache, workspace } = this.app;
+		const counts: Record<string, number> = {};
+		Object.entries({ vault, metadataCache, workspace }).forEach(([emitter, events]) => {
+			Object.entries(events.getListenerCounts()).forEach(([name, count]) => {
+				counts[`${emitter} ${name}`] = count;
+			});
+		});
+		return counts;
+	}
+
+	/**
+	 * Wrap the register* and add* helpers to record their calls, and track DOM listeners and intervals
+	 */
+	private install() {
+		this.tracker.install();
+		if (this.restores.length > 0) return;
+		const record = (call: RecordedCall) => this.calls.push(call);
+		const recordDuplicate = (description: string) => this.duplicates.push({ kind: 'duplicate', description });
+		const registered = this.registered;
+		const tracker = this.tracker;
+		const { registerDomEvent, registerInterval } = Component.prototype;
+		const { addCommand, addRibbonIcon, addStatusBarItem, registerView } = Plugin.prototype;
+
+		Component.prototype.registerDomEvent = function (el, type, callback, options) {
+			registerDomEvent.call(this, el, type, callback, options);
+			registered.add(callback);
+			record({
+				method: 'registerDomEvent',
+				owner: this.constructor.name,
+				description: `${type} on ${describeTarget(el)}`,
+				isCleanedUp: () => !tracker.hasListener(el, type, callback),
+			});
+		};
+		Component.prototype.registerInterval = function (id) {
+			registered.add(id);
+			record({ method: 'registerInterval', owner: this.constructor.name, description: `interval ${id}`, isCleanedUp: () => !tracker.isIntervalActive(id) });
+			return registerInterval.call(this, id);
+		};
+		Plugin.prototype.addCommand = function (command) {
+			const id = `${this.manifest.id}:${command.id}`;
+			if (id in this.app.commands.commands) recordDuplicate(`command ${id}`);
+			const added = addCommand.call(this, command);
+			record({ method: 'addCommand', owner: this.constructor.name, description: id, isCleanedUp: () => !(id in this.app.commands.commands) });
+			return added;
+		};
+		Plugin.prototype.addRibbonIcon = function (icon, title, callback) {
+			const el = addRibbonIcon.call(this, icon, title, callback);
+			registered.add(el);
+			record({ method: 'addRibbonIcon', owner: this.constructor.name, description: `${title} ${describeTarget(el)}`, isCleanedUp: () => !el.isConnected });
+			return el;
+		};
+		Plugin.prototype.addStatusBarItem = function () {
+			const el = addStatusBarItem.call(this);
+			registered.add(el);
+			record({ method: 'addStatusBarItem', owner: this.constructor.name, description: describeTarget(el), isCleanedUp: () => !el.isConnected });
+			return el;
+		};
+		Plugin.prototype.registerView = function (type, creator) {
+			const { workspace } = this.app;
+			registerView.call(this, type, creator);
+			record({
+				method: 'registerView',
+				owner: this.constructor.name,
+				description: type,
+				isCleanedUp: () => !workspace.getViewTypes().includes(type) && workspace.getLeavesOfType(type).length === 0,
+			});
+		};
+		this.restores.push(() => Object.assign(Component.prototype, { registerDomEvent, registerInterval }));
+		this.restores.push(() => Object.assign(Plugin.prototype, { addCommand, addRibbonIcon, addStatusBarItem, registerView }));
+	}
+}
@@ -0,0 +1,111 @@
+/**
+ * Tracks the DOM listeners and intervals added while installed, to find the ones a plugin left behind
+ */
+
+export interface TrackedListener {
+	target: EventTarget;
+	type: string;
+	listener: EventListenerOrEventListenerObject;
+	capture: boolean;
+}
+
+function isCapture(options?: boolean | EventListenerOptions): boolean {
+	return typeof options === 'boolean' ? options : options?.capture === true;
+}
+
+export function describeTarget(target: EventTarget): string {
+	if (target === window) return 'window';
+	if (target === document) return 'document';
+	if (target instanceof Element) return [target.tagName.toLowerCase(), ...Array.from(target.classList)].join('.');
+	return target.constructor.name;
+}
+
+/**
+ * Whether events can still reach a target: the window, the document and the elements attached to it.
+ * Listeners of detached elements go away with them.
+ */
+function isReachable(target: EventTarget): boolean {
+	if (target === window || target === document) return true;
+	return target instanceof Node && target.isConnected;
+}
+
+export class ListenerTracker {
+	private listeners: TrackedListener[] = [];
+	private intervals = new Set<number>();
+	private restores: (() => void)[] = [];
+
+	install(): void {
+		if (this.restores.length > 0) return;
+		const { addEventListener, removeEventListener } = EventTarget.prototype;
+		const { setInterval, clearInterval } = window;
+		const listeners = this.listeners;
+		const intervals = this.intervals;
+
+		EventTarget.prototype.addEventListener = function (type, listener, options) {
+			const capture = isCapture(options);
+			const added = listener !== null && !listeners.some(tracked => tracked.target === this && tracked.type === type
+				&& tracked.listener === listener && tracked.capture === capture);
+			if (added && listener) listeners.push({ target: this, type, listener, capture });
+			addEventListener.call(this, type, listener, options);
+		};
+		EventTarget.prototype.removeEventListener = function (type, listener, options) {
+			const capture = isCapture(options);
+			const index = listeners.findIndex(tracked => tracked.target === this && tracked.type === type
+				&& tracked.listener === listener && tracked.capture === capture);
+			if (index >= 0) listeners.splice(index, 1);
+			removeEventListener.call(this, type, listener, options);
+		};
+		// Node typings also declare setInterval, returning a Timeout
+		Reflect.set(window, 'setInterval', (handler: TimerHandler, timeout?: number, ...args: unknown[]) => {
+			const id = setInterval(handler, timeout, ...args);
+			intervals.add(id);
+			return id;
+		});
+		Reflect.set(window, 'clearInterval', (id?: number) => {
+			if (id !== undefined) intervals.delete(id);
+			clearInterval(id);
+		});
+		this.restores.push(() => {
+			EventTarget.prototype.addEventListener = addEventListener;
+			EventTarget.prototype.removeEventListener = removeEventListener;
+			Reflect.set(window, 'setInterval', setInterval);
+			Reflect.set(window, 'clearInterval', clearInterval);
+		});
+	}
+
+	/**
+	 * Stop tracking, and clear the intervals still running so they don't outlive the test
+	 */
+	uninstall(): void {
+		this.restores.forEach(restore => restore());
+		this.restores = [];
+		this.intervals.forEach(id => window.clearInterval(id));
+		this.intervals.clear();
+		this.listeners = [];
+	}
+
+	hasListener(target: EventTarget, type: string, listener: EventListenerOrEventListenerObject): boolean {
+		return this.listeners.some(tracked => tracked.target === target && tracked.type === type && tracked.listener === listener);
+	}
+
+	isIntervalActive(id: number): boolean {
+		return this.intervals.has(id);
+	}
+
+	/** Listeners still reachable by events, e.g. on the document */
+	getReachableListeners(): TrackedListener[] {
+		return this.listeners.filter(({ target }) => isReachable(target));
+	}
+
+	getActiveIntervals(): number[] {
+		return [...this.intervals];
+	}
+}
+
+/**
+ * Elements attached to `root` that are not in `before`, without the descendants of such elements
+ */
+export function getAddedElements(root: Element, before: Set<Element>): Element[] {
+	return Array.from(root.querySelectorAll('*'))
+		.filter(el => !before.has(el) && (el.parentElement === root || (el.parentElement !== null && before.has(el.parentElement))));
+}
@@ -0,0 +1,53 @@
+import { planHierarchyRename } from '../src/hierarchy/rename';
+
+describe('planHierarchyRename', () => {
+	const paths = [
+		'project.md',
+		'project.api.md',
+		'notes/project.api.auth.md',
+		'project.api.auth.tokens.md',
+		'project.apis.md',
+		'project.api.png',
+	];
+
+	it('should rename the note and its descendants in their folder', () => {
+		const plan = planHierarchyRename(paths, 'project.api', 'project.backend');
+		expect(plan.conflicts).toEqual([]);
+		expect(plan.operations).toEqual([
+			{ from: 'project.api.md', to: 'project.backend.md' },
+			{ from: 'notes/project.api.auth.md', to: 'notes/project.backend.auth.md' },
+			{ from: 'project.api.auth.tokens.md', to: 'project.backend.auth.tokens.md' },
+		]);
+	});
+
+	it('should rename the descendants of a name without note', () => {
+		const plan = planHierarchyRename(['a.b.c.md', 'a.b.d.md'], 'a.b', 'x');
+		expect(plan.operations.map(operation => operation.to)).toEqual(['x.c.md', 'x.d.md']);
+	});
+
+	it('should return an empty plan when the name does not change or has no note', () => {
+		expect(planHierarchyRename(paths, 'project.api', 'project.api')).toEqual({ operations: [], conflicts: [] });
+		expect(planHierarchyRename(paths, 'other', 'project.other')).toEqual({ operations: [], conflicts: [] });
+	});
+
+	it('should report targets taken by notes that are not renamed, ignoring case', () => {
+		const plan = planHierarchyRename([...paths, 'Project.Backend.md'], 'project.api', 'project.backend');
+		expect(plan.operations).toEqual([]);
+		expect(plan.conflicts).toEqual([{ from: 'project.api.md', to: 'project.backend.md' }]);
+	});
+
+	it('should free targets before renaming into them', () => {
+		expect(planHierarchyRename(['a.md', 'a.a.md'], 'a', 'a.a').operations).toEqual([
+			{ from: 'a.a.md', to: 'a.a.a.md' },
+			{ from: 'a.md', to: 'a.a.md' },
+		]);
+		expect(planHierarchyRename(['b.a.md', 'b.a.a.md'], 'b.a', 'b').operations).toEqual([
+			{ from: 'b.a.md', to: 'b.md' },
+			{ from: 'b.a.a.md', to: 'b.a.md' },
+		]);
+	});
+
+	it('should allow changing the case of a name', () => {
+		expect(planHierarchyRename(['api.md'], 'api', 'API').operations).toEqual([{ from: 'api.md', to: 'API.md' }]);
+	});
+});
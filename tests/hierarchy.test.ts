@@ -0,0 +1,89 @@
+import {
+	addNote,
+	buildHierarchy,
+	flattenHierarchy,
+	getDescendants,
+	getHierarchyName,
+	getNodeDepth,
+	isVirtualNode,
+	removeNote,
+	renameNote,
+} from '../src/hierarchy/tree';
+
+describe('hierarchy', () => {
+	describe('getHierarchyName', () => {
+		it('should use the file name of markdown notes only', () => {
+			expect(getHierarchyName('notes/project.api.auth.md')).toBe('project.api.auth');
+			expect(getHierarchyName('project.api.png')).toBeNull();
+		});
+
+		it('should ignore empty segments', () => {
+			expect(getHierarchyName('a..b.md')).toBe('a.b');
+			expect(getHierarchyName('..md')).toBeNull();
+		});
+	});
+
+	describe('building', () => {
+		const tree = buildHierarchy(['project.api.auth.md', 'project.md', 'inbox.md', 'img.png']);
+
+		it('should create virtual nodes for missing intermediates', () => {
+			const api = tree.nodes.get('project.api');
+			expect(api && isVirtualNode(api)).toBe(true);
+			expect(tree.nodes.get('project.api.auth')?.paths).toEqual(['project.api.auth.md']);
+			expect(tree.nodes.get('project')?.paths).toEqual(['project.md']);
+			expect(tree.nodes.has('img')).toBe(false);
+		});
+
+		it('should flatten expanded nodes in order', () => {
+			expect(flattenHierarchy(tree, new Set()).map(node => node.name)).toEqual(['inbox', 'project']);
+			expect(flattenHierarchy(tree, new Set(['project', 'project.api'])).map(node => node.name))
+				.toEqual(['inbox', 'project', 'project.api', 'project.api.auth']);
+		});
+
+		it('should sort numbers naturally and know node depths', () => {
+			const numbered = buildHierarchy(['log.10.md', 'log.9.md']);
+			expect(flattenHierarchy(numbered, new Set(['log'])).map(node => node.segment)).toEqual(['log', '9', '10']);
+			expect(getNodeDepth(numbered.nodes.get('log.10') ?? numbered.root)).toBe(1);
+		});
+
+		it('should list descendants depth first', () => {
+			const project = tree.nodes.get('project');
+			expect(project && getDescendants(project).map(node => node.name)).toEqual(['project.api', 'project.api.auth']);
+		});
+	});
+
+	describe('incremental updates', () => {
+		it('should report the nodes changed by an added note', () => {
+			const tree = buildHierarchy(['project.md']);
+			const changed = addNote(tree, 'project.api.auth.md').map(node => node.name);
+			expect(changed.sort()).toEqual(['project', 'project.api', 'project.api.auth']);
+			expect(addNote(tree, 'project.api.auth.md')).toEqual([]);
+		});
+
+		it('should prune virtual nodes left without children', () => {
+			const tree = buildHierarchy(['project.md', 'project.api.auth.md']);
+			removeNote(tree, 'project.api.auth.md');
+			expect(tree.nodes.has('project.api')).toBe(false);
+			expect(tree.nodes.get('project')?.children.size).toBe(0);
+		});
+
+		it('should keep a node with children as virtual when its note is removed', () => {
+			const tree = buildHierarchy(['project.md', 'project.api.md']);
+			removeNote(tree, 'project.md');
+			const project = tree.nodes.get('project');
+			expect(project && isVirtualNode(project)).toBe(true);
+		});
+
+		it('should keep notes with the same name from different folders', () => {
+			const tree = buildHierarchy(['a/daily.md', 'b/daily.md']);
+			removeNote(tree, 'a/daily.md');
+			expect(tree.nodes.get('daily')?.paths).toEqual(['b/daily.md']);
+		});
+
+		it('should move a renamed note', () => {
+			const tree = buildHierarchy(['project.api.md']);
+			renameNote(tree, 'project.api.md', 'project.backend.md');
+			expect([...tree.nodes.keys()].sort()).toEqual(['project', 'project.backend']);
+		});
+	});
+});
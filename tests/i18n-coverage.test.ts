@@ -0,0 +1,105 @@
+import fs from 'fs';
+import path from 'path';
+import {
+    checkTranslations,
+    evaluateReport,
+    extractPlaceholders,
+    findTranslationCalls,
+    flattenMessages,
+    SourceFile
+} from '../scripts/lib/translationCoverage';
+import en from '../src/i18n/en';
+import fr from '../src/i18n/fr';
+
+function listSources(dir: string): SourceFile[] {
+    return fs.readdirSync(dir).flatMap(name => {
+        const filePath = path.join(dir, name);
+        if (fs.statSync(filePath).isDirectory()) return listSources(filePath);
+        return /\.ts$/.test(name) ? [{ path: filePath, content: fs.readFileSync(filePath, 'utf8') }] : [];
+    });
+}
+
+describe('translation coverage', () => {
+    const reference = {
+        greeting: 'Hello {{name}}',
+        files: '{count, plural, one {# file} other {# files}}',
+        nested: { title: 'Title', unused: 'Never used' },
+    };
+    const sources: SourceFile[] = [
+        { path: 'src/a.ts', content: "t('greeting', { name });\nt('files', { count });\nt('unknown.key');" },
+        { path: 'src/b.ts', content: "const def = { nameKey: 'nested.title' };" },
+    ];
+
+    describe('flattenMessages', () => {
+        it('should flatten nested trees into dot-separated keys', () => {
+            expect([...flattenMessages(reference).keys()]).toEqual(['greeting', 'files', 'nested.title', 'nested.unused']);
+        });
+    });
+
+    describe('extractPlaceholders', () => {
+        it('should find interpolations and ICU variables', () => {
+            expect(extractPlaceholders('{{b}} {{a, number}} {count, plural, other {#}}')).toEqual(['a', 'b', 'count']);
+        });
+
+        it('should return nothing for plain messages', () => {
+            expect(extractPlaceholders('Hello')).toEqual([]);
+        });
+    });
+
+    describe('findTranslationCalls', () => {
+        it('should locate t() calls with literal keys', () => {
+            const calls = findTranslationCalls(sources);
+            expect(calls.get('unknown.key')).toEqual([{ path: 'src/a.ts', line: 3 }]);
+            expect(calls.has('nested.title')).toBe(false);
+        });
+    });
+
+    describe('checkTranslations', () => {
+        const report = checkTranslations({
+            en: reference,
+            fr: {
+                greeting: 'Bonjour {{nom}}',
+                files: '{count, plural, one {# fichier} other {# fichiers}}',
+                nested: { title: 'Titre' },
+                obsolete: 'Ancien',
+            },
+        }, sources);
+
+        it('should report missing and extra keys', () => {
+            expect(report.locales[0]).toMatchObject({ locale: 'fr', missing: ['nested.unused'], extra: ['obsolete'], coverage: 75 });
+        });
+
+        it('should report placeholder mismatches', () => {
+            expect(report.locales[0].placeholderMismatches).toEqual([{ key: 'greeting', missing: ['name'], extra: ['nom'] }]);
+        });
+
+        it('should report unused keys, counting string literals as usages', () => {
+            expect(report.unused).toEqual(['nested.unused']);
+        });
+
+        it('should report t() calls with undefined keys', () => {
+            expect(report.undefinedKeys).toEqual([{ key: 'unknown.key', locations: [{ path: 'src/a.ts', line: 3 }] }]);
+        });
+
+        it('should fail below the minimum coverage', () => {
+            expect(evaluateReport(report, { minCoverage: 80 }).errors[0]).toContain('coverage 75%');
+            expect(evaluateReport(report, { minCoverage: 70 }).errors.some(error => error.includes('coverage'))).toBe(false);
+        });
+
+        it('should only fail on unused keys when asked to', () => {
+            expect(evaluateReport(report).warnings).toContain('unused key "nested.unused"');
+            expect(evaluateReport(report, { failOnUnused: true }).errors).toContain('unused key "nested.unused"');
+            expect(evaluateReport(report, { failOnUnused: true, ignoredUnusedKeys: ['nested.unused'] }).errors)
+                .not.toContain('unused key "nested.unused"');
+        });
+    });
+
+    describe('plugin translations', () => {
+        const report = checkTranslations({ en, fr }, listSources(path.resolve(__dirname, '..', 'src')));
+
+        it('should have every locale fully translated without placeholder mismatches', () => {
+            const { errors } = evaluateReport(report, { ignoredUnusedKeys: ['testKey'] });
+            expect(errors).toEqual([]);
+        });
+    });
+});
@@ -1,5 +1,12 @@
+import fs from 'fs';
 import { moment } from 'obsidian';
-import { getCurrentLocale, t, addTranslation, translations } from '../src/i18n';
+import {
+    getCurrentLocale, t, addTranslation, translations, getMessage, n, d,
+    getLocaleChain, setLocaleOverride, onLocaleChange, getAvailableLocales, getLanguageName,
+    setLocaleLoader, loadRequestedLocale
+} from '../src/i18n';
+import { BUNDLED_LOCALES, getFileLocale, parseLocaleFile } from '../src/i18n/loader';
+import { formatMessage } from '../src/i18n/format';
 import en from '../src/i18n/en';
 import fr from '../src/i18n/fr';
 
@@ -8,6 +15,9 @@ describe('i18n', () => {
         // Clear all mocks
         jest.clearAllMocks();
         
+        // Missing keys and locales are logged as warnings
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
         // Mock moment.locale to return English by default
         jest.spyOn(moment, 'locale').mockImplementation(() => 'en');
         
@@ -17,6 +27,8 @@ describe('i18n', () => {
                 delete translations[key];
             }
         });
+        translations.en = en;
+        translations.fr = fr;
     });
 
     describe('getCurrentLocale', () => {
@@ -50,6 +62,7 @@ describe('i18n', () => {
         it('should fall back to English for missing translations', () => {
             jest.spyOn(moment, 'locale').mockImplementation(() => 'fr');
             const key = 'nonexistentKey';
+            // @ts-expect-error - unknown keys are rejected at compile time
             expect(t(key)).toBe(key);
         });
 
@@ -88,7 +101,9 @@ describe('i18n', () => {
             addTranslation('es', newTranslations);
 
             jest.spyOn(moment, 'locale').mockImplementation(() => 'es');
+            // @ts-expect-error - keys that only exist in an added locale are not known at compile time
             expect(t('hello')).toBe('Hola');
+            // @ts-expect-error - keys that only exist in an added locale are not known at compile time
             expect(t('goodbye')).toBe('Adiós');
         });
 
@@ -99,7 +114,195 @@ describe('i18n', () => {
             addTranslation('fr', newTranslations);
 
             jest.spyOn(moment, 'locale').mockImplementation(() => 'fr');
+            // @ts-expect-error - keys that only exist in an added locale are not known at compile time
             expect(t('untitledPath')).toBe('sans-titre');
         });
     });
-}); 
\ No newline at end of file
+
+    describe('nested keys', () => {
+        it('should resolve dot-separated keys', () => {
+            expect(t('settings.errors.required')).toBe(en.settings.errors.required);
+        });
+
+        it('should fall back to English for nested keys missing in a locale', () => {
+            addTranslation('test', { settings: { errors: {} } });
+            jest.spyOn(moment, 'locale').mockImplementation(() => 'test');
+            expect(t('settings.errors.required')).toBe(en.settings.errors.required);
+        });
+
+        it('should not return intermediate nodes', () => {
+            expect(getMessage(en, 'settings.errors')).toBeUndefined();
+            expect(getMessage(en, 'settings.errors.required.deeper')).toBeUndefined();
+        });
+    });
+
+    describe('message formatting', () => {
+        const plural = '{count, plural, =0 {No file} one {# file} other {# files}}';
+
+        it('should pick plural forms from the count', () => {
+            expect(formatMessage(plural, { count: 0 }, 'en')).toBe('No file');
+            expect(formatMessage(plural, { count: 1 }, 'en')).toBe('1 file');
+            expect(formatMessage(plural, { count: 1200 }, 'en')).toBe('1,200 files');
+        });
+
+        it('should use the plural rules of the locale', () => {
+            const message = '{count, plural, one {# fichier} other {# fichiers}}';
+            // French uses the singular for 0 and 1
+            expect(formatMessage(message, { count: 0 }, 'fr')).toBe('0 fichier');
+            expect(formatMessage(message, { count: 2 }, 'fr')).toBe('2 fichiers');
+        });
+
+        it('should pick select forms and fall back to other', () => {
+            const message = '{kind, select, folder {Folder {{name}}} other {File {{name}}}}';
+            expect(formatMessage(message, { kind: 'folder', name: 'a' }, 'en')).toBe('Folder a');
+            expect(formatMessage(message, { kind: 'link', name: 'b' }, 'en')).toBe('File b');
+        });
+
+        it('should support nested forms', () => {
+            const message = '{kind, select, folder {{count, plural, one {# folder} other {# folders}}} other {?}}';
+            expect(formatMessage(message, { kind: 'folder', count: 3 }, 'en')).toBe('3 folders');
+        });
+
+        it('should keep forms whose variable is missing', () => {
+            expect(formatMessage(plural, {}, 'en')).toBe(plural);
+        });
+
+        it('should format numbers and dates for the locale', () => {
+            const date = new Date(2024, 0, 15);
+            expect(formatMessage('{{value}}', { value: 1234.5 }, 'fr')).toBe(new Intl.NumberFormat('fr').format(1234.5));
+            expect(formatMessage('{{value, percent}}', { value: 0.25 }, 'en')).toBe('25%');
+            expect(formatMessage('{{when}}', { when: date }, 'en')).toBe('Jan 15, 2024');
+            expect(formatMessage('{{when, date}}', { when: date.getTime() }, 'en')).toBe('Jan 15, 2024');
+        });
+
+        it('should format with the current locale', () => {
+            jest.spyOn(moment, 'locale').mockImplementation(() => 'fr');
+            expect(n(1234.5)).toBe(new Intl.NumberFormat('fr').format(1234.5));
+            expect(d(new Date(2024, 0, 15), { month: 'long' })).toBe('janvier');
+        });
+
+        it('should translate plural messages', () => {
+            expect(t('settings.applied', { count: 1 })).toBe('1 setting updated');
+            expect(t('settings.applied', { count: 4 })).toBe('4 settings updated');
+        });
+    });
+
+    describe('locale override', () => {
+        afterEach(() => setLocaleOverride(null));
+
+        it('should fall back from regional locales to the language, then English', () => {
+            expect(getLocaleChain('fr-CA')).toEqual(['fr', 'en']);
+            expect(getLocaleChain('FR_ca')).toEqual(['fr', 'en']);
+            expect(getLocaleChain('de')).toEqual(['en']);
+        });
+
+        it('should prefer the regional translation when there is one', () => {
+            addTranslation('fr-CA', { common: { cancel: 'Annuler (CA)' } });
+            jest.spyOn(moment, 'locale').mockImplementation(() => 'fr-ca');
+            expect(getCurrentLocale()).toBe('fr-CA');
+            expect(t('common.cancel')).toBe('Annuler (CA)');
+            // Keys missing from the regional translation come from the language
+            expect(t('common.apply')).toBe(fr.common?.apply);
+        });
+
+        it('should use the override instead of the Obsidian language', () => {
+            setLocaleOverride('fr');
+            expect(getCurrentLocale()).toBe('fr');
+            expect(t('common.cancel')).toBe('Annuler');
+            setLocaleOverride('');
+            expect(getCurrentLocale()).toBe('en');
+        });
+
+        it('should notify listeners only when the locale actually changes', () => {
+            const listener = jest.fn();
+            const off = onLocaleChange(listener);
+            setLocaleOverride('fr');
+            setLocaleOverride('fr-BE');
+            setLocaleOverride('en');
+            expect(listener.mock.calls).toEqual([['fr'], ['en']]);
+            off();
+            setLocaleOverride('fr');
+            expect(listener).toHaveBeenCalledTimes(2);
+        });
+
+        it('should list the available languages with their names', () => {
+            expect(getAvailableLocales()).toEqual(['en', 'fr']);
+            expect(getLanguageName('fr')).toBe('Français');
+            expect(getLanguageName('xx')).toBe('xx');
+        });
+    });
+
+    describe('lazy-loaded locales', () => {
+        const loader = jest.fn((locale: string) => Promise.resolve(locale === 'de' ? { common: { cancel: 'Abbrechen' } } : null));
+
+        beforeEach(() => {
+            loader.mockClear();
+            setLocaleLoader(loader, ['de', 'es']);
+        });
+
+        afterEach(() => {
+            setLocaleLoader(null);
+            setLocaleOverride(null);
+        });
+
+        it('should list loadable locales before they are loaded', () => {
+            expect(getAvailableLocales()).toEqual(['en', 'de', 'es', 'fr']);
+            expect(getLanguageName('de')).toBe('de');
+        });
+
+        it('should keep English available while the selected locale loads', async () => {
+            const listener = jest.fn();
+            const off = onLocaleChange(listener);
+            setLocaleOverride('de-AT');
+            expect(t('common.cancel')).toBe('Cancel');
+            await loadRequestedLocale();
+            expect(t('common.cancel')).toBe('Abbrechen');
+            expect(listener).toHaveBeenCalledWith('de');
+            off();
+        });
+
+        it('should load each locale only once', async () => {
+            setLocaleOverride('de');
+            await loadRequestedLocale();
+            setLocaleOverride('en');
+            setLocaleOverride('de');
+            await loadRequestedLocale();
+            expect(loader).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not load locales the loader does not provide', async () => {
+            setLocaleOverride('it');
+            await loadRequestedLocale();
+            expect(loader).not.toHaveBeenCalled();
+            expect(getCurrentLocale()).toBe('en');
+        });
+
+        it('should fall back to English when a locale file is invalid', async () => {
+            setLocaleOverride('es');
+            await loadRequestedLocale();
+            expect(loader).toHaveBeenCalledWith('es');
+            expect(getCurrentLocale()).toBe('en');
+        });
+    });
+
+    describe('locale files', () => {
+        it('should bundle every locale of src/i18n', async () => {
+            const locales = fs.readdirSync('src/i18n').map(name => name.match(/^([a-z]{2,3}(?:-[A-Za-z]{2,4})?)\.ts$/)?.[1]);
+            expect(Object.keys(BUNDLED_LOCALES).sort()).toEqual(locales.filter(locale => locale && locale !== 'en').sort());
+            expect(await BUNDLED_LOCALES.fr()).toBe(fr);
+        });
+
+        it('should read the locale from the file name', () => {
+            expect(getFileLocale('fr.json')).toBe('fr');
+            expect(getFileLocale('pt-BR.json')).toBe('pt-BR');
+            expect(getFileLocale('notes.md')).toBeNull();
+        });
+
+        it('should only accept translation trees', () => {
+            expect(parseLocaleFile('{"common":{"cancel":"Annuler"}}')).toEqual({ common: { cancel: 'Annuler' } });
+            expect(parseLocaleFile('{"common":{"cancel":1}}')).toBeNull();
+            expect(parseLocaleFile('["a"]')).toBeNull();
+            expect(parseLocaleFile('not json')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,153 @@
+import { getNextCronRun, parseCron } from '../src/jobs/cron';
+import { getNextRun, JobScheduler } from '../src/jobs/scheduler';
+import { JobDefinition, JobHost } from '../src/jobs/types';
+
+const MINUTE = 60 * 1000;
+
+function createHost(start: number) {
+	const lastRuns: Record<string, number> = {};
+	const host = {
+		time: start,
+		hidden: false,
+		lastRuns,
+		now: () => host.time,
+		isHidden: () => host.hidden,
+		getLastRun: (id: string) => lastRuns[id] ?? null,
+		setLastRun: (id: string, time: number) => { lastRuns[id] = time; },
+	};
+	return host satisfies JobHost;
+}
+
+function intervalJob(run: () => void | Promise<void>, minutes = 10): JobDefinition {
+	return { id: 'job', nameKey: 'jobs.forgetMissingNotes', schedule: { type: 'interval', minutes }, run };
+}
+
+describe('background jobs', () => {
+	describe('cron', () => {
+		it('should parse lists, ranges and steps', () => {
+			const schedule = parseCron('0,30 9-17/4 * * 1-5');
+			expect([...schedule.minutes]).toEqual([0, 30]);
+			expect([...schedule.hours]).toEqual([9, 13, 17]);
+			expect([...schedule.weekdays]).toEqual([1, 2, 3, 4, 5]);
+		});
+
+		it('should treat 7 as Sunday', () => {
+			expect([...parseCron('0 0 * * 7').weekdays]).toEqual([0]);
+		});
+
+		it.each(['* * * *', '60 * * * *', '* * 0 * *', '5-1 * * * *', '*/0 * * * *', 'a * * * *'])('should reject "%s"', expression => {
+			expect(() => parseCron(expression)).toThrow();
+		});
+
+		it('should find the next matching minute', () => {
+			const after = new Date(2024, 0, 1, 10, 7, 30).getTime();
+			expect(getNextCronRun(parseCron('*/15 * * * *'), after)).toBe(new Date(2024, 0, 1, 10, 15).getTime());
+		});
+
+		it('should skip to the next matching day', () => {
+			// January 1st 2024 is a Monday
+			const after = new Date(2024, 0, 1, 10, 0).getTime();
+			expect(getNextCronRun(parseCron('30 8 * * 3'), after)).toBe(new Date(2024, 0, 3, 8, 30).getTime());
+		});
+
+		it('should match either the day of month or the day of week when both are set', () => {
+			const after = new Date(2024, 0, 1, 10, 0).getTime();
+			expect(getNextCronRun(parseCron('0 0 15 * 3'), after)).toBe(new Date(2024, 0, 3, 0, 0).getTime());
+		});
+
+		it('should give up on dates that never happen', () => {
+			expect(getNextCronRun(parseCron('0 0 31 2 *'), new Date(2024, 0, 1).getTime())).toBeNull();
+		});
+	});
+
+	describe('getNextRun', () => {
+		it('should run interval jobs right away the first time, then after the interval', () => {
+			const job = intervalJob(() => undefined);
+			expect(getNextRun(job, null, 1000)).toBe(1000);
+			expect(getNextRun(job, 1000, 5000)).toBe(1000 + 10 * MINUTE);
+		});
+	});
+
+	describe('JobScheduler', () => {
+		it('should run due jobs and persist their last run', async () => {
+			const host = createHost(0);
+			const run = jest.fn();
+			const scheduler = new JobScheduler(host);
+			scheduler.register(intervalJob(run));
+
+			await scheduler.tick();
+			host.time = 5 * MINUTE;
+			await scheduler.tick();
+			expect(run).toHaveBeenCalledTimes(1);
+			expect(host.lastRuns.job).toBe(0);
+
+			host.time = 10 * MINUTE;
+			await scheduler.tick();
+			expect(run).toHaveBeenCalledTimes(2);
+		});
+
+		it('should catch up a missed run once after a restart', async () => {
+			const host = createHost(100 * MINUTE);
+			host.lastRuns.job = 0;
+			const run = jest.fn();
+			const scheduler = new JobScheduler(host);
+			scheduler.register(intervalJob(run));
+			await scheduler.tick();
+			await scheduler.tick();
+			expect(run).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not run jobs while the app is hidden', async () => {
+			const host = createHost(0);
+			host.hidden = true;
+			const run = jest.fn();
+			const scheduler = new JobScheduler(host);
+			scheduler.register(intervalJob(run));
+			await scheduler.tick();
+			expect(run).not.toHaveBeenCalled();
+
+			host.hidden = false;
+			await scheduler.tick();
+			expect(run).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not start a job while it is running', async () => {
+			const host = createHost(0);
+			let finish: () => void = () => undefined;
+			const run = jest.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+			const scheduler = new JobScheduler(host);
+			scheduler.register(intervalJob(run, 1));
+
+			const first = scheduler.tick();
+			host.time = 5 * MINUTE;
+			const now = scheduler.runNow('job');
+			await scheduler.tick();
+			expect(scheduler.getStatuses()[0].running).toBe(true);
+			finish();
+			await Promise.all([first, now]);
+			expect(run).toHaveBeenCalledTimes(1);
+			expect(scheduler.getStatuses()[0].running).toBe(false);
+		});
+
+		it('should record the error of a failed run', async () => {
+			const host = createHost(0);
+			const scheduler = new JobScheduler(host);
+			const listener = jest.fn();
+			scheduler.onChange(listener);
+			scheduler.register(intervalJob(() => { throw new Error('boom'); }));
+			jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+			await scheduler.runNow('job');
+			expect(scheduler.getStatuses()[0]).toMatchObject({ lastError: 'boom', lastRun: 0, nextRun: 10 * MINUTE });
+			expect(listener).toHaveBeenCalled();
+		});
+
+		it('should reject invalid schedules and duplicate ids', () => {
+			const scheduler = new JobScheduler(createHost(0));
+			expect(() => scheduler.register({ ...intervalJob(() => undefined), schedule: { type: 'cron', expression: 'daily' } })).toThrow();
+			expect(() => scheduler.register(intervalJob(() => undefined, 0))).toThrow();
+			scheduler.register(intervalJob(() => undefined));
+			expect(() => scheduler.register(intervalJob(() => undefined))).toThrow();
+		});
+	});
+});
@@ -0,0 +1,107 @@
+/**
+ * @jest-environment jsdom
+ */
+import { Plugin } from 'obsidian';
+import manifest from '../manifest.json';
+import ObsidianSamplePlugin from '../src/main';
+import { activateView } from '../src/views/commands';
+import { VIEW_TYPE_HIERARCHY, VIEW_TYPE_VAULT_LIST } from '../src/views/types';
+import { LifecycleHarness } from './harness/lifecycle';
+
+const PLUGIN_MANIFEST = { ...manifest, dir: `.obsidian/plugins/${manifest.id}` };
+
+/** Plugin registering everything without the register* helpers */
+class LeakyPlugin extends Plugin {
+	async onload() {
+		document.addEventListener('keydown', () => undefined);
+		window.setInterval(() => undefined, 1000);
+		this.app.workspace.on('file-open', () => undefined);
+		document.body.createDiv('leaky-popover');
+		this.registerDomEvent(document, 'click', () => undefined);
+	}
+}
+
+describe('plugin lifecycle', () => {
+	let harness: LifecycleHarness<ObsidianSamplePlugin>;
+
+	beforeEach(async () => {
+		harness = new LifecycleHarness(ObsidianSamplePlugin, PLUGIN_MANIFEST);
+		await harness.app.vault.create('project.api.md', '# API\n\nhello world');
+		harness.app.workspace.setLayoutReady();
+	});
+
+	afterEach(() => {
+		harness.dispose();
+		document.body.empty();
+	});
+
+	it('should record what the plugin registers', async () => {
+		await harness.load();
+		const methods = new Set(harness.calls.map(call => call.method));
+
+		expect([...methods].sort()).toEqual(['addCommand', 'addRibbonIcon', 'addStatusBarItem', 'registerDomEvent', 'registerInterval', 'registerView']);
+	});
+
+	it('should leave nothing behind once unloaded', async () => {
+		await harness.load();
+
+		expect(await harness.unload()).toEqual([]);
+	});
+
+	it('should leave nothing behind after opening its views, a note and its settings', async () => {
+		const plugin = await harness.load();
+		const { app } = harness;
+		const file = app.vault.getFileByPath('project.api.md');
+		if (!file) throw new Error('missing note');
+		await app.workspace.getLeaf(false).openFile(file);
+		await activateView(plugin, VIEW_TYPE_VAULT_LIST);
+		await activateView(plugin, VIEW_TYPE_HIERARCHY);
+		app.setting.open();
+		app.setting.openTabById(manifest.id);
+		// Opens the popover of the note statistics
+		document.querySelector<HTMLElement>('.note-stats')?.click();
+
+		expect(await harness.unload()).toEqual([]);
+		expect(app.workspace.getLeavesOfType(VIEW_TYPE_HIERARCHY)).toEqual([]);
+	});
+
+	it('should register the same things on every load', async () => {
+		await harness.load();
+		expect(await harness.unload()).toEqual([]);
+		await harness.load();
+		expect(await harness.unload()).toEqual([]);
+		await harness.load();
+
+		const [first, ...others] = harness.summaries;
+		others.forEach(summary => expect(summary).toEqual(first));
+		expect(await harness.unload()).toEqual([]);
+	});
+
+	it('should not start the background jobs when unloaded before the layout is ready', async () => {
+		const harness = new LifecycleHarness(ObsidianSamplePlugin, PLUGIN_MANIFEST);
+		try {
+			await harness.load();
+			expect(await harness.unload()).toEqual([]);
+
+			harness.app.workspace.setLayoutReady();
+			expect(harness.getLeaks()).toEqual([]);
+		} finally {
+			harness.dispose();
+		}
+	});
+
+	it('should report what was registered without the register* helpers', async () => {
+		const leaky = new LifecycleHarness(LeakyPlugin, PLUGIN_MANIFEST);
+		try {
+			await leaky.load();
+			const leaks = await leaky.unload();
+
+			expect(leaks.map(leak => leak.kind).sort()).toEqual(['element', 'event', 'interval', 'listener']);
+			expect(leaks).toContainEqual({ kind: 'listener', description: 'keydown on document' });
+			expect(leaks).toContainEqual({ kind: 'event', description: '1 workspace file-open handler(s)' });
+			expect(leaks).toContainEqual({ kind: 'element', description: 'div.leaky-popover' });
+		} finally {
+			leaky.dispose();
+		}
+	});
+});
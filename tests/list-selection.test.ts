@@ -0,0 +1,69 @@
+import { EMPTY_SELECTION, getNavigationTarget, retainSelection, selectAll, selectIndex } from '../src/views/listSelection';
+
+describe('list selection', () => {
+	const keys = ['a', 'b', 'c', 'd', 'e'];
+
+	describe('selectIndex', () => {
+		it('should replace the selection on a plain click', () => {
+			const selection = selectIndex({ selected: ['a', 'b'], anchor: 'a', focus: 'b' }, keys, 3, 'replace');
+			expect(selection).toEqual({ selected: ['d'], anchor: 'd', focus: 'd' });
+		});
+
+		it('should toggle items', () => {
+			const added = selectIndex({ selected: ['a'], anchor: 'a', focus: 'a' }, keys, 2, 'toggle');
+			expect(added.selected).toEqual(['a', 'c']);
+			expect(selectIndex(added, keys, 0, 'toggle').selected).toEqual(['c']);
+		});
+
+		it('should select ranges from the anchor in both directions', () => {
+			const anchored = selectIndex(EMPTY_SELECTION, keys, 1, 'replace');
+			expect(selectIndex(anchored, keys, 3, 'range')).toEqual({ selected: ['b', 'c', 'd'], anchor: 'b', focus: 'd' });
+			expect(selectIndex(anchored, keys, 0, 'range').selected).toEqual(['a', 'b']);
+		});
+
+		it('should start a new selection for a range without anchor', () => {
+			expect(selectIndex(EMPTY_SELECTION, keys, 2, 'range')).toEqual({ selected: ['c'], anchor: 'c', focus: 'c' });
+		});
+
+		it('should ignore indexes outside the list', () => {
+			expect(selectIndex(EMPTY_SELECTION, keys, 9, 'replace')).toBe(EMPTY_SELECTION);
+		});
+	});
+
+	it('should select every item', () => {
+		expect(selectAll(keys, EMPTY_SELECTION).selected).toEqual(keys);
+	});
+
+	it('should drop keys that left the list', () => {
+		const selection = retainSelection({ selected: ['a', 'x', 'c'], anchor: 'x', focus: 'c' }, keys);
+		expect(selection).toEqual({ selected: ['a', 'c'], anchor: null, focus: 'c' });
+	});
+
+	describe('getNavigationTarget', () => {
+		it('should move by one, by page and to both ends within bounds', () => {
+			expect(getNavigationTarget('ArrowDown', 1, 5, 2)).toBe(2);
+			expect(getNavigationTarget('ArrowDown', 4, 5, 2)).toBe(4);
+			expect(getNavigationTarget('ArrowUp', 0, 5, 2)).toBe(0);
+			expect(getNavigationTarget('PageDown', 1, 5, 2)).toBe(3);
+			expect(getNavigationTarget('PageUp', 1, 5, 2)).toBe(0);
+			expect(getNavigationTarget('Home', 3, 5, 2)).toBe(0);
+			expect(getNavigationTarget('End', 0, 5, 2)).toBe(4);
+		});
+
+		it('should start from an end when nothing has the focus', () => {
+			expect(getNavigationTarget('ArrowDown', -1, 5, 2)).toBe(0);
+			expect(getNavigationTarget('ArrowUp', -1, 5, 2)).toBe(4);
+		});
+
+		it('should ignore other keys and empty lists', () => {
+			expect(getNavigationTarget('x', 1, 5, 2)).toBeNull();
+			expect(getNavigationTarget('ArrowDown', -1, 0, 2)).toBeNull();
+		});
+
+		it('should ignore other keys when nothing has the focus', () => {
+			expect(getNavigationTarget('Tab', -1, 5, 2)).toBeNull();
+			expect(getNavigationTarget('a', -1, 5, 2)).toBeNull();
+			expect(getNavigationTarget('Shift', -1, 5, 2)).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,132 @@
+import { createRingBuffer } from '../src/logger/buffer';
+import { filterLogs, formatLogArg, formatLogEntry, formatLogReport, getLogNamespaces, redact } from '../src/logger/format';
+import { clearLogs, createLogger, getLogEntries, MAX_LOG_ENTRIES, onLogEntry, setVerboseLogging } from '../src/logger';
+import { LogEntry } from '../src/logger/types';
+
+describe('logger', () => {
+	describe('createRingBuffer', () => {
+		it('should keep the newest items once full', () => {
+			const buffer = createRingBuffer<number>(3);
+			[1, 2, 3, 4, 5].forEach(item => buffer.push(item));
+			expect(buffer.toArray()).toEqual([3, 4, 5]);
+			expect(buffer.size).toBe(3);
+		});
+
+		it('should start over when cleared', () => {
+			const buffer = createRingBuffer<number>(2);
+			[1, 2, 3].forEach(item => buffer.push(item));
+			buffer.clear();
+			buffer.push(4);
+			expect(buffer.toArray()).toEqual([4]);
+		});
+	});
+
+	describe('createLogger', () => {
+		const log = createLogger('test');
+
+		beforeEach(() => {
+			clearLogs();
+			jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+			jest.spyOn(console, 'error').mockImplementation(() => undefined);
+		});
+
+		afterEach(() => {
+			setVerboseLogging(false);
+			jest.restoreAllMocks();
+		});
+
+		it('should record entries with their level and namespace', () => {
+			log.info('Loaded', { count: 2 });
+			log.error(new Error('Boom'));
+			const [info, error] = getLogEntries();
+			expect(info).toMatchObject({ level: 'info', namespace: 'test', message: 'Loaded {"count":2}' });
+			expect(error.level).toBe('error');
+			expect(error.message).toContain('Error: Boom');
+			expect(console.error).toHaveBeenCalled();
+		});
+
+		it('should only record debug entries in verbose mode', () => {
+			log.debug('hidden');
+			setVerboseLogging(true);
+			log.debug('shown');
+			expect(getLogEntries().map(entry => entry.message)).toEqual(['shown']);
+		});
+
+		it('should keep a bounded number of entries', () => {
+			for (let i = 0; i < MAX_LOG_ENTRIES + 10; i++) log.info(`entry ${i}`);
+			const entries = getLogEntries();
+			expect(entries).toHaveLength(MAX_LOG_ENTRIES);
+			expect(entries[0].message).toBe('entry 10');
+		});
+
+		it('should notify listeners of new entries', () => {
+			const listener = jest.fn();
+			const off = onLogEntry(listener);
+			log.warn('careful');
+			off();
+			log.warn('again');
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(listener.mock.calls[0][0]).toMatchObject({ level: 'warn', message: 'careful' });
+		});
+	});
+
+	describe('format', () => {
+		const entries: LogEntry[] = [
+			{ time: 0, level: 'debug', namespace: 'main', message: 'click' },
+			{ time: 1000, level: 'info', namespace: 'settings', message: 'Applied settings migration 1' },
+			{ time: 2000, level: 'error', namespace: 'i18n', message: 'Could not load the de translation' },
+		];
+
+		it('should format entries on one line', () => {
+			expect(formatLogEntry(entries[2])).toBe('1970-01-01T00:00:02.000Z ERROR [i18n] Could not load the de translation');
+		});
+
+		it('should format values that cannot be serialized', () => {
+			const circular: Record<string, unknown> = {};
+			circular.self = circular;
+			expect(formatLogArg(circular)).toBe('[object Object]');
+			expect(formatLogArg(undefined)).toBe('undefined');
+		});
+
+		it('should filter by level, namespace and text', () => {
+			expect(filterLogs(entries, { minLevel: 'info' })).toHaveLength(2);
+			expect(filterLogs(entries, { namespace: 'main' })).toEqual([entries[0]]);
+			expect(filterLogs(entries, { query: 'MIGRATION' })).toEqual([entries[1]]);
+			expect(getLogNamespaces(entries)).toEqual(['i18n', 'main', 'settings']);
+		});
+
+		it('should redact the vault path, the vault name and home folders', () => {
+			const context = { vaultName: 'Secret Vault', vaultPath: 'C:\\Users\\jane\\Secret Vault' };
+			expect(redact('Opened C:\\Users\\jane\\Secret Vault\\note.md', context)).toBe('Opened <vault-path>\\<file>');
+			expect(redact('Path: C:/Users/jane/Secret Vault/a.md', context)).toBe('Path: <vault-path>/<file>');
+			expect(redact('Vault "Secret Vault" loaded from /home/jane/other', context)).toBe('Vault "<vault>" loaded from /home/<user>/other');
+			expect(redact('Vaults are fine', { vaultName: 'Vault' })).toBe('Vaults are fine');
+		});
+
+		it('should only redact the vault name in quotes and paths', () => {
+			const context = { vaultName: 'Notes' };
+			expect(redact('Notes and notes: 3 Notes indexed', context)).toBe('Notes and notes: 3 Notes indexed');
+			expect(redact("Opened 'Notes' from /var/mobile/Notes/.obsidian", context)).toBe("Opened '<vault>' from /var/mobile/<vault>/.obsidian");
+		});
+
+		it('should redact the paths and names of notes and files', () => {
+			const context = { vaultName: 'Work', filePaths: ['Work/My plan.md', 'assets/logo.png', 'Todo'] };
+			expect(redact('Created Work/My plan.md, renamed My plan.md', context)).toBe('Created <file>, renamed <file>');
+			expect(redact('Embedded assets/logo.png (logo.png.bak kept)', context)).toBe('Embedded <file> (logo.png.bak kept)');
+			expect(redact('Renamed old/project.api.md to "new note.md". Todo: Work harder', context)).toBe('Renamed <file> to "<file>". Todo: Work harder');
+		});
+
+		it('should build a redacted report with a header', () => {
+			const report = formatLogReport([{ ...entries[1], message: 'Loaded /Users/jane/Notes' }], {
+				pluginId: 'sample', pluginVersion: '1.0.0', obsidianVersion: '1.8.7', platform: 'desktop',
+			}, { vaultName: 'Notes' }, new Date(0));
+			expect(report.split('\n')).toEqual([
+				'sample 1.0.0',
+				'Obsidian 1.8.7 (desktop)',
+				'Exported 1970-01-01T00:00:00.000Z, 1 entries',
+				'',
+				'1970-01-01T00:00:01.000Z INFO  [settings] Loaded /Users/<user>/<vault>',
+			]);
+		});
+	});
+});
@@ -1,3 +1,23 @@
-export const moment = {
-    locale: () => 'en'
-};
\ No newline at end of file
+/**
+ * In-memory implementation of the obsidian module, mapped to `obsidian` in the jest config.
+ *
+ * Create an `App`, load a plugin with it and drive it through the vault, the workspace and the
+ * commands. Rendering needs the jsdom test environment, where the DOM helpers of Obsidian
+ * (`createDiv`, `el.addClass`, …) are installed. Helpers that aren't in the API are marked as such,
+ * and imported from their file under `tests/mocks/obsidian/`.
+ */
+import { installDomHelpers } from './obsidian/dom';
+
+installDomHelpers();
+
+export * from './obsidian/app';
+export * from './obsidian/components';
+export * from './obsidian/editor';
+export * from './obsidian/events';
+export * from './obsidian/metadata';
+export * from './obsidian/modal';
+export * from './obsidian/setting';
+export * from './obsidian/ui';
+export * from './obsidian/utils';
+export * from './obsidian/vault';
+export * from './obsidian/workspace';
@@ -0,0 +1,237 @@
+import { Editor } from './editor';
+import { Component } from './events';
+import { MetadataCache, parseYaml, stringifyYaml } from './metadata';
+import { PluginSettingTab, SettingModal } from './setting';
+import { normalizePath } from './utils';
+import { TAbstractFile, TFile, TFolder, Vault } from './vault';
+import { MarkdownView, ViewCreator, Workspace } from './workspace';
+
+export interface PluginManifest {
+	id: string;
+	name: string;
+	version: string;
+	minAppVersion: string;
+	author: string;
+	description: string;
+	dir?: string;
+	isDesktopOnly?: boolean;
+}
+
+export interface Command {
+	id: string;
+	name: string;
+	icon?: string;
+	callback?: () => unknown;
+	checkCallback?: (checking: boolean) => boolean | void;
+	editorCallback?: (editor: Editor, view: MarkdownView) => unknown;
+	editorCheckCallback?: (checking: boolean, editor: Editor, view: MarkdownView) => boolean | void;
+}
+
+/**
+ * Commands of every plugin, by prefixed id, as run from the command palette
+ */
+export class Commands {
+	commands: Record<string, Command> = {};
+
+	constructor(private app: App) {}
+
+	addCommand(command: Command): void {
+		this.commands[command.id] = command;
+	}
+
+	removeCommand(id: string): void {
+		delete this.commands[id];
+	}
+
+	/** Commands shown in the command palette in the current state of the app */
+	listCommands(): Command[] {
+		return Object.values(this.commands).filter(command => this.run(command, true));
+	}
+
+	executeCommandById(id: string): boolean {
+		const command = this.commands[id];
+		return command ? this.run(command, false) : false;
+	}
+
+	private run(command: Command, checking: boolean): boolean {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (command.editorCheckCallback || command.editorCallback) {
+			if (!view) return false;
+			if (command.editorCheckCallback) return command.editorCheckCallback(checking, view.editor, view) === true;
+			if (!checking) void command.editorCallback?.(view.editor, view);
+			return true;
+		}
+		if (command.checkCallback) return command.checkCallback(checking) === true;
+		if (!checking) void command.callback?.();
+		return true;
+	}
+}
+
+export class FileManager {
+	constructor(private app: App) {}
+
+	getNewFileParent(_sourcePath: string, _newFilePath?: string): TFolder {
+		return this.app.vault.getRoot();
+	}
+
+	generateMarkdownLink(file: TFile, sourcePath: string, subpath = '', alias = ''): string {
+		const linktext = this.app.metadataCache.fileToLinktext(file, sourcePath);
+		return `[[${linktext}${subpath}${alias ? `|${alias}` : ''}]]`;
+	}
+
+	/**
+	 * Rename a file and update the wikilinks pointing to it
+	 */
+	async renameFile(file: TAbstractFile, newPath: string): Promise<void> {
+		const { vault, metadataCache } = this.app;
+		const sources = vault.getMarkdownFiles().filter(source => (metadataCache.getFileCache(source)?.links ?? [])
+			.some(link => metadataCache.getFirstLinkpathDest(link.link, source.path) === file));
+		const oldPaths = sources.map(source => [source, metadataCache.getFileCache(source)] as const);
+		await vault.rename(file, normalizePath(newPath));
+		if (!(file instanceof TFile)) return;
+		for (const [source, cache] of oldPaths) {
+			let content = await vault.read(source);
+			const links = [...cache?.links ?? []].reverse();
+			for (const link of links) {
+				const [, subpath = ''] = /^[^#]*(#.*)?$/.exec(link.link) ?? [];
+				const replacement = this.generateMarkdownLink(file, source.path, subpath, link.displayText !== link.link ? link.displayText : '');
+				content = content.slice(0, link.position.start.offset) + replacement + content.slice(link.position.end.offset);
+			}
+			await vault.modify(source, content);
+		}
+	}
+
+	async processFrontMatter(file: TFile, fn: (frontmatter: Record<string, unknown>) => void): Promise<void> {
+		await this.app.vault.process(file, content => {
+			const match = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/.exec(content);
+			const frontmatter = match ? parseYaml(match[1]) : {};
+			fn(frontmatter);
+			return `---\n${stringifyYaml(frontmatter)}---\n${match ? content.slice(match[0].length) : content}`;
+		});
+	}
+
+	/** The in-memory vault has no trash: files are deleted */
+	async trashFile(file: TAbstractFile): Promise<void> {
+		await this.app.vault.delete(file);
+	}
+}
+
+export class App {
+	vault: Vault;
+	metadataCache: MetadataCache;
+	workspace: Workspace;
+	fileManager: FileManager;
+	commands: Commands;
+	/** Not in the API */
+	setting = new SettingModal();
+	/** Not in the API: containers of the ribbon icons and status bar items, by class */
+	private dockEls = new Map<string, HTMLElement>();
+
+	constructor() {
+		this.vault = new Vault();
+		this.metadataCache = new MetadataCache(this.vault);
+		this.workspace = new Workspace(this);
+		this.fileManager = new FileManager(this);
+		this.commands = new Commands(this);
+	}
+
+	/** Not in the API: the ribbon, attached to the document on first use */
+	get ribbonEl(): HTMLElement {
+		return this.getDockEl('side-dock-ribbon');
+	}
+
+	/** Not in the API: the status bar, attached to the document on first use */
+	get statusBarEl(): HTMLElement {
+		return this.getDockEl('status-bar');
+	}
+
+	private getDockEl(cls: string): HTMLElement {
+		let el = this.dockEls.get(cls);
+		if (!el?.isConnected) {
+			el = document.body.createDiv(cls);
+			this.dockEls.set(cls, el);
+		}
+		return el;
+	}
+}
+
+export abstract class Plugin extends Component {
+	constructor(public app: App, public manifest: PluginManifest) {
+		super();
+	}
+
+	addCommand(command: Command): Command {
+		const registered = { ...command, id: `${this.manifest.id}:${command.id}`, name: `${this.manifest.name}: ${command.name}` };
+		this.app.commands.addCommand(registered);
+		this.register(() => this.app.commands.removeCommand(registered.id));
+		return registered;
+	}
+
+	removeCommand(id: string): void {
+		this.app.commands.removeCommand(`${this.manifest.id}:${id}`);
+	}
+
+	addRibbonIcon(icon: string, title: string, callback: (evt: MouseEvent) => unknown): HTMLElement {
+		const el = this.app.ribbonEl.createDiv({ cls: 'side-dock-ribbon-action clickable-icon', attr: { 'aria-label': title, 'data-icon': icon } });
+		el.addEventListener('click', evt => callback(evt));
+		this.register(() => el.detach());
+		return el;
+	}
+
+	addStatusBarItem(): HTMLElement {
+		const el = this.app.statusBarEl.createDiv('status-bar-item');
+		this.register(() => el.detach());
+		return el;
+	}
+
+	addSettingTab(tab: PluginSettingTab): void {
+		const { setting } = this.app;
+		setting.pluginTabs.push(tab);
+		this.register(() => {
+			if (setting.activeTab === tab) setting.close();
+			setting.pluginTabs = setting.pluginTabs.filter(current => current !== tab);
+		});
+	}
+
+	registerView(type: string, creator: ViewCreator): void {
+		this.app.workspace.registerViewType(type, creator);
+		this.register(() => this.app.workspace.unregisterViewType(type));
+	}
+
+	/** data.json in the plugin folder, so a plugin loaded again in the same app finds its data */
+	private get dataPath(): string {
+		return normalizePath(`${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/data.json`);
+	}
+
+	async loadData(): Promise<unknown> {
+		const { adapter } = this.app.vault;
+		return await adapter.exists(this.dataPath) ? JSON.parse(await adapter.read(this.dataPath)) : null;
+	}
+
+	async saveData(data: unknown): Promise<void> {
+		await this.app.vault.adapter.write(this.dataPath, JSON.stringify(data, null, '\t'));
+	}
+}
+
+export type PluginClass<P> = new (app: never, manifest: never) => P;
+
+/**
+ * Not in the API: create a plugin with a mock app. Returns it typed against the real API, whose App
+ * the mock doesn't fully implement, and as the mock Plugin it is.
+ */
+export function createPlugin<P>(PluginClass: PluginClass<P>, app: App, manifest: PluginManifest): { plugin: P; component: Plugin } {
+	const plugin: P = Reflect.construct(PluginClass, [app, manifest]);
+	const component: unknown = plugin;
+	if (!(component instanceof Plugin)) throw new Error(`${PluginClass.name} does not extend Plugin`);
+	return { plugin, component };
+}
+
+/**
+ * Not in the API: create a plugin with a mock app, then load it and wait for its onload()
+ */
+export async function loadPlugin<P>(PluginClass: PluginClass<P>, app: App, manifest: PluginManifest): Promise<P> {
+	const { plugin, component } = createPlugin(PluginClass, app, manifest);
+	component.load();
+	await component.loading;
+	return plugin;
+}
@@ -0,0 +1,284 @@
+import { setIcon } from './utils';
+
+/**
+ * Components of a Setting, rendered to the DOM like Obsidian so tests can find and fire events
+ * on their elements: `input` for text inputs and sliders, `change` for dropdowns, `click` for the others.
+ */
+
+export abstract class BaseComponent {
+	disabled = false;
+
+	then(callback: (component: this) => unknown): this {
+		callback(this);
+		return this;
+	}
+
+	setDisabled(disabled: boolean): this {
+		this.disabled = disabled;
+		return this;
+	}
+}
+
+abstract class InputComponent<E extends HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement, V> extends BaseComponent {
+	protected changeCallback: ((value: V) => unknown) | null = null;
+
+	constructor(public inputEl: E, event: 'input' | 'change') {
+		super();
+		inputEl.addEventListener(event, () => this.changeCallback?.(this.getValue()));
+	}
+
+	abstract getValue(): V;
+
+	setDisabled(disabled: boolean): this {
+		this.inputEl.disabled = disabled;
+		return super.setDisabled(disabled);
+	}
+
+	onChange(callback: (value: V) => unknown): this {
+		this.changeCallback = callback;
+		return this;
+	}
+}
+
+export class TextComponent extends InputComponent<HTMLInputElement, string> {
+	constructor(containerEl: HTMLElement, type = 'text') {
+		super(containerEl.createEl('input', { type }), 'input');
+	}
+
+	getValue(): string {
+		return this.inputEl.value;
+	}
+
+	setValue(value: string): this {
+		this.inputEl.value = value;
+		return this;
+	}
+
+	setPlaceholder(placeholder: string): this {
+		this.inputEl.placeholder = placeholder;
+		return this;
+	}
+}
+
+export class SearchComponent extends TextComponent {
+	clearButtonEl: HTMLElement;
+
+	constructor(containerEl: HTMLElement) {
+		super(containerEl.createDiv('search-input-container'), 'search');
+		this.clearButtonEl = this.inputEl.parentElement?.createDiv('search-input-clear-button') ?? createDiv();
+		this.clearButtonEl.addEventListener('click', () => {
+			this.setValue('');
+			this.changeCallback?.('');
+		});
+	}
+}
+
+export class TextAreaComponent extends InputComponent<HTMLTextAreaElement, string> {
+	constructor(containerEl: HTMLElement) {
+		super(containerEl.createEl('textarea'), 'input');
+	}
+
+	getValue(): string {
+		return this.inputEl.value;
+	}
+
+	setValue(value: string): this {
+		this.inputEl.value = value;
+		return this;
+	}
+
+	setPlaceholder(placeholder: string): this {
+		this.inputEl.placeholder = placeholder;
+		return this;
+	}
+}
+
+export class DropdownComponent extends InputComponent<HTMLSelectElement, string> {
+	selectEl: HTMLSelectElement;
+
+	constructor(containerEl: HTMLElement) {
+		super(containerEl.createEl('select', 'dropdown'), 'change');
+		this.selectEl = this.inputEl;
+	}
+
+	addOption(value: string, display: string): this {
+		this.selectEl.createEl('option', { value, text: display });
+		return this;
+	}
+
+	addOptions(options: Record<string, string>): this {
+		Object.entries(options).forEach(([value, display]) => this.addOption(value, display));
+		return this;
+	}
+
+	getValue(): string {
+		return this.selectEl.value;
+	}
+
+	setValue(value: string): this {
+		this.selectEl.value = value;
+		return this;
+	}
+}
+
+export class SliderComponent extends InputComponent<HTMLInputElement, number> {
+	sliderEl: HTMLInputElement;
+
+	constructor(containerEl: HTMLElement) {
+		super(containerEl.createEl('input', { type: 'range', cls: 'slider' }), 'input');
+		this.sliderEl = this.inputEl;
+	}
+
+	setLimits(min: number | null, max: number | null, step: number | 'any'): this {
+		if (min !== null) this.sliderEl.min = String(min);
+		if (max !== null) this.sliderEl.max = String(max);
+		this.sliderEl.step = String(step);
+		return this;
+	}
+
+	getValue(): number {
+		return Number(this.sliderEl.value);
+	}
+
+	setValue(value: number): this {
+		this.sliderEl.value = String(value);
+		return this;
+	}
+
+	setDynamicTooltip(): this {
+		return this;
+	}
+}
+
+export class ColorComponent extends InputComponent<HTMLInputElement, string> {
+	constructor(containerEl: HTMLElement) {
+		super(containerEl.createEl('input', { type: 'color' }), 'input');
+	}
+
+	getValue(): string {
+		return this.inputEl.value;
+	}
+
+	setValue(value: string): this {
+		this.inputEl.value = value;
+		return this;
+	}
+}
+
+/** Like Obsidian, setValue() calls the change callback when the value changes */
+export class ToggleComponent extends BaseComponent {
+	toggleEl: HTMLElement;
+	private value = false;
+	private changeCallback: ((value: boolean) => unknown) | null = null;
+
+	constructor(containerEl: HTMLElement) {
+		super();
+		this.toggleEl = containerEl.createDiv('checkbox-container');
+		this.toggleEl.addEventListener('click', () => {
+			if (!this.disabled) this.setValue(!this.value);
+		});
+	}
+
+	getValue(): boolean {
+		return this.value;
+	}
+
+	setValue(value: boolean): this {
+		const changed = value !== this.value;
+		this.value = value;
+		this.toggleEl.toggleClass('is-enabled', value);
+		if (changed) this.changeCallback?.(value);
+		return this;
+	}
+
+	setTooltip(tooltip: string): this {
+		this.toggleEl.setAttr('aria-label', tooltip);
+		return this;
+	}
+
+	onChange(callback: (value: boolean) => unknown): this {
+		this.changeCallback = callback;
+		return this;
+	}
+}
+
+abstract class ClickableComponent extends BaseComponent {
+	private clickCallback: ((evt: MouseEvent) => unknown) | null = null;
+
+	constructor(protected clickableEl: HTMLElement) {
+		super();
+		clickableEl.addEventListener('click', evt => {
+			if (!this.disabled) this.clickCallback?.(evt);
+		});
+	}
+
+	setDisabled(disabled: boolean): this {
+		this.clickableEl.toggleClass('is-disabled', disabled);
+		return super.setDisabled(disabled);
+	}
+
+	setIcon(icon: string): this {
+		setIcon(this.clickableEl, icon);
+		return this;
+	}
+
+	setTooltip(tooltip: string): this {
+		this.clickableEl.setAttr('aria-label', tooltip);
+		return this;
+	}
+
+	onClick(callback: (evt: MouseEvent) => unknown): this {
+		this.clickCallback = callback;
+		return this;
+	}
+}
+
+export class ButtonComponent extends ClickableComponent {
+	buttonEl: HTMLButtonElement;
+
+	constructor(containerEl: HTMLElement) {
+		const buttonEl = containerEl.createEl('button');
+		super(buttonEl);
+		this.buttonEl = buttonEl;
+	}
+
+	setDisabled(disabled: boolean): this {
+		this.buttonEl.disabled = disabled;
+		return super.setDisabled(disabled);
+	}
+
+	setButtonText(text: string): this {
+		this.buttonEl.setText(text);
+		return this;
+	}
+
+	setCta(): this {
+		this.buttonEl.addClass('mod-cta');
+		return this;
+	}
+
+	removeCta(): this {
+		this.buttonEl.removeClass('mod-cta');
+		return this;
+	}
+
+	setWarning(): this {
+		this.buttonEl.addClass('mod-warning');
+		return this;
+	}
+
+	setClass(cls: string): this {
+		this.buttonEl.addClass(cls);
+		return this;
+	}
+}
+
+export class ExtraButtonComponent extends ClickableComponent {
+	extraSettingsEl: HTMLElement;
+
+	constructor(containerEl: HTMLElement) {
+		const extraSettingsEl = containerEl.createDiv('clickable-icon extra-setting-button');
+		super(extraSettingsEl);
+		this.extraSettingsEl = extraSettingsEl;
+	}
+}
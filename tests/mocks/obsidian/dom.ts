@@ -0,0 +1,105 @@
+/**
+ * DOM helpers Obsidian adds to the prototypes of Node, Element and HTMLElement (createDiv, setText, addClass…).
+ * Only installed when a DOM is available, i.e. in tests using the jsdom environment.
+ */
+
+type ElementInfo = DomElementInfo | string | undefined;
+type ElementCallback = ((el: HTMLElement) => void) | undefined;
+
+function applyInfo(el: HTMLElement, info: ElementInfo): void {
+	const options: DomElementInfo = typeof info === 'string' ? { cls: info } : info ?? {};
+	const classes = Array.isArray(options.cls) ? options.cls : (options.cls ?? '').split(' ');
+	classes.filter(Boolean).forEach(cls => el.classList.add(cls));
+	if (options.text !== undefined) setText(el, options.text);
+	Object.entries(options.attr ?? {}).forEach(([name, value]) => setAttr(el, name, value));
+	if (options.title !== undefined) el.title = options.title;
+	(['value', 'type', 'placeholder', 'href'] as const).forEach(key => {
+		const value = options[key];
+		if (value !== undefined) el.setAttribute(key, value);
+	});
+	if (options.value !== undefined && 'value' in el) Reflect.set(el, 'value', options.value);
+}
+
+function createElement(parent: Node | null, tag: string, info: ElementInfo, callback: ElementCallback): HTMLElement {
+	const el = document.createElement(tag);
+	applyInfo(el, info);
+	const target = typeof info === 'object' && info.parent ? info.parent : parent;
+	if (target) {
+		if (typeof info === 'object' && info.prepend) target.insertBefore(el, target.firstChild);
+		else target.appendChild(el);
+	}
+	callback?.(el);
+	return el;
+}
+
+function setText(el: Element, text: string | DocumentFragment): void {
+	if (typeof text === 'string') {
+		el.textContent = text;
+	} else {
+		el.textContent = '';
+		el.appendChild(text);
+	}
+}
+
+function setAttr(el: Element, name: string, value: string | number | boolean | null): void {
+	if (value === null || value === false) el.removeAttribute(name);
+	else el.setAttribute(name, value === true ? '' : String(value));
+}
+
+function define(target: object, methods: Record<string, unknown>): void {
+	Object.entries(methods).forEach(([name, value]) => Object.defineProperty(target, name, { value, configurable: true, writable: true }));
+}
+
+export function installDomHelpers(): void {
+	if (typeof document === 'undefined') return;
+
+	define(Node.prototype, {
+		createEl(this: Node, tag: string, info?: ElementInfo, callback?: ElementCallback) { return createElement(this, tag, info, callback); },
+		createDiv(this: Node, info?: ElementInfo, callback?: ElementCallback) { return createElement(this, 'div', info, callback); },
+		createSpan(this: Node, info?: ElementInfo, callback?: ElementCallback) { return createElement(this, 'span', info, callback); },
+		empty(this: Node) { while (this.firstChild) this.removeChild(this.firstChild); },
+		detach(this: Node) { this.parentNode?.removeChild(this); },
+		appendText(this: Node, text: string) { this.appendChild(document.createTextNode(text)); },
+		instanceOf(this: Node, type: new () => unknown) { return this instanceof type; },
+	});
+	define(Element.prototype, {
+		getText(this: Element) { return this.textContent ?? ''; },
+		setText(this: Element, text: string | DocumentFragment) { setText(this, text); },
+		addClass(this: Element, ...classes: string[]) { this.classList.add(...classes.filter(Boolean)); },
+		addClasses(this: Element, classes: string[]) { this.classList.add(...classes.filter(Boolean)); },
+		removeClass(this: Element, ...classes: string[]) { this.classList.remove(...classes); },
+		removeClasses(this: Element, classes: string[]) { this.classList.remove(...classes); },
+		toggleClass(this: Element, classes: string | string[], value: boolean) {
+			(Array.isArray(classes) ? classes : [classes]).forEach(cls => this.classList.toggle(cls, value));
+		},
+		hasClass(this: Element, cls: string) { return this.classList.contains(cls); },
+		setAttr(this: Element, name: string, value: string | number | boolean | null) { setAttr(this, name, value); },
+		setAttrs(this: Element, attrs: Record<string, string | number | boolean | null>) {
+			Object.entries(attrs).forEach(([name, value]) => setAttr(this, name, value));
+		},
+		getAttr(this: Element, name: string) { return this.getAttribute(name); },
+		find(this: Element, selector: string) { return this.querySelector(selector); },
+		findAll(this: Element, selector: string) { return Array.from(this.querySelectorAll(selector)); },
+	});
+	define(HTMLElement.prototype, {
+		// Without stylesheets, the hidden attribute stands for `display: none`
+		show(this: HTMLElement) { this.hidden = false; },
+		hide(this: HTMLElement) { this.hidden = true; },
+		toggle(this: HTMLElement, show: boolean) { this.hidden = !show; },
+		isShown(this: HTMLElement) { return this.isConnected && !this.hidden; },
+		onClickEvent(this: HTMLElement, listener: (evt: MouseEvent) => void, options?: boolean | AddEventListenerOptions) {
+			this.addEventListener('click', listener, options);
+		},
+		trigger(this: HTMLElement, type: string) { this.dispatchEvent(new Event(type, { bubbles: true })); },
+	});
+	define(globalThis, {
+		createEl: (tag: string, info?: ElementInfo, callback?: ElementCallback) => createElement(null, tag, info, callback),
+		createDiv: (info?: ElementInfo, callback?: ElementCallback) => createElement(null, 'div', info, callback),
+		createSpan: (info?: ElementInfo, callback?: ElementCallback) => createElement(null, 'span', info, callback),
+		createFragment: (callback?: (fragment: DocumentFragment) => void) => {
+			const fragment = document.createDocumentFragment();
+			callback?.(fragment);
+			return fragment;
+		},
+	});
+}
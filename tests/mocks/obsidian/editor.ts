@@ -0,0 +1,227 @@
+/**
+ * Editor holding its text in memory, with multiple selections, transactions and an undo history
+ */
+
+export interface EditorPosition {
+	line: number;
+	ch: number;
+}
+
+export interface EditorRange {
+	from: EditorPosition;
+	to: EditorPosition;
+}
+
+export interface EditorSelection {
+	anchor: EditorPosition;
+	head: EditorPosition;
+}
+
+export interface EditorSelectionOrCaret {
+	anchor: EditorPosition;
+	head?: EditorPosition;
+}
+
+export interface EditorChange {
+	from: EditorPosition;
+	to?: EditorPosition;
+	text: string;
+}
+
+export interface EditorTransaction {
+	replaceSelection?: string;
+	changes?: EditorChange[];
+	selections?: EditorRange[];
+	selection?: EditorRange;
+}
+
+interface OffsetChange {
+	from: number;
+	to: number;
+	text: string;
+}
+
+function mapOffset(offset: number, changes: OffsetChange[]): number {
+	let mapped = offset;
+	for (const change of changes) {
+		if (offset >= change.to) mapped += change.text.length - (change.to - change.from);
+		else if (offset > change.from) mapped += change.from + change.text.length - offset;
+	}
+	return mapped;
+}
+
+export class Editor {
+	private value = '';
+	private selections: EditorSelection[] = [{ anchor: { line: 0, ch: 0 }, head: { line: 0, ch: 0 } }];
+	private history: { value: string; selections: EditorSelection[] }[] = [];
+	private focused = false;
+
+	/** Called after every change, like the `editor-change` workspace event */
+	onChange: (() => void) | null = null;
+
+	constructor(value = '') {
+		this.value = value;
+	}
+
+	getDoc(): this {
+		return this;
+	}
+
+	getValue(): string {
+		return this.value;
+	}
+
+	setValue(value: string): void {
+		this.apply([{ from: 0, to: this.value.length, text: value }], [{ anchor: { line: 0, ch: 0 }, head: { line: 0, ch: 0 } }]);
+	}
+
+	getLine(line: number): string {
+		return this.value.split('\n')[line] ?? '';
+	}
+
+	setLine(line: number, text: string): void {
+		this.replaceRange(text, { line, ch: 0 }, { line, ch: this.getLine(line).length });
+	}
+
+	lineCount(): number {
+		return this.value.split('\n').length;
+	}
+
+	lastLine(): number {
+		return this.lineCount() - 1;
+	}
+
+	posToOffset(pos: EditorPosition): number {
+		const lines = this.value.split('\n');
+		const line = Math.max(0, Math.min(pos.line, lines.length - 1));
+		return lines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0) + Math.min(pos.ch, lines[line].length);
+	}
+
+	offsetToPos(offset: number): EditorPosition {
+		const before = this.value.slice(0, Math.max(0, Math.min(offset, this.value.length)));
+		const line = before.split('\n').length - 1;
+		return { line, ch: before.length - (before.lastIndexOf('\n') + 1) };
+	}
+
+	getRange(from: EditorPosition, to: EditorPosition): string {
+		return this.value.slice(this.posToOffset(from), this.posToOffset(to));
+	}
+
+	replaceRange(text: string, from: EditorPosition, to: EditorPosition = from): void {
+		this.transaction({ changes: [{ from, to, text }] });
+	}
+
+	listSelections(): EditorSelection[] {
+		return this.selections.map(({ anchor, head }) => ({ anchor: { ...anchor }, head: { ...head } }));
+	}
+
+	getSelection(): string {
+		return this.selections.map(({ anchor, head }) => this.getRange(...this.order(anchor, head))).join('\n');
+	}
+
+	somethingSelected(): boolean {
+		return this.selections.some(({ anchor, head }) => this.posToOffset(anchor) !== this.posToOffset(head));
+	}
+
+	replaceSelection(text: string): void {
+		this.transaction({ replaceSelection: text });
+	}
+
+	setSelection(anchor: EditorPosition, head: EditorPosition = anchor): void {
+		this.selections = [{ anchor: { ...anchor }, head: { ...head } }];
+	}
+
+	setSelections(ranges: EditorSelectionOrCaret[], main?: number): void {
+		const selections = ranges.map(({ anchor, head }) => ({ anchor: { ...anchor }, head: { ...(head ?? anchor) } }));
+		// The main selection comes first, like listSelections() in Obsidian
+		if (main !== undefined && main > 0) selections.unshift(...selections.splice(main, 1));
+		this.selections = selections;
+	}
+
+	getCursor(which: 'from' | 'to' | 'head' | 'anchor' = 'head'): EditorPosition {
+		const { anchor, head } = this.selections[0];
+		const [from, to] = this.order(anchor, head);
+		return { ...{ from, to, head, anchor }[which] };
+	}
+
+	setCursor(pos: EditorPosition | number, ch?: number): void {
+		const position = typeof pos === 'number' ? { line: pos, ch: ch ?? 0 } : pos;
+		this.setSelection(position);
+	}
+
+	/**
+	 * Apply changes as a single undoable step. Selections follow the changes unless new ones are given.
+	 */
+	transaction(tx: EditorTransaction): void {
+		const changes: OffsetChange[] = (tx.changes ?? []).map(change => ({
+			from: this.posToOffset(change.from),
+			to: this.posToOffset(change.to ?? change.from),
+			text: change.text,
+		}));
+		if (tx.replaceSelection !== undefined) {
+			const text = tx.replaceSelection;
+			this.selections.forEach(({ anchor, head }) => {
+				const [from, to] = this.order(anchor, head).map(pos => this.posToOffset(pos));
+				changes.push({ from, to, text });
+			});
+		}
+		changes.sort((a, b) => a.from - b.from);
+		const ranges = tx.selections ?? (tx.selection ? [tx.selection] : null);
+		this.apply(changes, ranges?.map(({ from, to }) => ({ anchor: from, head: to })) ?? null);
+	}
+
+	undo(): void {
+		const previous = this.history.pop();
+		if (!previous) return;
+		this.value = previous.value;
+		this.selections = previous.selections;
+		this.onChange?.();
+	}
+
+	/** Number of steps undo() can revert */
+	getHistoryLength(): number {
+		return this.history.length;
+	}
+
+	focus(): void {
+		this.focused = true;
+	}
+
+	blur(): void {
+		this.focused = false;
+	}
+
+	hasFocus(): boolean {
+		return this.focused;
+	}
+
+	scrollIntoView(_range: EditorRange, _center?: boolean): void {
+		// Nothing to scroll
+	}
+
+	refresh(): void {
+		// Nothing to render
+	}
+
+	private order(a: EditorPosition, b: EditorPosition): [EditorPosition, EditorPosition] {
+		return this.posToOffset(a) <= this.posToOffset(b) ? [a, b] : [b, a];
+	}
+
+	/** Apply changes sorted by offset, which must not overlap */
+	private apply(changes: OffsetChange[], selections: EditorSelection[] | null): void {
+		if (changes.length === 0 && !selections) return;
+		this.history.push({ value: this.value, selections: this.listSelections() });
+		// Offsets of the selections before the change, mapped through the changes afterwards
+		const offsets = this.selections.map(({ anchor, head }) => ({ anchor: this.posToOffset(anchor), head: this.posToOffset(head) }));
+		let value = this.value;
+		[...changes].reverse().forEach(({ from, to, text }) => {
+			value = value.slice(0, from) + text + value.slice(to);
+		});
+		this.value = value;
+		this.selections = selections ?? offsets.map(({ anchor, head }) => ({
+			anchor: this.offsetToPos(mapOffset(anchor, changes)),
+			head: this.offsetToPos(mapOffset(head, changes)),
+		}));
+		this.onChange?.();
+	}
+}
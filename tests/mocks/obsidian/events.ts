@@ -0,0 +1,121 @@
+/**
+ * Events and Component, with the same lifecycle as Obsidian: children and registered
+ * callbacks are cleaned up when a component is unloaded.
+ */
+
+type Callback = (...data: unknown[]) => unknown;
+
+export interface EventRef {
+	e: Events;
+	name: string;
+	fn: Callback;
+	ctx?: unknown;
+}
+
+export class Events {
+	private handlers = new Map<string, EventRef[]>();
+
+	on(name: string, callback: Callback, ctx?: unknown): EventRef {
+		const ref: EventRef = { e: this, name, fn: callback, ctx };
+		this.handlers.set(name, [...this.handlers.get(name) ?? [], ref]);
+		return ref;
+	}
+
+	off(name: string, callback: Callback): void {
+		this.handlers.set(name, (this.handlers.get(name) ?? []).filter(ref => ref.fn !== callback));
+	}
+
+	offref(ref: EventRef): void {
+		this.handlers.set(ref.name, (this.handlers.get(ref.name) ?? []).filter(current => current !== ref));
+	}
+
+	trigger(name: string, ...data: unknown[]): void {
+		[...this.handlers.get(name) ?? []].forEach(ref => this.tryTrigger(ref, data));
+	}
+
+	tryTrigger(ref: EventRef, data: unknown[]): void {
+		try {
+			ref.fn.apply(ref.ctx, data);
+		} catch (error) {
+			console.error(error);
+		}
+	}
+
+	/** Number of handlers of an event, to check that components clean up after themselves */
+	listenerCount(name: string): number {
+		return this.handlers.get(name)?.length ?? 0;
+	}
+
+	/** Number of handlers of every event with handlers */
+	getListenerCounts(): Record<string, number> {
+		const counts: Record<string, number> = {};
+		this.handlers.forEach((refs, name) => {
+			if (refs.length > 0) counts[name] = refs.length;
+		});
+		return counts;
+	}
+}
+
+export class Component {
+	/** Result of the last onload(), so tests can wait for async onload methods */
+	loading: Promise<void> = Promise.resolve();
+	private loaded = false;
+	private children: Component[] = [];
+	private cleanups: (() => unknown)[] = [];
+
+	load(): void {
+		if (this.loaded) return;
+		this.loaded = true;
+		this.loading = Promise.resolve(this.onload()).then(() => undefined);
+		this.children.forEach(child => child.load());
+	}
+
+	onload(): void | Promise<void> {
+		// Implemented by subclasses
+	}
+
+	unload(): void {
+		if (!this.loaded) return;
+		this.loaded = false;
+		[...this.children].reverse().forEach(child => child.unload());
+		this.children = [];
+		const cleanups = this.cleanups.reverse();
+		this.cleanups = [];
+		cleanups.forEach(cleanup => cleanup());
+		this.onunload();
+	}
+
+	onunload(): void {
+		// Implemented by subclasses
+	}
+
+	addChild<T extends Component>(component: T): T {
+		this.children.push(component);
+		if (this.loaded) component.load();
+		return component;
+	}
+
+	removeChild<T extends Component>(component: T): T {
+		this.children = this.children.filter(child => child !== component);
+		component.unload();
+		return component;
+	}
+
+	register(cleanup: () => unknown): void {
+		this.cleanups.push(cleanup);
+	}
+
+	registerEvent(ref: EventRef): void {
+		this.register(() => ref.e.offref(ref));
+	}
+
+	registerDomEvent(el: EventTarget, type: string, callback: EventListener, options?: boolean | AddEventListenerOptions): void {
+		el.addEventListener(type, callback, options);
+		this.register(() => el.removeEventListener(type, callback, options));
+	}
+
+	registerInterval(id: number): number {
+		this.register(() => window.clearInterval(id));
+		return id;
+	}
+}
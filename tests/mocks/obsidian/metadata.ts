@@ -0,0 +1,197 @@
+import { Events } from './events';
+import { TAbstractFile, TFile, Vault } from './vault';
+
+export interface Loc {
+	line: number;
+	col: number;
+	offset: number;
+}
+
+export interface Pos {
+	start: Loc;
+	end: Loc;
+}
+
+export interface LinkCache {
+	link: string;
+	original: string;
+	displayText?: string;
+	position: Pos;
+}
+
+export interface CachedMetadata {
+	frontmatter?: Record<string, unknown>;
+	frontmatterPosition?: Pos;
+	headings?: { heading: string; level: number; position: Pos }[];
+	links?: LinkCache[];
+	embeds?: LinkCache[];
+	tags?: { tag: string; position: Pos }[];
+}
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+const LINK = /(!?)\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const TAG = /(?:^|\s)(#[^\s#.,;:!?"'()[\]{}]+)/g;
+
+function parseValue(text: string): unknown {
+	const value = text.trim();
+	if (value === '' || value === 'null' || value === '~') return null;
+	if (value === 'true' || value === 'false') return value === 'true';
+	if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+	if (/^\[.*\]$/.test(value)) return value.slice(1, -1).split(',').map(item => item.trim()).filter(Boolean).map(parseValue);
+	const quoted = /^(["'])(.*)\1$/.exec(value);
+	return quoted ? quoted[2] : value;
+}
+
+/**
+ * Parse the subset of YAML used in frontmatter: `key: value` pairs, inline lists and `- item` lists
+ */
+export function parseYaml(yaml: string): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	let listKey: string | null = null;
+	for (const line of yaml.split(/\r?\n/)) {
+		const item = /^\s+-\s+(.*)$|^-\s+(.*)$/.exec(line);
+		if (item && listKey) {
+			const list = result[listKey];
+			result[listKey] = [...(Array.isArray(list) ? list : []), parseValue(item[1] ?? item[2])];
+			continue;
+		}
+		const pair = /^([^:#\s][^:]*):(.*)$/.exec(line);
+		if (!pair) continue;
+		const key = pair[1].trim();
+		listKey = pair[2].trim() === '' ? key : null;
+		result[key] = parseValue(pair[2]);
+	}
+	return result;
+}
+
+export function stringifyYaml(data: Record<string, unknown>): string {
+	const format = (value: unknown) => typeof value === 'string' && /[:#[\]{}]|^\s|\s$/.test(value) ? JSON.stringify(value) : String(value);
+	return Object.entries(data).map(([key, value]) => Array.isArray(value)
+		? `${key}:\n${value.map(item => `  - ${format(item)}`).join('\n')}`
+		: `${key}: ${value === null || value === undefined ? '' : format(value)}`).join('\n') + '\n';
+}
+
+function getLoc(content: string, offset: number): Loc {
+	const before = content.slice(0, offset);
+	const line = before.split('\n').length - 1;
+	return { line, col: offset - (before.lastIndexOf('\n') + 1), offset };
+}
+
+function getPos(content: string, start: number, end: number): Pos {
+	return { start: getLoc(content, start), end: getLoc(content, end) };
+}
+
+/**
+ * Metadata of a markdown note: frontmatter, headings, links, embeds and tags
+ */
+export function parseMetadata(content: string): CachedMetadata {
+	const cache: CachedMetadata = {};
+	const frontmatter = FRONTMATTER.exec(content);
+	if (frontmatter) {
+		cache.frontmatter = parseYaml(frontmatter[1]);
+		cache.frontmatterPosition = getPos(content, 0, frontmatter[0].trimEnd().length);
+	}
+	const bodyStart = frontmatter?.[0].length ?? 0;
+
+	let offset = 0;
+	for (const line of content.split('\n')) {
+		const heading = offset >= bodyStart ? HEADING.exec(line) : null;
+		if (heading) (cache.headings ??= []).push({ heading: heading[2].trim(), level: heading[1].length, position: getPos(content, offset, offset + line.length) });
+		offset += line.length + 1;
+	}
+	for (const match of content.slice(bodyStart).matchAll(LINK)) {
+		const start = bodyStart + (match.index ?? 0);
+		const link: LinkCache = { link: match[2].trim(), original: match[0], displayText: match[3] ?? match[2].trim(), position: getPos(content, start, start + match[0].length) };
+		(match[1] ? cache.embeds ??= [] : cache.links ??= []).push(link);
+	}
+	for (const match of content.slice(bodyStart).matchAll(TAG)) {
+		const start = bodyStart + (match.index ?? 0) + match[0].indexOf('#');
+		(cache.tags ??= []).push({ tag: match[1], position: getPos(content, start, start + match[1].length) });
+	}
+	return cache;
+}
+
+/**
+ * Metadata of the markdown notes, parsed again whenever the vault changes.
+ * Unlike Obsidian, it's updated synchronously, so the cache is up to date once a vault operation resolves.
+ */
+export class MetadataCache extends Events {
+	resolvedLinks: Record<string, Record<string, number>> = {};
+	unresolvedLinks: Record<string, Record<string, number>> = {};
+	private caches = new Map<string, CachedMetadata>();
+
+	constructor(private vault: Vault) {
+		super();
+		vault.on('create', file => this.update(file));
+		vault.on('modify', file => this.update(file));
+		vault.on('delete', file => this.forget(file.path));
+		vault.on('rename', (file, oldPath) => {
+			this.forget(oldPath);
+			this.update(file);
+		});
+	}
+
+	getFileCache(file: TFile): CachedMetadata | null {
+		return this.caches.get(file.path) ?? null;
+	}
+
+	getCache(path: string): CachedMetadata | null {
+		return this.caches.get(path) ?? null;
+	}
+
+	/**
+	 * Note a link points to: the note at that path, or else the note with that name closest to the vault root
+	 */
+	getFirstLinkpathDest(linkpath: string, _sourcePath: string): TFile | null {
+		const path = linkpath.split('#')[0].trim();
+		if (!path) return null;
+		const withExtension = /\.[^/]+$/.test(path) ? path : `${path}.md`;
+		const exact = this.vault.getFileByPath(withExtension);
+		if (exact) return exact;
+		const lower = withExtension.toLowerCase();
+		return this.vault.getFiles()
+			.filter(file => file.path.toLowerCase() === lower || file.path.toLowerCase().endsWith('/' + lower))
+			.sort((a, b) => a.path.length - b.path.length)[0] ?? null;
+	}
+
+	/**
+	 * Shortest text linking to `file`: its name when no other note has that name, its path otherwise
+	 */
+	fileToLinktext(file: TFile, _sourcePath: string, omitMdExtension = true): string {
+		const name = omitMdExtension && file.extension === 'md' ? file.basename : file.name;
+		const unique = this.vault.getFiles().filter(other => other.name.toLowerCase() === file.name.toLowerCase()).length === 1;
+		if (unique) return name;
+		return omitMdExtension && file.extension === 'md' ? file.path.slice(0, -3) : file.path;
+	}
+
+	private update(file: TAbstractFile) {
+		if (!(file instanceof TFile) || file.extension !== 'md') return;
+		const stored = this.vault.adapter.files.get(file.path);
+		if (!stored) return;
+		const cache = parseMetadata(stored.content);
+		this.caches.set(file.path, cache);
+		this.resolveLinks(file, cache);
+		this.trigger('changed', file, stored.content, cache);
+		this.trigger('resolved');
+	}
+
+	private forget(path: string) {
+		this.caches.delete(path);
+		delete this.resolvedLinks[path];
+		delete this.unresolvedLinks[path];
+	}
+
+	private resolveLinks(file: TFile, cache: CachedMetadata) {
+		const resolved: Record<string, number> = {};
+		const unresolved: Record<string, number> = {};
+		[...cache.links ?? [], ...cache.embeds ?? []].forEach(({ link }) => {
+			const target = this.getFirstLinkpathDest(link, file.path);
+			const key = target?.path ?? link.split('#')[0];
+			const counts = target ? resolved : unresolved;
+			counts[key] = (counts[key] ?? 0) + 1;
+		});
+		this.resolvedLinks[file.path] = resolved;
+		this.unresolvedLinks[file.path] = unresolved;
+	}
+}
@@ -0,0 +1,250 @@
+import type { App } from './app';
+import { Keymap, Modifier } from './utils';
+
+export type KeymapEventListener = (evt: KeyboardEvent) => false | unknown;
+
+interface KeymapHandler {
+	modifiers: Modifier[] | null;
+	key: string | null;
+	func: KeymapEventListener;
+}
+
+/**
+ * Keyboard shortcuts of a modal. Handlers registered last run first, and returning false stops there.
+ */
+export class Scope {
+	private handlers: KeymapHandler[] = [];
+
+	register(modifiers: Modifier[] | null, key: string | null, func: KeymapEventListener): KeymapHandler {
+		const handler = { modifiers, key, func };
+		this.handlers.unshift(handler);
+		return handler;
+	}
+
+	unregister(handler: KeymapHandler): void {
+		this.handlers = this.handlers.filter(current => current !== handler);
+	}
+
+	/** Not in the API: run the handlers matching a keydown event */
+	handleKey(evt: KeyboardEvent): void {
+		for (const { modifiers, key, func } of this.handlers) {
+			if (key !== null && key !== evt.key) continue;
+			if (modifiers !== null && !this.matchesModifiers(evt, modifiers)) continue;
+			if (func(evt) === false) return;
+		}
+	}
+
+	private matchesModifiers(evt: KeyboardEvent, modifiers: Modifier[]): boolean {
+		const pressed = (['Mod', 'Shift', 'Alt'] as const).filter(modifier => Keymap.isModifier(evt, modifier));
+		return pressed.length === modifiers.length && pressed.every(modifier => modifiers.includes(modifier));
+	}
+}
+
+const openModals: Modal[] = [];
+
+/** Not in the API: modals currently open, the last opened one last */
+export function getOpenModals(): Modal[] {
+	return [...openModals];
+}
+
+/**
+ * Modal attached to the document body while open. Escape and the close button close it.
+ */
+export class Modal {
+	scope = new Scope();
+	containerEl: HTMLElement;
+	modalEl: HTMLElement;
+	titleEl: HTMLElement;
+	contentEl: HTMLElement;
+	shouldRestoreSelection = true;
+
+	constructor(public app: App) {
+		this.containerEl = createDiv('modal-container');
+		this.containerEl.createDiv('modal-bg');
+		this.modalEl = this.containerEl.createDiv('modal');
+		this.modalEl.createDiv('modal-close-button').addEventListener('click', () => this.close());
+		this.titleEl = this.modalEl.createDiv('modal-title');
+		this.contentEl = this.modalEl.createDiv('modal-content');
+		this.containerEl.addEventListener('keydown', evt => this.scope.handleKey(evt));
+		this.scope.register([], 'Escape', () => this.close());
+	}
+
+	get isOpen(): boolean {
+		return openModals.includes(this);
+	}
+
+	open(): void {
+		if (this.isOpen) return;
+		openModals.push(this);
+		document.body.appendChild(this.containerEl);
+		void this.onOpen();
+	}
+
+	close(): void {
+		const index = openModals.indexOf(this);
+		if (index < 0) return;
+		openModals.splice(index, 1);
+		this.containerEl.detach();
+		this.onClose();
+	}
+
+	onOpen(): Promise<void> | void {
+		// Overridden by modals
+	}
+
+	onClose(): void {
+		// Overridden by modals
+	}
+
+	setTitle(title: string): this {
+		this.titleEl.setText(title);
+		return this;
+	}
+
+	setContent(content: string | DocumentFragment): this {
+		this.contentEl.setText(content);
+		return this;
+	}
+}
+
+export interface Instruction {
+	command: string;
+	purpose: string;
+}
+
+/**
+ * Suggestions rendered in `resultContainerEl` for the query typed in `inputEl`: ArrowUp and ArrowDown
+ * move the selection, Enter or a click selects a suggestion.
+ */
+export abstract class SuggestModal<T> extends Modal {
+	limit = 100;
+	emptyStateText = 'No results found.';
+	inputEl: HTMLInputElement;
+	resultContainerEl: HTMLElement;
+	/** Not in the API: suggestions currently shown */
+	values: T[] = [];
+	/** Not in the API: index of the highlighted suggestion */
+	selectedIndex = 0;
+	private instructionsEl: HTMLElement;
+	private updates = 0;
+
+	constructor(app: App) {
+		super(app);
+		this.modalEl.addClass('prompt');
+		this.inputEl = this.modalEl.createDiv('prompt-input-container').createEl('input', { cls: 'prompt-input' });
+		this.resultContainerEl = this.modalEl.createDiv('prompt-results');
+		this.instructionsEl = this.modalEl.createDiv('prompt-instructions');
+		this.inputEl.addEventListener('input', () => void this.updateSuggestions());
+		this.scope.register([], 'ArrowDown', () => this.setSelectedIndex(this.selectedIndex + 1));
+		this.scope.register([], 'ArrowUp', () => this.setSelectedIndex(this.selectedIndex - 1));
+		this.scope.register([], 'Enter', evt => this.selectActiveSuggestion(evt));
+	}
+
+	abstract getSuggestions(query: string): T[] | Promise<T[]>;
+	abstract renderSuggestion(value: T, el: HTMLElement): void;
+	abstract onChooseSuggestion(item: T, evt: MouseEvent | KeyboardEvent): void;
+
+	open(): void {
+		super.open();
+		void this.updateSuggestions();
+	}
+
+	setPlaceholder(placeholder: string): void {
+		this.inputEl.placeholder = placeholder;
+	}
+
+	setInstructions(instructions: Instruction[]): void {
+		this.instructionsEl.empty();
+		instructions.forEach(({ command, purpose }) => {
+			const instructionEl = this.instructionsEl.createDiv('prompt-instruction');
+			instructionEl.createSpan({ text: command, cls: 'prompt-instruction-command' });
+			instructionEl.createSpan({ text: purpose });
+		});
+	}
+
+	selectActiveSuggestion(evt: MouseEvent | KeyboardEvent): void {
+		const value = this.values[this.selectedIndex];
+		if (value !== undefined) this.selectSuggestion(value, evt);
+	}
+
+	selectSuggestion(value: T, evt: MouseEvent | KeyboardEvent): void {
+		this.close();
+		this.onChooseSuggestion(value, evt);
+	}
+
+	/** Not in the API: query the suggestions again, resolved once they are rendered */
+	async updateSuggestions(): Promise<void> {
+		const update = ++this.updates;
+		const values = await this.getSuggestions(this.inputEl.value);
+		// A newer query was typed meanwhile
+		if (update !== this.updates) return;
+		this.values = values.slice(0, this.limit);
+		this.resultContainerEl.empty();
+		if (this.values.length === 0) this.resultContainerEl.createDiv({ text: this.emptyStateText, cls: 'suggestion-empty' });
+		this.values.forEach(value => {
+			const el = this.resultContainerEl.createDiv('suggestion-item');
+			this.renderSuggestion(value, el);
+			el.addEventListener('click', evt => this.selectSuggestion(value, evt));
+		});
+		this.setSelectedIndex(0);
+	}
+
+	private setSelectedIndex(index: number) {
+		if (this.values.length === 0) return;
+		this.selectedIndex = (index + this.values.length) % this.values.length;
+		Array.from(this.resultContainerEl.children).forEach((el, i) => el.toggleClass('is-selected', i === this.selectedIndex));
+	}
+}
+
+/**
+ * Suggestions shown below a text input while typing in it
+ */
+export abstract class AbstractInputSuggest<T> {
+	limit = 100;
+	suggestEl: HTMLElement = createDiv('suggestion-container');
+	/** Not in the API: suggestions currently shown */
+	values: T[] = [];
+	private selectCallback: ((value: T, evt: MouseEvent | KeyboardEvent) => unknown) | null = null;
+
+	constructor(public app: App, private textInputEl: HTMLInputElement | HTMLDivElement) {
+		textInputEl.addEventListener('input', () => void this.open());
+		textInputEl.addEventListener('focus', () => void this.open());
+	}
+
+	protected abstract getSuggestions(query: string): T[] | Promise<T[]>;
+	abstract renderSuggestion(value: T, el: HTMLElement): void;
+
+	getValue(): string {
+		return this.textInputEl instanceof HTMLInputElement ? this.textInputEl.value : this.textInputEl.getText();
+	}
+
+	setValue(value: string): void {
+		if (this.textInputEl instanceof HTMLInputElement) this.textInputEl.value = value;
+		else this.textInputEl.setText(value);
+	}
+
+	onSelect(callback: (value: T, evt: MouseEvent | KeyboardEvent) => unknown): this {
+		this.selectCallback = callback;
+		return this;
+	}
+
+	selectSuggestion(value: T, evt: MouseEvent | KeyboardEvent): void {
+		this.selectCallback?.(value, evt);
+	}
+
+	/** Resolved once the suggestions are rendered */
+	async open(): Promise<void> {
+		this.values = (await this.getSuggestions(this.getValue())).slice(0, this.limit);
+		document.body.appendChild(this.suggestEl);
+		this.suggestEl.empty();
+		this.values.forEach(value => {
+			const el = this.suggestEl.createDiv('suggestion-item');
+			this.renderSuggestion(value, el);
+			el.addEventListener('click', evt => this.selectSuggestion(value, evt));
+		});
+	}
+
+	close(): void {
+		this.suggestEl.detach();
+	}
+}
@@ -0,0 +1,175 @@
+import type { App, Plugin } from './app';
+import {
+	BaseComponent,
+	ButtonComponent,
+	ColorComponent,
+	DropdownComponent,
+	ExtraButtonComponent,
+	SearchComponent,
+	SliderComponent,
+	TextAreaComponent,
+	TextComponent,
+	ToggleComponent,
+} from './components';
+
+/**
+ * A row of a settings tab, with the same elements and classes as in Obsidian
+ */
+export class Setting {
+	settingEl: HTMLElement;
+	infoEl: HTMLElement;
+	nameEl: HTMLElement;
+	descEl: HTMLElement;
+	controlEl: HTMLElement;
+	components: BaseComponent[] = [];
+
+	constructor(containerEl: HTMLElement) {
+		this.settingEl = containerEl.createDiv('setting-item');
+		this.infoEl = this.settingEl.createDiv('setting-item-info');
+		this.nameEl = this.infoEl.createDiv('setting-item-name');
+		this.descEl = this.infoEl.createDiv('setting-item-description');
+		this.controlEl = this.settingEl.createDiv('setting-item-control');
+	}
+
+	setName(name: string | DocumentFragment): this {
+		this.nameEl.empty();
+		this.nameEl.append(name);
+		return this;
+	}
+
+	setDesc(desc: string | DocumentFragment): this {
+		this.descEl.empty();
+		this.descEl.append(desc);
+		return this;
+	}
+
+	setClass(cls: string): this {
+		this.settingEl.addClass(cls);
+		return this;
+	}
+
+	setTooltip(tooltip: string): this {
+		this.nameEl.setAttr('aria-label', tooltip);
+		return this;
+	}
+
+	setHeading(): this {
+		this.settingEl.addClass('setting-item-heading');
+		return this;
+	}
+
+	setDisabled(disabled: boolean): this {
+		this.settingEl.toggleClass('is-disabled', disabled);
+		this.components.forEach(component => component.setDisabled(disabled));
+		return this;
+	}
+
+	addButton(cb: (component: ButtonComponent) => unknown): this {
+		return this.addComponent(new ButtonComponent(this.controlEl), cb);
+	}
+
+	addExtraButton(cb: (component: ExtraButtonComponent) => unknown): this {
+		return this.addComponent(new ExtraButtonComponent(this.controlEl), cb);
+	}
+
+	addToggle(cb: (component: ToggleComponent) => unknown): this {
+		return this.addComponent(new ToggleComponent(this.controlEl), cb);
+	}
+
+	addText(cb: (component: TextComponent) => unknown): this {
+		return this.addComponent(new TextComponent(this.controlEl), cb);
+	}
+
+	addSearch(cb: (component: SearchComponent) => unknown): this {
+		return this.addComponent(new SearchComponent(this.controlEl), cb);
+	}
+
+	addTextArea(cb: (component: TextAreaComponent) => unknown): this {
+		return this.addComponent(new TextAreaComponent(this.controlEl), cb);
+	}
+
+	addDropdown(cb: (component: DropdownComponent) => unknown): this {
+		return this.addComponent(new DropdownComponent(this.controlEl), cb);
+	}
+
+	addSlider(cb: (component: SliderComponent) => unknown): this {
+		return this.addComponent(new SliderComponent(this.controlEl), cb);
+	}
+
+	addColorPicker(cb: (component: ColorComponent) => unknown): this {
+		return this.addComponent(new ColorComponent(this.controlEl), cb);
+	}
+
+	then(cb: (setting: this) => unknown): this {
+		cb(this);
+		return this;
+	}
+
+	clear(): this {
+		this.controlEl.empty();
+		this.components = [];
+		return this;
+	}
+
+	private addComponent<C extends BaseComponent>(component: C, cb: (component: C) => unknown): this {
+		this.components.push(component);
+		cb(component);
+		return this;
+	}
+}
+
+export abstract class SettingTab {
+	/** Not in the API: id given to openTabById() */
+	id = '';
+	containerEl: HTMLElement = createDiv('vertical-tab-content');
+
+	constructor(public app: App) {}
+
+	abstract display(): void;
+
+	hide(): void {
+		this.containerEl.empty();
+	}
+}
+
+export abstract class PluginSettingTab extends SettingTab {
+	constructor(app: App, public plugin: Plugin) {
+		super(app);
+		this.id = plugin.manifest.id;
+	}
+}
+
+/**
+ * Not in the API: the settings modal (`app.setting`), showing one tab at a time
+ */
+export class SettingModal {
+	containerEl: HTMLElement | null = null;
+	pluginTabs: SettingTab[] = [];
+	activeTab: SettingTab | null = null;
+
+	open(): void {
+		this.containerEl ??= createDiv('modal-container mod-settings');
+		document.body.appendChild(this.containerEl);
+	}
+
+	openTabById(id: string): SettingTab | null {
+		const tab = this.pluginTabs.find(current => current.id === id) ?? null;
+		if (!tab || !this.containerEl) return null;
+		this.closeActiveTab();
+		this.activeTab = tab;
+		this.containerEl.appendChild(tab.containerEl);
+		tab.display();
+		return tab;
+	}
+
+	close(): void {
+		this.closeActiveTab();
+		this.containerEl?.detach();
+	}
+
+	private closeActiveTab() {
+		this.activeTab?.hide();
+		this.activeTab?.containerEl.detach();
+		this.activeTab = null;
+	}
+}
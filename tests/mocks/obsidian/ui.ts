@@ -0,0 +1,158 @@
+import { setIcon } from './utils';
+
+const notices: string[] = [];
+
+/** Not in the API: messages of the notices shown so far */
+export function getNotices(): string[] {
+	return [...notices];
+}
+
+/** Not in the API: forget the notices shown so far */
+export function clearNotices(): void {
+	notices.length = 0;
+}
+
+export class Notice {
+	noticeEl: HTMLElement = createDiv('notice');
+
+	constructor(message: string | DocumentFragment, public duration?: number) {
+		this.setMessage(message);
+	}
+
+	setMessage(message: string | DocumentFragment): this {
+		this.noticeEl.setText(message);
+		notices.push(this.noticeEl.getText());
+		return this;
+	}
+
+	hide(): void {
+		this.noticeEl.detach();
+	}
+}
+
+export class MenuItem {
+	title = '';
+	icon: string | null = null;
+	section = '';
+	checked = false;
+	disabled = false;
+	warning = false;
+	dom: HTMLElement = createDiv('menu-item');
+	private callback: ((evt: MouseEvent | KeyboardEvent) => unknown) | null = null;
+
+	setTitle(title: string | DocumentFragment): this {
+		this.dom.setText(title);
+		this.title = this.dom.getText();
+		return this;
+	}
+
+	setIcon(icon: string | null): this {
+		this.icon = icon;
+		if (icon) setIcon(this.dom, icon);
+		return this;
+	}
+
+	setSection(section: string): this {
+		this.section = section;
+		return this;
+	}
+
+	setChecked(checked: boolean | null): this {
+		this.checked = checked === true;
+		return this;
+	}
+
+	setDisabled(disabled: boolean): this {
+		this.disabled = disabled;
+		return this;
+	}
+
+	setWarning(warning: boolean): this {
+		this.warning = warning;
+		return this;
+	}
+
+	setIsLabel(isLabel: boolean): this {
+		this.disabled = isLabel;
+		return this;
+	}
+
+	onClick(callback: (evt: MouseEvent | KeyboardEvent) => unknown): this {
+		this.callback = callback;
+		return this;
+	}
+
+	/** Not in the API: run the item like a click, unless it's disabled */
+	click(evt: MouseEvent | KeyboardEvent = new MouseEvent('click')): void {
+		if (!this.disabled) this.callback?.(evt);
+	}
+}
+
+const shownMenus: Menu[] = [];
+
+/** Not in the API: the menu shown last, while it's shown */
+export function getLastShownMenu(): Menu | null {
+	return shownMenus[shownMenus.length - 1] ?? null;
+}
+
+/**
+ * Context menu. Its items and separators are recorded in `items`, for tests to inspect or click.
+ */
+export class Menu {
+	items: (MenuItem | 'separator')[] = [];
+	/** Not in the API: where the menu was shown, null while hidden */
+	position: { x: number; y: number } | null = null;
+	private hideCallback: (() => unknown) | null = null;
+
+	addItem(cb: (item: MenuItem) => unknown): this {
+		const item = new MenuItem();
+		this.items.push(item);
+		cb(item);
+		return this;
+	}
+
+	addSeparator(): this {
+		this.items.push('separator');
+		return this;
+	}
+
+	/** Not in the API: the items, without separators */
+	getItems(): MenuItem[] {
+		return this.items.filter((item): item is MenuItem => item !== 'separator');
+	}
+
+	setNoIcon(): this {
+		return this;
+	}
+
+	setUseNativeMenu(): this {
+		return this;
+	}
+
+	showAtMouseEvent(evt: MouseEvent): this {
+		return this.showAtPosition({ x: evt.clientX, y: evt.clientY });
+	}
+
+	showAtPosition(position: { x: number; y: number }): this {
+		if (!this.position) shownMenus.push(this);
+		this.position = position;
+		return this;
+	}
+
+	hide(): this {
+		if (this.position) {
+			this.position = null;
+			shownMenus.splice(shownMenus.indexOf(this), 1);
+			this.hideCallback?.();
+		}
+		return this;
+	}
+
+	close(): void {
+		this.hide();
+	}
+
+	onHide(callback: () => unknown): void {
+		this.hideCallback = callback;
+	}
+}
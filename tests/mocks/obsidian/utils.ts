@@ -0,0 +1,163 @@
+/**
+ * Functions and constants exported by the obsidian module
+ */
+
+export const apiVersion = '1.8.7';
+
+export const moment = {
+	locale: () => 'en'
+};
+
+export const Platform = {
+	isDesktop: true,
+	isMobile: false,
+	isDesktopApp: true,
+	isMobileApp: false,
+	isIosApp: false,
+	isAndroidApp: false,
+	isPhone: false,
+	isTablet: false,
+	isMacOS: false,
+	isWin: false,
+	isLinux: true,
+	isSafari: false,
+};
+
+export type Modifier = 'Mod' | 'Ctrl' | 'Meta' | 'Shift' | 'Alt';
+
+export const Keymap = {
+	isModEvent(evt?: UIEvent | null): boolean {
+		if (!evt || !('ctrlKey' in evt)) return false;
+		return Boolean(Platform.isMacOS ? Reflect.get(evt, 'metaKey') : Reflect.get(evt, 'ctrlKey'));
+	},
+	isModifier(evt: MouseEvent | KeyboardEvent, modifier: Modifier): boolean {
+		switch (modifier) {
+			case 'Mod': return Platform.isMacOS ? evt.metaKey : evt.ctrlKey;
+			case 'Ctrl': return evt.ctrlKey;
+			case 'Meta': return evt.metaKey;
+			case 'Shift': return evt.shiftKey;
+			case 'Alt': return evt.altKey;
+		}
+	},
+};
+
+export function normalizePath(path: string): string {
+	const normalized = path
+		.replace(/[\\/]+/g, '/')
+		.replace(/\u00A0|\u202F/g, ' ')
+		.replace(/^\/+|\/+$/g, '')
+		.normalize('NFC');
+	return normalized === '' ? '/' : normalized;
+}
+
+export interface Debouncer<T extends unknown[], V> {
+	(...args: T): Debouncer<T, V>;
+	cancel(): Debouncer<T, V>;
+	run(): V | void;
+}
+
+/**
+ * Same behavior as Obsidian's debounce, driven by the timers, so tests can use jest fake timers
+ */
+export function debounce<T extends unknown[], V>(cb: (...args: T) => V, timeout = 0, resetTimer = false): Debouncer<T, V> {
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	let pending: T | null = null;
+	const run = (): V | void => {
+		if (timer !== null) clearTimeout(timer);
+		timer = null;
+		if (pending === null) return;
+		const args = pending;
+		pending = null;
+		return cb(...args);
+	};
+	const debounced = Object.assign((...args: T) => {
+		pending = args;
+		if (timer === null || resetTimer) {
+			if (timer !== null) clearTimeout(timer);
+			timer = setTimeout(run, timeout);
+		}
+		return debounced;
+	}, {
+		cancel: () => {
+			if (timer !== null) clearTimeout(timer);
+			timer = null;
+			pending = null;
+			return debounced;
+		},
+		run,
+	});
+	return debounced;
+}
+
+export interface SearchResult {
+	score: number;
+	matches: [number, number][];
+}
+
+/**
+ * Fuzzy search matching the characters of the query in order. Scores are negative, closer to 0 is better:
+ * every character between two matches costs a point.
+ */
+export function prepareFuzzySearch(query: string): (text: string) => SearchResult | null {
+	const needle = query.toLowerCase().replace(/\s+/g, '');
+	return text => {
+		const haystack = text.toLowerCase();
+		const matches: [number, number][] = [];
+		let score = 0;
+		let from = 0;
+		for (const char of needle) {
+			const index = haystack.indexOf(char, from);
+			if (index === -1) return null;
+			score -= index - from;
+			const last = matches[matches.length - 1];
+			if (last && last[1] === index) last[1] = index + 1;
+			else matches.push([index, index + 1]);
+			from = index + 1;
+		}
+		return { score, matches };
+	};
+}
+
+/**
+ * Search matching every word of the query as a substring
+ */
+export function prepareSimpleSearch(query: string): (text: string) => SearchResult | null {
+	const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+	return text => {
+		const haystack = text.toLowerCase();
+		const matches: [number, number][] = [];
+		for (const word of words) {
+			const index = haystack.indexOf(word);
+			if (index === -1) return null;
+			matches.push([index, index + word.length]);
+		}
+		return { score: -matches.reduce((sum, [start]) => sum + start, 0), matches: matches.sort((a, b) => a[0] - b[0]) };
+	};
+}
+
+/**
+ * Render `text` with the matched ranges highlighted
+ */
+export function renderResults(el: HTMLElement, text: string, result: SearchResult, offset = 0): void {
+	let position = 0;
+	for (const [start, end] of result.matches) {
+		const from = start + offset;
+		const to = end + offset;
+		if (from < position || from >= text.length) continue;
+		el.appendText(text.slice(position, from));
+		el.createSpan({ cls: 'suggestion-highlight', text: text.slice(from, to) });
+		position = to;
+	}
+	el.appendText(text.slice(position));
+}
+
+/** The icon name is kept in `data-icon`, so tests can check it */
+export function setIcon(el: HTMLElement, icon: string): void {
+	el.empty();
+	el.setAttr('data-icon', icon);
+	el.createSpan({ cls: `svg-icon lucide-${icon}` });
+}
+
+export function addIcon(_id: string, _svg: string): void {
+	// Custom icons are not rendered in tests
+}
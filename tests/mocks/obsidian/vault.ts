@@ -0,0 +1,307 @@
+import { EventRef, Events } from './events';
+import { normalizePath } from './utils';
+
+export interface FileStats {
+	ctime: number;
+	mtime: number;
+	size: number;
+}
+
+function getParentPath(path: string): string {
+	const index = path.lastIndexOf('/');
+	return index === -1 ? '' : path.slice(0, index);
+}
+
+export abstract class TAbstractFile {
+	vault: Vault;
+	path = '';
+	name = '';
+	parent: TFolder | null = null;
+
+	constructor(vault: Vault, path: string) {
+		this.vault = vault;
+		this.setPath(path);
+	}
+
+	setPath(path: string): void {
+		this.path = path;
+		this.name = path.split('/').pop() ?? '';
+	}
+}
+
+export class TFile extends TAbstractFile {
+	stat: FileStats = { ctime: 0, mtime: 0, size: 0 };
+
+	get basename(): string {
+		const dot = this.name.lastIndexOf('.');
+		return dot > 0 ? this.name.slice(0, dot) : this.name;
+	}
+
+	get extension(): string {
+		const dot = this.name.lastIndexOf('.');
+		return dot > 0 ? this.name.slice(dot + 1) : '';
+	}
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = [];
+
+	isRoot(): boolean {
+		return this.path === '/';
+	}
+}
+
+/**
+ * Files of the vault, including the configuration folder, kept in memory
+ */
+export class InMemoryAdapter {
+	files = new Map<string, { content: string; stat: FileStats }>();
+	folders = new Set<string>(['']);
+
+	constructor(private name = 'Test vault') {}
+
+	getName(): string {
+		return this.name;
+	}
+
+	async exists(path: string, sensitive = true): Promise<boolean> {
+		const normalized = normalizePath(path);
+		const matches = (candidate: string) => sensitive ? candidate === normalized : candidate.toLowerCase() === normalized.toLowerCase();
+		return [...this.files.keys(), ...this.folders].some(matches);
+	}
+
+	async read(path: string): Promise<string> {
+		const file = this.files.get(normalizePath(path));
+		if (!file) throw new Error(`ENOENT: no such file, open '${path}'`);
+		return file.content;
+	}
+
+	async write(path: string, content: string): Promise<void> {
+		const normalized = normalizePath(path);
+		await this.mkdir(getParentPath(normalized));
+		const now = Date.now();
+		const ctime = this.files.get(normalized)?.stat.ctime ?? now;
+		this.files.set(normalized, { content, stat: { ctime, mtime: now, size: content.length } });
+	}
+
+	async mkdir(path: string): Promise<void> {
+		const segments = normalizePath(path).split('/').filter(Boolean);
+		segments.forEach((_, index) => this.folders.add(segments.slice(0, index + 1).join('/')));
+	}
+
+	async list(path: string): Promise<{ files: string[]; folders: string[] }> {
+		const folder = normalizePath(path);
+		const isChild = (candidate: string) => candidate !== '' && candidate !== folder && getParentPath(candidate) === (folder === '/' ? '' : folder);
+		return { files: [...this.files.keys()].filter(isChild), folders: [...this.folders].filter(isChild) };
+	}
+
+	async remove(path: string): Promise<void> {
+		this.files.delete(normalizePath(path));
+	}
+
+	async rename(path: string, newPath: string): Promise<void> {
+		const from = normalizePath(path);
+		const to = normalizePath(newPath);
+		await this.mkdir(getParentPath(to));
+		for (const [filePath, file] of [...this.files]) {
+			if (filePath === from || filePath.startsWith(from + '/')) {
+				this.files.delete(filePath);
+				this.files.set(to + filePath.slice(from.length), file);
+			}
+		}
+		for (const folder of [...this.folders]) {
+			if (folder === from || folder.startsWith(from + '/')) {
+				this.folders.delete(folder);
+				this.folders.add(to + folder.slice(from.length));
+			}
+		}
+	}
+
+	async stat(path: string): Promise<FileStats & { type: 'file' | 'folder' } | null> {
+		const normalized = normalizePath(path);
+		const file = this.files.get(normalized);
+		if (file) return { type: 'file', ...file.stat };
+		return this.folders.has(normalized) ? { type: 'folder', ctime: 0, mtime: 0, size: 0 } : null;
+	}
+}
+
+/** Only for instanceof checks: the in-memory adapter is not a file system adapter */
+export class FileSystemAdapter {
+	getBasePath(): string {
+		return '';
+	}
+}
+
+/**
+ * Vault backed by an InMemoryAdapter. Events are triggered synchronously once each change is done.
+ */
+export class Vault extends Events {
+	adapter = new InMemoryAdapter();
+	configDir = '.obsidian';
+	private root: TFolder;
+	private fileMap = new Map<string, TAbstractFile>();
+
+	constructor() {
+		super();
+		this.root = new TFolder(this, '/');
+		this.root.name = '';
+		this.fileMap.set('/', this.root);
+	}
+
+	on(name: 'create' | 'modify' | 'delete', callback: (file: TAbstractFile) => unknown, ctx?: unknown): EventRef;
+	on(name: 'rename', callback: (file: TAbstractFile, oldPath: string) => unknown, ctx?: unknown): EventRef;
+	on(name: string, callback: (...data: never[]) => unknown, ctx?: unknown): EventRef {
+		return super.on(name, callback, ctx);
+	}
+
+	getName(): string {
+		return this.adapter.getName();
+	}
+
+	getRoot(): TFolder {
+		return this.root;
+	}
+
+	getAbstractFileByPath(path: string): TAbstractFile | null {
+		return this.fileMap.get(normalizePath(path)) ?? null;
+	}
+
+	getFileByPath(path: string): TFile | null {
+		const file = this.getAbstractFileByPath(path);
+		return file instanceof TFile ? file : null;
+	}
+
+	getFolderByPath(path: string): TFolder | null {
+		const folder = this.getAbstractFileByPath(path);
+		return folder instanceof TFolder ? folder : null;
+	}
+
+	getAllLoadedFiles(): TAbstractFile[] {
+		return [...this.fileMap.values()];
+	}
+
+	getFiles(): TFile[] {
+		return this.getAllLoadedFiles().filter((file): file is TFile => file instanceof TFile);
+	}
+
+	getMarkdownFiles(): TFile[] {
+		return this.getFiles().filter(file => file.extension === 'md');
+	}
+
+	async create(path: string, data: string): Promise<TFile> {
+		const normalized = normalizePath(path);
+		if (this.fileMap.has(normalized) || await this.adapter.exists(normalized, false)) throw new Error('File already exists.');
+		const parent = await this.createFolders(getParentPath(normalized));
+		await this.adapter.write(normalized, data);
+		const file = new TFile(this, normalized);
+		this.attach(file, parent);
+		this.updateStat(file);
+		this.trigger('create', file);
+		return file;
+	}
+
+	async createFolder(path: string): Promise<TFolder> {
+		const normalized = normalizePath(path);
+		if (this.fileMap.has(normalized)) throw new Error('Folder already exists.');
+		return this.createFolders(normalized);
+	}
+
+	async read(file: TFile): Promise<string> {
+		return this.adapter.read(file.path);
+	}
+
+	async cachedRead(file: TFile): Promise<string> {
+		return this.read(file);
+	}
+
+	async modify(file: TFile, data: string): Promise<void> {
+		await this.adapter.write(file.path, data);
+		this.updateStat(file);
+		this.trigger('modify', file);
+	}
+
+	async append(file: TFile, data: string): Promise<void> {
+		await this.modify(file, await this.read(file) + data);
+	}
+
+	async process(file: TFile, fn: (data: string) => string): Promise<string> {
+		const data = fn(await this.read(file));
+		await this.modify(file, data);
+		return data;
+	}
+
+	async delete(file: TAbstractFile): Promise<void> {
+		if (file instanceof TFolder) {
+			for (const child of [...file.children]) await this.delete(child);
+			this.adapter.folders.delete(file.path);
+		} else {
+			await this.adapter.remove(file.path);
+		}
+		this.detach(file);
+		this.trigger('delete', file);
+	}
+
+	async trash(file: TAbstractFile): Promise<void> {
+		await this.delete(file);
+	}
+
+	async rename(file: TAbstractFile, newPath: string): Promise<void> {
+		const normalized = normalizePath(newPath);
+		const existing = this.fileMap.get(normalized);
+		if (existing && existing !== file) throw new Error('Destination file already exists!');
+		const oldPath = file.path;
+		await this.adapter.rename(oldPath, normalized);
+		const parent = await this.createFolders(getParentPath(normalized));
+		const moved = [file, ...(file instanceof TFolder ? this.getDescendants(file) : [])];
+		moved.forEach(item => this.fileMap.delete(item.path));
+		file.parent?.children.splice(file.parent.children.indexOf(file), 1);
+		moved.forEach(item => {
+			item.setPath(normalized + item.path.slice(oldPath.length));
+			this.fileMap.set(item.path, item);
+		});
+		file.parent = parent;
+		parent.children.push(file);
+		this.trigger('rename', file, oldPath);
+	}
+
+	private getDescendants(folder: TFolder): TAbstractFile[] {
+		return folder.children.flatMap(child => [child, ...(child instanceof TFolder ? this.getDescendants(child) : [])]);
+	}
+
+	/** Folders of the vault are created as needed, like on a file system */
+	private async createFolders(path: string): Promise<TFolder> {
+		let parent = this.root;
+		const segments = path.split('/').filter(Boolean);
+		for (let index = 0; index < segments.length; index++) {
+			const folderPath = segments.slice(0, index + 1).join('/');
+			const existing = this.fileMap.get(folderPath);
+			if (existing instanceof TFolder) {
+				parent = existing;
+				continue;
+			}
+			if (existing) throw new Error(`${folderPath} is a file`);
+			await this.adapter.mkdir(folderPath);
+			const folder = new TFolder(this, folderPath);
+			this.attach(folder, parent);
+			this.trigger('create', folder);
+			parent = folder;
+		}
+		return parent;
+	}
+
+	private attach(file: TAbstractFile, parent: TFolder): void {
+		file.parent = parent;
+		parent.children.push(file);
+		this.fileMap.set(file.path, file);
+	}
+
+	private detach(file: TAbstractFile): void {
+		file.parent?.children.splice(file.parent.children.indexOf(file), 1);
+		this.fileMap.delete(file.path);
+	}
+
+	private updateStat(file: TFile): void {
+		const stored = this.adapter.files.get(file.path);
+		if (stored) file.stat = { ...stored.stat };
+	}
+}
@@ -0,0 +1,297 @@
+import type { App } from './app';
+import { Editor } from './editor';
+import { Component, Events } from './events';
+import { debounce } from './utils';
+import { TFile } from './vault';
+
+export interface ViewState {
+	type: string;
+	state?: Record<string, unknown>;
+	active?: boolean;
+}
+
+export interface ViewStateResult {
+	history: boolean;
+}
+
+export type ViewCreator = (leaf: WorkspaceLeaf) => View;
+
+export type LeafLocation = 'main' | 'left' | 'right';
+
+export abstract class View extends Component {
+	app: App;
+	leaf: WorkspaceLeaf;
+	containerEl: HTMLElement;
+	icon = '';
+	navigation = false;
+
+	constructor(leaf: WorkspaceLeaf) {
+		super();
+		this.leaf = leaf;
+		this.app = leaf.app;
+		this.containerEl = createDiv('workspace-leaf-content');
+	}
+
+	abstract getViewType(): string;
+
+	getDisplayText(): string {
+		return this.getViewType();
+	}
+
+	getIcon(): string {
+		return this.icon;
+	}
+
+	async onOpen(): Promise<void> {
+		// Implemented by subclasses
+	}
+
+	async onClose(): Promise<void> {
+		// Implemented by subclasses
+	}
+
+	getState(): Record<string, unknown> {
+		return {};
+	}
+
+	async setState(_state: unknown, _result: ViewStateResult): Promise<void> {
+		// Implemented by subclasses
+	}
+}
+
+export abstract class ItemView extends View {
+	contentEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+		this.containerEl.createDiv('view-header');
+		this.contentEl = this.containerEl.createDiv('view-content');
+	}
+}
+
+export class EmptyView extends ItemView {
+	getViewType(): string {
+		return 'empty';
+	}
+}
+
+export abstract class FileView extends ItemView {
+	file: TFile | null = null;
+	navigation = true;
+
+	getState(): Record<string, unknown> {
+		return { file: this.file?.path ?? null };
+	}
+
+	async setState(state: unknown, _result: ViewStateResult): Promise<void> {
+		const path = typeof state === 'object' && state !== null ? Reflect.get(state, 'file') : null;
+		const file = typeof path === 'string' ? this.app.vault.getFileByPath(path) : null;
+		if (file) await this.onLoadFile(file);
+	}
+
+	async onLoadFile(file: TFile): Promise<void> {
+		this.file = file;
+	}
+}
+
+/**
+ * Markdown note in source mode. Edits are saved to the vault right away and trigger `editor-change`.
+ */
+export class MarkdownView extends FileView {
+	editor = new Editor();
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+		this.editor.onChange = () => {
+			this.app.workspace.trigger('editor-change', this.editor, this);
+			if (this.file) void this.app.vault.modify(this.file, this.editor.getValue());
+		};
+	}
+
+	getViewType(): string {
+		return 'markdown';
+	}
+
+	getDisplayText(): string {
+		return this.file?.basename ?? '';
+	}
+
+	getMode(): 'source' | 'preview' {
+		return 'source';
+	}
+
+	getViewData(): string {
+		return this.editor.getValue();
+	}
+
+	async onLoadFile(file: TFile): Promise<void> {
+		await super.onLoadFile(file);
+		const onChange = this.editor.onChange;
+		this.editor.onChange = null;
+		this.editor.setValue(await this.app.vault.read(file));
+		this.editor.onChange = onChange;
+	}
+}
+
+export class WorkspaceLeaf extends Events {
+	view: View;
+
+	constructor(public app: App, public location: LeafLocation = 'main') {
+		super();
+		this.view = new EmptyView(this);
+	}
+
+	getViewState(): ViewState {
+		return { type: this.view.getViewType(), state: this.view.getState() };
+	}
+
+	async setViewState(viewState: ViewState): Promise<void> {
+		if (viewState.type !== this.view.getViewType()) {
+			await this.closeView();
+			this.view = this.app.workspace.createView(viewState.type, this);
+			this.view.load();
+			await this.view.onOpen();
+		}
+		await this.view.setState(viewState.state ?? {}, { history: false });
+		if (viewState.active) this.app.workspace.setActiveLeaf(this);
+		this.app.workspace.trigger('layout-change');
+	}
+
+	async openFile(file: TFile, openState?: { active?: boolean }): Promise<void> {
+		const type = file.extension === 'md' ? 'markdown' : file.extension;
+		await this.setViewState({ type, state: { file: file.path }, active: openState?.active ?? true });
+		this.app.workspace.trigger('file-open', file);
+	}
+
+	getDisplayText(): string {
+		return this.view.getDisplayText();
+	}
+
+	detach(): void {
+		void this.closeView();
+		this.app.workspace.removeLeaf(this);
+	}
+
+	private async closeView() {
+		await this.view.onClose();
+		this.view.unload();
+	}
+}
+
+export class Workspace extends Events {
+	private workspaceEl: HTMLElement | null = null;
+	activeLeaf: WorkspaceLeaf | null = null;
+	layoutReady = false;
+	requestSaveLayout = debounce(() => this.trigger('layout-saved'), 2000, true);
+	private leaves: WorkspaceLeaf[] = [];
+	private viewCreators = new Map<string, ViewCreator>([['markdown', leaf => new MarkdownView(leaf)]]);
+	private layoutReadyCallbacks: (() => unknown)[] = [];
+	private lastActiveFile: TFile | null = null;
+
+	constructor(private app: App) {
+		super();
+	}
+
+	/** Created on first use, so that apps without views also work in the node test environment */
+	get containerEl(): HTMLElement {
+		this.workspaceEl ??= createDiv('workspace');
+		return this.workspaceEl;
+	}
+
+	get activeEditor(): { editor: Editor; file: TFile | null } | null {
+		const view = this.getActiveViewOfType(MarkdownView);
+		return view ? { editor: view.editor, file: view.file } : null;
+	}
+
+	onLayoutReady(callback: () => unknown): void {
+		if (this.layoutReady) callback();
+		else this.layoutReadyCallbacks.push(callback);
+	}
+
+	/** Run the callbacks waiting for the layout, like Obsidian does once the vault is indexed */
+	setLayoutReady(): void {
+		this.layoutReady = true;
+		const callbacks = this.layoutReadyCallbacks;
+		this.layoutReadyCallbacks = [];
+		callbacks.forEach(callback => callback());
+		this.trigger('layout-ready');
+	}
+
+	registerViewType(type: string, creator: ViewCreator): void {
+		if (this.viewCreators.has(type)) throw new Error(`Attempting to register an existing view type "${type}"`);
+		this.viewCreators.set(type, creator);
+	}
+
+	unregisterViewType(type: string): void {
+		this.detachLeavesOfType(type);
+		this.viewCreators.delete(type);
+	}
+
+	/** Not in the API: registered view types */
+	getViewTypes(): string[] {
+		return [...this.viewCreators.keys()];
+	}
+
+	createView(type: string, leaf: WorkspaceLeaf): View {
+		const creator = this.viewCreators.get(type);
+		return creator ? creator(leaf) : new EmptyView(leaf);
+	}
+
+	getLeaf(newLeaf?: boolean | 'tab' | 'split' | 'window'): WorkspaceLeaf {
+		const current = this.activeLeaf?.location === 'main' ? this.activeLeaf : this.leaves.find(leaf => leaf.location === 'main');
+		return !newLeaf && current ? current : this.addLeaf('main');
+	}
+
+	getRightLeaf(_split: boolean): WorkspaceLeaf {
+		return this.addLeaf('right');
+	}
+
+	getLeftLeaf(_split: boolean): WorkspaceLeaf {
+		return this.addLeaf('left');
+	}
+
+	getLeavesOfType(type: string): WorkspaceLeaf[] {
+		return this.leaves.filter(leaf => leaf.view.getViewType() === type);
+	}
+
+	detachLeavesOfType(type: string): void {
+		this.getLeavesOfType(type).forEach(leaf => leaf.detach());
+	}
+
+	iterateAllLeaves(callback: (leaf: WorkspaceLeaf) => unknown): void {
+		[...this.leaves].forEach(callback);
+	}
+
+	getActiveViewOfType<T extends View>(type: abstract new (...args: never[]) => T): T | null {
+		const view = this.activeLeaf?.view;
+		return view instanceof type ? view : null;
+	}
+
+	getActiveFile(): TFile | null {
+		const view = this.activeLeaf?.view;
+		return view instanceof FileView ? view.file : this.lastActiveFile;
+	}
+
+	setActiveLeaf(leaf: WorkspaceLeaf, _params?: { focus?: boolean }): void {
+		if (this.activeLeaf === leaf) return;
+		this.activeLeaf = leaf;
+		if (leaf.view instanceof FileView) this.lastActiveFile = leaf.view.file;
+		this.trigger('active-leaf-change', leaf);
+	}
+
+	async revealLeaf(_leaf: WorkspaceLeaf): Promise<void> {
+		// Sidebars are always expanded
+	}
+
+	removeLeaf(leaf: WorkspaceLeaf): void {
+		this.leaves = this.leaves.filter(current => current !== leaf);
+		if (this.activeLeaf === leaf) this.activeLeaf = this.leaves.find(current => current.location === 'main') ?? null;
+		this.trigger('layout-change');
+	}
+
+	private addLeaf(location: LeafLocation): WorkspaceLeaf {
+		const leaf = new WorkspaceLeaf(this.app, location);
+		this.leaves.push(leaf);
+		return leaf;
+	}
+}
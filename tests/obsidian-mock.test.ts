@@ -0,0 +1,118 @@
+import { App } from './mocks/obsidian/app';
+import { Editor } from './mocks/obsidian/editor';
+import { TFile, TFolder } from './mocks/obsidian/vault';
+
+describe('obsidian mock', () => {
+	describe('Vault', () => {
+		it('should create the missing parent folders of a file', async () => {
+			const { vault } = new App();
+			const file = await vault.create('projects/api/auth.md', '');
+
+			expect(file.basename).toBe('auth');
+			expect(file.parent?.path).toBe('projects/api');
+			expect(vault.getFolderByPath('projects')?.children.map(child => child.path)).toEqual(['projects/api']);
+			await expect(vault.create('projects/api/auth.md', '')).rejects.toThrow();
+		});
+
+		it('should trigger events when files change', async () => {
+			const { vault } = new App();
+			const events: string[] = [];
+			vault.on('create', file => events.push(`create ${file.path}`));
+			vault.on('modify', file => events.push(`modify ${file.path}`));
+			vault.on('rename', (file, oldPath) => events.push(`rename ${oldPath} ${file.path}`));
+			vault.on('delete', file => events.push(`delete ${file.path}`));
+
+			const file = await vault.create('a.md', 'a');
+			await vault.append(file, 'b');
+			await vault.rename(file, 'b.md');
+			await vault.delete(file);
+
+			expect(events).toEqual(['create a.md', 'modify a.md', 'rename a.md b.md', 'delete b.md']);
+		});
+
+		it('should move the files of a renamed folder', async () => {
+			const { vault } = new App();
+			const file = await vault.create('old/note.md', 'content');
+			const folder = vault.getAbstractFileByPath('old');
+			if (!(folder instanceof TFolder)) throw new Error('missing folder');
+
+			await vault.rename(folder, 'new');
+
+			expect(file.path).toBe('new/note.md');
+			expect(vault.getAbstractFileByPath('old/note.md')).toBeNull();
+			expect(await vault.read(file)).toBe('content');
+		});
+	});
+
+	describe('MetadataCache', () => {
+		it('should parse the frontmatter, headings, links and tags of notes', async () => {
+			const { vault, metadataCache } = new App();
+			const file = await vault.create('note.md', '---\ntitle: Note\ntags: [a, b]\n---\n# Heading\nSee [[other#part|alias]] #todo');
+
+			const cache = metadataCache.getFileCache(file);
+			expect(cache?.frontmatter).toEqual({ title: 'Note', tags: ['a', 'b'] });
+			expect(cache?.headings?.map(heading => heading.heading)).toEqual(['Heading']);
+			expect(cache?.links?.map(({ link, displayText }) => ({ link, displayText }))).toEqual([{ link: 'other#part', displayText: 'alias' }]);
+			expect(cache?.tags?.map(tag => tag.tag)).toEqual(['#todo']);
+		});
+
+		it('should resolve links once their target exists', async () => {
+			const { vault, metadataCache } = new App();
+			const source = await vault.create('source.md', '[[target]]');
+			expect(metadataCache.unresolvedLinks[source.path]).toEqual({ target: 1 });
+
+			const target = await vault.create('folder/target.md', '');
+			await vault.modify(source, '[[target]]');
+
+			expect(metadataCache.resolvedLinks[source.path]).toEqual({ 'folder/target.md': 1 });
+			expect(metadataCache.getFirstLinkpathDest('target', source.path)).toBe(target);
+		});
+	});
+
+	describe('FileManager', () => {
+		it('should update the links to a renamed note', async () => {
+			const { vault, fileManager } = new App();
+			const target = await vault.create('target.md', '');
+			const source = await vault.create('source.md', 'See [[target]] and [[target#part|alias]]');
+
+			await fileManager.renameFile(target, 'renamed.md');
+
+			expect(await vault.read(source)).toBe('See [[renamed]] and [[renamed#part|alias]]');
+		});
+
+		it('should update the frontmatter of a note', async () => {
+			const { vault, fileManager } = new App();
+			const file = await vault.create('note.md', 'Body');
+
+			await fileManager.processFrontMatter(file, frontmatter => {
+				frontmatter.status = 'done';
+			});
+
+			expect(await vault.read(file)).toBe('---\nstatus: done\n---\nBody');
+			expect(file).toBeInstanceOf(TFile);
+		});
+	});
+
+	describe('Editor', () => {
+		it('should apply a transaction to every selection as a single undo step', () => {
+			const editor = new Editor('one two three');
+			editor.setSelections([
+				{ anchor: { line: 0, ch: 0 }, head: { line: 0, ch: 3 } },
+				{ anchor: { line: 0, ch: 8 }, head: { line: 0, ch: 13 } },
+			]);
+
+			editor.transaction({ replaceSelection: 'x' });
+			expect(editor.getValue()).toBe('x two x');
+			expect(editor.getHistoryLength()).toBe(1);
+
+			editor.undo();
+			expect(editor.getValue()).toBe('one two three');
+		});
+
+		it('should map positions and offsets across lines', () => {
+			const editor = new Editor('ab\ncd');
+			expect(editor.posToOffset({ line: 1, ch: 1 })).toBe(4);
+			expect(editor.offsetToPos(3)).toEqual({ line: 1, ch: 0 });
+		});
+	});
+});
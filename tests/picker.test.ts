@@ -0,0 +1,52 @@
+import { SearchResult } from 'obsidian';
+import { addRecentKeys, rankItems } from '../src/picker/ranking';
+
+const identity = (item: string) => item;
+
+// Stand-in for prepareFuzzySearch: matches substrings, earlier matches score better
+function substringMatch(query: string): (text: string) => SearchResult | null {
+	return text => {
+		const index = text.indexOf(query);
+		return index === -1 ? null : { score: -index, matches: [[index, index + query.length]] };
+	};
+}
+
+describe('picker', () => {
+	describe('rankItems', () => {
+		const items = ['alpha', 'beta', 'gamma', 'delta'];
+
+		it('should list recently used items first without query', () => {
+			const ranked = rankItems(items, identity, identity, null, ['gamma', 'beta', 'missing']);
+			expect(ranked.map(entry => entry.item)).toEqual(['gamma', 'beta', 'alpha', 'delta']);
+			expect(ranked.every(entry => entry.match === null)).toBe(true);
+		});
+
+		it('should keep matching items only, best score first', () => {
+			const ranked = rankItems(items, identity, identity, substringMatch('ta'), []);
+			expect(ranked.map(entry => entry.item)).toEqual(['beta', 'delta']);
+			expect(ranked[0].match).toEqual({ score: -2, matches: [[2, 4]] });
+		});
+
+		it('should rank recently used items first among equal scores', () => {
+			const ranked = rankItems(['a1', 'a2', 'a3'], identity, identity, substringMatch('a'), ['a3']);
+			expect(ranked.map(entry => entry.item)).toEqual(['a3', 'a1', 'a2']);
+		});
+
+		it('should search the text and remember the key of items', () => {
+			const files = [{ path: 'notes/a.md', title: 'Alpha' }, { path: 'b.md', title: 'Beta' }];
+			const ranked = rankItems(files, file => file.path, file => file.title, null, ['b.md']);
+			expect(ranked.map(entry => entry.item.title)).toEqual(['Beta', 'Alpha']);
+			expect(rankItems(files, file => file.path, file => file.title, substringMatch('Al'), [])).toHaveLength(1);
+		});
+	});
+
+	describe('addRecentKeys', () => {
+		it('should move picked keys to the front without duplicates', () => {
+			expect(addRecentKeys(['a', 'b', 'c'], ['c', 'd', 'c'])).toEqual(['c', 'd', 'a', 'b']);
+		});
+
+		it('should forget the oldest keys beyond the limit', () => {
+			expect(addRecentKeys(['a', 'b', 'c'], ['d'], 3)).toEqual(['d', 'a', 'b']);
+		});
+	});
+});
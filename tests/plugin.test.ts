@@ -0,0 +1,219 @@
+/**
+ * @jest-environment jsdom
+ */
+import manifest from '../manifest.json';
+import { promptNoteName } from '../src/hierarchy/NoteNameModal';
+import { validateNoteName } from '../src/hierarchy/notes';
+import ObsidianSamplePlugin from '../src/main';
+import { VIEW_TYPE_VAULT_LIST } from '../src/views/types';
+import { App, loadPlugin } from './mocks/obsidian/app';
+import { getOpenModals, SuggestModal } from './mocks/obsidian/modal';
+import { clearNotices, getNotices } from './mocks/obsidian/ui';
+import { EmptyView, MarkdownView } from './mocks/obsidian/workspace';
+
+const PLUGIN_DIR = `.obsidian/plugins/${manifest.id}`;
+
+function commandId(id: string): string {
+	return `${manifest.id}:${id}`;
+}
+
+/** Let pending promises settle, e.g. vault writes made by editor changes */
+function flush(): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('ObsidianSamplePlugin', () => {
+	let app: App;
+	let plugin: ObsidianSamplePlugin;
+
+	beforeEach(async () => {
+		app = new App();
+		await app.vault.create('project.api.md', '# API\n\nhello world');
+		await app.vault.create('project.md', 'See [[project.api]]');
+		app.workspace.setLayoutReady();
+		clearNotices();
+		plugin = await loadPlugin(ObsidianSamplePlugin, app, { ...manifest, dir: PLUGIN_DIR });
+	});
+
+	afterEach(() => {
+		jest.restoreAllMocks();
+		plugin.unload();
+		document.body.empty();
+	});
+
+	it('should register its commands, prefixed with the plugin id and name', () => {
+		const command = app.commands.commands[commandId('open-vault-list')];
+		expect(command?.name).toBe(`${manifest.name}: Open vault file list`);
+		expect(app.commands.commands[commandId('transform-uppercase')]).toBeDefined();
+	});
+
+	it('should only list editor commands while a note is open', async () => {
+		const uppercase = commandId('transform-uppercase');
+		expect(app.commands.listCommands().map(command => command.id)).not.toContain(uppercase);
+
+		const file = app.vault.getFileByPath('project.api.md');
+		if (!file) throw new Error('missing note');
+		await app.workspace.getLeaf(false).openFile(file);
+		expect(app.commands.listCommands().map(command => command.id)).toContain(uppercase);
+	});
+
+	it('should hide commands from the palette only, hotkeys still running them', async () => {
+		const file = app.vault.getFileByPath('project.api.md');
+		if (!file) throw new Error('missing note');
+		await app.workspace.getLeaf(false).openFile(file);
+		plugin.settings.commands.hidden = ['transform-uppercase'];
+
+		expect(app.commands.listCommands().map(command => command.id)).not.toContain(commandId('transform-uppercase'));
+		expect(app.commands.executeCommandById(commandId('transform-uppercase'))).toBe(true);
+	});
+
+	it('should let every command be hidden from the palette', () => {
+		plugin.settings.commands.hidden = ['show-logs'];
+
+		expect(app.commands.listCommands().map(command => command.id)).not.toContain(commandId('show-logs'));
+		expect(app.commands.listCommands().map(command => command.id)).toContain(commandId('copy-logs'));
+	});
+
+	it('should transform the selection of the active note and save it', async () => {
+		const file = app.vault.getFileByPath('project.api.md');
+		if (!file) throw new Error('missing note');
+		await app.workspace.getLeaf(false).openFile(file);
+		const view = app.workspace.getActiveViewOfType(MarkdownView);
+		view?.editor.setSelection({ line: 2, ch: 0 }, { line: 2, ch: 5 });
+
+		expect(app.commands.executeCommandById(commandId('transform-uppercase'))).toBe(true);
+		await flush();
+
+		expect(view?.editor.getLine(2)).toBe('HELLO world');
+		expect(await app.vault.read(file)).toBe('# API\n\nHELLO world');
+	});
+
+	it('should open a note picked in the picker modal', async () => {
+		app.commands.executeCommandById(commandId('open-note'));
+		const [modal] = getOpenModals();
+		if (!(modal instanceof SuggestModal)) throw new Error('the picker is not open');
+		modal.inputEl.value = 'api';
+		await modal.updateSuggestions();
+		modal.selectActiveSuggestion(new KeyboardEvent('keydown', { key: 'Enter' }));
+		await flush();
+
+		expect(getOpenModals()).toHaveLength(0);
+		expect(app.workspace.getActiveFile()?.path).toBe('project.api.md');
+	});
+
+	it('should insert the links to the notes checked in the picker with its confirm button', async () => {
+		const file = app.vault.getFileByPath('project.md');
+		if (!file) throw new Error('missing note');
+		await app.workspace.getLeaf(false).openFile(file);
+		app.commands.executeCommandById(commandId('insert-note-links'));
+		const [modal] = getOpenModals();
+		if (!(modal instanceof SuggestModal)) throw new Error('the picker is not open');
+		modal.inputEl.value = 'api';
+		await modal.updateSuggestions();
+		modal.selectActiveSuggestion(new KeyboardEvent('keydown', { key: 'Enter' }));
+
+		modal.modalEl.querySelector<HTMLButtonElement>('.picker-footer button')?.click();
+		await flush();
+
+		expect(getOpenModals()).toHaveLength(0);
+		expect(app.workspace.getActiveViewOfType(MarkdownView)?.editor.getValue().match(/\[\[project\.api\]\]/g)).toHaveLength(2);
+	});
+
+	it('should disable the commands of deleted macros when commands cannot be removed', () => {
+		// Plugin#removeCommand() doesn't exist before Obsidian 1.7.2
+		Object.defineProperty(plugin, 'removeCommand', { value: undefined });
+		plugin.settings.macros = [{ name: 'Shout', transforms: ['uppercase'] }];
+		plugin.applySettings();
+		expect(app.commands.commands[commandId('macro-0')]?.name).toBe(`${manifest.name}: Run macro Shout`);
+
+		plugin.settings.macros = [];
+		plugin.applySettings();
+
+		expect(app.commands.commands[commandId('macro-0')]?.checkCallback?.(true)).toBe(false);
+	});
+
+	it('should ask for note names in a form, showing the parent name', async () => {
+		const name = promptNoteName(plugin.app, { title: 'New note under project', prefix: 'project.', validate: validateNoteName });
+		const [modal] = getOpenModals();
+		const input = modal.contentEl.querySelector('input');
+		if (!input) throw new Error('no name input');
+		expect(modal.contentEl.querySelector('.form-modal-prefix')?.textContent).toBe('project.');
+
+		input.value = ' api ';
+		input.dispatchEvent(new Event('input'));
+		input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+
+		expect(await name).toBe('api');
+		expect(getOpenModals()).toHaveLength(0);
+	});
+
+	it('should render its settings tab and save the edited settings', async () => {
+		app.setting.open();
+		const tab = app.setting.openTabById(manifest.id);
+		const toggle = tab?.containerEl.querySelector('.checkbox-container');
+		expect(tab?.containerEl.querySelectorAll('.setting-item').length).toBeGreaterThan(0);
+		if (!(toggle instanceof HTMLElement)) throw new Error('no toggle in the settings tab');
+
+		toggle.click();
+		plugin.requestSave.run();
+		await flush();
+
+		expect(await app.vault.adapter.exists(`${PLUGIN_DIR}/data.json`)).toBe(true);
+	});
+
+	it('should show a notice when saving the settings fails', async () => {
+		jest.spyOn(console, 'error').mockImplementation(() => undefined);
+		jest.spyOn(plugin, 'saveData').mockRejectedValueOnce(new Error('disk full'));
+
+		plugin.requestSave();
+		plugin.requestSave.run();
+		await flush();
+
+		expect(getNotices()).toEqual(['Could not save the settings: disk full']);
+	});
+
+	it('should show a notice when the settings export fails', async () => {
+		jest.spyOn(app.vault, 'create').mockRejectedValueOnce(new Error('disk full'));
+
+		expect(app.commands.executeCommandById(commandId('export-settings-note'))).toBe(true);
+		await flush();
+
+		expect(getNotices()).toEqual(['Could not export settings: disk full']);
+	});
+
+	it('should refuse to import settings written by a newer version of the plugin', async () => {
+		const exported = JSON.stringify({ plugin: manifest.id, settings: { ...plugin.storedSettings, schemaVersion: 99 } });
+		jest.spyOn(HTMLInputElement.prototype, 'click').mockImplementationOnce(function (this: HTMLInputElement) {
+			Object.defineProperty(this, 'files', { value: { item: () => ({ name: 'settings.json', text: async () => exported }) } });
+			this.dispatchEvent(new Event('change'));
+		});
+
+		expect(app.commands.executeCommandById(commandId('import-settings'))).toBe(true);
+		await flush();
+
+		expect(getOpenModals()).toHaveLength(0);
+		expect(getNotices()).toEqual(['Could not import settings: these settings come from a newer version of the plugin, update it first']);
+		expect(plugin.storedSettings.schemaVersion).not.toBe(99);
+	});
+
+	it('should leave settings written by a newer version of the plugin untouched', async () => {
+		plugin.unload();
+		const data = JSON.stringify({ schemaVersion: 99, futureSetting: true });
+		await app.vault.adapter.write(`${PLUGIN_DIR}/data.json`, data);
+		plugin = await loadPlugin(ObsidianSamplePlugin, app, { ...manifest, dir: PLUGIN_DIR });
+
+		await plugin.saveSettings();
+
+		expect(getNotices()).toHaveLength(1);
+		expect(await app.vault.adapter.read(`${PLUGIN_DIR}/data.json`)).toBe(data);
+	});
+
+	it('should remove its commands, views and elements when unloaded', () => {
+		expect(getNotices()).toEqual([]);
+		plugin.unload();
+
+		expect(Object.keys(app.commands.commands).filter(id => id.startsWith(`${manifest.id}:`))).toEqual([]);
+		expect(app.workspace.createView(VIEW_TYPE_VAULT_LIST, app.workspace.getLeaf(false))).toBeInstanceOf(EmptyView);
+		expect(app.setting.pluginTabs).toEqual([]);
+	});
+});
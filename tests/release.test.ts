@@ -0,0 +1,76 @@
+import { bumpVersion, findStaleArtifacts, formatDiff, getReleaseChanges } from '../scripts/lib/release';
+
+describe('release', () => {
+    describe('bumpVersion', () => {
+        it('should bump the patch, minor or major version', () => {
+            expect(bumpVersion('1.2.3', 'patch')).toBe('1.2.4');
+            expect(bumpVersion('1.2.3', 'minor')).toBe('1.3.0');
+            expect(bumpVersion('1.2.3', 'major')).toBe('2.0.0');
+        });
+
+        it('should start or continue the betas of the next patch', () => {
+            expect(bumpVersion('1.2.3', 'beta')).toBe('1.2.4-beta.0');
+            expect(bumpVersion('1.2.4-beta.0', 'beta')).toBe('1.2.4-beta.1');
+            expect(bumpVersion('1.2.4-beta.1', 'patch')).toBe('1.2.5');
+        });
+
+        it('should reject invalid versions', () => {
+            expect(() => bumpVersion('next', 'patch')).toThrow('Invalid version format "next"');
+        });
+    });
+
+    describe('getReleaseChanges', () => {
+        const files = {
+            'package.json': '{\n  "name": "plugin",\n  "version": "1.0.0"\n}\n',
+            'package-lock.json': '{\n  "version": "1.0.0",\n  "packages": {\n    "": {\n      "version": "1.0.0"\n    }\n  }\n}\n',
+            'manifest.json': '{\n\t"id": "plugin",\n\t"version": "1.0.0",\n\t"minAppVersion": "1.4.0"\n}\n',
+            'versions.json': '{ "1.0.0": "1.4.0" }',
+            'beta-manifest.json': null,
+        };
+
+        it('should update the version of every file, keeping their formatting', () => {
+            const changes = getReleaseChanges(files, '1.1.0', false);
+
+            expect(changes.map(change => change.path)).toEqual(['package.json', 'package-lock.json', 'manifest.json', 'versions.json']);
+            expect(changes[0].after).toBe('{\n  "name": "plugin",\n  "version": "1.1.0"\n}\n');
+            expect(changes[1].after).toContain('      "version": "1.1.0"');
+            expect(changes[2].after).toBe('{\n\t"id": "plugin",\n\t"version": "1.1.0",\n\t"minAppVersion": "1.4.0"\n}\n');
+            expect(JSON.parse(changes[3].after)).toEqual({ '1.0.0': '1.4.0', '1.1.0': '1.4.0' });
+            expect(changes[3].after.endsWith('\n')).toBe(false);
+        });
+
+        it('should create the beta manifest of a beta release', () => {
+            const changes = getReleaseChanges({ ...files, 'package-lock.json': null }, '1.0.1-beta.0', true);
+            const betaManifest = changes.find(change => change.path === 'beta-manifest.json');
+
+            expect(changes.map(change => change.path)).not.toContain('package-lock.json');
+            expect(betaManifest?.before).toBeNull();
+            expect(JSON.parse(betaManifest?.after ?? '')).toEqual({ version: '1.0.1-beta.0', minAppVersion: '1.4.0', isBeta: true });
+        });
+
+        it('should fail when a required file is missing', () => {
+            expect(() => getReleaseChanges({ ...files, 'versions.json': null }, '1.1.0', false)).toThrow('versions.json not found');
+        });
+    });
+
+    describe('formatDiff', () => {
+        it('should only print the changed lines, with their line numbers', () => {
+            const diff = formatDiff({ path: 'a.json', before: 'a\nb\nc\nd\n', after: 'a\nB\nc\nd\ne\n' });
+
+            expect(diff).toBe('--- a.json\n+++ a.json\n@@ -2 +2 @@\n-b\n+B\n@@ -5 +5 @@\n+e');
+        });
+
+        it('should print new files as added', () => {
+            expect(formatDiff({ path: 'new.json', before: null, after: '{}\n' })).toBe('--- /dev/null\n+++ new.json\n@@ -1 +1 @@\n+{}');
+        });
+    });
+
+    describe('findStaleArtifacts', () => {
+        it('should report artifacts missing or older than the newest source', () => {
+            const sources = [{ path: 'src/a.ts', mtime: 10 }, { path: 'src/b.ts', mtime: 30 }];
+
+            expect(findStaleArtifacts(['main.js', 'styles.css'], [{ path: 'main.js', mtime: 40 }], sources)).toEqual(['styles.css']);
+            expect(findStaleArtifacts(['main.js'], [{ path: 'main.js', mtime: 20 }], sources)).toEqual(['main.js']);
+        });
+    });
+});
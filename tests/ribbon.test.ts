@@ -0,0 +1,45 @@
+import { getActionKey, moveItem } from '../src/ribbon/list';
+import { DEFAULT_SETTINGS, loadPluginSettings } from '../src/settings';
+
+describe('ribbon actions', () => {
+	describe('moveItem', () => {
+		it('should move an item down', () => {
+			expect(moveItem(['a', 'b', 'c', 'd'], 0, 2)).toEqual(['b', 'c', 'a', 'd']);
+		});
+
+		it('should move an item up', () => {
+			expect(moveItem(['a', 'b', 'c', 'd'], 3, 1)).toEqual(['a', 'd', 'b', 'c']);
+		});
+
+		it('should not modify the given list', () => {
+			const items = ['a', 'b'];
+			moveItem(items, 0, 1);
+			expect(items).toEqual(['a', 'b']);
+		});
+
+		it('should ignore out of range indexes', () => {
+			expect(moveItem(['a', 'b'], 0, 2)).toEqual(['a', 'b']);
+			expect(moveItem(['a', 'b'], -1, 0)).toEqual(['a', 'b']);
+		});
+	});
+
+	describe('getActionKey', () => {
+		it('should tell apart actions of different types with the same target', () => {
+			expect(getActionKey({ type: 'view', target: 'x' })).not.toBe(getActionKey({ type: 'command', target: 'x' }));
+		});
+
+		it('should ignore the target of the settings action', () => {
+			expect(getActionKey({ type: 'settings', target: '' })).toBe(getActionKey({ type: 'settings', target: 'other' }));
+		});
+	});
+
+	describe('settings', () => {
+		it('should drop invalid actions and keep the valid ones in order', () => {
+			const { settings } = loadPluginSettings({
+				...DEFAULT_SETTINGS,
+				ribbon: { actions: [{ type: 'command', target: 'a' }, { type: 'unknown', target: 'b' }, 'settings', { type: 'settings', target: '' }] },
+			});
+			expect(settings.ribbon.actions).toEqual([{ type: 'command', target: 'a' }, { type: 'settings', target: '' }]);
+		});
+	});
+});
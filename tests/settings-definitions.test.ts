@@ -0,0 +1,94 @@
+import { moment } from 'obsidian';
+import {
+	groupBySection,
+	isSettingVisible,
+	NumberSettingDefinition,
+	SettingDefinition,
+	TextSettingDefinition,
+	validateNumber,
+	validateText
+} from '../src/settings/definitions';
+import { getSettingValue, setSettingValue } from '../src/settings/paths';
+import en from '../src/i18n/en';
+
+interface TestSettings {
+	name: string;
+	count: number;
+	enabled: boolean;
+	nested: { color: string };
+}
+
+const settings: TestSettings = { name: 'a', count: 1, enabled: false, nested: { color: '#fff' } };
+
+describe('settings definitions', () => {
+	beforeEach(() => {
+		jest.spyOn(moment, 'locale').mockImplementation(() => 'en');
+	});
+
+	describe('setting paths', () => {
+		it('should read nested values', () => {
+			expect(getSettingValue(settings, 'nested.color')).toBe('#fff');
+			expect(getSettingValue(settings, 'nested.missing.deep')).toBeUndefined();
+		});
+
+		it('should write nested values and create missing objects', () => {
+			const target: Record<string, unknown> = { nested: { color: '#000' } };
+			setSettingValue(target, 'nested.color', '#123');
+			setSettingValue(target, 'other.value', 3);
+			expect(target).toEqual({ nested: { color: '#123' }, other: { value: 3 } });
+		});
+	});
+
+	describe('validation', () => {
+		const text: TextSettingDefinition<TestSettings> = {
+			type: 'text', path: 'name', section: 'general', nameKey: 'testKey', required: true,
+			validate: (value) => value.includes(' ') ? 'no spaces' : null
+		};
+		const num: NumberSettingDefinition<TestSettings> = {
+			type: 'number', path: 'count', section: 'general', nameKey: 'testKey', min: 0, max: 10
+		};
+
+		it('should check required text values', () => {
+			expect(validateText(text, '  ', settings)).toBe(en.settings.errors.required);
+		});
+
+		it('should run custom validators', () => {
+			expect(validateText(text, 'a b', settings)).toBe('no spaces');
+			expect(validateText(text, 'ab', settings)).toBeNull();
+		});
+
+		it('should reject numbers that cannot be parsed', () => {
+			expect(validateNumber(num, 'abc', settings).error).toBe(en.settings.errors.notANumber);
+			expect(validateNumber(num, '', settings).error).toBe(en.settings.errors.notANumber);
+		});
+
+		it('should check number ranges', () => {
+			expect(validateNumber(num, '11', settings).error).toBe('Must be at most 10');
+			expect(validateNumber(num, '-1', settings).error).toBe('Must be at least 0');
+			expect(validateNumber(num, '5', settings)).toEqual({ value: 5, error: null });
+		});
+	});
+
+	describe('layout', () => {
+		const definitions: SettingDefinition<TestSettings>[] = [
+			{ type: 'toggle', path: 'enabled', section: 'general', nameKey: 'testKey' },
+			{ type: 'color', path: 'nested.color', section: 'appearance', nameKey: 'testKey', visible: s => s.enabled },
+			{ type: 'text', path: 'name', section: 'unknown', nameKey: 'testKey' },
+		];
+
+		it('should group definitions by section in section order', () => {
+			const groups = groupBySection([
+				{ id: 'appearance', nameKey: 'testKey' },
+				{ id: 'general', nameKey: 'testKey' },
+				{ id: 'empty', nameKey: 'testKey' },
+			], definitions);
+			expect(groups.map(group => group.section.id)).toEqual(['appearance', 'general']);
+		});
+
+		it('should evaluate visibility conditions', () => {
+			expect(isSettingVisible(definitions[0], settings)).toBe(true);
+			expect(isSettingVisible(definitions[1], settings)).toBe(false);
+			expect(isSettingVisible(definitions[1], { ...settings, enabled: true })).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,137 @@
+import { DEFAULT_SETTINGS, resolveProfileSettings } from '../src/settings';
+import {
+	applyProfile,
+	createProfile,
+	deleteProfile,
+	extractOverrides,
+	resolveActiveProfile,
+	selectProfile,
+	storeProfileSettings
+} from '../src/settings/profiles';
+import { clone } from '../src/settings/transfer';
+import { ObsidianSamplePluginSettings, ProfilesSettings } from '../src/settings/types';
+
+function withProfiles(profiles: Partial<ProfilesSettings>, mySetting = 'base'): ObsidianSamplePluginSettings {
+	const settings = clone(DEFAULT_SETTINGS);
+	settings.mySetting = mySetting;
+	settings.profiles = { ...settings.profiles, ...profiles };
+	return settings;
+}
+
+describe('settings profiles', () => {
+	// Invalid overrides are logged as warnings
+	beforeEach(() => jest.spyOn(console, 'warn').mockImplementation(() => undefined));
+	afterEach(() => jest.restoreAllMocks());
+
+	const list = {
+		mobile: { overrides: { mySetting: 'from mobile' } },
+		work: { overrides: {} },
+	};
+
+	describe('resolveActiveProfile', () => {
+		it('should use the active profile', () => {
+			expect(resolveActiveProfile(withProfiles({ list, active: 'work' }).profiles, false)).toBe('work');
+		});
+
+		it('should fall back to the base settings for unknown profiles', () => {
+			expect(resolveActiveProfile(withProfiles({ list, active: 'deleted' }).profiles, false)).toBe('');
+		});
+
+		it('should pick the platform profile when automatic selection is on', () => {
+			const { profiles } = withProfiles({ list, active: 'work', autoSelect: true, mobileProfile: 'mobile' });
+			expect(resolveActiveProfile(profiles, true)).toBe('mobile');
+			// No desktop profile configured: keep the active one
+			expect(resolveActiveProfile(profiles, false)).toBe('work');
+		});
+	});
+
+	describe('applyProfile', () => {
+		it('should apply the overrides on a copy of the base settings', () => {
+			const base = withProfiles({ list });
+			const effective = applyProfile(base, 'mobile');
+			expect(effective.mySetting).toBe('from mobile');
+			expect(base.mySetting).toBe('base');
+		});
+
+		it('should ignore overrides of non overridable keys', () => {
+			const base = withProfiles({ list: { bad: { overrides: { schemaVersion: 99, 'profiles.active': 'x' } } } });
+			const effective = applyProfile(base, 'bad');
+			expect(effective.schemaVersion).toBe(base.schemaVersion);
+			expect(effective.profiles.active).toBe('');
+		});
+	});
+
+	describe('storeProfileSettings', () => {
+		it('should store edits in the base settings without an active profile', () => {
+			const base = withProfiles({ list });
+			const effective = { ...clone(base), mySetting: 'edited' };
+			expect(storeProfileSettings(base, effective, '').mySetting).toBe('edited');
+		});
+
+		it('should store edits as overrides of the active profile', () => {
+			const base = withProfiles({ list, active: 'work' });
+			const effective = applyProfile(base, 'work');
+			effective.mySetting = 'edited';
+			const stored = storeProfileSettings(base, effective, 'work');
+			expect(stored.mySetting).toBe('base');
+			expect(stored.profiles.list.work.overrides).toEqual({ mySetting: 'edited' });
+		});
+
+		it('should drop overrides that went back to the base value', () => {
+			const base = withProfiles({ list, active: 'mobile' });
+			const effective = applyProfile(base, 'mobile');
+			effective.mySetting = 'base';
+			expect(storeProfileSettings(base, effective, 'mobile').profiles.list.mobile.overrides).toEqual({});
+		});
+
+		it('should discard the values of a profile deleted while active', () => {
+			const base = withProfiles({ list, active: 'mobile' });
+			const effective = applyProfile(base, 'mobile');
+			effective.profiles = deleteProfile(effective.profiles, 'mobile');
+			const stored = storeProfileSettings(base, effective, 'mobile');
+			expect(stored.mySetting).toBe('base');
+			expect(stored.profiles.list.mobile).toBeUndefined();
+		});
+
+		it('should keep recently picked items in the base settings', () => {
+			const base = withProfiles({ list, active: 'work' });
+			const effective = applyProfile(base, 'work');
+			effective.recentItems = { 'open-note': ['a.md'] };
+			const stored = storeProfileSettings(base, effective, 'work');
+			expect(stored.recentItems).toEqual({ 'open-note': ['a.md'] });
+			expect(stored.profiles.list.work.overrides).toEqual(list.work.overrides);
+		});
+	});
+
+	describe('profile management', () => {
+		it('should create profiles with unique names', () => {
+			const profiles = withProfiles({ list }).profiles;
+			expect(Object.keys(createProfile(profiles, ' new ').list)).toEqual(['mobile', 'work', 'new']);
+			expect(createProfile(profiles, 'work')).toBe(profiles);
+			expect(createProfile(profiles, '  ')).toBe(profiles);
+		});
+
+		it('should remove every reference to a deleted profile', () => {
+			const profiles = withProfiles({ list, active: 'mobile', mobileProfile: 'mobile', desktopProfile: 'work' }).profiles;
+			expect(deleteProfile(profiles, 'mobile')).toMatchObject({ active: '', mobileProfile: '', desktopProfile: 'work' });
+		});
+
+		it('should remember the selection for the platform with automatic selection', () => {
+			const profiles = withProfiles({ list, autoSelect: true }).profiles;
+			expect(selectProfile(profiles, 'work', true)).toMatchObject({ active: 'work', mobileProfile: 'work', desktopProfile: '' });
+		});
+
+		it('should extract only overridable differences', () => {
+			expect(extractOverrides({ a: 1, schemaVersion: 1 }, { a: 2, schemaVersion: 2 })).toEqual({ a: 2 });
+		});
+	});
+
+	describe('resolveProfileSettings', () => {
+		it('should repair invalid override values', () => {
+			const stored = withProfiles({ list: { broken: { overrides: { mySetting: { nested: true } } } }, active: 'broken' });
+			const { name, settings } = resolveProfileSettings(stored, false);
+			expect(name).toBe('broken');
+			expect(settings.mySetting).toBe('base');
+		});
+	});
+});
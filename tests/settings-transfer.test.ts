@@ -0,0 +1,88 @@
+import { moment } from 'obsidian';
+import { SettingDefinition } from '../src/settings/definitions';
+import { diffSettings, parseSettingsImport, resetSection, serializeSettings, serializeSettingsNote } from '../src/settings/transfer';
+import en from '../src/i18n/en';
+
+const plugin = { id: 'test-plugin', version: '1.2.3', name: 'Test Plugin' };
+
+interface TestSettings {
+	a: string;
+	b: number;
+	nested: { c: boolean };
+}
+
+describe('settings transfer', () => {
+	beforeEach(() => {
+		jest.spyOn(moment, 'locale').mockImplementation(() => 'en');
+	});
+
+	describe('export and import', () => {
+		const settings = { a: 'x', b: 2 };
+		const now = new Date('2024-01-02T03:04:05Z');
+
+		it('should round-trip a JSON export', () => {
+			const text = serializeSettings(settings, plugin, now);
+			expect(JSON.parse(text)).toEqual({
+				plugin: 'test-plugin',
+				pluginVersion: '1.2.3',
+				exportedAt: '2024-01-02T03:04:05.000Z',
+				settings
+			});
+			expect(parseSettingsImport(text, plugin.id)).toEqual(settings);
+		});
+
+		it('should round-trip a markdown note export', () => {
+			const note = serializeSettingsNote(settings, plugin, now);
+			expect(note.startsWith('# Test Plugin settings')).toBe(true);
+			expect(parseSettingsImport(note, plugin.id)).toEqual(settings);
+		});
+
+		it('should accept a plain copy of data.json', () => {
+			expect(parseSettingsImport('{"a": "y"}', plugin.id)).toEqual({ a: 'y' });
+		});
+
+		it('should reject invalid JSON', () => {
+			expect(() => parseSettingsImport('not json', plugin.id)).toThrow(en.settings.import.invalidJson);
+			expect(() => parseSettingsImport('[1, 2]', plugin.id)).toThrow(en.settings.import.invalidJson);
+		});
+
+		it('should reject exports from another plugin', () => {
+			const text = serializeSettings(settings, { ...plugin, id: 'other' }, now);
+			expect(() => parseSettingsImport(text, plugin.id)).toThrow('another plugin (other)');
+		});
+	});
+
+	describe('diffSettings', () => {
+		it('should list changed, added and removed leaf values', () => {
+			const diff = diffSettings(
+				{ a: 'x', b: 1, nested: { c: true }, removed: 1 },
+				{ a: 'x', b: 2, nested: { c: false }, added: [1] }
+			);
+			expect(diff).toEqual([
+				{ path: 'added', before: undefined, after: [1] },
+				{ path: 'b', before: 1, after: 2 },
+				{ path: 'nested.c', before: true, after: false },
+				{ path: 'removed', before: 1, after: undefined },
+			]);
+		});
+
+		it('should return an empty diff for equal settings', () => {
+			expect(diffSettings({ a: [1, 2] }, { a: [1, 2] })).toEqual([]);
+		});
+	});
+
+	describe('resetSection', () => {
+		const defaults: TestSettings = { a: 'default', b: 0, nested: { c: false } };
+		const definitions: SettingDefinition<TestSettings>[] = [
+			{ type: 'text', path: 'a', section: 'one', nameKey: 'testKey' },
+			{ type: 'toggle', path: 'nested.c', section: 'one', nameKey: 'testKey' },
+			{ type: 'number', path: 'b', section: 'two', nameKey: 'testKey' },
+		];
+
+		it('should only reset the settings of the section', () => {
+			const current: TestSettings = { a: 'custom', b: 5, nested: { c: true } };
+			expect(resetSection(current, defaults, definitions, 'one')).toEqual({ a: 'default', b: 5, nested: { c: false } });
+			expect(current.a).toBe('custom');
+		});
+	});
+});
@@ -0,0 +1,155 @@
+import { DEFAULT_SETTINGS, loadPluginSettings, needsSave, normalizeSettings } from '../src/settings';
+import { deepMerge } from '../src/settings/merge';
+import { getSchemaVersion, runMigrations, SettingsMigration } from '../src/settings/migrations';
+import {
+	arrayField,
+	booleanField,
+	enumField,
+	numberField,
+	objectField,
+	recordField,
+	SettingsChange,
+	stringField
+} from '../src/settings/schema';
+
+describe('settings', () => {
+	// Repaired and dropped values are logged as warnings
+	beforeEach(() => jest.spyOn(console, 'warn').mockImplementation(() => undefined));
+	afterEach(() => jest.restoreAllMocks());
+
+	describe('schema fields', () => {
+		let changes: SettingsChange[];
+
+		beforeEach(() => {
+			changes = [];
+		});
+
+		it('should keep valid values untouched', () => {
+			expect(stringField().validate('abc', 'x', 'a', changes)).toBe('abc');
+			expect(numberField().validate(3, 0, 'b', changes)).toBe(3);
+			expect(booleanField().validate(false, true, 'c', changes)).toBe(false);
+			expect(changes).toHaveLength(0);
+		});
+
+		it('should repair values that can be coerced', () => {
+			expect(numberField().validate('42', 0, 'n', changes)).toBe(42);
+			expect(booleanField().validate('true', false, 'b', changes)).toBe(true);
+			expect(stringField().validate(12, '', 's', changes)).toBe('12');
+			expect(changes.map(change => change.kind)).toEqual(['repaired', 'repaired', 'repaired']);
+		});
+
+		it('should clamp and round numbers', () => {
+			const field = numberField({ min: 1, max: 10, integer: true });
+			expect(field.validate(20, 5, 'n', changes)).toBe(10);
+			expect(field.validate(-3, 5, 'n', changes)).toBe(1);
+			expect(field.validate(2.6, 5, 'n', changes)).toBe(3);
+		});
+
+		it('should fall back to the default for unusable values', () => {
+			expect(numberField().validate('abc', 7, 'n', changes)).toBe(7);
+			expect(numberField().validate(Infinity, 7, 'n', changes)).toBe(7);
+			expect(enumField(['a', 'b'] as const).validate('c', 'a', 'e', changes)).toBe('a');
+			expect(changes.every(change => change.kind === 'defaulted')).toBe(true);
+		});
+
+		it('should drop invalid array items', () => {
+			const field = arrayField(stringField(), (value): value is string => typeof value === 'string');
+			expect(field.validate(['a', 1, 'b'], [], 'list', changes)).toEqual(['a', 'b']);
+			expect(changes).toEqual([expect.objectContaining({ path: 'list.1', kind: 'dropped' })]);
+		});
+
+		it('should validate nested objects and drop unknown keys', () => {
+			const field = objectField<{ inner: { count: number } }>({
+				inner: objectField({ count: numberField() })
+			});
+			const result = field.validate({ inner: { count: 'x', extra: true } }, { inner: { count: 1 } }, '', changes);
+			expect(result).toEqual({ inner: { count: 1 } });
+			expect(changes.map(change => change.path)).toEqual(['inner.count', 'inner.extra']);
+		});
+
+		it('should validate every record entry', () => {
+			const field = recordField(numberField(), 0);
+			expect(field.validate({ a: 1, b: 'nope' }, {}, 'counts', changes)).toEqual({ a: 1, b: 0 });
+		});
+	});
+
+	describe('deepMerge', () => {
+		it('should merge nested objects without mutating inputs', () => {
+			const base = { a: 1, nested: { x: 1, y: 2 }, list: [1, 2] };
+			const merged = deepMerge(base, { nested: { y: 3 }, list: [3] });
+			expect(merged).toEqual({ a: 1, nested: { x: 1, y: 3 }, list: [3] });
+			expect(base.nested.y).toBe(2);
+		});
+	});
+
+	describe('migrations', () => {
+		const migrations: SettingsMigration[] = [
+			{ version: 2, description: 'rename', migrate: ({ oldName, ...rest }) => ({ ...rest, newName: oldName }) },
+			{ version: 1, description: 'stamp', migrate: data => data },
+		];
+
+		it('should treat data without schemaVersion as version 0', () => {
+			expect(getSchemaVersion({})).toBe(0);
+			expect(getSchemaVersion({ schemaVersion: 'x' })).toBe(0);
+		});
+
+		it('should run pending migrations in order', () => {
+			const result = runMigrations({ oldName: 'value' }, migrations);
+			expect(result.data).toEqual({ newName: 'value', schemaVersion: 2 });
+			expect(result.applied).toEqual(['v1: stamp', 'v2: rename']);
+		});
+
+		it('should skip migrations that were already applied', () => {
+			const result = runMigrations({ schemaVersion: 2, newName: 'value' }, migrations);
+			expect(result.applied).toHaveLength(0);
+		});
+
+		it('should drop the plugin id from the stored command ids', () => {
+			const { settings } = loadPluginSettings({
+				schemaVersion: 1,
+				commands: { hidden: ['obsidian-sample-plugin-transform-uppercase'], editorMenu: ['open-obsidian-sample-plugin-modal-complex'] },
+				ribbon: { actions: [{ type: 'command', target: 'obsidian-sample-plugin-show-logs' }, { type: 'settings', target: '' }] },
+				profiles: { ...DEFAULT_SETTINGS.profiles, list: { mobile: { overrides: { 'commands.hidden': ['open-obsidian-sample-plugin-modal-simple'] } } } },
+			});
+
+			expect(settings.commands).toEqual({ hidden: ['transform-uppercase'], editorMenu: ['insert-note-links'] });
+			expect(settings.ribbon.actions).toEqual([{ type: 'command', target: 'show-logs' }, { type: 'settings', target: '' }]);
+			expect(settings.profiles.list.mobile.overrides).toEqual({ 'commands.hidden': ['open-note'] });
+		});
+	});
+
+	describe('normalizeSettings', () => {
+		it('should return defaults when nothing is stored', () => {
+			const { settings, report } = loadPluginSettings(null);
+			expect(settings).toEqual(DEFAULT_SETTINGS);
+			expect(report.changes).toHaveLength(0);
+			expect(needsSave(report)).toBe(true);
+		});
+
+		it('should not require a save for up-to-date settings', () => {
+			const { settings, report } = loadPluginSettings({ ...DEFAULT_SETTINGS, mySetting: 'secret' });
+			expect(settings.mySetting).toBe('secret');
+			expect(needsSave(report)).toBe(false);
+		});
+
+		it('should repair bad values and drop unknown keys', () => {
+			const { settings, report } = loadPluginSettings({ schemaVersion: 1, mySetting: 5, legacy: true });
+			expect(settings).toEqual({ ...DEFAULT_SETTINGS, mySetting: '5' });
+			expect(report.changes.map(change => change.path)).toEqual(['mySetting', 'legacy']);
+		});
+
+		it('should not save settings written by a newer version of the plugin', () => {
+			const { settings, report } = loadPluginSettings({ ...DEFAULT_SETTINGS, schemaVersion: 99, futureSetting: true });
+			expect(settings.schemaVersion).toBe(99);
+			expect(report.readOnly).toBe(true);
+			expect(report.changes.map(change => change.path)).toEqual(['futureSetting']);
+			expect(needsSave(report)).toBe(false);
+		});
+
+		it('should discard stored data that is not an object', () => {
+			const { settings, report } = normalizeSettings('garbage', { a: 1 }, objectField({ a: numberField() }), []);
+			expect(settings).toEqual({ a: 1 });
+			expect(report.changes[0].kind).toBe('dropped');
+		});
+	});
+});
@@ -0,0 +1,62 @@
+import { countWords, getHeadingBreakdown, getTextStats, stripFrontmatter } from '../src/stats/stats';
+
+describe('note statistics', () => {
+	describe('countWords', () => {
+		it('should count words, keeping contractions and hyphenated words whole', () => {
+			expect(countWords("It's a well-known fact: 42 notes, v1.2 released.")).toBe(8);
+		});
+
+		it('should count each character of scripts written without spaces', () => {
+			expect(countWords('日本語 text')).toBe(4);
+		});
+
+		it('should ignore markdown punctuation', () => {
+			expect(countWords('# Title\n- [ ] **task** > quote')).toBe(3);
+		});
+	});
+
+	describe('getTextStats', () => {
+		it('should round the reading time up', () => {
+			const text = Array(201).fill('word').join(' ');
+			expect(getTextStats(text)).toEqual({ words: 201, characters: text.length, readingTime: 2 });
+			expect(getTextStats('')).toEqual({ words: 0, characters: 0, readingTime: 0 });
+		});
+
+		it('should count characters rather than UTF-16 units', () => {
+			expect(getTextStats('🙂🙂').characters).toBe(2);
+		});
+	});
+
+	it('should strip the frontmatter', () => {
+		expect(stripFrontmatter('---\ntags: [a]\n---\nBody')).toBe('Body');
+		expect(stripFrontmatter('Body\n---\nnot frontmatter\n---')).toBe('Body\n---\nnot frontmatter\n---');
+	});
+
+	describe('getHeadingBreakdown', () => {
+		const note = [
+			'---',
+			'title: Note',
+			'---',
+			'Intro words here',
+			'# First',
+			'one two',
+			'```',
+			'# not a heading',
+			'```',
+			'## Second ##',
+			'three',
+		].join('\n');
+
+		it('should split the note by heading with the line of each heading', () => {
+			expect(getHeadingBreakdown(note).map(({ heading, level, line, words }) => ({ heading, level, line, words }))).toEqual([
+				{ heading: '', level: 0, line: 3, words: 3 },
+				{ heading: 'First', level: 1, line: 4, words: 5 },
+				{ heading: 'Second', level: 2, line: 9, words: 1 },
+			]);
+		});
+
+		it('should omit empty content before the first heading', () => {
+			expect(getHeadingBreakdown('\n# Only\ntext').map(section => section.heading)).toEqual(['Only']);
+		});
+	});
+});
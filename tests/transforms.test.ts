@@ -0,0 +1,82 @@
+import { dedupeLines, listToTable, slugify, sortLines, toTitleCase, wrapInCallout } from '../src/transforms/builtins';
+import { getTransform, registerTransform, runTransforms } from '../src/transforms/registry';
+import { getTransformRanges } from '../src/transforms/selections';
+
+describe('transforms', () => {
+	describe('built-in transforms', () => {
+		it('should convert to title case', () => {
+			expect(toTitleCase('hello WORLD, état-civil')).toBe('Hello World, État-Civil');
+		});
+
+		it('should sort lines naturally and keep the trailing line break', () => {
+			expect(sortLines('item 10\nitem 2\nbanana\n')).toBe('banana\nitem 2\nitem 10\n');
+		});
+
+		it('should remove duplicate lines, keeping the first one', () => {
+			expect(dedupeLines('b\na\nb\na')).toBe('b\na');
+		});
+
+		it('should wrap lines in a callout', () => {
+			expect(wrapInCallout('first\n\nsecond')).toBe('> [!note]\n> first\n>\n> second');
+			expect(wrapInCallout('text', 'tip')).toBe('> [!tip]\n> text');
+		});
+
+		it('should convert a list to a table with the first item as header', () => {
+			expect(listToTable('- Name, Role\n- Ada, Engineer\n* Grace\n1. A|B, C, extra')).toBe([
+				'| Name | Role |  |',
+				'| --- | --- | --- |',
+				'| Ada | Engineer |  |',
+				'| Grace |  |  |',
+				'| A\\|B | C | extra |',
+			].join('\n'));
+		});
+
+		it('should leave text without list items unchanged', () => {
+			expect(listToTable('just text')).toBe('just text');
+		});
+
+		it('should slugify each line', () => {
+			expect(slugify('Café Déjà Vu!\n  Hello, World  ')).toBe('cafe-deja-vu\nhello-world');
+		});
+	});
+
+	describe('registry', () => {
+		it('should run transforms in order and skip unknown ones', () => {
+			jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+			expect(runTransforms('b\na\nb', ['dedupe-lines', 'unknown', 'sort-lines', 'uppercase'])).toBe('A\nB');
+			jest.restoreAllMocks();
+		});
+
+		it('should register and remove custom transforms', () => {
+			const unregister = registerTransform({ id: 'reverse', nameKey: 'transforms.uppercase', apply: text => [...text].reverse().join('') });
+			expect(runTransforms('abc', ['reverse'])).toBe('cba');
+			unregister();
+			expect(getTransform('reverse')).toBeUndefined();
+		});
+	});
+
+	describe('getTransformRanges', () => {
+		const lineLength = (line: number) => [5, 10, 3][line];
+
+		it('should order the ends of each selection', () => {
+			expect(getTransformRanges([{ anchor: { line: 1, ch: 4 }, head: { line: 0, ch: 2 } }], lineLength))
+				.toEqual([{ from: { line: 0, ch: 2 }, to: { line: 1, ch: 4 } }]);
+		});
+
+		it('should use the whole line for cursors', () => {
+			expect(getTransformRanges([{ anchor: { line: 1, ch: 3 }, head: { line: 1, ch: 3 } }], lineLength))
+				.toEqual([{ from: { line: 1, ch: 0 }, to: { line: 1, ch: 10 } }]);
+		});
+
+		it('should sort selections and merge the overlapping ones', () => {
+			expect(getTransformRanges([
+				{ anchor: { line: 2, ch: 0 }, head: { line: 2, ch: 1 } },
+				{ anchor: { line: 0, ch: 1 }, head: { line: 0, ch: 4 } },
+				{ anchor: { line: 0, ch: 2 }, head: { line: 0, ch: 2 } },
+			], lineLength)).toEqual([
+				{ from: { line: 0, ch: 0 }, to: { line: 0, ch: 5 } },
+				{ from: { line: 2, ch: 0 }, to: { line: 2, ch: 1 } },
+			]);
+		});
+	});
+});
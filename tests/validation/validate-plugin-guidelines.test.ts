@@ -0,0 +1,136 @@
+import { checkGuidelines, compareVersions, GuidelineProject, GuidelineRuleId } from '../../scripts/lib/guidelines';
+
+const manifest = {
+  id: 'test-plugin',
+  name: 'Test',
+  version: '1.0.0',
+  minAppVersion: '1.4.0',
+  authorUrl: 'https://example.com',
+};
+
+function project(source: string, overrides: Partial<GuidelineProject> = {}): GuidelineProject {
+  return {
+    manifest,
+    manifestContent: JSON.stringify(manifest, null, 2),
+    sources: [{ path: 'src/main.ts', content: source }],
+    versions: '{ "1.0.0": "1.4.0" }',
+    ...overrides,
+  };
+}
+
+function rulesOf(source: string, overrides: Partial<GuidelineProject> = {}): GuidelineRuleId[] {
+  return checkGuidelines(project(source, overrides)).map(issue => issue.rule);
+}
+
+describe('PluginValidator - Guideline Rules', () => {
+  it('should pass a project following the guidelines', () => {
+    const source = "this.addCommand({ id: 'open-view', name: 'Open view', callback: () => el.setText('ok') });";
+
+    expect(checkGuidelines(project(source))).toEqual([]);
+  });
+
+  it('should report innerHTML and outerHTML assignments with their location', () => {
+    const issues = checkGuidelines(project("const a = 1;\nel.innerHTML = html;\nel.outerHTML += html;\nif (el.innerHTML === '') {}"));
+
+    expect(issues).toEqual([
+      { rule: 'no-inner-html', severity: 'error', file: 'src/main.ts', line: 2, message: 'innerHTML assignment: build the elements with createEl() or setText() instead' },
+      { rule: 'no-inner-html', severity: 'error', file: 'src/main.ts', line: 3, message: 'outerHTML assignment: build the elements with createEl() or setText() instead' },
+    ]);
+  });
+
+  it('should ignore matches in comments', () => {
+    expect(rulesOf('// el.innerHTML = html;\n/**\n * console.log(value)\n */')).toEqual([]);
+  });
+
+  it('should report the hardcoded config folder', () => {
+    expect(rulesOf("adapter.read('.obsidian/plugins/test/data.json');")).toEqual(['no-hardcoded-config-dir']);
+    expect(rulesOf('adapter.read(`${vault.configDir}/plugins`);')).toEqual([]);
+  });
+
+  it('should warn about console.log', () => {
+    const [issue] = checkGuidelines(project('console.log(value);\nconsole.warn(value);'));
+
+    expect(issue).toMatchObject({ rule: 'no-console-log', severity: 'warning', line: 1 });
+  });
+
+  it('should report command ids containing the plugin id', () => {
+    expect(rulesOf("addCommand({ id: pluginInfos.id + '-open', name });")).toEqual(['no-plugin-id-in-command-id']);
+    expect(rulesOf('addCommand({ id: `${manifest.id}-transform-${transform.id}`, name });')).toEqual(['no-plugin-id-in-command-id']);
+    expect(rulesOf("addCommand({ id: 'open-' + pluginInfos.id + '-modal', name });")).toEqual(['no-plugin-id-in-command-id']);
+    expect(rulesOf("addCommand({ id: 'test-plugin-open', name });")).toEqual(['no-plugin-id-in-command-id']);
+    expect(rulesOf('addCommand({ id: `transform-${transform.id}`, name });')).toEqual([]);
+  });
+
+  it('should report default hotkeys', () => {
+    expect(rulesOf("addCommand({ id: 'open', hotkeys: [\n  { modifiers: ['Mod'], key: 'o' },\n] });")).toEqual(['no-default-hotkeys']);
+    expect(rulesOf("addCommand({ id: 'open', hotkeys: [] });")).toEqual([]);
+  });
+
+  it('should report inline styles, except CSS custom properties', () => {
+    expect(rulesOf("el.style.color = 'red';")).toEqual(['no-inline-styles']);
+    expect(rulesOf("el.style.setProperty('color', 'red');")).toEqual(['no-inline-styles']);
+    expect(rulesOf("el.setAttribute('style', 'color: red');")).toEqual(['no-inline-styles']);
+    expect(rulesOf('el.style.transform = `translateY(${y}px)`;\nel.style.height = \'10px\';')).toEqual(['no-inline-styles', 'no-inline-styles']);
+    expect(rulesOf("el.style.setProperty('--depth', '2');\nel.style.removeProperty('--depth');")).toEqual([]);
+  });
+
+  it('should report authorUrl and fundingUrl that are not http(s) URLs', () => {
+    const badUrls = { ...manifest, authorUrl: 'example.com', fundingUrl: 'ftp://example.com' };
+    const issues = checkGuidelines(project('', { manifest: badUrls, manifestContent: JSON.stringify(badUrls, null, 2) }));
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'authorUrl is not a valid http(s) URL: "example.com"',
+      'fundingUrl is not a valid http(s) URL: "ftp://example.com"',
+    ]);
+    expect(issues[0].line).toBe(6);
+  });
+
+  it('should report APIs more recent than minAppVersion once', () => {
+    const source = 'const file = app.vault.getFileByPath(path);\napp.vault.getFileByPath(other);\napp.workspace.activeEditor;';
+    const issues = checkGuidelines(project(source));
+
+    expect(issues).toEqual([{
+      rule: 'min-app-version',
+      severity: 'error',
+      file: 'src/main.ts',
+      line: 1,
+      message: 'Vault#getFileByPath requires Obsidian 1.5.7 but minAppVersion is 1.4.0 (manifest.json:5)',
+    }]);
+  });
+
+  it('should tell the setTooltip helper from the component methods', () => {
+    expect(rulesOf("setTooltip(el, 'Open');")).toEqual(['min-app-version']);
+    expect(rulesOf("button.setTooltip('Open');")).toEqual([]);
+  });
+
+  it('should accept recent APIs whose existence is checked before use', () => {
+    expect(rulesOf("if (typeof plugin.removeCommand === 'function') plugin.removeCommand(id);")).toEqual([]);
+    expect(rulesOf("if ('getFileByPath' in vault) vault.getFileByPath(path);")).toEqual([]);
+    expect(rulesOf("if (typeof plugin.removeCommand === 'function') vault.getFileByPath(path);")).toEqual(['min-app-version']);
+  });
+
+  it('should check that versions.json matches manifest.json', () => {
+    expect(checkGuidelines(project('', { versions: null }))[0].message).toBe('versions.json not found: Obsidian needs it to install the right version on older apps');
+    expect(checkGuidelines(project('', { versions: '{ "0.9.0": "0.15.0" }' }))[0].message).toBe('versions.json has no entry for version 1.0.0 of manifest.json');
+    expect(checkGuidelines(project('', { versions: '{\n  "1.0.0": "0.15.0"\n}' }))).toEqual([{
+      rule: 'versions-json',
+      severity: 'error',
+      file: 'versions.json',
+      line: 2,
+      message: 'versions.json maps 1.0.0 to 0.15.0 but the minAppVersion of manifest.json is 1.4.0',
+    }]);
+  });
+
+  it('should only run the enabled rules', () => {
+    const source = "el.innerHTML = html;\nconsole.log(value);";
+
+    expect(checkGuidelines(project(source), { 'no-inner-html': false }).map(issue => issue.rule)).toEqual(['no-console-log']);
+    expect(checkGuidelines(project(source), { 'no-inner-html': true, 'no-console-log': false }).map(issue => issue.rule)).toEqual(['no-inner-html']);
+  });
+
+  it('should compare versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.2')).toBeGreaterThan(0);
+    expect(compareVersions('1.5', '1.5.0')).toBe(0);
+    expect(compareVersions('0.15.0', '1.1.1')).toBeLessThan(0);
+  });
+});
@@ -1,5 +1,6 @@
 import fs from 'fs';
 import path from 'path';
+import { PluginValidator } from '../../scripts/lib/pluginValidator';
 
 // Mock fs and path modules
 jest.mock('fs');
@@ -17,138 +18,6 @@ mockedPath.resolve.mockImplementation((...args: string[]) => {
   return args.join('/');
 });
 
-interface Manifest {
-  id?: string;
-  name?: string;
-  description?: string;
-  author?: string;
-  version?: string;
-  minAppVersion?: string;
-  isDesktopOnly?: boolean;
-  authorUrl?: string;
-  fundingUrl?: string;
-  helpUrl?: string;
-}
-
-class PluginValidator {
-  errors: string[] = [];
-  warnings: string[] = [];
-  projectRoot: string;
-
-  constructor(projectRoot = path.resolve(__dirname, '..', '..')) {
-    this.projectRoot = projectRoot;
-  }
-
-  addError(message: string) {
-    this.errors.push(message);
-  }
-
-  addWarning(message: string) {
-    this.warnings.push(message);
-  }
-
-  async validateManifest() {
-    const manifestPath = path.join(this.projectRoot, 'manifest.json');
-
-    if (!mockedFs.existsSync(manifestPath)) {
-      this.addError('manifest.json not found at project root');
-      return;
-    }
-
-    let manifest: Manifest;
-    try {
-      const manifestContent = mockedFs.readFileSync(manifestPath, 'utf8');
-      manifest = JSON.parse(manifestContent);
-    } catch (_e) {
-      this.addError(`Could not parse manifest.json: ${(_e as Error).message}`);
-      return;
-    }
-
-    // Required fields validation
-    const requiredFields = ['id', 'name', 'description', 'author', 'version', 'minAppVersion', 'isDesktopOnly'];
-    for (const field of requiredFields) {
-      if (!Object.prototype.hasOwnProperty.call(manifest, field)) {
-        this.addError(`manifest.json is missing required field: ${field}`);
-      }
-    }
-
-    // Allowed fields validation
-    const allowedFields = [...requiredFields, 'authorUrl', 'fundingUrl', 'helpUrl'];
-    for (const field of Object.keys(manifest)) {
-      if (!allowedFields.includes(field)) {
-        this.addError(`manifest.json has invalid field: ${field}`);
-      }
-    }
-
-    // ID validation
-    if (manifest.id) {
-      if (manifest.id.toLowerCase().includes('obsidian')) {
-        this.addError('Plugin ID should not contain "obsidian"');
-      }
-      if (manifest.id.toLowerCase().endsWith('plugin')) {
-        this.addError('Plugin ID should not end with "plugin"');
-      }
-      if (!/^[a-z0-9-_]+$/.test(manifest.id)) {
-        this.addError('Plugin ID must contain only lowercase alphanumeric characters, dashes, and underscores');
-      }
-    }
-
-    // Name validation
-    if (manifest.name) {
-      if (manifest.name.toLowerCase().includes('obsidian')) {
-        this.addError('Plugin name should not contain "Obsidian"');
-      }
-      if (manifest.name.toLowerCase().endsWith('plugin')) {
-        this.addError('Plugin name should not end with "Plugin"');
-      }
-      if (manifest.name.toLowerCase().startsWith('obsi') || manifest.name.toLowerCase().endsWith('dian')) {
-        this.addError('Plugin name should not contain parts of "Obsidian"');
-      }
-    }
-
-    // Author validation
-    if (manifest.author && /^[a-zA-Z0-9_.+-]+@[a-zA-Z0-9-]+\.[a-zA-Z0-9-.]+$/.test(manifest.author)) {
-      this.addWarning('Consider not including email addresses in the author field');
-    }
-
-    // Description validation
-    if (manifest.description) {
-      if (manifest.description.toLowerCase().includes('obsidian')) {
-        this.addError('Plugin description should not contain "Obsidian"');
-      }
-      if (manifest.description.toLowerCase().includes('this plugin') ||
-          manifest.description.toLowerCase().includes('this is a plugin') ||
-          manifest.description.toLowerCase().includes('this plugin allows')) {
-        this.addWarning('Avoid phrases like "This is a plugin that does" in description');
-      }
-      if (manifest.description.length > 250) {
-        this.addError('Plugin description is too long (max 250 characters)');
-      }
-    }
-
-    // URL validations
-    if (manifest.authorUrl) {
-      if (manifest.authorUrl === 'https://obsidian.md') {
-        this.addError('authorUrl should not point to the Obsidian website');
-      }
-    }
-
-    if (Object.prototype.hasOwnProperty.call(manifest, 'fundingUrl')) {
-      if (manifest.fundingUrl === 'https://obsidian.md/pricing') {
-        this.addError('fundingUrl should not point to the Obsidian pricing page');
-      }
-      if (manifest.fundingUrl === '') {
-        this.addError('fundingUrl should be removed if empty, or contain a valid funding link');
-      }
-    }
-
-    // Version validation
-    if (manifest.version && !/^[0-9.]+$/.test(manifest.version)) {
-      this.addError('Version must contain only numbers and dots');
-    }
-  }
-}
-
 describe('PluginValidator - Manifest Validation', () => {
   let validator: PluginValidator;
 